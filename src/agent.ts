@@ -1,30 +1,118 @@
 import Anthropic from "@anthropic-ai/sdk";
-import { chat, type Message } from "./llm.js";
-import { getAllTools, getTool } from "./tools/index.js";
+import { chat, streamChat, type ChatOptions, type Message } from "./llm.js";
+import {
+    getAllTools,
+    getTool,
+    needsConfirmation,
+    type ToolContext,
+} from "./tools/index.js";
 import { config } from "./config.js";
 import { getContextManager } from "./context.js";
+import { scheduleExtraction } from "./extraction.js";
+
+// ─── Per-turn options (attachments, live Telegram updates) ───────────
+export interface AgentOptions {
+    /** Images sent with this message — shown to the model for this turn only. */
+    images?: Anthropic.ImageBlockParam[];
+    /** Streamed text of the model call in progress (full snapshot, not a delta). */
+    onText?: (text: string) => void;
+    /** A tool is about to run. */
+    onToolStart?: (toolName: string) => void;
+    /** Ask the user to approve a tool call; resolves to their decision. */
+    onConfirm?: (request: ConfirmationRequest) => Promise<boolean>;
+    /** Extra details logged with the user message (e.g. the voice file URL). */
+    metadata?: Record<string, unknown>;
+}
+
+export interface ConfirmationRequest {
+    toolName: string;
+    input: Record<string, unknown>;
+}
+
+// Per-tool timing and outcome, logged with each tool-result message
+interface ToolRun {
+    tool_use_id: string;
+    name: string;
+    duration_ms: number;
+    error?: string;
+    denied?: boolean;
+}
+
+// ─── In-flight runs (graceful shutdown) ──────────────────────────────
+// Every runAgent call — Telegram messages, scheduled tasks, briefings —
+// is tracked so shutdown can wait for it to finish and be logged.
+const inFlightRuns = new Set<Promise<unknown>>();
+
+export function getInFlightRunCount(): number {
+    return inFlightRuns.size;
+}
+
+/** Resolves once no agent run is in flight (runs started meanwhile included). */
+export async function waitForAgentRuns(): Promise<void> {
+    while (inFlightRuns.size > 0) {
+        await Promise.allSettled([...inFlightRuns]);
+    }
+}
+
+export async function runAgent(
+    userMessage: string,
+    context: ToolContext,
+    options: AgentOptions = {}
+): Promise<string> {
+    const run = runAgentTurn(userMessage, context, options).finally(async () => {
+        // Include the conversation_log writes of this turn
+        const contextManager = await getContextManager(context.userId, context.chatId);
+        await contextManager.flush();
+    });
+
+    inFlightRuns.add(run);
+    try {
+        const reply = await run;
+        // Facts from the turn are saved by a background extraction pass
+        scheduleExtraction(context.userId, context.chatId);
+        return reply;
+    } finally {
+        inFlightRuns.delete(run);
+    }
+}
 
-export async function runAgent(userMessage: string): Promise<string> {
+async function runAgentTurn(
+    userMessage: string,
+    context: ToolContext,
+    options: AgentOptions
+): Promise<string> {
     const tools = getAllTools();
-    const contextManager = await getContextManager();
+    const contextManager = await getContextManager(context.userId, context.chatId);
 
     // Add to context manager history
-    contextManager.addMessage("user", userMessage);
+    contextManager.addMessage("user", userMessage, options.metadata);
+
+    // The system prompt shows the memories most relevant to this message
+    const chatOptions: ChatOptions = { userId: context.userId, memoryQuery: userMessage };
 
-    // Auto-prune if approaching token limits
-    if (contextManager.needsPruning()) {
+    // Auto-prune if approaching token limits (system prompt and tools included)
+    if (await contextManager.needsPruning(tools, chatOptions)) {
         await contextManager.prune();
     }
 
-    // Build messages from context history
-    const messages: Message[] = contextManager.getMessages();
-
+    const turnStartedAt = Date.now();
+    let messages = attachImages(contextManager.getMessages(), options.images);
     let iterations = 0;
 
     while (iterations < config.maxAgentIterations) {
         iterations++;
 
-        const response = await chat(messages, tools);
+        // Tool results can be large — re-check the budget before each follow-up call
+        if (iterations > 1 && (await contextManager.exceedsBudget(messages, tools, chatOptions))) {
+            await contextManager.prune();
+            messages = attachImages(contextManager.getMessages(), options.images);
+        }
+
+        const callStartedAt = Date.now();
+        const response = options.onText
+            ? await streamChat(messages, tools, options.onText, chatOptions)
+            : await chat(messages, tools, chatOptions);
+        const callDurationMs = Date.now() - callStartedAt;
 
         // Check if the model wants to use tools
         const toolUseBlocks = response.content.filter(
@@ -40,51 +128,125 @@ export async function runAgent(userMessage: string): Promise<string> {
                 textBlocks.map((b) => b.text).join("\n") || "(no response)";
 
             // Add assistant response to context
-            contextManager.addMessage("assistant", finalText);
+            contextManager.addMessage("assistant", finalText, {
+                duration_ms: callDurationMs,
+                turn_duration_ms: Date.now() - turnStartedAt,
+                iterations,
+            });
             return finalText;
         }
 
-        // Append assistant message with tool-use blocks
-        messages.push({ role: "assistant", content: response.content });
+        // Record the assistant message with its tool-use blocks
+        const assistantMessage: Message = { role: "assistant", content: response.content };
+        contextManager.addMessage("assistant", response.content, { duration_ms: callDurationMs });
+        messages.push(assistantMessage);
 
         // Execute each tool and build tool results
         const toolResults: Anthropic.ToolResultBlockParam[] = [];
+        const toolRuns: ToolRun[] = [];
 
         for (const toolUse of toolUseBlocks) {
             const tool = getTool(toolUse.name);
+            const input = toolUse.input as Record<string, unknown>;
+            const run: ToolRun = { tool_use_id: toolUse.id, name: toolUse.name, duration_ms: 0 };
 
             let result: string;
             if (!tool) {
                 result = JSON.stringify({ error: `Unknown tool: ${toolUse.name}` });
+                run.error = "unknown tool";
+            } else if (
+                needsConfirmation(tool, input) &&
+                !(await confirmToolCall(toolUse.name, input, options))
+            ) {
+                console.log(`  🚫 Tool denied: ${toolUse.name}`);
+                result = JSON.stringify({
+                    error: options.onConfirm
+                        ? "The user denied this action. Do not retry it unless they ask."
+                        : "This action needs user approval, which is not possible in a background run.",
+                    denied: true,
+                });
+                run.denied = true;
             } else {
+                const toolStartedAt = Date.now();
                 try {
                     console.log(`  🔧 Tool: ${toolUse.name}`);
-                    result = await tool.execute(
-                        toolUse.input as Record<string, unknown>
-                    );
+                    options.onToolStart?.(toolUse.name);
+                    result = await tool.execute(input, context);
                 } catch (err) {
                     const msg = err instanceof Error ? err.message : String(err);
                     result = JSON.stringify({
                         error: `Tool execution failed: ${msg}`,
                     });
+                    run.error = msg;
                     console.error(`  ❌ Tool ${toolUse.name} failed:`, msg);
                 }
+                run.duration_ms = Date.now() - toolStartedAt;
             }
 
             toolResults.push({
                 type: "tool_result",
                 tool_use_id: toolUse.id,
                 content: result,
+                ...(run.error || run.denied ? { is_error: true } : {}),
             });
+            toolRuns.push(run);
         }
 
-        // Append tool results as a user message
-        messages.push({ role: "user", content: toolResults });
+        // Record tool results as a user message
+        const resultsMessage: Message = { role: "user", content: toolResults };
+        contextManager.addMessage("user", toolResults, { tools: toolRuns });
+        messages.push(resultsMessage);
     }
 
     // Safety limit reached
     console.warn(
         `⚠️ Agent loop hit max iterations (${config.maxAgentIterations})`
     );
-    return "I'm sorry, I got stuck in a loop. Please try rephrasing your question.";
+    const fallback = "I'm sorry, I got stuck in a loop. Please try rephrasing your question.";
+    contextManager.addMessage("assistant", fallback, {
+        error: "max_iterations",
+        turn_duration_ms: Date.now() - turnStartedAt,
+        iterations,
+    });
+    return fallback;
+}
+
+// ─── Request assembly ───────────────────────────────────────────────
+// Images are attached to this turn's user message — the last plain-text
+// user message — for this turn only. History keeps only the text, so
+// later turns rely on whatever the model said about the image.
+function attachImages(
+    messages: Message[],
+    images: Anthropic.ImageBlockParam[] | undefined
+): Message[] {
+    if (!images?.length) return messages;
+
+    for (let i = messages.length - 1; i >= 0; i--) {
+        const msg = messages[i]!;
+        if (msg.role === "user" && typeof msg.content === "string") {
+            messages[i] = {
+                role: "user",
+                content: [...images, { type: "text", text: msg.content }],
+            };
+            break;
+        }
+    }
+    return messages;
+}
+
+// ─── Tool approval ───────────────────────────────────────────────────
+async function confirmToolCall(
+    toolName: string,
+    input: Record<string, unknown>,
+    options: AgentOptions
+): Promise<boolean> {
+    if (!options.onConfirm) return false;
+
+    console.log(`  ⏸️ Awaiting approval: ${toolName}`);
+    try {
+        return await options.onConfirm({ toolName, input });
+    } catch (err) {
+        console.error(`  ❌ Approval request for ${toolName} failed:`, err);
+        return false;
+    }
 }
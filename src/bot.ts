@@ -1,9 +1,52 @@
-import { Bot } from "grammy";
+import { randomUUID } from "crypto";
+import type Anthropic from "@anthropic-ai/sdk";
+import { Bot, InlineKeyboard, InputFile, type Context, type Filter } from "grammy";
 import { config } from "./config.js";
-import { supabase } from "./supabase.js";
-import { runAgent } from "./agent.js";
+import { db } from "./db.js";
+import { runAgent, type AgentOptions, type ConfirmationRequest } from "./agent.js";
 import { getContextManager } from "./context.js";
+import { listExtractedItems, undoExtractedItem, type ExtractedItem } from "./extraction.js";
+import { findEntity } from "./knowledge_graph.js";
+import { exportGraph, GRAPH_EXPORT_FORMATS, type GraphExport, type GraphExportFormat } from "./graph_export.js";
+import {
+    approvePost,
+    editPost,
+    getPostRevisions,
+    markPostPublished,
+    pickVariant,
+    revisePost,
+    type Post,
+    type PostRevision,
+    type PostStatus,
+} from "./posts.js";
+import {
+    cancelScheduledPublish,
+    publishingAvailable,
+    publishPost,
+    schedulePostPublish,
+} from "./publishers.js";
+import { connectWithToken, getAuthorizationUrl, LINKEDIN_PROVIDER, oauthAvailable } from "./linkedin.js";
+import { deleteOAuthToken, getOAuthToken } from "./oauth_tokens.js";
+import { formatInTimeZone, parseUserTime } from "./timezone.js";
+import { addDays, calendarDate, formatCalendar, getCalendar } from "./content_calendar.js";
+import { buildPerformanceReport, formatPerformanceReport, importMetricsCsv, isMetricsCsv } from "./post_metrics.js";
+import {
+    addStyleSamples,
+    countStyleSamples,
+    describeFingerprint,
+    importLinkedInExport,
+    isSharesCsv,
+    learnStyle,
+} from "./style_learning.js";
 import { transcribeVoice } from "./voice.js";
+import { LiveMessage } from "./live_message.js";
+import {
+    extractDocumentText,
+    isSupportedDocument,
+    isVisionImage,
+    isZipArchive,
+    type VisionMediaType,
+} from "./documents.js";
 
 export const bot = new Bot(config.telegramToken);
 
@@ -22,46 +65,423 @@ bot.use(async (ctx, next) => {
 // ─── /compact command ────────────────────────────────────────────────
 bot.command("compact", async (ctx) => {
     await ctx.replyWithChatAction("typing");
-    const cm = await getContextManager();
+    const cm = await getContextManager(ctx.from!.id, ctx.chat.id);
     const result = await cm.compact();
     await ctx.reply(`🗜️ ${result}`);
 });
 
+// ─── /memories command ───────────────────────────────────────────────
+// Review what background extraction saved recently; each item can be undone.
+bot.command("memories", async (ctx) => {
+    const items = await listExtractedItems(ctx.from!.id);
+    await ctx.reply(renderExtractedItems(items), {
+        reply_markup: items.length > 0 ? undoKeyboard(items) : undefined,
+    });
+});
+
+bot.callbackQuery(/^undo_extract:(\d+)$/, async (ctx) => {
+    try {
+        const item = await undoExtractedItem(ctx.from.id, Number(ctx.match[1]));
+        await ctx.answerCallbackQuery({ text: `Undone: ${item.summary}`.slice(0, 200) });
+    } catch (err) {
+        await ctx.answerCallbackQuery({
+            text: err instanceof Error ? err.message.slice(0, 200) : "Undo failed.",
+        });
+    }
+
+    const items = await listExtractedItems(ctx.from.id);
+    await ctx
+        .editMessageText(renderExtractedItems(items), {
+            reply_markup: items.length > 0 ? undoKeyboard(items) : undefined,
+        })
+        .catch(() => {}); // Unchanged list — nothing to update
+});
+
+// ─── /graph command ──────────────────────────────────────────────────
+// /graph [entity] [png|svg|dot|mermaid|jsonld] — the whole knowledge
+// graph, or the part within two hops of an entity. Without GraphViz the
+// image falls back to a DOT file.
+bot.command("graph", async (ctx) => {
+    const words = ctx.match.trim().split(/\s+/).filter(Boolean);
+    const last = words.at(-1)?.toLowerCase();
+    const format = GRAPH_EXPORT_FORMATS.includes(last as GraphExportFormat)
+        ? (words.pop()!.toLowerCase() as GraphExportFormat)
+        : "png";
+    const name = words.join(" ");
+
+    const entity = name ? await findEntity(ctx.from!.id, name, undefined, { fuzzy: true }) : undefined;
+    if (name && !entity) {
+        await ctx.reply(`🕸️ No entity called "${name}" in the knowledge graph.`);
+        return;
+    }
+
+    await ctx.replyWithChatAction("upload_document");
+    const options = { centerId: entity?.id, name: entity?.name };
+    let exported: GraphExport;
+    let renderError: string | undefined;
+    try {
+        exported = await exportGraph(ctx.from!.id, format, options);
+    } catch (err) {
+        if (format !== "png" && format !== "svg") throw err;
+        renderError = err instanceof Error ? err.message : String(err);
+        console.warn("⚠️ Graph rendering failed:", renderError);
+        exported = await exportGraph(ctx.from!.id, "dot", options);
+    }
+
+    if (exported.graph.entities.length === 0) {
+        await ctx.reply("🕸️ The knowledge graph is empty.");
+        return;
+    }
+    await sendGraphExport(ctx.chat.id, exported, entity?.name);
+    if (renderError) await ctx.reply(`⚠️ Could not render an image, sent DOT instead: ${renderError}`);
+});
+
+/** Send an exported graph to a chat: PNGs as a photo, everything else as a file. */
+export async function sendGraphExport(chatId: number, exported: GraphExport, centerName?: string): Promise<void> {
+    const { graph } = exported;
+    const caption = [
+        `🕸️ ${graph.entities.length} entities, ${graph.relationships.length} relationships`,
+        centerName ? ` around ${centerName}` : "",
+        graph.truncated ? " (truncated)" : "",
+    ].join("");
+    if (exported.format === "png") {
+        try {
+            await bot.api.sendPhoto(chatId, new InputFile(exported.data, exported.filename), { caption });
+            return;
+        } catch {
+            // Too large or too wide for a photo — send the file instead
+        }
+    }
+    await bot.api.sendDocument(chatId, new InputFile(exported.data, exported.filename), { caption });
+}
+
+// ─── /linkedin command ───────────────────────────────────────────────
+// /linkedin — connection status and a connect link
+// /linkedin token <access token> — connect with a developer-portal token
+// /linkedin disconnect — forget the stored token
+bot.command("linkedin", async (ctx) => {
+    const userId = ctx.from!.id;
+    const [subcommand, argument] = ctx.match.trim().split(/\s+/, 2);
+
+    try {
+        if (subcommand === "token") {
+            // The token should not linger in the chat history
+            await ctx.deleteMessage().catch(() => {});
+            if (!argument) {
+                await ctx.reply("Usage: /linkedin token <access token>");
+                return;
+            }
+            const token = await connectWithToken(userId, argument);
+            await ctx.reply(`🔗 LinkedIn connected${token.accountName ? ` as ${token.accountName}` : ""}.`);
+            return;
+        }
+
+        if (subcommand === "disconnect") {
+            const removed = await deleteOAuthToken(userId, LINKEDIN_PROVIDER);
+            await ctx.reply(removed ? "🔌 LinkedIn disconnected." : "No LinkedIn account was connected.");
+            return;
+        }
+
+        const token = await getOAuthToken(userId, LINKEDIN_PROVIDER);
+        const lines = [
+            token
+                ? `🔗 LinkedIn: connected${token.accountName ? ` as ${token.accountName}` : ""}` +
+                  (token.expiresAt ? ` (token valid until ${formatInTimeZone(new Date(token.expiresAt), config.postTimezone)})` : "")
+                : "🔗 LinkedIn: not connected",
+            config.publisher === "linkedin"
+                ? "Approved posts can be published from their buttons."
+                : `Publishing is set to "${config.publisher}" (PUBLISHER).`,
+        ];
+        if (!oauthAvailable()) {
+            lines.push("", "To connect, send /linkedin token <access token> with a token from the LinkedIn developer portal.");
+        }
+
+        await ctx.reply(lines.join("\n"), {
+            reply_markup: oauthAvailable()
+                ? new InlineKeyboard().url(token ? "Reconnect LinkedIn" : "Connect LinkedIn", await getAuthorizationUrl(userId))
+                : undefined,
+        });
+    } catch (err) {
+        await ctx.reply(`❌ ${err instanceof Error ? err.message : String(err)}`);
+    }
+});
+
+// ─── /calendar command ───────────────────────────────────────────────
+// /calendar [days] — the content calendar from today (default 14 days)
+bot.command("calendar", async (ctx) => {
+    const days = Math.min(Math.max(Number(ctx.match.trim()) || 14, 1), 62);
+    const from = calendarDate();
+    try {
+        const view = await getCalendar(ctx.from!.id, from, addDays(from, days - 1));
+        for (const part of splitMessage(formatCalendar(view), 4096)) {
+            await ctx.reply(part);
+        }
+    } catch (err) {
+        await ctx.reply(`❌ ${err instanceof Error ? err.message : String(err)}`);
+    }
+});
+
+// ─── /performance command ────────────────────────────────────────────
+// /performance [week|month] — how the published posts did
+bot.command("performance", async (ctx) => {
+    const period = ctx.match.trim().toLowerCase() === "month" ? "month" : "week";
+    try {
+        const report = await buildPerformanceReport(ctx.from!.id, period);
+        await ctx.reply(formatPerformanceReport(report));
+    } catch (err) {
+        await ctx.reply(`❌ ${err instanceof Error ? err.message : String(err)}`);
+    }
+});
+
+// ─── /learnstyle command ─────────────────────────────────────────────
+// /learnstyle [name] — collect forwarded or pasted posts until /done, then
+// learn a style (default name "my_style") from them and earlier samples
+bot.command("learnstyle", async (ctx) => {
+    const userId = ctx.from!.id;
+    const name = ctx.match.trim() || "my_style";
+    styleCollections.set(ctx.chat.id, { userId, name, added: 0, expires: Date.now() + POST_INPUT_TIMEOUT_MS });
+
+    const saved = await countStyleSamples(userId).catch(() => 0);
+    await ctx.reply(
+        `📚 Forward or paste your LinkedIn posts, one per message. Send /done to learn the style "${name}" from them, or /cancel.\n` +
+            `Your LinkedIn data export (.zip) or its Shares.csv works too.` +
+            (saved > 0 ? `\n(${saved} post${saved === 1 ? " is" : "s are"} already saved and will be included.)` : "")
+    );
+});
+
+// ─── LinkedIn post review buttons ────────────────────────────────────
+// Approve, pick one of two A/B variants, rewrite (regenerate / shorter /
+// new hook), edit by hand,
+// publish (now or scheduled) or mark published, or show the revision
+// history of a delivered post.
+bot.callbackQuery(/^post:(approve|pick|regenerate|shorter|hook|edit|publish|publish_now|schedule|unschedule|history):(\d+)$/, async (ctx) => {
+    const action = ctx.match[1]!;
+    const postId = Number(ctx.match[2]);
+    const userId = ctx.from.id;
+    const chatId = ctx.chat?.id ?? userId;
+
+    try {
+        switch (action) {
+            case "approve":
+            case "publish":
+            case "unschedule": {
+                const post =
+                    action === "approve"
+                        ? await approvePost(userId, postId)
+                        : action === "publish"
+                          ? await markPostPublished(userId, postId)
+                          : await cancelScheduledPublish(userId, postId);
+                await ctx.answerCallbackQuery({ text: POST_STATUS_LABELS[post.status] });
+                await ctx
+                    .editMessageText(renderPost(post), { reply_markup: postKeyboard(post) })
+                    .catch(() => ctx.editMessageReplyMarkup({ reply_markup: postKeyboard(post) }));
+                break;
+            }
+            case "regenerate":
+            case "shorter":
+            case "hook": {
+                await ctx.answerCallbackQuery({ text: "Rewriting..." });
+                await ctx.editMessageReplyMarkup({ reply_markup: undefined }).catch(() => {});
+                // Model calls run outside grammY's update loop, like agent turns
+                enqueueForChat(chatId, async () => {
+                    await bot.api.sendChatAction(chatId, "typing");
+                    try {
+                        const post = await revisePost(userId, postId, action);
+                        await sendPostForReview(chatId, post);
+                    } catch (err) {
+                        await bot.api.sendMessage(
+                            chatId,
+                            `❌ Rewrite failed: ${err instanceof Error ? err.message : String(err)}`,
+                            { reply_markup: new InlineKeyboard().text("🔄 Try again", `post:${action}:${postId}`) }
+                        );
+                    }
+                });
+                break;
+            }
+            case "publish_now": {
+                await ctx.answerCallbackQuery({ text: "Publishing..." });
+                await ctx.editMessageReplyMarkup({ reply_markup: undefined }).catch(() => {});
+                enqueueForChat(chatId, async () => {
+                    try {
+                        const post = await publishPost(userId, postId);
+                        await sendPostForReview(chatId, post);
+                    } catch (err) {
+                        await bot.api.sendMessage(
+                            chatId,
+                            `❌ Publishing failed: ${err instanceof Error ? err.message : String(err)}`,
+                            { reply_markup: new InlineKeyboard().text("🚀 Try again", `post:publish_now:${postId}`) }
+                        );
+                    }
+                });
+                break;
+            }
+            case "edit":
+            case "schedule": {
+                pendingPostInputs.set(chatId, { kind: action, userId, postId, expires: Date.now() + POST_INPUT_TIMEOUT_MS });
+                await ctx.answerCallbackQuery();
+                const prompt =
+                    action === "edit"
+                        ? `✍️ Send the edited text of post #${postId} as your next message (or /cancel).`
+                        : `⏰ When should post #${postId} go live? Send a time in ${config.postTimezone}, e.g. "09:30", "tomorrow 08:00" or "2026-03-14 12:00" (or /cancel).`;
+                await ctx.reply(prompt, { reply_markup: { force_reply: true } });
+                break;
+            }
+            case "pick": {
+                const post = await pickVariant(userId, postId);
+                await ctx.answerCallbackQuery({ text: "Kept this variant — the other one is discarded." });
+                await ctx
+                    .editMessageText(renderPost(post), { reply_markup: postKeyboard(post) })
+                    .catch(() => ctx.editMessageReplyMarkup({ reply_markup: postKeyboard(post) }));
+                break;
+            }
+            case "history": {
+                await ctx.answerCallbackQuery();
+                const revisions = await getPostRevisions(userId, postId);
+                for (const chunk of splitMessage(renderRevisions(postId, revisions), 4096)) {
+                    await ctx.reply(chunk);
+                }
+                break;
+            }
+        }
+    } catch (err) {
+        await ctx.answerCallbackQuery({
+            text: err instanceof Error ? err.message.slice(0, 200) : "Something went wrong.",
+        });
+    }
+});
+
+// ─── Tool approval buttons ───────────────────────────────────────────
+bot.callbackQuery(/^confirm:([\w-]+):(yes|no)$/, async (ctx) => {
+    const [, id, answer] = ctx.match;
+    const pending = pendingConfirmations.get(id!);
+
+    if (!pending || pending.userId !== ctx.from.id) {
+        await ctx.answerCallbackQuery({ text: "This request has expired." });
+        return;
+    }
+
+    const approved = answer === "yes";
+    pending.resolve(approved);
+    await ctx.answerCallbackQuery({ text: approved ? "Approved" : "Denied" });
+});
+
 // ─── Message handler ─────────────────────────────────────────────────
-bot.on("message:text", async (ctx) => {
+// Agent turns run outside grammY's update loop (queued per chat) so that
+// approval button presses can be handled while a turn is waiting on them.
+bot.on("message:text", (ctx) => {
+    // The reply to "Edit manually" / "Schedule" is post input, not a message for the agent
+    const pending = pendingPostInputs.get(ctx.chat.id);
+    if (pending && pending.userId === ctx.from.id) {
+        pendingPostInputs.delete(ctx.chat.id);
+        if (pending.expires > Date.now()) {
+            enqueueForChat(ctx.chat.id, () => applyPostInput(ctx, pending));
+            return;
+        }
+    }
+    // While /learnstyle collects, messages are posts to learn from
+    const collecting = styleCollections.get(ctx.chat.id);
+    if (collecting && collecting.userId === ctx.from.id) {
+        if (collecting.expires > Date.now()) {
+            enqueueForChat(ctx.chat.id, () => collectStyleSample(ctx, collecting));
+            return;
+        }
+        styleCollections.delete(ctx.chat.id);
+        // A late /done or /cancel still belongs to the collection, not the agent
+        const command = ctx.message.text.trim();
+        if (command === "/done" || command === "/cancel") {
+            enqueueForChat(ctx.chat.id, async () => {
+                await ctx.reply(
+                    `Collecting posts for "${collecting.name}" timed out. The ${collecting.added} saved so far are kept — send /learnstyle to start again.`
+                );
+            });
+            return;
+        }
+    }
+    enqueueForChat(ctx.chat.id, () => handleTextMessage(ctx));
+});
+
+async function applyPostInput(ctx: Filter<Context, "message:text">, pending: PendingPostInput): Promise<void> {
+    const text = ctx.message.text;
+    if (text.trim() === "/cancel") {
+        await ctx.reply(pending.kind === "edit" ? "Edit cancelled." : "Scheduling cancelled.");
+        return;
+    }
+    try {
+        if (pending.kind === "edit") {
+            await sendPostForReview(ctx.chat.id, await editPost(ctx.from.id, pending.postId, text));
+            return;
+        }
+
+        const at = parseUserTime(text, config.postTimezone);
+        if (!at) {
+            // Ask again rather than dropping the request
+            pendingPostInputs.set(ctx.chat.id, { ...pending, expires: Date.now() + POST_INPUT_TIMEOUT_MS });
+            await ctx.reply(`That is not a time I understand. Try "09:30", "tomorrow 08:00" or "2026-03-14 12:00" (or /cancel).`);
+            return;
+        }
+        await sendPostForReview(ctx.chat.id, await schedulePostPublish(ctx.from.id, pending.postId, at));
+    } catch (err) {
+        await ctx.reply(`❌ ${err instanceof Error ? err.message : String(err)}`);
+    }
+}
+
+async function collectStyleSample(ctx: Filter<Context, "message:text">, collecting: StyleCollection): Promise<void> {
+    const text = ctx.message.text.trim();
+    if (text === "/cancel") {
+        styleCollections.delete(ctx.chat.id);
+        await ctx.reply("Stopped collecting posts. The ones saved so far are kept.");
+        return;
+    }
+    if (text === "/done") {
+        styleCollections.delete(ctx.chat.id);
+        const progress = await ctx.reply("📚 Learning your style... 🧠");
+        try {
+            const learned = await learnStyle(collecting.userId, collecting.name);
+            await ctx.api.editMessageText(
+                ctx.chat.id,
+                progress.message_id,
+                `🎨 Style "${learned.name}" learned from ${learned.samples} posts.\n\n${describeFingerprint(learned.fingerprint)}\n\n` +
+                    `Ask me to make it your default style, or to use it for certain topics, pillars or weekdays.`
+            );
+            for (const chunk of splitMessage(learned.style_guide, 4096)) {
+                await ctx.reply(chunk);
+            }
+        } catch (err) {
+            await ctx.api.editMessageText(ctx.chat.id, progress.message_id, `❌ ${err instanceof Error ? err.message : String(err)}`);
+        }
+        return;
+    }
+
+    try {
+        const result = await addStyleSamples(collecting.userId, [
+            { content: ctx.message.text, source: ctx.message.forward_origin ? "forward" : "paste" },
+        ]);
+        collecting.added += result.added;
+        collecting.expires = Date.now() + POST_INPUT_TIMEOUT_MS;
+        await ctx.reply(
+            result.added > 0
+                ? `➕ Saved (${collecting.added} so far). Send more, or /done.`
+                : result.too_short > 0
+                  ? "That is too short to be a post — skipped."
+                  : "Already saved — skipped."
+        );
+    } catch (err) {
+        await ctx.reply(`❌ ${err instanceof Error ? err.message : String(err)}`);
+    }
+}
+
+async function handleTextMessage(ctx: Filter<Context, "message:text">): Promise<void> {
     const userMessage = ctx.message.text;
     const userName = ctx.from.first_name || "User";
 
     console.log(`📨 ${userName}: ${userMessage}`);
 
     try {
-        // Show "AI thinking..." message while processing
+        // Show "AI thinking..." message — it is edited live while the agent works
         const thinkingMsg = await ctx.reply("🧠 AI thinking...");
 
-        const response = await runAgent(userMessage);
-
-        // Delete the thinking message
-        try {
-            await ctx.api.deleteMessage(ctx.chat.id, thinkingMsg.message_id);
-        } catch { /* ignore if already deleted */ }
-
-        // Log conversation to Supabase
-        await supabase
-            .from("conversation_log")
-            .insert([
-                { role: "user", content: userMessage },
-                { role: "assistant", content: response },
-            ]);
-
-        // Telegram has a 4096 char limit per message — split if needed
-        if (response.length <= 4096) {
-            await ctx.reply(response, { parse_mode: "Markdown" });
-        } else {
-            const chunks = splitMessage(response, 4096);
-            for (const chunk of chunks) {
-                await ctx.reply(chunk, { parse_mode: "Markdown" });
-            }
-        }
+        // The agent logs the turn (including tool calls) to conversation_log
+        const response = await replyWithAgent(ctx, userMessage, thinkingMsg.message_id);
 
         console.log(`📤 Response sent (${response.length} chars)`);
     } catch (err) {
@@ -73,10 +493,14 @@ bot.on("message:text", async (ctx) => {
             "Sorry, something went wrong processing your message. Please try again."
         );
     }
-});
+}
 
 // ─── Voice message handler ───────────────────────────────────────────
-bot.on("message:voice", async (ctx) => {
+bot.on("message:voice", (ctx) => {
+    enqueueForChat(ctx.chat.id, () => handleVoiceMessage(ctx));
+});
+
+async function handleVoiceMessage(ctx: Filter<Context, "message:voice">): Promise<void> {
     const userName = ctx.from.first_name || "User";
 
     // Check if Groq key is configured
@@ -86,34 +510,34 @@ bot.on("message:voice", async (ctx) => {
     }
 
     try {
-        // Show "AI thinking..." message while processing
+        // Show "AI thinking..." message — it is edited live while the agent works
         const thinkingMsg = await ctx.reply("🎙️ Listening... 🧠 AI thinking...");
 
         // Download the voice file from Telegram
         const file = await ctx.getFile();
         const fileUrl = `https://api.telegram.org/file/bot${config.telegramToken}/${file.file_path}`;
 
-        // Download voice data for Supabase Storage upload
+        // Download voice data for file storage upload
         const voiceRes = await fetch(fileUrl);
         if (!voiceRes.ok) {
             throw new Error(`Failed to download voice file: ${voiceRes.status}`);
         }
         const voiceBuffer = Buffer.from(await voiceRes.arrayBuffer());
 
-        // Upload to Supabase Storage
+        // Upload to file storage (Supabase Storage or local store)
         let voiceStorageUrl: string | null = null;
         const storagePath = `voice/${Date.now()}_${Math.random().toString(36).slice(2, 8)}.ogg`;
-        const { error: uploadErr } = await supabase.storage
+        const { error: uploadErr } = await db.storage
             .from("voice-messages")
             .upload(storagePath, voiceBuffer, { contentType: "audio/ogg" });
 
         if (!uploadErr) {
-            const { data: urlData } = supabase.storage
+            const { data: urlData } = db.storage
                 .from("voice-messages")
                 .getPublicUrl(storagePath);
             voiceStorageUrl = urlData.publicUrl;
         } else {
-            console.warn("⚠️ Voice upload to Supabase Storage failed:", uploadErr.message);
+            console.warn("⚠️ Voice upload to storage failed:", uploadErr.message);
         }
 
         // Transcribe via Groq Whisper (re-use downloaded buffer)
@@ -122,33 +546,10 @@ bot.on("message:voice", async (ctx) => {
 
         // Run through the agent like a normal text message
         const agentInput = `[Voice message] ${transcription}`;
-        const response = await runAgent(agentInput);
-
-        // Delete the thinking message
-        try {
-            await ctx.api.deleteMessage(ctx.chat.id, thinkingMsg.message_id);
-        } catch { /* ignore if already deleted */ }
-
-        // Log conversation to Supabase (with optional voice URL)
-        const voiceMeta = voiceStorageUrl
-            ? `\n[Voice file: ${voiceStorageUrl}]`
-            : "";
-        await supabase
-            .from("conversation_log")
-            .insert([
-                { role: "user", content: agentInput + voiceMeta },
-                { role: "assistant", content: response },
-            ]);
-
-        // Send response (split if needed)
-        if (response.length <= 4096) {
-            await ctx.reply(response, { parse_mode: "Markdown" });
-        } else {
-            const chunks = splitMessage(response, 4096);
-            for (const chunk of chunks) {
-                await ctx.reply(chunk, { parse_mode: "Markdown" });
-            }
-        }
+        // Voice file URL is logged with the message in conversation_log
+        const response = await replyWithAgent(ctx, agentInput, thinkingMsg.message_id, {
+            metadata: voiceStorageUrl ? { voice_url: voiceStorageUrl } : undefined,
+        });
 
         console.log(`📤 Response sent (${response.length} chars)`);
     } catch (err) {
@@ -159,14 +560,423 @@ bot.on("message:voice", async (ctx) => {
             "Sorry, I couldn't process your voice message. Please try again or send it as text."
         );
     }
+}
+
+// ─── Photo message handler ───────────────────────────────────────────
+bot.on("message:photo", (ctx) => {
+    enqueueForChat(ctx.chat.id, () => handlePhotoMessage(ctx));
+});
+
+async function handlePhotoMessage(ctx: Filter<Context, "message:photo">): Promise<void> {
+    const userName = ctx.from.first_name || "User";
+    const caption = ctx.message.caption ?? "";
+
+    console.log(`🖼️ ${userName} [Photo]: ${caption || "(no caption)"}`);
+
+    try {
+        const thinkingMsg = await ctx.reply("🖼️ Looking... 🧠 AI thinking...");
+
+        // Telegram sends several sizes — the last one is the largest.
+        // Photos are always re-encoded as JPEG.
+        const largest = ctx.message.photo[ctx.message.photo.length - 1]!;
+        const imageBuffer = await downloadTelegramFile(ctx, largest.file_id);
+
+        const agentInput = `[Photo] ${caption || "(no caption)"}`;
+        const response = await replyWithAgent(ctx, agentInput, thinkingMsg.message_id, {
+            images: [imageBlock(imageBuffer, "image/jpeg")],
+        });
+
+        console.log(`📤 Response sent (${response.length} chars)`);
+    } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.error("❌ Photo processing error:", msg);
+
+        await ctx.reply("Sorry, I couldn't process that photo. Please try again.");
+    }
+}
+
+// ─── Document message handler ────────────────────────────────────────
+// Images sent "as file" go to Claude Vision; PDF, DOCX, TXT and Markdown
+// are converted to text locally and passed to the agent inline. LinkedIn
+// analytics CSVs and data exports are imported instead.
+bot.on("message:document", (ctx) => {
+    enqueueForChat(ctx.chat.id, () => handleDocumentMessage(ctx));
 });
 
+async function handleDocumentMessage(ctx: Filter<Context, "message:document">): Promise<void> {
+    const userName = ctx.from.first_name || "User";
+    const doc = ctx.message.document;
+    const fileName = doc.file_name ?? "document";
+    const caption = ctx.message.caption ?? "";
+
+    console.log(`📎 ${userName} [Document]: ${fileName}`);
+
+    const isImage = isVisionImage(doc.mime_type);
+    const isZip = isZipArchive(fileName, doc.mime_type);
+    if (!isImage && !isZip && !isSupportedDocument(fileName, doc.mime_type)) {
+        await ctx.reply("📎 I can read PDF, DOCX, TXT and Markdown files, images, and your LinkedIn data export (.zip).");
+        return;
+    }
+
+    // Bots can only download files up to 20 MB
+    if ((doc.file_size ?? 0) > 20 * 1024 * 1024) {
+        await ctx.reply("📎 That file is too large — Telegram limits bots to 20 MB.");
+        return;
+    }
+
+    try {
+        const thinkingMsg = await ctx.reply("📎 Reading... 🧠 AI thinking...");
+        const buffer = await downloadTelegramFile(ctx, doc.file_id);
+
+        // A LinkedIn analytics export is imported, not read out to the agent
+        if (fileName.toLowerCase().endsWith(".csv") && isMetricsCsv(buffer.toString("utf8"))) {
+            await ctx.api.editMessageText(ctx.chat.id, thinkingMsg.message_id, await importMetricsFile(ctx.from.id, buffer.toString("utf8")));
+            return;
+        }
+        // So is a LinkedIn data export, whose posts become style samples
+        if (isZip || (fileName.toLowerCase().endsWith(".csv") && isSharesCsv(buffer.toString("utf8")))) {
+            await ctx.api.editMessageText(ctx.chat.id, thinkingMsg.message_id, await importExportFile(ctx.chat.id, ctx.from.id, buffer, isZip));
+            return;
+        }
+
+        let agentInput: string;
+        let images: Anthropic.ImageBlockParam[] | undefined;
+        if (isImage) {
+            agentInput = `[Image file: ${fileName}] ${caption || "(no caption)"}`;
+            images = [imageBlock(buffer, doc.mime_type as VisionMediaType)];
+        } else {
+            const { text, truncated } = await extractDocumentText(buffer, fileName, doc.mime_type);
+            agentInput =
+                `[Document: ${fileName}]${caption ? ` ${caption}` : ""}\n\n` +
+                `--- Extracted text${truncated ? " (truncated)" : ""} ---\n${text}`;
+        }
+
+        const response = await replyWithAgent(ctx, agentInput, thinkingMsg.message_id, {
+            images,
+            metadata: { file_name: fileName },
+        });
+
+        console.log(`📤 Response sent (${response.length} chars)`);
+    } catch (err) {
+        const msg = err instanceof Error ? err.message : String(err);
+        console.error("❌ Document processing error:", msg);
+
+        await ctx.reply("Sorry, I couldn't read that file. Please try again or paste the text.");
+    }
+}
+
+async function importMetricsFile(userId: number, csv: string): Promise<string> {
+    const result = await importMetricsCsv(userId, csv);
+    const lines = [`📊 Metrics imported for ${result.imported} post${result.imported === 1 ? "" : "s"}.`];
+    if (result.unmatched.length > 0) {
+        lines.push("", `No published post found for ${result.unmatched.length} row(s):`, ...result.unmatched.slice(0, 10).map((u) => `• ${u}`));
+    }
+    if (result.imported > 0) lines.push("", "See /performance for the report.");
+    return lines.join("\n");
+}
+
+async function importExportFile(chatId: number, userId: number, file: Buffer, isZip: boolean): Promise<string> {
+    try {
+        const result = await importLinkedInExport(userId, file, isZip);
+        const skipped = [
+            result.duplicates > 0 ? `${result.duplicates} already saved` : "",
+            result.too_short > 0 ? `${result.too_short} too short` : "",
+        ].filter(Boolean);
+        return (
+            `📚 ${result.posts} post${result.posts === 1 ? "" : "s"} found in your LinkedIn export — ${result.added} saved to learn your style from` +
+            (skipped.length > 0 ? ` (${skipped.join(", ")})` : "") +
+            ".\n\n" +
+            (styleCollections.has(chatId) ? "Send /done to learn the style." : 'Send /learnstyle and then /done, or ask me to "learn my style".')
+        );
+    } catch (err) {
+        return `❌ ${err instanceof Error ? err.message : String(err)}`;
+    }
+}
+
 // ─── Error handler ───────────────────────────────────────────────────
 bot.catch((err) => {
     console.error("❌ Bot error:", err.message);
 });
 
 // ─── Helpers ─────────────────────────────────────────────────────────
+
+const EXTRACTED_KIND_ICONS: Record<ExtractedItem["kind"], string> = {
+    memory: "🧠",
+    profile: "👤",
+    entity: "🔹",
+    relationship: "🔗",
+};
+
+function renderExtractedItems(items: ExtractedItem[]): string {
+    if (items.length === 0) return "🧲 Nothing auto-saved to review.";
+    const lines = items.map(
+        (item, i) => `${i + 1}. ${EXTRACTED_KIND_ICONS[item.kind]} ${item.summary}`
+    );
+    return `🧲 Recently auto-saved from our conversations:\n\n${lines.join("\n")}\n\nTap a number to undo it.`;
+}
+
+function undoKeyboard(items: ExtractedItem[]): InlineKeyboard {
+    const keyboard = new InlineKeyboard();
+    items.forEach((item, i) => {
+        keyboard.text(`↩️ ${i + 1}`, `undo_extract:${item.id}`);
+        if (i % 5 === 4) keyboard.row();
+    });
+    return keyboard;
+}
+
+const POST_STATUS_LABELS: Record<PostStatus, string> = {
+    draft: "📝 Draft",
+    revised: "✏️ Revised",
+    approved: "✅ Approved",
+    publishing: "⏳ Publishing",
+    published: "📤 Published",
+};
+
+const REVISION_LABELS: Record<PostRevision["action"], string> = {
+    generated: "generated",
+    regenerate: "regenerated",
+    shorter: "shortened",
+    hook: "new hook",
+    manual: "edited by hand",
+};
+
+// Plain text: the post is meant to be copied to LinkedIn as it is shown
+function renderPost(post: Post): string {
+    const status = [`${post.variant ? `Variant ${post.variant} · ` : ""}${POST_STATUS_LABELS[post.status]} · post #${post.id}`];
+    if (post.style_score !== null && post.status !== "published") {
+        status.push(`🎯 Style match ${post.style_score}/100`);
+    }
+    if (post.status === "approved" && post.publish_at) {
+        status.push(`⏰ Goes live ${formatInTimeZone(new Date(post.publish_at), config.postTimezone)} (${config.postTimezone})`);
+    }
+    if (post.status === "published" && (post.external_url || post.external_urn)) {
+        status.push(`🔗 ${post.external_url ?? post.external_urn}`);
+    }
+    if (post.status === "approved" && post.publish_error) {
+        status.push(`⚠️ Last publish attempt failed: ${post.publish_error}`);
+    }
+    return `${status.join("\n")}\n\n${post.content}`;
+}
+
+function postKeyboard(post: Post): InlineKeyboard {
+    const history = (k: InlineKeyboard) => k.text("🕘 History", `post:history:${post.id}`);
+    if (post.variant) {
+        return history(new InlineKeyboard().text(`🏆 Pick variant ${post.variant}`, `post:pick:${post.id}`));
+    }
+    switch (post.status) {
+        case "publishing":
+        case "published":
+            return history(new InlineKeyboard());
+        case "approved": {
+            const keyboard = new InlineKeyboard();
+            if (publishingAvailable()) {
+                if (post.publish_at) keyboard.text("✖️ Cancel schedule", `post:unschedule:${post.id}`).row();
+                else keyboard.text("🚀 Publish now", `post:publish_now:${post.id}`).text("⏰ Schedule", `post:schedule:${post.id}`).row();
+            }
+            return history(keyboard.text("📤 Mark published", `post:publish:${post.id}`));
+        }
+        default:
+            return history(
+                new InlineKeyboard()
+                    .text("✅ Approve", `post:approve:${post.id}`)
+                    .text("🔄 Regenerate", `post:regenerate:${post.id}`)
+                    .row()
+                    .text("✂️ Shorter", `post:shorter:${post.id}`)
+                    .text("🪝 Change hook", `post:hook:${post.id}`)
+                    .row()
+                    .text("✍️ Edit manually", `post:edit:${post.id}`)
+            );
+    }
+}
+
+function renderRevisions(postId: number, revisions: PostRevision[]): string {
+    if (revisions.length === 0) return `🕘 Post #${postId} has no saved revisions.`;
+    const entries = revisions.map((r) => {
+        const when = new Date(r.created_at).toISOString().slice(0, 16).replace("T", " ");
+        return `v${r.revision} · ${REVISION_LABELS[r.action] ?? r.action} · ${when}\n${r.content}`;
+    });
+    return `🕘 Post #${postId} history\n\n${entries.join("\n\n———\n\n")}`;
+}
+
+/**
+ * Send a post with its review buttons. Posts longer than one message are
+ * split; the buttons go with the last part.
+ */
+export async function sendPostForReview(chatId: number, post: Post): Promise<void> {
+    const chunks = splitMessage(renderPost(post), 4096);
+    for (const [i, chunk] of chunks.entries()) {
+        await bot.api.sendMessage(chatId, chunk, {
+            reply_markup: i === chunks.length - 1 ? postKeyboard(post) : undefined,
+        });
+    }
+}
+
+// "Edit manually" and "Schedule" wait for the user's next message in that chat
+interface PendingPostInput {
+    kind: "edit" | "schedule";
+    userId: number;
+    postId: number;
+    expires: number;
+}
+
+const POST_INPUT_TIMEOUT_MS = 30 * 60 * 1000;
+const pendingPostInputs = new Map<number, PendingPostInput>();
+
+// /learnstyle collects the user's posts from their messages until /done
+interface StyleCollection {
+    userId: number;
+    name: string;
+    added: number;
+    expires: number;
+}
+
+const styleCollections = new Map<number, StyleCollection>();
+
+// Turns in the same chat run one after another, different chats in parallel
+const chatQueues = new Map<number, Promise<void>>();
+
+function enqueueForChat(chatId: number, task: () => Promise<void>): void {
+    const previous = chatQueues.get(chatId) ?? Promise.resolve();
+    const next = previous
+        .then(task)
+        .catch((err) => console.error("❌ Chat task failed:", err))
+        .finally(() => {
+            if (chatQueues.get(chatId) === next) chatQueues.delete(chatId);
+        });
+    chatQueues.set(chatId, next);
+}
+
+/**
+ * Resolves once every queued chat task (agent turn and its reply) is done.
+ * Used on shutdown — open approval requests are denied so turns can finish.
+ */
+export async function drainChatQueues(): Promise<void> {
+    while (chatQueues.size > 0) {
+        for (const pending of pendingConfirmations.values()) pending.resolve(false);
+        await Promise.allSettled([...chatQueues.values()]);
+    }
+}
+
+// Pending approvals, keyed by the ID embedded in the button callback data
+const CONFIRMATION_TIMEOUT_MS = 5 * 60 * 1000;
+const pendingConfirmations = new Map<
+    string,
+    { userId: number; resolve: (approved: boolean) => void }
+>();
+
+// Show Approve / Deny buttons and wait for the user's decision.
+// Unanswered requests are denied after CONFIRMATION_TIMEOUT_MS.
+async function askForConfirmation(
+    ctx: Context,
+    request: ConfirmationRequest
+): Promise<boolean> {
+    const id = randomUUID().slice(0, 8);
+    const details = JSON.stringify(request.input, null, 2).slice(0, 1500);
+    const keyboard = new InlineKeyboard()
+        .text("✅ Approve", `confirm:${id}:yes`)
+        .text("❌ Deny", `confirm:${id}:no`);
+
+    const prompt = await ctx.reply(
+        `⚠️ Approval needed: ${request.toolName}\n\n${details}`,
+        { reply_markup: keyboard }
+    );
+
+    const approved = await new Promise<boolean>((resolve) => {
+        const timer = setTimeout(() => resolve(false), CONFIRMATION_TIMEOUT_MS);
+        pendingConfirmations.set(id, {
+            userId: ctx.from!.id,
+            resolve: (decision) => {
+                clearTimeout(timer);
+                resolve(decision);
+            },
+        });
+    });
+    pendingConfirmations.delete(id);
+
+    await ctx.api
+        .editMessageText(
+            prompt.chat.id,
+            prompt.message_id,
+            `${approved ? "✅ Approved" : "❌ Denied"}: ${request.toolName}\n\n${details}`
+        )
+        .catch(() => { /* ignore — message may be gone */ });
+
+    return approved;
+}
+
+// Download a file the user sent (photo, document) from Telegram
+async function downloadTelegramFile(ctx: Context, fileId: string): Promise<Buffer> {
+    const file = await ctx.api.getFile(fileId);
+    const fileUrl = `https://api.telegram.org/file/bot${config.telegramToken}/${file.file_path}`;
+
+    const res = await fetch(fileUrl);
+    if (!res.ok) {
+        throw new Error(`Failed to download file: ${res.status}`);
+    }
+    return Buffer.from(await res.arrayBuffer());
+}
+
+function imageBlock(data: Buffer, mediaType: VisionMediaType): Anthropic.ImageBlockParam {
+    return {
+        type: "image",
+        source: { type: "base64", media_type: mediaType, data: data.toString("base64") },
+    };
+}
+
+// Run the agent while streaming its progress into the placeholder
+// message, then replace the placeholder with the final response.
+async function replyWithAgent(
+    ctx: Context,
+    input: string,
+    placeholderId: number,
+    extra: Pick<AgentOptions, "images" | "metadata"> = {}
+): Promise<string> {
+    const chatId = ctx.chat!.id;
+    const live = new LiveMessage(ctx.api, chatId, placeholderId);
+
+    let streamed = "";
+    let response: string;
+    try {
+        response = await runAgent(input, { userId: ctx.from!.id, chatId }, {
+            ...extra,
+            onText: (text) => {
+                streamed = text;
+                live.update(`${text} ▌`);
+            },
+            onToolStart: (toolName) => {
+                live.update(`${streamed ? `${streamed}\n\n` : ""}🔧 Using ${toolName}...`);
+            },
+            onConfirm: (request) => askForConfirmation(ctx, request),
+        });
+    } finally {
+        await live.close();
+    }
+
+    // Telegram has a 4096 char limit per message — split if needed
+    if (response.length <= 4096) {
+        try {
+            await ctx.api.editMessageText(chatId, placeholderId, response, {
+                parse_mode: "Markdown",
+            });
+        } catch {
+            // Markdown the model produced may not parse — fall back to plain text
+            await ctx.api
+                .editMessageText(chatId, placeholderId, response)
+                .catch(() => ctx.reply(response));
+        }
+        return response;
+    }
+
+    try {
+        await ctx.api.deleteMessage(chatId, placeholderId);
+    } catch { /* ignore if already deleted */ }
+
+    for (const chunk of splitMessage(response, 4096)) {
+        await ctx.reply(chunk, { parse_mode: "Markdown" });
+    }
+    return response;
+}
+
 function splitMessage(text: string, maxLength: number): string[] {
     const chunks: string[] = [];
     let remaining = text;
@@ -6,8 +6,57 @@ export interface Config {
     groqApiKey: string | undefined;
     allowedUserIds: number[];
     maxAgentIterations: number;
-    supabaseUrl: string;
-    supabaseKey: string;
+    storageBackend: StorageBackend;
+    supabaseUrl: string | undefined;
+    supabaseKey: string | undefined;
+    localDataDir: string;
+    botMode: BotMode;
+    webhookUrl: string | undefined;
+    webhookSecret: string | undefined;
+    port: number | undefined;
+    models: Record<LlmTask, ModelRoute>;
+    fallbackModel: ModelRoute | undefined;
+    embeddingProvider: EmbeddingProviderName;
+    embeddingModel: string | undefined;
+    modelCacheDir: string;
+    extractionInterval: number;
+    postTimezone: string;
+    /** Default delivery time of calendar slots ("HH:MM", in postTimezone). */
+    postDeliveryTime: string;
+    /** Missed scheduled runs younger than this are caught up on startup. */
+    catchUpGraceMinutes: number;
+    /** Drafts scoring below this against a learned style fingerprint are rewritten once. */
+    styleScoreMin: number;
+    publisher: PublisherName;
+    linkedin: LinkedInConfig;
+    tokenEncryptionKey: Buffer | undefined;
+}
+
+export type StorageBackend = "supabase" | "local";
+export type BotMode = "polling" | "webhook";
+
+// What a model call is for — each task can be routed to its own model
+export type LlmTask = "chat" | "summary" | "linkedin" | "extraction";
+export type ProviderName = "anthropic" | "groq";
+
+export type EmbeddingProviderName = "openai" | "local" | "none";
+export type PublisherName = "linkedin" | "dry-run" | "none";
+
+export interface LinkedInConfig {
+    clientId: string | undefined;
+    clientSecret: string | undefined;
+    /** OAuth redirect, served by the HTTP server (see PORT). */
+    redirectUrl: string | undefined;
+    /** LinkedIn-Version header of the REST API (YYYYMM). */
+    apiVersion: string;
+    /** Read post metrics from the API (needs the r_member_postAnalytics scope). */
+    analytics: boolean;
+}
+
+export interface ModelRoute {
+    provider: ProviderName;
+    model: string;
+    maxTokens: number;
 }
 
 function requireEnv(name: string): string {
@@ -40,12 +89,205 @@ function parseUserIds(raw: string): number[] {
     return ids;
 }
 
+function parseStorageBackend(raw: string | undefined): StorageBackend {
+    const backend = (raw || "supabase").trim().toLowerCase();
+    if (backend !== "supabase" && backend !== "local") {
+        console.error(`❌ STORAGE_BACKEND must be "supabase" or "local" (got "${raw}").`);
+        process.exit(1);
+    }
+    return backend;
+}
+
+function parseBotMode(raw: string | undefined): BotMode {
+    const mode = (raw || "polling").trim().toLowerCase();
+    if (mode !== "polling" && mode !== "webhook") {
+        console.error(`❌ BOT_MODE must be "polling" or "webhook" (got "${raw}").`);
+        process.exit(1);
+    }
+    return mode;
+}
+
+function parseWebhookSecret(secret: string): string {
+    // Telegram accepts 1–256 characters: A–Z, a–z, 0–9, _ and -
+    if (!/^[\w-]{1,256}$/.test(secret)) {
+        console.error("❌ WEBHOOK_SECRET may only contain letters, digits, _ and - (max 256).");
+        process.exit(1);
+    }
+    return secret;
+}
+
+function parsePort(raw: string | undefined): number | undefined {
+    if (!raw) return undefined;
+    const port = Number(raw);
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+        console.error(`❌ PORT must be a valid port number (got "${raw}").`);
+        process.exit(1);
+    }
+    return port;
+}
+
+const DEFAULT_MODEL = "claude-sonnet-4-20250514";
+
+/**
+ * Parse a model setting: "provider:model" or a bare model name
+ * (Anthropic). Output tokens come from <ENV_NAME>_MAX_TOKENS.
+ */
+function parseModelRoute(
+    envName: string,
+    fallback: string | undefined,
+    defaultMaxTokens: number
+): ModelRoute | undefined {
+    const raw = process.env[envName]?.trim() || fallback;
+    if (!raw) return undefined;
+
+    const separator = raw.indexOf(":");
+    const prefix = separator === -1 ? "" : raw.slice(0, separator).toLowerCase();
+    const hasProvider = prefix === "anthropic" || prefix === "groq";
+    const provider: ProviderName = hasProvider ? (prefix as ProviderName) : "anthropic";
+    const model = hasProvider ? raw.slice(separator + 1).trim() : raw;
+
+    if (!model) {
+        console.error(`❌ ${envName} must name a model (e.g. "groq:llama-3.3-70b-versatile").`);
+        process.exit(1);
+    }
+    if (provider === "groq" && !process.env.GROQ_API_KEY) {
+        console.error(`❌ ${envName} uses Groq, but GROQ_API_KEY is not set.`);
+        process.exit(1);
+    }
+
+    const maxTokens = Number(process.env[`${envName}_MAX_TOKENS`]) || defaultMaxTokens;
+    return { provider, model, maxTokens };
+}
+
+// Default: OpenAI when a key is set, otherwise the in-process local model
+function parseEmbeddingProvider(raw: string | undefined): EmbeddingProviderName {
+    const provider = (raw || (process.env.OPENAI_API_KEY ? "openai" : "local")).trim().toLowerCase();
+    if (provider !== "openai" && provider !== "local" && provider !== "none") {
+        console.error(`❌ EMBEDDING_PROVIDER must be "openai", "local" or "none" (got "${raw}").`);
+        process.exit(1);
+    }
+    if (provider === "openai" && !process.env.OPENAI_API_KEY) {
+        console.error("❌ EMBEDDING_PROVIDER=openai needs OPENAI_API_KEY.");
+        process.exit(1);
+    }
+    return provider;
+}
+
+// Turns between background memory extraction passes; 0 turns it off
+function parseExtractionInterval(raw: string | undefined): number {
+    if (!raw) return 3;
+    const interval = Number(raw);
+    if (!Number.isInteger(interval) || interval < 0) {
+        console.error(`❌ EXTRACTION_INTERVAL must be a whole number of turns, 0 to disable (got "${raw}").`);
+        process.exit(1);
+    }
+    return interval;
+}
+
+// "7:00" → "07:00"
+function parseDeliveryTime(raw: string | undefined): string {
+    const match = (raw || "07:00").trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+        console.error(`❌ Invalid POST_DELIVERY_TIME: "${raw}". Use HH:MM format.`);
+        process.exit(1);
+    }
+    return `${match[1]!.padStart(2, "0")}:${match[2]}`;
+}
+
+// Minutes a missed scheduled run may be late and still run; 0 turns catch-up off
+function parseCatchUpGrace(raw: string | undefined): number {
+    if (!raw) return 120;
+    const minutes = Number(raw);
+    if (!Number.isInteger(minutes) || minutes < 0) {
+        console.error(`❌ CATCH_UP_GRACE_MINUTES must be a whole number of minutes (got "${raw}").`);
+        process.exit(1);
+    }
+    return minutes;
+}
+
+// 0–100; 0 turns the rewrite of off-style drafts off
+function parseStyleScoreMin(raw: string | undefined): number {
+    if (!raw) return 60;
+    const score = Number(raw);
+    if (!Number.isInteger(score) || score < 0 || score > 100) {
+        console.error(`❌ STYLE_SCORE_MIN must be a whole number from 0 to 100 (got "${raw}").`);
+        process.exit(1);
+    }
+    return score;
+}
+
+// Where approved LinkedIn posts go; "none" keeps copy-paste delivery only
+function parsePublisher(raw: string | undefined): PublisherName {
+    const publisher = (raw || "none").trim().toLowerCase();
+    if (publisher !== "linkedin" && publisher !== "dry-run" && publisher !== "none") {
+        console.error(`❌ PUBLISHER must be "linkedin", "dry-run" or "none" (got "${raw}").`);
+        process.exit(1);
+    }
+    return publisher;
+}
+
+// 32 bytes, as 64 hex characters or base64
+function parseEncryptionKey(raw: string | undefined): Buffer | undefined {
+    if (!raw) return undefined;
+    const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, "hex") : Buffer.from(raw, "base64");
+    if (key.length !== 32) {
+        console.error("❌ TOKEN_ENCRYPTION_KEY must be 32 bytes (64 hex characters or base64).");
+        console.error("   Generate one with: openssl rand -hex 32");
+        process.exit(1);
+    }
+    return key;
+}
+
+const storageBackend = parseStorageBackend(process.env.STORAGE_BACKEND);
+const botMode = parseBotMode(process.env.BOT_MODE);
+const publisher = parsePublisher(process.env.PUBLISHER);
+
 export const config: Config = {
     telegramToken: requireEnv("TELEGRAM_BOT_TOKEN"),
     anthropicKey: requireEnv("ANTHROPIC_API_KEY"),
     groqApiKey: process.env.GROQ_API_KEY,
     allowedUserIds: parseUserIds(requireEnv("ALLOWED_USER_IDS")),
     maxAgentIterations: Number(process.env.MAX_AGENT_ITERATIONS) || 10,
-    supabaseUrl: requireEnv("SUPABASE_URL"),
-    supabaseKey: requireEnv("SUPABASE_KEY"),
+    storageBackend,
+    // Supabase credentials are only required when it is the active backend
+    supabaseUrl: storageBackend === "supabase" ? requireEnv("SUPABASE_URL") : process.env.SUPABASE_URL,
+    supabaseKey: storageBackend === "supabase" ? requireEnv("SUPABASE_KEY") : process.env.SUPABASE_KEY,
+    localDataDir: process.env.LOCAL_DATA_DIR || "./data",
+    botMode,
+    // Webhook settings are only required in webhook mode
+    webhookUrl: botMode === "webhook" ? requireEnv("WEBHOOK_URL") : process.env.WEBHOOK_URL,
+    webhookSecret:
+        botMode === "webhook" ? parseWebhookSecret(requireEnv("WEBHOOK_SECRET")) : undefined,
+    // Webhook mode always serves HTTP; polling mode only when PORT is set (health checks)
+    port: parsePort(process.env.PORT) ?? (botMode === "webhook" ? 3000 : undefined),
+    models: {
+        chat: parseModelRoute("MODEL_CHAT", DEFAULT_MODEL, 4096)!,
+        summary: parseModelRoute("MODEL_SUMMARY", DEFAULT_MODEL, 1024)!,
+        linkedin: parseModelRoute("MODEL_LINKEDIN", DEFAULT_MODEL, 2048)!,
+        extraction: parseModelRoute("MODEL_EXTRACTION", DEFAULT_MODEL, 2048)!,
+    },
+    // Used when the routed model keeps failing (rate limits, overload, outages)
+    fallbackModel: parseModelRoute("MODEL_FALLBACK", undefined, 4096),
+    embeddingProvider: parseEmbeddingProvider(process.env.EMBEDDING_PROVIDER),
+    embeddingModel: process.env.EMBEDDING_MODEL || undefined,
+    // Downloaded weights for the local embedding model
+    modelCacheDir: process.env.MODEL_CACHE_DIR || "./models",
+    extractionInterval: parseExtractionInterval(process.env.EXTRACTION_INTERVAL),
+    postTimezone: process.env.POST_TIMEZONE || "Europe/Berlin",
+    postDeliveryTime: parseDeliveryTime(process.env.POST_DELIVERY_TIME),
+    catchUpGraceMinutes: parseCatchUpGrace(process.env.CATCH_UP_GRACE_MINUTES),
+    styleScoreMin: parseStyleScoreMin(process.env.STYLE_SCORE_MIN),
+    publisher,
+    linkedin: {
+        clientId: process.env.LINKEDIN_CLIENT_ID,
+        clientSecret: process.env.LINKEDIN_CLIENT_SECRET,
+        redirectUrl: process.env.LINKEDIN_REDIRECT_URL,
+        apiVersion: process.env.LINKEDIN_API_VERSION || "202506",
+        analytics: process.env.LINKEDIN_ANALYTICS === "true",
+    },
+    // OAuth tokens are stored encrypted — required to connect LinkedIn
+    tokenEncryptionKey:
+        publisher === "linkedin"
+            ? parseEncryptionKey(requireEnv("TOKEN_ENCRYPTION_KEY"))
+            : parseEncryptionKey(process.env.TOKEN_ENCRYPTION_KEY),
 };
@@ -0,0 +1,349 @@
+// ─── LinkedIn content calendar ───────────────────────────────────────
+// Every topic is a slot on the calendar: a date and delivery time
+// (scheduled_at, planned in POST_TIMEZONE), any day of the week, as many
+// per day as wanted and as far ahead as wanted. week_start and day_index
+// are kept in step with scheduled_at for the weekly views.
+// Slot lifecycle: draft → confirmed (delivered when due) → posted.
+
+import { config } from "./config.js";
+import { db } from "./db.js";
+import { formatInTimeZone, zonedTimeToUtc } from "./timezone.js";
+import type { PostStatus } from "./posts.js";
+
+export type SlotStatus = "draft" | "confirmed" | "posted";
+
+export interface CalendarSlot {
+    id: number;
+    user_id: number;
+    topic: string;
+    theme: string | null;
+    status: SlotStatus;
+    scheduled_at: string;
+    week_start: string;
+    day_index: number;
+    /** The slot's own style, template and A/B variant style (post_styles.ts). */
+    style_id: number | null;
+    template_id: number | null;
+    variant_style_id: number | null;
+}
+
+export interface NewSlot {
+    /** YYYY-MM-DD in POST_TIMEZONE. */
+    date: string;
+    /** HH:MM; POST_DELIVERY_TIME when omitted. */
+    time?: string;
+    topic: string;
+    theme?: string | null;
+}
+
+export const DAY_NAMES = ["Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday", "Sunday"];
+
+// A slot stays due this long — the minute ticks need a few minutes of
+// slack even with catch-up off; later it is missed
+function dueWindowMs(): number {
+    return Math.max(config.catchUpGraceMinutes, 5) * 60 * 1000;
+}
+// Missed slots older than this are not reported any more
+const MISSED_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+
+// ─── Dates ───────────────────────────────────────────────────────────
+// Calendar dates are "YYYY-MM-DD" strings in POST_TIMEZONE
+function parseDate(date: string): { year: number; month: number; day: number } {
+    const match = date.trim().match(/^(\d{4})-(\d{2})-(\d{2})$/);
+    const parsed = match && { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) };
+    const check = parsed && new Date(Date.UTC(parsed.year, parsed.month - 1, parsed.day));
+    if (!parsed || !check || check.getUTCDate() !== parsed.day || check.getUTCMonth() !== parsed.month - 1) {
+        throw new Error(`Invalid date "${date}" — use YYYY-MM-DD.`);
+    }
+    return parsed;
+}
+
+function parseTime(time: string): { hour: number; minute: number } {
+    const match = time.trim().match(/^(\d{1,2}):(\d{2})$/);
+    if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+        throw new Error(`Invalid time "${time}" — use HH:MM.`);
+    }
+    return { hour: Number(match[1]), minute: Number(match[2]) };
+}
+
+export function addDays(date: string, days: number): string {
+    const { year, month, day } = parseDate(date);
+    return new Date(Date.UTC(year, month - 1, day + days)).toISOString().split("T")[0]!;
+}
+
+/** 0 = Monday … 6 = Sunday. */
+export function weekdayIndex(date: string): number {
+    const { year, month, day } = parseDate(date);
+    return (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7;
+}
+
+/** The date in POST_TIMEZONE at an instant (today by default). */
+export function calendarDate(at = new Date()): string {
+    return formatInTimeZone(at, config.postTimezone).split(" ")[0]!;
+}
+
+/** The Monday of a date's week. */
+export function weekStartOf(date: string): string {
+    return addDays(date, -weekdayIndex(date));
+}
+
+/** The instant a slot on date at time (POST_DELIVERY_TIME by default) is due. */
+export function slotInstant(date: string, time = config.postDeliveryTime): Date {
+    return zonedTimeToUtc({ ...parseDate(date), ...parseTime(time) }, config.postTimezone);
+}
+
+/** A slot's date and time in POST_TIMEZONE. */
+export function slotDateTime(slot: Pick<CalendarSlot, "scheduled_at">): { date: string; time: string } {
+    const [date, time] = formatInTimeZone(new Date(slot.scheduled_at), config.postTimezone).split(" ");
+    return { date: date!, time: time! };
+}
+
+function scheduleFields(at: Date): Pick<CalendarSlot, "scheduled_at" | "week_start" | "day_index"> {
+    const date = calendarDate(at);
+    return { scheduled_at: at.toISOString(), week_start: weekStartOf(date), day_index: weekdayIndex(date) };
+}
+
+// ─── Reading ─────────────────────────────────────────────────────────
+export async function getSlot(userId: number, slotId: number): Promise<CalendarSlot> {
+    const { data, error } = await db
+        .from("topics")
+        .select("*")
+        .eq("id", slotId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+    if (error) throw new Error(`Loading slot failed: ${error.message}`);
+    if (!data) throw new Error(`Slot #${slotId} not found.`);
+    return data as CalendarSlot;
+}
+
+/** Slots from the start of one date to the end of another, in time order. */
+export async function listSlots(userId: number, from: string, to: string): Promise<CalendarSlot[]> {
+    const { data, error } = await db
+        .from("topics")
+        .select("*")
+        .eq("user_id", userId)
+        .gte("scheduled_at", slotInstant(from, "00:00").toISOString())
+        .lt("scheduled_at", slotInstant(addDays(to, 1), "00:00").toISOString())
+        .order("scheduled_at");
+
+    if (error) throw new Error(`Loading calendar failed: ${error.message}`);
+    return (data ?? []) as CalendarSlot[];
+}
+
+// The post generated for each slot, if any
+async function postsForSlots(slotIds: number[]): Promise<Map<number, { id: number; status: PostStatus }>> {
+    if (slotIds.length === 0) return new Map();
+    const { data } = await db.from("posts").select("id, topic_id, status").in("topic_id", slotIds);
+    return new Map((data ?? []).map((p) => [p.topic_id as number, { id: p.id as number, status: p.status as PostStatus }]));
+}
+
+// ─── Writing ─────────────────────────────────────────────────────────
+export async function addSlots(userId: number, slots: NewSlot[], status: SlotStatus = "draft"): Promise<CalendarSlot[]> {
+    const rows = slots.map((slot) => {
+        if (!slot.topic?.trim()) throw new Error("Every slot needs a topic.");
+        return {
+            user_id: userId,
+            topic: slot.topic.trim(),
+            theme: slot.theme?.trim() || null,
+            status,
+            ...scheduleFields(slotInstant(slot.date, slot.time)),
+        };
+    });
+    if (rows.length === 0) return [];
+
+    const { data, error } = await db.from("topics").insert(rows).select();
+    if (error) throw new Error(`Saving slots failed: ${error.message}`);
+    return (data ?? []) as CalendarSlot[];
+}
+
+function assertOpen(slot: CalendarSlot): void {
+    if (slot.status === "posted") throw new Error(`Slot #${slot.id} has already been posted.`);
+}
+
+async function saveSlot(slot: CalendarSlot, changes: Record<string, unknown>): Promise<CalendarSlot> {
+    const { data, error } = await db
+        .from("topics")
+        .update({ ...changes, updated_at: new Date().toISOString() })
+        .eq("id", slot.id)
+        .select()
+        .single();
+
+    if (error) throw new Error(`Updating slot failed: ${error.message}`);
+    return data as CalendarSlot;
+}
+
+export async function updateSlot(
+    userId: number,
+    slotId: number,
+    changes: { topic?: string; theme?: string | null }
+): Promise<CalendarSlot> {
+    const slot = await getSlot(userId, slotId);
+    assertOpen(slot);
+    return saveSlot(slot, {
+        ...(changes.topic !== undefined ? { topic: changes.topic.trim() } : {}),
+        ...(changes.theme !== undefined ? { theme: changes.theme?.trim() || null } : {}),
+    });
+}
+
+/** Move a slot to another date and/or time; it keeps its time when only the date changes. */
+export async function moveSlot(userId: number, slotId: number, date?: string, time?: string): Promise<CalendarSlot> {
+    const slot = await getSlot(userId, slotId);
+    assertOpen(slot);
+    const current = slotDateTime(slot);
+    return saveSlot(slot, scheduleFields(slotInstant(date ?? current.date, time ?? current.time)));
+}
+
+/** Exchange the dates and times of two slots. */
+export async function swapSlots(userId: number, firstId: number, secondId: number): Promise<[CalendarSlot, CalendarSlot]> {
+    const [first, second] = await Promise.all([getSlot(userId, firstId), getSlot(userId, secondId)]);
+    assertOpen(first);
+    assertOpen(second);
+
+    const movedFirst = await saveSlot(first, scheduleFields(new Date(second.scheduled_at)));
+    const movedSecond = await saveSlot(second, scheduleFields(new Date(first.scheduled_at)));
+    return [movedFirst, movedSecond];
+}
+
+/** @throws  When a post was already generated for the slot */
+export async function deleteSlot(userId: number, slotId: number): Promise<void> {
+    const slot = await getSlot(userId, slotId);
+    const post = (await postsForSlots([slot.id])).get(slot.id);
+    if (post) throw new Error(`Slot #${slot.id} already has post #${post.id}.`);
+
+    const { error } = await db.from("topics").delete().eq("id", slot.id);
+    if (error) throw new Error(`Deleting slot failed: ${error.message}`);
+}
+
+/** Confirm the draft slots between two dates. */
+export async function confirmSlots(userId: number, from: string, to: string): Promise<CalendarSlot[]> {
+    const drafts = (await listSlots(userId, from, to)).filter((s) => s.status === "draft");
+    if (drafts.length === 0) return [];
+
+    const { error } = await db
+        .from("topics")
+        .update({ status: "confirmed", updated_at: new Date().toISOString() })
+        .in("id", drafts.map((s) => s.id));
+
+    if (error) throw new Error(`Confirming slots failed: ${error.message}`);
+    return drafts.map((s) => ({ ...s, status: "confirmed" }));
+}
+
+/**
+ * Drop the draft slots between two dates that have no post yet — a
+ * re-planned week replaces its drafts.
+ *
+ * @returns  How many slots were removed
+ */
+export async function clearDraftSlots(userId: number, from: string, to: string): Promise<number> {
+    const drafts = (await listSlots(userId, from, to)).filter((s) => s.status === "draft");
+    const posts = await postsForSlots(drafts.map((s) => s.id));
+    const removable = drafts.filter((s) => !posts.has(s.id)).map((s) => s.id);
+    if (removable.length === 0) return 0;
+
+    const { error } = await db.from("topics").delete().in("id", removable);
+    if (error) throw new Error(`Clearing draft slots failed: ${error.message}`);
+    return removable.length;
+}
+
+// ─── Calendar view ───────────────────────────────────────────────────
+export interface CalendarEntry {
+    slot_id: number;
+    time: string;
+    topic: string;
+    theme: string | null;
+    status: SlotStatus;
+    post_id: number | null;
+    post_status: PostStatus | null;
+}
+
+export interface CalendarDay {
+    date: string;
+    weekday: string;
+    slots: CalendarEntry[];
+}
+
+export interface CalendarView {
+    from: string;
+    to: string;
+    days: CalendarDay[];
+    /** Dates without any slot. */
+    gaps: string[];
+}
+
+export async function getCalendar(userId: number, from: string, to: string): Promise<CalendarView> {
+    if (to < from) throw new Error("The end date is before the start date.");
+    const slots = await listSlots(userId, from, to);
+    const posts = await postsForSlots(slots.map((s) => s.id));
+
+    const days: CalendarDay[] = [];
+    for (let date = from; date <= to; date = addDays(date, 1)) {
+        days.push({ date, weekday: DAY_NAMES[weekdayIndex(date)]!, slots: [] });
+    }
+    const byDate = new Map(days.map((d) => [d.date, d]));
+
+    for (const slot of slots) {
+        const { date, time } = slotDateTime(slot);
+        const post = posts.get(slot.id);
+        byDate.get(date)?.slots.push({
+            slot_id: slot.id,
+            time,
+            topic: slot.topic,
+            theme: slot.theme,
+            status: slot.status,
+            post_id: post?.id ?? null,
+            post_status: post?.status ?? null,
+        });
+    }
+
+    return { from, to, days, gaps: days.filter((d) => d.slots.length === 0).map((d) => d.date) };
+}
+
+const SLOT_ICONS: Record<SlotStatus, string> = { draft: "📝", confirmed: "📌", posted: "✅" };
+
+/** Plain-text calendar for Telegram. */
+export function formatCalendar(view: CalendarView): string {
+    const lines = [`🗓️ Content calendar ${view.from} – ${view.to}`, ""];
+    for (const day of view.days) {
+        const header = `${day.weekday.slice(0, 3)} ${day.date}`;
+        if (day.slots.length === 0) {
+            lines.push(`${header}  · (empty)`);
+            continue;
+        }
+        lines.push(header);
+        for (const entry of day.slots) {
+            const post = entry.post_id ? ` → post #${entry.post_id} (${entry.post_status})` : "";
+            lines.push(`  ${SLOT_ICONS[entry.status]} ${entry.time} #${entry.slot_id} ${entry.topic}${entry.theme ? ` [${entry.theme}]` : ""}${post}`);
+        }
+    }
+    lines.push("", `📝 draft · 📌 confirmed · ✅ posted — ${view.gaps.length} empty day${view.gaps.length === 1 ? "" : "s"}`);
+    return lines.join("\n");
+}
+
+// ─── Delivery ────────────────────────────────────────────────────────
+// Confirmed slots without a post, scheduled in [from, to), oldest first
+async function findOpenSlots(from: Date, to: Date): Promise<CalendarSlot[]> {
+    const { data, error } = await db
+        .from("topics")
+        .select("*")
+        .eq("status", "confirmed")
+        .gt("scheduled_at", from.toISOString())
+        .lte("scheduled_at", to.toISOString())
+        .order("scheduled_at");
+
+    if (error) throw new Error(`Loading due slots failed: ${error.message}`);
+    const slots = (data ?? []) as CalendarSlot[];
+    const posts = await postsForSlots(slots.map((s) => s.id));
+    return slots.filter((s) => !posts.has(s.id));
+}
+
+/** Confirmed slots (all users) that are due now and have no post yet. */
+export function findDueSlots(now = new Date()): Promise<CalendarSlot[]> {
+    return findOpenSlots(new Date(now.getTime() - dueWindowMs()), now);
+}
+
+/** Confirmed slots whose time passed too long ago to deliver (the bot was down). */
+export function findMissedSlots(now = new Date()): Promise<CalendarSlot[]> {
+    const cutoff = now.getTime() - dueWindowMs();
+    return findOpenSlots(new Date(cutoff - MISSED_LOOKBACK_MS), new Date(cutoff));
+}
@@ -1,105 +1,132 @@
-import { encoding_for_model } from "tiktoken";
-import { chat, type Message } from "./llm.js";
-import { supabase } from "./supabase.js";
-
-// ─── Token counting ─────────────────────────────────────────────────
-let encoder: ReturnType<typeof encoding_for_model> | null = null;
-
-function getEncoder() {
-    if (!encoder) {
-        encoder = encoding_for_model("gpt-4");
-    }
-    return encoder;
-}
-
-export function countTokens(text: string): number {
-    return getEncoder().encode(text).length;
-}
-
-function messageTokens(msg: Message): number {
-    if (typeof msg.content === "string") {
-        return countTokens(msg.content) + 4; // role overhead
-    }
-    return countTokens(JSON.stringify(msg.content)) + 4;
-}
+import { chat, countRequestTokens, type ChatOptions, type Message } from "./llm.js";
+import type { Tool } from "./tools/index.js";
+import { countTokens, estimateMessageTokens } from "./tokens.js";
+import { db } from "./db.js";
 
 // ─── Context Manager ─────────────────────────────────────────────────
 
 const MAX_CONTEXT_TOKENS = 150_000;
 const PRUNE_THRESHOLD = 0.8;
 const SUMMARY_TARGET_TOKENS = 500;
+const HISTORY_LOAD_LIMIT = 100;
+
+type EntryContent = Message["content"];
 
 interface ConversationEntry {
     role: "user" | "assistant";
-    content: string;
+    // Plain text, or content blocks for tool_use / tool_result messages
+    content: EntryContent;
     timestamp: number;
 }
 
 export class ContextManager {
     private history: ConversationEntry[] = [];
+    // conversation_log inserts run in order, one after another
+    private writes: Promise<void> = Promise.resolve();
 
-    private constructor() { }
+    private constructor(
+        readonly userId: number,
+        readonly chatId: number
+    ) { }
 
-    static async create(): Promise<ContextManager> {
-        const mgr = new ContextManager();
+    static async create(userId: number, chatId: number): Promise<ContextManager> {
+        const mgr = new ContextManager(userId, chatId);
         await mgr.loadHistory();
         return mgr;
     }
 
     private async loadHistory(): Promise<void> {
-        const { data, error } = await supabase
+        const { data, error } = await db
             .from("conversation_log")
-            .select("role, content, created_at")
+            .select("role, content, blocks, created_at")
+            .eq("user_id", this.userId)
+            .eq("chat_id", this.chatId)
             .order("id", { ascending: false })
-            .limit(50);
+            .limit(HISTORY_LOAD_LIMIT);
 
         if (error) {
             console.error("⚠️ Failed to load conversation history:", error.message);
             return;
         }
 
-        this.history = (data ?? [])
-            .reverse()
-            .map((r: any) => ({
-                role: r.role as "user" | "assistant",
-                content: r.content as string,
-                timestamp: new Date(r.created_at as string).getTime(),
-            }));
+        let rows = (data ?? []).reverse();
+
+        // Everything before the latest summary is already covered by it
+        const lastSummary = rows.map((r) => r.role).lastIndexOf("summary");
+        if (lastSummary > 0) rows = rows.slice(lastSummary);
+
+        const entries: ConversationEntry[] = rows.map((r: any) => ({
+            role: r.role === "assistant" ? "assistant" : "user",
+            content:
+                r.role === "summary"
+                    ? `[Context Summary] ${r.content}`
+                    : ((r.blocks as EntryContent | null) ?? (r.content as string)),
+            timestamp: new Date(r.created_at as string).getTime(),
+        }));
+
+        // The load limit may cut into the middle of a turn — start at the next one
+        const firstTurn = entries.findIndex(isTurnStart);
+        this.history = firstTurn === -1 ? [] : entries.slice(firstTurn);
     }
 
-    addMessage(role: "user" | "assistant", content: string): void {
+    /**
+     * Append a message to the history and persist it to conversation_log.
+     * Block content (tool calls and results) is stored in the `blocks` column.
+     */
+    addMessage(
+        role: "user" | "assistant",
+        content: EntryContent,
+        metadata: Record<string, unknown> = {}
+    ): void {
         this.history.push({ role, content, timestamp: Date.now() });
+        this.persist(role, content, metadata);
+    }
+
+    /** Resolves once every message added so far has been written. */
+    flush(): Promise<void> {
+        return this.writes;
     }
 
     getMessages(): Message[] {
-        return this.history.map((h) => ({
+        return pairToolMessages(this.history).map((h) => ({
             role: h.role,
             content: h.content,
         }));
     }
 
+    /** Local estimate of the history alone — for log output, not budgeting. */
     getTotalTokens(): number {
-        return this.history.reduce(
-            (sum, h) => sum + countTokens(h.content) + 4,
-            0
-        );
+        return this.getMessages().reduce((sum, m) => sum + estimateMessageTokens(m), 0);
     }
 
-    needsPruning(): boolean {
-        return this.getTotalTokens() > MAX_CONTEXT_TOKENS * PRUNE_THRESHOLD;
+    /**
+     * Whether a request with these messages would cross the prune threshold.
+     * Counts the full request — system prompt and tool definitions included.
+     */
+    async exceedsBudget(
+        messages: Message[],
+        tools: Tool[],
+        options: ChatOptions = {}
+    ): Promise<boolean> {
+        const tokens = await countRequestTokens(messages, tools, { ...options, userId: this.userId });
+        return tokens > MAX_CONTEXT_TOKENS * PRUNE_THRESHOLD;
     }
 
-    async prune(): Promise<string | null> {
-        if (!this.needsPruning()) return null;
+    async needsPruning(tools: Tool[] = [], options: ChatOptions = {}): Promise<boolean> {
+        return this.exceedsBudget(this.getMessages(), tools, options);
+    }
 
-        const midpoint = Math.floor(this.history.length / 2);
+    /** Summarize the older half of the history. Callers check the budget first. */
+    async prune(): Promise<string | null> {
+        // Split on a turn boundary so tool calls stay next to their results
+        const midpoint = this.turnBoundaryNear(Math.floor(this.history.length / 2));
         if (midpoint < 2) return null;
 
         const toSummarize = this.history.slice(0, midpoint);
         const toKeep = this.history.slice(midpoint);
 
         const conversationText = toSummarize
-            .map((h) => `${h.role}: ${h.content}`)
+            .map((h) => `${h.role}: ${renderContent(h.content)}`)
             .join("\n\n");
 
         const summaryMessages: Message[] = [
@@ -109,28 +136,20 @@ export class ContextManager {
             },
         ];
 
-        const response = await chat(summaryMessages, []);
+        const response = await chat(summaryMessages, [], { userId: this.userId, task: "summary" });
         const summaryText = response.content
             .filter((b) => b.type === "text")
             .map((b) => ("text" in b ? b.text : ""))
             .join("\n");
 
-        this.history = [
-            {
-                role: "assistant" as const,
-                content: `[Context Summary] ${summaryText}`,
-                timestamp: Date.now(),
-            },
-            ...toKeep,
-        ];
+        this.history = [summaryEntry(summaryText), ...toKeep];
 
         // Store summary in DB
-        await supabase
-            .from("conversation_log")
-            .insert({ role: "summary", content: summaryText });
+        this.persist("summary", summaryText);
+        await this.flush();
 
         const oldTokens = toSummarize.reduce(
-            (s, h) => s + countTokens(h.content),
+            (s, h) => s + estimateMessageTokens(h),
             0
         );
         const newTokens = countTokens(summaryText);
@@ -150,11 +169,16 @@ export class ContextManager {
         }
 
         const keepCount = 4;
-        const toSummarize = this.history.slice(0, -keepCount);
-        const toKeep = this.history.slice(-keepCount);
+        const split = this.turnBoundaryNear(this.history.length - keepCount);
+        if (split < 1) {
+            return "Not enough conversation history to compact.";
+        }
+
+        const toSummarize = this.history.slice(0, split);
+        const toKeep = this.history.slice(split);
 
         const conversationText = toSummarize
-            .map((h) => `${h.role}: ${h.content}`)
+            .map((h) => `${h.role}: ${renderContent(h.content)}`)
             .join("\n\n");
 
         const summaryMessages: Message[] = [
@@ -165,36 +189,149 @@ and context:\n\n${conversationText}`,
             },
         ];
 
-        const response = await chat(summaryMessages, []);
+        const response = await chat(summaryMessages, [], { userId: this.userId, task: "summary" });
         const summaryText = response.content
             .filter((b) => b.type === "text")
             .map((b) => ("text" in b ? b.text : ""))
             .join("\n");
 
-        this.history = [
-            {
-                role: "assistant" as const,
-                content: `[Context Summary] ${summaryText}`,
-                timestamp: Date.now(),
-            },
-            ...toKeep,
-        ];
+        this.history = [summaryEntry(summaryText), ...toKeep];
 
-        await supabase
-            .from("conversation_log")
-            .insert({ role: "summary", content: summaryText });
+        this.persist("summary", summaryText);
+        await this.flush();
 
         const newTokens = this.getTotalTokens();
         return `Compacted: ${originalCount} messages (${originalTokens} tokens) → ${this.history.length} messages (${newTokens} tokens)`;
     }
+
+    /** Index of the turn start closest to `index`, preferring later ones; -1 if none. */
+    private turnBoundaryNear(index: number): number {
+        for (let i = Math.max(index, 1); i < this.history.length; i++) {
+            if (isTurnStart(this.history[i]!)) return i;
+        }
+        for (let i = Math.min(index, this.history.length) - 1; i >= 1; i--) {
+            if (isTurnStart(this.history[i]!)) return i;
+        }
+        return -1;
+    }
+
+    private persist(
+        role: "user" | "assistant" | "summary",
+        content: EntryContent,
+        metadata: Record<string, unknown> = {}
+    ): void {
+        const row = {
+            user_id: this.userId,
+            chat_id: this.chatId,
+            role,
+            content: renderContent(content),
+            blocks: typeof content === "string" ? null : content,
+            metadata,
+        };
+
+        this.writes = this.writes.then(async () => {
+            const { error } = await db.from("conversation_log").insert(row);
+            if (error) {
+                console.error("⚠️ Failed to log conversation message:", error.message);
+            }
+        });
+    }
 }
 
-// Singleton — created async, exported as a promise
-let _contextManager: ContextManager | null = null;
+// ─── History helpers ────────────────────────────────────────────────
+
+function summaryEntry(summaryText: string): ConversationEntry {
+    return {
+        role: "user",
+        content: `[Context Summary] ${summaryText}`,
+        timestamp: Date.now(),
+    };
+}
+
+// A turn starts with a text message from the user (or a summary);
+// tool results are user messages too, but always belong to the call before.
+function isTurnStart(entry: ConversationEntry): boolean {
+    return entry.role === "user" && typeof entry.content === "string";
+}
+
+function toolUseIds(entry: ConversationEntry): string[] {
+    if (entry.role !== "assistant" || typeof entry.content === "string") return [];
+    return entry.content.flatMap((b) => (b.type === "tool_use" ? [b.id] : []));
+}
+
+function toolResultIds(entry: ConversationEntry): string[] {
+    if (entry.role !== "user" || typeof entry.content === "string") return [];
+    return entry.content.flatMap((b) => (b.type === "tool_result" ? [b.tool_use_id] : []));
+}
+
+/**
+ * Keep only complete tool exchanges. A call whose results never arrived
+ * (the turn crashed or the bot restarted mid-tool) and results whose call
+ * is gone are both rejected by the API, so they are left out.
+ */
+function pairToolMessages(entries: ConversationEntry[]): ConversationEntry[] {
+    const paired: ConversationEntry[] = [];
+
+    for (let i = 0; i < entries.length; i++) {
+        const entry = entries[i]!;
+        if (toolResultIds(entry).length > 0) continue; // added with its call below
+
+        const callIds = toolUseIds(entry);
+        if (callIds.length === 0) {
+            paired.push(entry);
+            continue;
+        }
+
+        const next = entries[i + 1];
+        const resultIds = next ? toolResultIds(next) : [];
+        if (next && callIds.every((id) => resultIds.includes(id))) {
+            paired.push(entry, next);
+            i++;
+        }
+    }
+
+    return paired;
+}
+
+/** Plain-text rendering of a message, for the log's content column and summaries. */
+function renderContent(content: EntryContent): string {
+    if (typeof content === "string") return content;
+
+    return content
+        .map((block) => {
+            switch (block.type) {
+                case "text":
+                    return block.text;
+                case "image":
+                    return "[Image]";
+                case "tool_use":
+                    return `[Tool call: ${block.name} ${JSON.stringify(block.input)}]`;
+                case "tool_result": {
+                    const result =
+                        typeof block.content === "string"
+                            ? block.content
+                            : JSON.stringify(block.content ?? "");
+                    return `[Tool result${block.is_error ? " (error)" : ""}: ${result}]`;
+                }
+                default:
+                    return `[${block.type}]`;
+            }
+        })
+        .join("\n");
+}
 
-export async function getContextManager(): Promise<ContextManager> {
-    if (!_contextManager) {
-        _contextManager = await ContextManager.create();
+// One manager per user per chat — created async on first use
+const contextManagers = new Map<string, Promise<ContextManager>>();
+
+export function getContextManager(
+    userId: number,
+    chatId: number = userId
+): Promise<ContextManager> {
+    const key = `${chatId}:${userId}`;
+    let manager = contextManagers.get(key);
+    if (!manager) {
+        manager = ContextManager.create(userId, chatId);
+        contextManagers.set(key, manager);
     }
-    return _contextManager;
+    return manager;
 }
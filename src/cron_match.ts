@@ -0,0 +1,94 @@
+// ─── Cron expression matching ────────────────────────────────────────
+// node-cron only fires jobs; finding the run a job should have had while
+// the bot was down needs the expression matched against past times. The
+// rules follow node-cron: 5 fields (or 6, seconds first — ignored here),
+// lists, ranges, steps, month and weekday names, 0 or 7 for Sunday, and
+// day of month AND day of week must both match.
+
+import { wallClockAt } from "./timezone.js";
+
+const MONTH_NAMES = ["jan", "feb", "mar", "apr", "may", "jun", "jul", "aug", "sep", "oct", "nov", "dec"];
+const WEEKDAY_NAMES = ["sun", "mon", "tue", "wed", "thu", "fri", "sat"];
+
+// minute, hour, day of month, month, day of week
+const FIELDS: { min: number; max: number; names?: string[]; nameBase?: number }[] = [
+    { min: 0, max: 59 },
+    { min: 0, max: 23 },
+    { min: 1, max: 31 },
+    { min: 1, max: 12, names: MONTH_NAMES, nameBase: 1 },
+    { min: 0, max: 7, names: WEEKDAY_NAMES, nameBase: 0 },
+];
+
+function parseValue(raw: string, field: (typeof FIELDS)[number]): number {
+    const name = field.names?.findIndex((n) => raw.toLowerCase().startsWith(n)) ?? -1;
+    const value = name >= 0 ? name + field.nameBase! : Number(raw);
+    if (!Number.isInteger(value) || value < field.min || value > field.max) {
+        throw new Error(`"${raw}" is out of range (${field.min}-${field.max}).`);
+    }
+    return value;
+}
+
+function parseField(raw: string, field: (typeof FIELDS)[number]): Set<number> {
+    const values = new Set<number>();
+    for (const part of raw.split(",")) {
+        const [range, stepRaw] = part.split("/");
+        const step = stepRaw === undefined ? 1 : Number(stepRaw);
+        if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step in "${part}".`);
+
+        let from = field.min;
+        let to = field.max;
+        if (range !== "*") {
+            const [start, end] = range!.split("-");
+            from = parseValue(start!, field);
+            // "5/15" means from 5 to the end
+            to = end !== undefined ? parseValue(end, field) : stepRaw !== undefined ? field.max : from;
+        }
+        if (from > to) throw new Error(`Invalid range "${range}".`);
+        for (let v = from; v <= to; v += step) values.add(v);
+    }
+    return values;
+}
+
+export type CronMatcher = (date: Date) => boolean;
+
+/**
+ * Compile a cron expression into a matcher for times in timeZone.
+ *
+ * @throws  When the expression is not valid
+ */
+export function compileCron(expression: string, timeZone: string): CronMatcher {
+    let parts = expression.trim().split(/\s+/);
+    if (parts.length === 6) parts = parts.slice(1);
+    if (parts.length !== 5) throw new Error(`Cron expression "${expression}" needs 5 fields.`);
+
+    const [minutes, hours, days, months, weekdays] = parts.map((p, i) => parseField(p, FIELDS[i]!));
+    if (weekdays!.has(7)) weekdays!.add(0);
+
+    return (date) => {
+        const c = wallClockAt(date, timeZone);
+        const weekday = new Date(Date.UTC(c.year, c.month - 1, c.day)).getUTCDay();
+        return (
+            minutes!.has(c.minute) &&
+            hours!.has(c.hour) &&
+            days!.has(c.day) &&
+            months!.has(c.month) &&
+            weekdays!.has(weekday)
+        );
+    };
+}
+
+/**
+ * The latest minute at or before `at` that the expression matches,
+ * looking back at most lookbackMs.
+ *
+ * @returns  The run's time, or null if there was none in the window
+ */
+export function previousRun(expression: string, timeZone: string, at: Date, lookbackMs: number): Date | null {
+    const matches = compileCron(expression, timeZone);
+    const oldest = at.getTime() - lookbackMs;
+    for (let t = Math.floor(at.getTime() / 60_000) * 60_000; t >= oldest; t -= 60_000) {
+        const candidate = new Date(t);
+        if (matches(candidate)) return candidate;
+    }
+    return null;
+}
@@ -1,13 +1,88 @@
-// ─── Database layer — Supabase Postgres ─────────────────────────────
-// Replaces the old SQLite (better-sqlite3) layer.
-// Tables are created via Supabase migrations, not here.
-// This module exports the shared supabase client and async helpers.
+// ─── Database layer — pluggable storage backend ─────────────────────
+// Every module talks to storage through the `db` client exported here.
+// The backend is selected with STORAGE_BACKEND (see config.ts):
+//   - "supabase" → Supabase Postgres (tables from supabase_migration.sql)
+//   - "local"    → file-backed store on disk, for offline development
+//                  and integration tests without a Supabase project
+// Both backends implement the Database interface below, which is the
+// subset of the supabase-js query builder this codebase relies on.
 
-import { supabase } from "./supabase.js";
+import { config } from "./config.js";
+import { createSupabaseClient } from "./supabase.js";
+import { createLocalDatabase } from "./local_store.js";
 
-export { supabase };
+// ─── Storage interface ───────────────────────────────────────────────
+export type Row = Record<string, any>;
 
-// Re-export for convenience — modules that used to import { db } from "./db.js"
-// now import { supabase } from "./db.js" (or from "./supabase.js" directly).
+export interface DbError {
+    message: string;
+    code?: string;
+}
 
-console.log("📦 Database layer ready (Supabase Postgres)");
+export type DbResult<T> =
+    | { data: T; error: null; count?: number | null }
+    | { data: null; error: DbError; count?: number | null };
+
+export interface QueryBuilder extends PromiseLike<DbResult<Row[]>> {
+    eq(column: string, value: unknown): QueryBuilder;
+    neq(column: string, value: unknown): QueryBuilder;
+    gt(column: string, value: unknown): QueryBuilder;
+    gte(column: string, value: unknown): QueryBuilder;
+    lt(column: string, value: unknown): QueryBuilder;
+    lte(column: string, value: unknown): QueryBuilder;
+    ilike(column: string, pattern: string): QueryBuilder;
+    in(column: string, values: readonly unknown[]): QueryBuilder;
+    is(column: string, value: null | boolean): QueryBuilder;
+    order(column: string, options?: { ascending?: boolean }): QueryBuilder;
+    limit(count: number): QueryBuilder;
+    /** Return the affected rows from insert / update / upsert / delete. */
+    select(columns?: string): QueryBuilder;
+    single(): PromiseLike<DbResult<Row>>;
+    maybeSingle(): PromiseLike<DbResult<Row | null>>;
+}
+
+export interface CountOptions {
+    count?: "exact";
+}
+
+export interface TableQuery {
+    select(columns?: string, options?: CountOptions & { head?: boolean }): QueryBuilder;
+    insert(values: Row | Row[]): QueryBuilder;
+    update(values: Row, options?: CountOptions): QueryBuilder;
+    upsert(
+        values: Row | Row[],
+        options?: { onConflict?: string; ignoreDuplicates?: boolean }
+    ): QueryBuilder;
+    delete(options?: CountOptions): QueryBuilder;
+}
+
+export interface FileBucket {
+    upload(
+        path: string,
+        data: Buffer,
+        options?: { contentType?: string }
+    ): Promise<{ error: DbError | null }>;
+    getPublicUrl(path: string): { data: { publicUrl: string } };
+}
+
+export interface Database {
+    from(table: string): TableQuery;
+    rpc(fn: string, args?: Record<string, unknown>): PromiseLike<DbResult<any>>;
+    storage: { from(bucket: string): FileBucket };
+}
+
+// ─── Backend selection ───────────────────────────────────────────────
+function createDatabase(): Database {
+    if (config.storageBackend === "local") {
+        return createLocalDatabase(config.localDataDir);
+    }
+    // supabase-js satisfies the interface structurally; its generics are
+    // far richer than what we use, so narrow it here once.
+    return createSupabaseClient() as unknown as Database;
+}
+
+export const db: Database = createDatabase();
+
+console.log(
+    `📦 Database layer ready (${config.storageBackend === "local" ? `local store at ${config.localDataDir}` : "Supabase Postgres"})`
+);
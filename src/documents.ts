@@ -0,0 +1,159 @@
+// ─── Document text extraction ───────────────────────────────────────
+// Turns files sent to the bot into plain text the agent can read.
+// PDF via unpdf (pdf.js), DOCX via mammoth, text formats as UTF-8; files
+// inside ZIP archives (e.g. LinkedIn's data export) via zlib.
+// Everything runs locally — no document leaves the process.
+
+import path from "path";
+import { inflateRawSync } from "zlib";
+import { extractText, getDocumentProxy } from "unpdf";
+import mammoth from "mammoth";
+
+// Keep extracted text to a size that fits comfortably in the context
+export const MAX_DOCUMENT_CHARS = 30_000;
+
+type DocumentKind = "pdf" | "docx" | "text";
+
+const TEXT_EXTENSIONS = new Set([".txt", ".md", ".markdown", ".csv", ".json"]);
+
+// Image formats Claude Vision accepts as image content blocks
+export const VISION_MEDIA_TYPES = ["image/jpeg", "image/png", "image/gif", "image/webp"] as const;
+export type VisionMediaType = (typeof VISION_MEDIA_TYPES)[number];
+
+export function isVisionImage(mimeType: string | undefined): mimeType is VisionMediaType {
+    return VISION_MEDIA_TYPES.includes(mimeType as VisionMediaType);
+}
+
+function detectKind(fileName: string, mimeType?: string): DocumentKind | null {
+    const ext = path.extname(fileName).toLowerCase();
+
+    if (ext === ".pdf" || mimeType === "application/pdf") return "pdf";
+    if (
+        ext === ".docx" ||
+        mimeType === "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+    ) {
+        return "docx";
+    }
+    if (TEXT_EXTENSIONS.has(ext) || mimeType?.startsWith("text/")) return "text";
+    return null;
+}
+
+export function isSupportedDocument(fileName: string, mimeType?: string): boolean {
+    return detectKind(fileName, mimeType) !== null;
+}
+
+/**
+ * Extract plain text from a PDF, DOCX, TXT or Markdown file.
+ *
+ * @returns  The text (truncated to MAX_DOCUMENT_CHARS) and whether it was cut
+ */
+export async function extractDocumentText(
+    buffer: Buffer,
+    fileName: string,
+    mimeType?: string
+): Promise<{ text: string; truncated: boolean }> {
+    const kind = detectKind(fileName, mimeType);
+    let text: string;
+
+    switch (kind) {
+        case "pdf": {
+            const pdf = await getDocumentProxy(new Uint8Array(buffer));
+            const result = await extractText(pdf, { mergePages: true });
+            text = result.text;
+            break;
+        }
+        case "docx": {
+            const result = await mammoth.extractRawText({ buffer });
+            text = result.value;
+            break;
+        }
+        case "text":
+            text = buffer.toString("utf-8");
+            break;
+        default:
+            throw new Error(`Unsupported document type: ${fileName}`);
+    }
+
+    text = text.replace(/\n{3,}/g, "\n\n").trim();
+    if (!text) {
+        throw new Error(`No text could be extracted from ${fileName}.`);
+    }
+
+    return {
+        text: text.slice(0, MAX_DOCUMENT_CHARS),
+        truncated: text.length > MAX_DOCUMENT_CHARS,
+    };
+}
+
+// ─── ZIP archives ────────────────────────────────────────────────────
+const ZIP_END_OF_CENTRAL_DIR = 0x06054b50;
+const ZIP_CENTRAL_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+// Largest entry unpacked, so a small archive can't inflate into gigabytes
+const MAX_ZIP_ENTRY_BYTES = 20 * 1024 * 1024;
+
+export function isZipArchive(fileName: string, mimeType?: string): boolean {
+    return (
+        path.extname(fileName).toLowerCase() === ".zip" ||
+        mimeType === "application/zip" ||
+        mimeType === "application/x-zip-compressed"
+    );
+}
+
+/**
+ * Read the first file in a ZIP archive whose path matches (stored or
+ * deflated entries; no ZIP64 or encryption).
+ *
+ * @returns  The file's content, or null when no entry matches
+ * @throws  When the archive is not a readable ZIP, or the entry unpacks
+ *          to more than MAX_ZIP_ENTRY_BYTES
+ */
+export function readZipEntry(buffer: Buffer, matches: (entryPath: string) => boolean): Buffer | null {
+    // The end-of-central-directory record sits in the last 64 KB (comment included)
+    let end = -1;
+    for (let i = buffer.length - 22; i >= Math.max(0, buffer.length - 65_557); i--) {
+        if (buffer.readUInt32LE(i) === ZIP_END_OF_CENTRAL_DIR) {
+            end = i;
+            break;
+        }
+    }
+    if (end === -1) throw new Error("Not a ZIP archive.");
+
+    // Offsets and sizes come from the file itself; any that point past its
+    // end mean a truncated or corrupt archive
+    const damaged = () => new Error("Damaged ZIP archive.");
+    const entries = buffer.readUInt16LE(end + 10);
+    let offset = buffer.readUInt32LE(end + 16);
+    for (let n = 0; n < entries; n++) {
+        if (offset + 46 > buffer.length || buffer.readUInt32LE(offset) !== ZIP_CENTRAL_ENTRY) throw damaged();
+        const method = buffer.readUInt16LE(offset + 10);
+        const compressedSize = buffer.readUInt32LE(offset + 20);
+        const size = buffer.readUInt32LE(offset + 24);
+        const nameLength = buffer.readUInt16LE(offset + 28);
+        const extraLength = buffer.readUInt16LE(offset + 30);
+        const commentLength = buffer.readUInt16LE(offset + 32);
+        const localOffset = buffer.readUInt32LE(offset + 42);
+        if (offset + 46 + nameLength > buffer.length) throw damaged();
+        const name = buffer.toString("utf-8", offset + 46, offset + 46 + nameLength);
+        offset += 46 + nameLength + extraLength + commentLength;
+
+        if (!matches(name)) continue;
+        if (size > MAX_ZIP_ENTRY_BYTES) throw new Error(`ZIP entry ${name} is too large (over 20 MB unpacked).`);
+        if (localOffset + 30 > buffer.length || buffer.readUInt32LE(localOffset) !== ZIP_LOCAL_HEADER) throw damaged();
+        const dataStart = localOffset + 30 + buffer.readUInt16LE(localOffset + 26) + buffer.readUInt16LE(localOffset + 28);
+        if (dataStart + compressedSize > buffer.length) throw damaged();
+        const data = buffer.subarray(dataStart, dataStart + compressedSize);
+        if (method === 0) return Buffer.from(data);
+        if (method === 8) {
+            // The central directory's size can lie; the inflater enforces the cap too
+            try {
+                return inflateRawSync(data, { maxOutputLength: MAX_ZIP_ENTRY_BYTES });
+            } catch (err) {
+                if (err instanceof RangeError) throw new Error(`ZIP entry ${name} is too large (over 20 MB unpacked).`);
+                throw damaged();
+            }
+        }
+        throw new Error(`Unsupported compression in ZIP entry ${name}.`);
+    }
+    return null;
+}
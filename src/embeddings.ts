@@ -0,0 +1,226 @@
+// ─── Embeddings ──────────────────────────────────────────────────────
+// Vector embeddings for memory search (pgvector / local mirror).
+// Providers (EMBEDDING_PROVIDER):
+//   openai — text-embedding-3-small via the OpenAI API (1536 dimensions)
+//   local  — in-process sentence-transformers model via ONNX Runtime,
+//            CPU only; weights are downloaded once to MODEL_CACHE_DIR
+//   none   — no vectors; retrieval uses full-text rank and relevance
+// The memories.embedding column is vector(1536): shorter local vectors
+// are zero-padded, which leaves cosine similarity unchanged. Vectors are
+// only compared with vectors from the same model (embedding_model).
+
+import { config } from "./config.js";
+import { db } from "./db.js";
+
+export interface EmbeddingProvider {
+    /** Stored with each vector, e.g. "local:Xenova/all-MiniLM-L6-v2". */
+    readonly id: string;
+    embed(texts: string[]): Promise<number[][]>;
+}
+
+export interface Embedding {
+    vector: number[];
+    model: string;
+}
+
+export const EMBEDDING_DIMENSIONS = 1536;
+
+const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
+const OPENAI_MODEL = "text-embedding-3-small";
+const LOCAL_MODEL = "Xenova/all-MiniLM-L6-v2";
+
+// ─── OpenAI ──────────────────────────────────────────────────────────
+function createOpenAIProvider(model: string): EmbeddingProvider {
+    return {
+        id: `openai:${model}`,
+        async embed(texts) {
+            const resp = await fetch("https://api.openai.com/v1/embeddings", {
+                method: "POST",
+                headers: {
+                    Authorization: `Bearer ${OPENAI_API_KEY}`,
+                    "Content-Type": "application/json",
+                },
+                body: JSON.stringify({ model, input: texts }),
+            });
+
+            if (!resp.ok) {
+                throw new Error(`Embedding request failed: ${resp.status} ${resp.statusText}`);
+            }
+
+            const data = (await resp.json()) as {
+                data: Array<{ index: number; embedding: number[] }>;
+            };
+            return data.data
+                .sort((a, b) => a.index - b.index)
+                .map((d) => d.embedding);
+        },
+    };
+}
+
+// ─── Local (transformers.js / ONNX Runtime) ─────────────────────────
+function createLocalProvider(model: string): EmbeddingProvider {
+    // Loaded on first use — the runtime and weights are only needed then
+    let extractor: Promise<(texts: string[], options: object) => Promise<{ tolist(): number[][] }>> | null = null;
+
+    const load = () => {
+        extractor ??= (async () => {
+            console.log(`🧮 Loading local embedding model ${model}...`);
+            const { pipeline } = await import("@huggingface/transformers");
+            const pipe = await pipeline("feature-extraction", model, {
+                cache_dir: config.modelCacheDir,
+                device: "cpu",
+                dtype: "q8",
+            });
+            console.log("🧮 Local embedding model ready");
+            return pipe as unknown as (texts: string[], options: object) => Promise<{ tolist(): number[][] }>;
+        })();
+        // Let a failed load (e.g. offline on first start) be retried later
+        extractor.catch(() => { extractor = null; });
+        return extractor;
+    };
+
+    return {
+        id: `local:${model}`,
+        async embed(texts) {
+            const pipe = await load();
+            const output = await pipe(texts, { pooling: "mean", normalize: true });
+            return output.tolist();
+        },
+    };
+}
+
+function createProvider(): EmbeddingProvider | null {
+    switch (config.embeddingProvider) {
+        case "openai":
+            return createOpenAIProvider(config.embeddingModel ?? OPENAI_MODEL);
+        case "local":
+            return createLocalProvider(config.embeddingModel ?? LOCAL_MODEL);
+        case "none":
+            return null;
+    }
+}
+
+const provider = createProvider();
+
+// ─── Public API ──────────────────────────────────────────────────────
+export function embeddingsAvailable(): boolean {
+    return provider !== null;
+}
+
+/** Identifier of the active embedding model, or null when embeddings are off. */
+export function currentEmbeddingModel(): string | null {
+    return provider?.id ?? null;
+}
+
+function padVector(vector: number[]): number[] {
+    if (vector.length > EMBEDDING_DIMENSIONS) {
+        throw new Error(
+            `Embedding has ${vector.length} dimensions; the memories table holds ${EMBEDDING_DIMENSIONS}.`
+        );
+    }
+    return vector.length === EMBEDDING_DIMENSIONS
+        ? vector
+        : [...vector, ...new Array<number>(EMBEDDING_DIMENSIONS - vector.length).fill(0)];
+}
+
+/**
+ * Embed several texts with the active provider.
+ *
+ * @throws  When embeddings are off or the provider fails
+ */
+export async function embedTexts(texts: string[]): Promise<Embedding[]> {
+    if (!provider) {
+        throw new Error("Embeddings are disabled (EMBEDDING_PROVIDER=none).");
+    }
+    if (texts.length === 0) return [];
+
+    const vectors = await provider.embed(texts);
+    return vectors.map((v) => ({ vector: padVector(v), model: provider.id }));
+}
+
+/** Embed a single text (a search query or one memory). */
+export async function getEmbedding(text: string): Promise<Embedding> {
+    const [embedding] = await embedTexts([text]);
+    return embedding!;
+}
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i]! * b[i]!;
+        normA += a[i]! * a[i]!;
+        normB += b[i]! * b[i]!;
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// ─── Memory vectors ──────────────────────────────────────────────────
+const BACKFILL_BATCH_SIZE = 32;
+
+/**
+ * Embedding columns for a memory row being inserted or rewritten. On
+ * failure both are null, so the backfill job picks the row up later.
+ */
+export async function embeddingColumns(
+    content: string
+): Promise<{ embedding: number[] | null; embedding_model: string | null }> {
+    if (!provider) return { embedding: null, embedding_model: null };
+    try {
+        const { vector, model } = await getEmbedding(content);
+        return { embedding: vector, embedding_model: model };
+    } catch (err) {
+        console.warn("⚠️ Memory embedding failed (will backfill):", err instanceof Error ? err.message : err);
+        return { embedding: null, embedding_model: null };
+    }
+}
+
+/**
+ * Embed a user's memories that have no vector yet, or one from a model
+ * other than the active one (after switching EMBEDDING_PROVIDER).
+ */
+export async function backfillEmbeddings(
+    userId: number,
+    maxRows = 200
+): Promise<{ embedded: number; failed: number }> {
+    if (!provider) return { embedded: 0, failed: 0 };
+
+    // No model recorded: never embedded, or failed to embed
+    const { data: missing } = await db
+        .from("memories")
+        .select("id, content")
+        .eq("user_id", userId)
+        .is("embedding_model", null)
+        .limit(maxRows);
+    const { data: outdated } = await db
+        .from("memories")
+        .select("id, content")
+        .eq("user_id", userId)
+        .neq("embedding_model", provider.id)
+        .limit(maxRows);
+
+    const rows = [...(missing ?? []), ...(outdated ?? [])].slice(0, maxRows);
+    let embedded = 0;
+    let failed = 0;
+
+    for (let i = 0; i < rows.length; i += BACKFILL_BATCH_SIZE) {
+        const batch = rows.slice(i, i + BACKFILL_BATCH_SIZE);
+        try {
+            const embeddings = await embedTexts(batch.map((r) => r.content as string));
+            for (const [j, row] of batch.entries()) {
+                const { error } = await db
+                    .from("memories")
+                    .update({ embedding: embeddings[j]!.vector, embedding_model: embeddings[j]!.model })
+                    .eq("id", row.id);
+                if (error) failed++;
+                else embedded++;
+            }
+        } catch (err) {
+            console.warn("⚠️ Embedding backfill batch failed:", err instanceof Error ? err.message : err);
+            failed += batch.length;
+        }
+    }
+
+    return { embedded, failed };
+}
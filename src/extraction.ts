@@ -0,0 +1,425 @@
+// ─── Background memory extraction ────────────────────────────────────
+// The agent rarely calls remember / set_profile / add_relationship on its
+// own. Every EXTRACTION_INTERVAL turns, the chat's new messages in
+// conversation_log are read by the extraction model, which returns
+// facts, profile updates, entities and relationships. They are saved
+// through the same functions as the tools, skipping what is already
+// stored, and every write is logged in extracted_items so the user can
+// review and undo it (/memories).
+
+import { config } from "./config.js";
+import { db } from "./db.js";
+import { chat } from "./llm.js";
+import { embeddingColumns } from "./embeddings.js";
+import { rememberFact, setProfileFact } from "./facts.js";
+import { endProfileValue, recordProfileValue, restoreMemories } from "./fact_versioning.js";
+import { addEntity, findEntity, linkEntities } from "./knowledge_graph.js";
+import { invalidateMemoryCache, retrieveMemories } from "./memory_retrieval.js";
+
+// Most recent messages read per run (older unread ones are skipped)
+const MAX_LOG_ROWS = 40;
+const MAX_MESSAGE_CHARS = 2000;
+// Stored memories shown to the model so it can skip known facts
+const KNOWN_MEMORY_COUNT = 15;
+// A fact this close to a stored memory is not saved again
+const DUPLICATE_SIMILARITY = 0.9;
+const MEMORY_CATEGORIES = ["professional", "personal", "preference", "style", "general"];
+
+export type ExtractedKind = "memory" | "profile" | "entity" | "relationship";
+
+export interface ExtractedItem {
+    id: number;
+    kind: ExtractedKind;
+    target_id: number | null;
+    summary: string;
+    details: Record<string, unknown>;
+    created_at: string;
+}
+
+interface ExtractionReply {
+    memories?: Array<{ content?: string; category?: string }>;
+    profile?: Array<{ key?: string; value?: string }>;
+    entities?: Array<{ name?: string; type?: string }>;
+    relationships?: Array<{
+        from_name?: string;
+        from_type?: string;
+        to_name?: string;
+        to_type?: string;
+        relationship?: string;
+    }>;
+}
+
+// ─── Scheduling ──────────────────────────────────────────────────────
+// Turn counts are per chat and in memory — after a restart the next pass
+// simply comes a little later. One pass per chat runs at a time.
+const turnCounts = new Map<string, number>();
+const running = new Map<string, Promise<void>>();
+
+/** Count a finished agent turn; starts an extraction pass every N turns. */
+export function scheduleExtraction(userId: number, chatId: number): void {
+    if (config.extractionInterval === 0) return;
+
+    const key = `${userId}:${chatId}`;
+    const turns = (turnCounts.get(key) ?? 0) + 1;
+    if (turns < config.extractionInterval || running.has(key)) {
+        turnCounts.set(key, turns);
+        return;
+    }
+    turnCounts.set(key, 0);
+
+    const run = extractFromConversation(userId, chatId)
+        .then(() => undefined)
+        .catch((err) => {
+            console.error(
+                `❌ Memory extraction failed [${userId}]:`,
+                err instanceof Error ? err.message : err
+            );
+        })
+        .finally(() => running.delete(key));
+    running.set(key, run);
+}
+
+/** Resolves once no extraction pass is running (for graceful shutdown). */
+export async function waitForExtractions(): Promise<void> {
+    await Promise.allSettled([...running.values()]);
+}
+
+// ─── Extraction pass ─────────────────────────────────────────────────
+/**
+ * Extract and save facts from a chat's messages since the last pass.
+ *
+ * @returns  The writes that were made (empty if nothing new was found)
+ */
+export async function extractFromConversation(
+    userId: number,
+    chatId: number
+): Promise<ExtractedItem[]> {
+    const { data: lastRun } = await db
+        .from("extraction_runs")
+        .select("last_log_id")
+        .eq("user_id", userId)
+        .eq("chat_id", chatId)
+        .order("id", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+
+    // Plain text messages only — tool calls and results have blocks
+    const { data: rows, error } = await db
+        .from("conversation_log")
+        .select("id, role, content")
+        .eq("user_id", userId)
+        .eq("chat_id", chatId)
+        .in("role", ["user", "assistant"])
+        .is("blocks", null)
+        .gt("id", (lastRun?.last_log_id as number | undefined) ?? 0)
+        .order("id", { ascending: false })
+        .limit(MAX_LOG_ROWS);
+
+    if (error) throw new Error(`Loading conversation failed: ${error.message}`);
+    if (!rows || rows.length === 0) return [];
+
+    const messages = [...rows].reverse();
+    const transcript = messages
+        .map((r) => `${r.role}: ${(r.content as string).slice(0, MAX_MESSAGE_CHARS)}`)
+        .join("\n\n");
+    const userText = messages
+        .filter((r) => r.role === "user")
+        .map((r) => r.content as string)
+        .join("\n");
+
+    const reply = await askExtractionModel(userId, transcript, userText);
+
+    const { data: run, error: runError } = await db
+        .from("extraction_runs")
+        .insert({ user_id: userId, chat_id: chatId, last_log_id: rows[0]!.id })
+        .select("id")
+        .single();
+
+    if (runError) throw new Error(`Recording extraction run failed: ${runError.message}`);
+
+    const items = await applyExtraction(userId, run.id as number, reply);
+
+    if (items.length > 0) {
+        await db.from("extraction_runs").update({ items: items.length }).eq("id", run.id);
+        console.log(`🧲 Extracted ${items.length} items for ${userId}: ${items.map((i) => i.summary).join("; ")}`);
+    }
+    return items;
+}
+
+async function askExtractionModel(
+    userId: number,
+    transcript: string,
+    userText: string
+): Promise<ExtractionReply> {
+    const { data: profileRows } = await db
+        .from("profile")
+        .select("key, value")
+        .eq("user_id", userId)
+        .order("key");
+    const known = await retrieveMemories(userId, userText, {
+        limit: KNOWN_MEMORY_COUNT,
+        requireMatch: false,
+        trackAccess: false,
+    });
+
+    const knownText = [
+        ...(profileRows ?? []).map((p) => `- profile ${p.key}: ${p.value}`),
+        ...known.map((m) => `- ${m.content}`),
+    ].join("\n");
+
+    const response = await chat(
+        [
+            {
+                role: "user",
+                content: `Extract what is worth remembering about the user from this conversation.
+
+Already known:
+${knownText || "(nothing yet)"}
+
+Conversation:
+${transcript}
+
+Rules:
+- Only facts the user stated or clearly confirmed — not the assistant's suggestions, not one-off requests, not facts about the assistant.
+- Skip anything already known, unless it changed.
+- memories: standalone facts, preferences or opinions, written as short sentences about the user ("Prefers morning meetings"). Category: ${MEMORY_CATEGORIES.join(", ")}.
+- profile: key identity facts (name, role, company, industry, location, interests, expertise, ...) with lowercase keys.
+- entities: people, companies, projects, technologies that matter to the user (type: person, company, project, technology, concept, ...).
+- relationships: links between entities; use the user's name (or "User", type person) for the user.
+
+Reply with JSON only:
+{"memories": [{"content": "", "category": ""}], "profile": [{"key": "", "value": ""}], "entities": [{"name": "", "type": ""}], "relationships": [{"from_name": "", "from_type": "", "to_name": "", "to_type": "", "relationship": ""}]}`,
+            },
+        ],
+        [],
+        { task: "extraction" }
+    );
+
+    const text = response.content
+        .filter((b) => b.type === "text")
+        .map((b) => ("text" in b ? b.text : ""))
+        .join("\n");
+
+    try {
+        return JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] ?? "{}") as ExtractionReply;
+    } catch {
+        throw new Error(`Extraction model returned no valid JSON: ${text.slice(0, 200)}`);
+    }
+}
+
+// ─── Saving ──────────────────────────────────────────────────────────
+// Each write goes through the tools' code path; a failing item is
+// skipped without losing the rest of the run.
+async function applyExtraction(
+    userId: number,
+    runId: number,
+    reply: ExtractionReply
+): Promise<ExtractedItem[]> {
+    const items: ExtractedItem[] = [];
+
+    const log = async (
+        kind: ExtractedKind,
+        targetId: number | null,
+        summary: string,
+        details: Record<string, unknown> = {}
+    ) => {
+        const { data, error } = await db
+            .from("extracted_items")
+            .insert({ run_id: runId, user_id: userId, kind, target_id: targetId, summary, details })
+            .select("id, kind, target_id, summary, details, created_at")
+            .single();
+        if (error) throw new Error(`Logging extracted item failed: ${error.message}`);
+        items.push(data as unknown as ExtractedItem);
+    };
+
+    const attempt = async (label: string, save: () => Promise<void>) => {
+        try {
+            await save();
+        } catch (err) {
+            console.warn(`⚠️ Extracted ${label} not saved:`, err instanceof Error ? err.message : err);
+        }
+    };
+
+    for (const m of reply.memories ?? []) {
+        const content = m.content?.trim();
+        if (!content) continue;
+        await attempt("memory", async () => {
+            const [closest] = await retrieveMemories(userId, content, { limit: 1, trackAccess: false });
+            if (closest && closest.similarity >= DUPLICATE_SIMILARITY) return;
+
+            const category = MEMORY_CATEGORIES.includes(m.category ?? "") ? m.category! : "general";
+            const result = await rememberFact(userId, content, category);
+            await log(
+                "memory",
+                result.id,
+                content,
+                result.rewritten
+                    ? { previous_content: result.rewritten.previousContent }
+                    : { superseded: result.contradictions.memories.map((s) => s.id) }
+            );
+        });
+    }
+
+    for (const p of reply.profile ?? []) {
+        const key = p.key?.trim();
+        const value = p.value?.trim();
+        if (!key || !value) continue;
+        await attempt("profile fact", async () => {
+            const update = await setProfileFact(userId, key, value);
+            if (!update.changed) return;
+            await log("profile", null, `${update.key}: ${value}`, {
+                key: update.key,
+                value,
+                previous_value: update.previousValue,
+                superseded: update.superseded.map((s) => s.id),
+            });
+        });
+    }
+
+    for (const e of reply.entities ?? []) {
+        const name = e.name?.trim();
+        const type = e.type?.trim().toLowerCase();
+        if (!name || !type) continue;
+        await attempt("entity", async () => {
+            if (await findEntity(userId, name, type)) return;
+            const entity = await addEntity(userId, name, type);
+            await log("entity", entity.id, `${entity.name} (${entity.type})`);
+        });
+    }
+
+    for (const r of reply.relationships ?? []) {
+        if (!r.from_name || !r.from_type || !r.to_name || !r.to_type || !r.relationship) continue;
+        await attempt("relationship", async () => {
+            const link = await linkEntities(
+                userId,
+                { name: r.from_name!.trim(), type: r.from_type!.trim().toLowerCase() },
+                { name: r.to_name!.trim(), type: r.to_type!.trim().toLowerCase() },
+                r.relationship!.trim()
+            );
+            if (link.created.from) {
+                await log("entity", link.from.id, `${link.from.name} (${link.from.type})`);
+            }
+            if (link.created.to) {
+                await log("entity", link.to.id, `${link.to.name} (${link.to.type})`);
+            }
+            if (link.created.relationship) {
+                await log(
+                    "relationship",
+                    link.relationship.id,
+                    `${link.from.name} --[${link.relationship.type}]--> ${link.to.name}`
+                );
+            }
+        });
+    }
+
+    return items;
+}
+
+// ─── Review & undo ───────────────────────────────────────────────────
+/** A user's most recent extracted writes that have not been undone. */
+export async function listExtractedItems(userId: number, limit = 10): Promise<ExtractedItem[]> {
+    const { data, error } = await db
+        .from("extracted_items")
+        .select("id, kind, target_id, summary, details, created_at")
+        .eq("user_id", userId)
+        .is("undone_at", null)
+        .order("id", { ascending: false })
+        .limit(limit);
+
+    if (error) throw new Error(`Loading extracted items failed: ${error.message}`);
+    return (data ?? []) as unknown as ExtractedItem[];
+}
+
+/**
+ * Revert one extracted write: delete what it created, or put back what
+ * it replaced (including memories it marked as outdated).
+ *
+ * @returns  The undone item
+ */
+export async function undoExtractedItem(userId: number, itemId: number): Promise<ExtractedItem> {
+    const { data, error } = await db
+        .from("extracted_items")
+        .select("id, kind, target_id, summary, details, created_at")
+        .eq("id", itemId)
+        .eq("user_id", userId)
+        .is("undone_at", null)
+        .maybeSingle();
+
+    if (error) throw new Error(`Loading extracted item failed: ${error.message}`);
+    if (!data) throw new Error("This item was already undone or does not exist.");
+
+    const item = data as unknown as ExtractedItem;
+    const superseded = (item.details.superseded as number[] | undefined) ?? [];
+
+    switch (item.kind) {
+        case "memory": {
+            // Restore first — deleting the memory clears superseded_by
+            await restoreMemories(userId, superseded);
+            const previous = item.details.previous_content as string | undefined;
+            const { error: e } = previous
+                ? await db
+                    .from("memories")
+                    .update({ content: previous, ...(await embeddingColumns(previous)) })
+                    .eq("id", item.target_id)
+                : await db.from("memories").delete().eq("id", item.target_id);
+            if (e) throw new Error(`Undoing memory failed: ${e.message}`);
+            invalidateMemoryCache(userId);
+            break;
+        }
+        case "profile": {
+            const key = item.details.key as string;
+            const previous = (item.details.previous_value as string | null) ?? null;
+            const { data: current } = await db
+                .from("profile")
+                .select("value, updated_at")
+                .eq("user_id", userId)
+                .eq("key", key)
+                .maybeSingle();
+
+            const { error: e } =
+                previous !== null
+                    ? await db
+                        .from("profile")
+                        .upsert(
+                            { user_id: userId, key, value: previous, updated_at: new Date().toISOString() },
+                            { onConflict: "user_id,key" }
+                        )
+                    : await db.from("profile").delete().eq("user_id", userId).eq("key", key);
+            if (e) throw new Error(`Undoing profile fact failed: ${e.message}`);
+
+            if (previous !== null) {
+                await recordProfileValue(
+                    userId,
+                    key,
+                    previous,
+                    current as { value: string; updated_at: string } | null
+                );
+            } else {
+                await endProfileValue(userId, key);
+            }
+            await restoreMemories(userId, superseded);
+            break;
+        }
+        case "entity": {
+            // Relationships cascade in Postgres; the local store needs it spelled out
+            await db.from("relationships").delete().eq("from_id", item.target_id);
+            await db.from("relationships").delete().eq("to_id", item.target_id);
+            const { error: e } = await db.from("entities").delete().eq("id", item.target_id);
+            if (e) throw new Error(`Undoing entity failed: ${e.message}`);
+            break;
+        }
+        case "relationship": {
+            const { error: e } = await db.from("relationships").delete().eq("id", item.target_id);
+            if (e) throw new Error(`Undoing relationship failed: ${e.message}`);
+            break;
+        }
+    }
+
+    await db
+        .from("extracted_items")
+        .update({ undone_at: new Date().toISOString() })
+        .eq("id", item.id);
+
+    console.log(`↩️ Undid extracted ${item.kind} #${item.id} for ${userId}: ${item.summary}`);
+    return item;
+}
@@ -0,0 +1,220 @@
+// ─── Fact versioning ─────────────────────────────────────────────────
+// New facts (remember, set_profile) are checked against what is already
+// known. Memories a new fact contradicts are closed with valid_to rather
+// than deleted: search, duplicate detection and the system prompt only
+// see current memories, while list_memories can still show the history.
+// Every value a profile key has had is kept in profile_history.
+
+import { db } from "./db.js";
+import { chat } from "./llm.js";
+import { invalidateMemoryCache, retrieveMemories } from "./memory_retrieval.js";
+
+// Closest current memories shown to the model per check
+const CONTRADICTION_CANDIDATES = 8;
+
+export interface Contradictions {
+    /** Current memories the new fact makes outdated. */
+    memories: Array<{ id: number; content: string }>;
+    /** Profile facts the new fact makes outdated. */
+    profile: Array<{ key: string; value: string }>;
+}
+
+// ─── Contradiction check ─────────────────────────────────────────────
+/**
+ * Ask the model which existing facts a new fact makes outdated.
+ *
+ * @param fact  The new fact, as a sentence about the user
+ */
+export async function findContradictions(
+    userId: number,
+    fact: string,
+    options: { excludeMemoryId?: number; checkProfile?: boolean } = {}
+): Promise<Contradictions> {
+    const candidates = (
+        await retrieveMemories(userId, fact, { limit: CONTRADICTION_CANDIDATES, trackAccess: false })
+    ).filter((m) => m.id !== options.excludeMemoryId);
+
+    let profileRows: Array<{ key: string; value: string }> = [];
+    if (options.checkProfile ?? true) {
+        const { data } = await db
+            .from("profile")
+            .select("key, value")
+            .eq("user_id", userId)
+            .order("key");
+        profileRows = (data ?? []) as Array<{ key: string; value: string }>;
+    }
+
+    if (candidates.length === 0 && profileRows.length === 0) {
+        return { memories: [], profile: [] };
+    }
+
+    const known = [
+        ...candidates.map((m) => `[memory ${m.id}] ${m.content}`),
+        ...profileRows.map((p) => `[profile ${p.key}] ${p.value}`),
+    ].join("\n");
+
+    const response = await chat(
+        [
+            {
+                role: "user",
+                content: `A new fact about the user was just saved:\n"${fact}"\n\nExisting facts:\n${known}\n\nWhich existing facts does the new fact make outdated — facts that can no longer both be true (e.g. a previous employer, role or city, a changed preference)? Facts that only add detail or are unrelated are not outdated.\nReply with JSON only: {"memories": [memory ids], "profile": [profile keys]}`,
+            },
+        ],
+        [],
+        { task: "summary" }
+    );
+
+    const text = response.content
+        .filter((b) => b.type === "text")
+        .map((b) => ("text" in b ? b.text : ""))
+        .join("\n");
+
+    let reply: { memories?: unknown; profile?: unknown } = {};
+    try {
+        reply = JSON.parse(text.match(/\{[\s\S]*\}/)?.[0] ?? "{}");
+    } catch {
+        console.warn("⚠️ Contradiction check returned no valid JSON:", text.slice(0, 200));
+    }
+
+    // Only facts that were actually shown can be outdated
+    const memoryIds = new Set(Array.isArray(reply.memories) ? reply.memories.map(Number) : []);
+    const profileKeys = new Set(Array.isArray(reply.profile) ? reply.profile.map(String) : []);
+
+    return {
+        memories: candidates
+            .filter((m) => memoryIds.has(m.id))
+            .map((m) => ({ id: m.id, content: m.content })),
+        profile: profileRows.filter((p) => profileKeys.has(p.key)),
+    };
+}
+
+/**
+ * Close memories that are no longer true.
+ *
+ * @param supersededBy  The memory that replaced them (null for a profile update)
+ */
+export async function supersedeMemories(
+    userId: number,
+    memoryIds: number[],
+    supersededBy: number | null
+): Promise<void> {
+    if (memoryIds.length === 0) return;
+
+    const { error } = await db
+        .from("memories")
+        .update({ valid_to: new Date().toISOString(), superseded_by: supersededBy })
+        .eq("user_id", userId)
+        .in("id", memoryIds)
+        .is("valid_to", null);
+
+    if (error) {
+        throw new Error(`Superseding memories failed: ${error.message}`);
+    }
+    invalidateMemoryCache(userId);
+
+    console.log(
+        `🕰️ Superseded memories ${memoryIds.map((id) => `#${id}`).join(", ")}` +
+            (supersededBy !== null ? ` by #${supersededBy}` : " (profile update)")
+    );
+}
+
+/** Make superseded memories current again (undoing supersedeMemories). */
+export async function restoreMemories(userId: number, memoryIds: number[]): Promise<void> {
+    if (memoryIds.length === 0) return;
+
+    const { error } = await db
+        .from("memories")
+        .update({ valid_to: null, superseded_by: null })
+        .eq("user_id", userId)
+        .in("id", memoryIds);
+
+    if (error) {
+        throw new Error(`Restoring memories failed: ${error.message}`);
+    }
+    invalidateMemoryCache(userId);
+}
+
+// ─── Profile history ─────────────────────────────────────────────────
+/**
+ * Record a new value for a profile key, closing the current version.
+ *
+ * @param previous  The profile row before the update, if there was one
+ */
+export async function recordProfileValue(
+    userId: number,
+    key: string,
+    value: string,
+    previous: { value: string; updated_at: string } | null
+): Promise<void> {
+    const now = new Date().toISOString();
+
+    const { data: open } = await db
+        .from("profile_history")
+        .select("id")
+        .eq("user_id", userId)
+        .eq("key", key)
+        .is("valid_to", null);
+
+    if (open && open.length > 0) {
+        await db
+            .from("profile_history")
+            .update({ valid_to: now })
+            .in("id", open.map((r) => r.id));
+    } else if (previous) {
+        // Saved before the history existed — keep the old value as a version
+        await db.from("profile_history").insert({
+            user_id: userId,
+            key,
+            value: previous.value,
+            valid_from: previous.updated_at,
+            valid_to: now,
+        });
+    }
+
+    const { error } = await db
+        .from("profile_history")
+        .insert({ user_id: userId, key, value, valid_from: now });
+
+    if (error) {
+        throw new Error(`Recording profile history failed: ${error.message}`);
+    }
+}
+
+/** Close the current version of a profile key that was removed. */
+export async function endProfileValue(userId: number, key: string): Promise<void> {
+    const { error } = await db
+        .from("profile_history")
+        .update({ valid_to: new Date().toISOString() })
+        .eq("user_id", userId)
+        .eq("key", key)
+        .is("valid_to", null);
+
+    if (error) {
+        throw new Error(`Closing profile history failed: ${error.message}`);
+    }
+}
+
+export interface ProfileVersion {
+    key: string;
+    value: string;
+    valid_from: string;
+    valid_to: string | null;
+}
+
+/** Every value a user's profile key (or all keys) has had, oldest first. */
+export async function getProfileHistory(userId: number, key?: string): Promise<ProfileVersion[]> {
+    let q = db
+        .from("profile_history")
+        .select("key, value, valid_from, valid_to")
+        .eq("user_id", userId)
+        .order("key")
+        .order("valid_from");
+
+    if (key) q = q.eq("key", key);
+
+    const { data, error } = await q;
+    if (error) {
+        throw new Error(`Loading profile history failed: ${error.message}`);
+    }
+    return (data ?? []) as unknown as ProfileVersion[];
+}
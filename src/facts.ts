@@ -0,0 +1,168 @@
+// ─── Saving facts ────────────────────────────────────────────────────
+// The write paths behind the remember and set_profile tools, shared with
+// background extraction so both deduplicate, embed and version the same
+// way.
+
+import { db } from "./db.js";
+import { embeddingColumns } from "./embeddings.js";
+import {
+    findContradictions,
+    recordProfileValue,
+    supersedeMemories,
+    type Contradictions,
+} from "./fact_versioning.js";
+import { invalidateMemoryCache } from "./memory_retrieval.js";
+
+// Word overlap above which a new memory rewrites an existing one
+const REWRITE_OVERLAP = 0.7;
+
+function wordOverlap(a: string, b: string): number {
+    const wordsA = new Set(a.toLowerCase().split(/\s+/));
+    const wordsB = new Set(b.toLowerCase().split(/\s+/));
+    const intersection = new Set([...wordsA].filter((w) => wordsB.has(w)));
+    const union = new Set([...wordsA, ...wordsB]);
+    return union.size === 0 ? 0 : intersection.size / union.size;
+}
+
+// ─── Memories ────────────────────────────────────────────────────────
+export interface RememberResult {
+    id: number;
+    /** Set when a near-identical memory was rewritten instead of adding one. */
+    rewritten?: { previousContent: string; overlap: number };
+    contradictions: Contradictions;
+}
+
+/**
+ * Save a memory. A near-identical memory in the same category is
+ * rewritten; a new one retires the memories it contradicts.
+ *
+ * @throws  When the database write fails
+ */
+export async function rememberFact(
+    userId: number,
+    content: string,
+    category = "general"
+): Promise<RememberResult> {
+    const { data: existing } = await db
+        .from("memories")
+        .select("id, content")
+        .eq("user_id", userId)
+        .eq("category", category)
+        .is("valid_to", null);
+
+    for (const mem of existing ?? []) {
+        const overlap = wordOverlap(content, mem.content as string);
+        if (overlap <= REWRITE_OVERLAP) continue;
+
+        const { error } = await db
+            .from("memories")
+            .update({
+                content,
+                last_accessed: new Date().toISOString(),
+                ...(await embeddingColumns(content)),
+            })
+            .eq("id", mem.id);
+
+        if (error) {
+            throw new Error(`Failed to update memory: ${error.message}`);
+        }
+        invalidateMemoryCache(userId);
+
+        return {
+            id: mem.id as number,
+            rewritten: { previousContent: mem.content as string, overlap },
+            contradictions: { memories: [], profile: [] },
+        };
+    }
+
+    const { data, error } = await db
+        .from("memories")
+        .insert({ user_id: userId, content, category, ...(await embeddingColumns(content)) })
+        .select("id")
+        .single();
+
+    if (error) {
+        throw new Error(`Failed to save memory: ${error.message}`);
+    }
+    invalidateMemoryCache(userId);
+    const id = data.id as number;
+
+    // Older facts this one contradicts are kept, but no longer current
+    let contradictions: Contradictions = { memories: [], profile: [] };
+    try {
+        contradictions = await findContradictions(userId, content, { excludeMemoryId: id });
+        await supersedeMemories(userId, contradictions.memories.map((m) => m.id), id);
+    } catch (err) {
+        console.warn("⚠️ Contradiction check failed:", err instanceof Error ? err.message : err);
+    }
+
+    return { id, contradictions };
+}
+
+// ─── Profile ─────────────────────────────────────────────────────────
+export interface ProfileUpdate {
+    key: string;
+    previousValue: string | null;
+    changed: boolean;
+    /** Memories the new value made outdated. */
+    superseded: Array<{ id: number; content: string }>;
+}
+
+/**
+ * Set a profile fact. A changed value is versioned in profile_history
+ * and retires the memories it contradicts.
+ *
+ * @throws  When the database write fails
+ */
+export async function setProfileFact(
+    userId: number,
+    rawKey: string,
+    value: string
+): Promise<ProfileUpdate> {
+    const key = rawKey.toLowerCase().trim();
+
+    const { data: previous } = await db
+        .from("profile")
+        .select("value, updated_at")
+        .eq("user_id", userId)
+        .eq("key", key)
+        .maybeSingle();
+
+    const { error } = await db
+        .from("profile")
+        .upsert(
+            { user_id: userId, key, value, updated_at: new Date().toISOString() },
+            { onConflict: "user_id,key" }
+        );
+
+    if (error) {
+        throw new Error(`Profile update failed: ${error.message}`);
+    }
+
+    const previousValue = (previous?.value as string | undefined) ?? null;
+    if (previousValue === value) {
+        return { key, previousValue, changed: false, superseded: [] };
+    }
+
+    // Version the change and retire memories that no longer hold
+    let superseded: ProfileUpdate["superseded"] = [];
+    try {
+        await recordProfileValue(
+            userId,
+            key,
+            value,
+            previous as { value: string; updated_at: string } | null
+        );
+
+        const fact = previous
+            ? `The user's ${key} is now: ${value} (previously: ${previousValue})`
+            : `The user's ${key} is: ${value}`;
+        const contradictions = await findContradictions(userId, fact, { checkProfile: false });
+        await supersedeMemories(userId, contradictions.memories.map((m) => m.id), null);
+        superseded = contradictions.memories;
+    } catch (err) {
+        console.warn("⚠️ Profile versioning failed:", err instanceof Error ? err.message : err);
+    }
+
+    return { key, previousValue, changed: true, superseded };
+}
@@ -0,0 +1,265 @@
+// ─── Knowledge graph export ──────────────────────────────────────────
+// The whole graph, or the neighbourhood of one entity, as GraphViz DOT,
+// Mermaid or JSON-LD — so the user can audit what the assistant believes.
+// PNG/SVG images are rendered by the GraphViz `dot` binary (GRAPHVIZ_DOT).
+
+import { spawn } from "child_process";
+import { db } from "./db.js";
+import {
+    isExpired,
+    relationshipWeight,
+    traverseGraph,
+    type EntitySummary,
+    type Relationship,
+} from "./knowledge_graph.js";
+
+export type GraphTextFormat = "dot" | "mermaid" | "jsonld";
+export type GraphImageFormat = "png" | "svg";
+export type GraphExportFormat = GraphTextFormat | GraphImageFormat;
+
+export const GRAPH_EXPORT_FORMATS: GraphExportFormat[] = ["png", "svg", "dot", "mermaid", "jsonld"];
+
+export interface GraphSnapshot {
+    entities: EntitySummary[];
+    relationships: Relationship[];
+    /** The entity a subgraph was taken around. */
+    centerId: number | null;
+    /** More entities exist than were exported. */
+    truncated: boolean;
+}
+
+export interface GraphExportOptions {
+    /** Export only the entities within depth hops of this one. */
+    centerId?: number;
+    depth?: number;
+    /** Include relationships that have ended (drawn dashed). */
+    includeExpired?: boolean;
+}
+
+const DOT_BINARY = process.env.GRAPHVIZ_DOT || "dot";
+const RENDER_TIMEOUT_MS = 30_000;
+// Larger graphs render into unreadable images anyway
+const MAX_EXPORT_ENTITIES = 300;
+
+/** Load a user's graph, or the subgraph around options.centerId. */
+export async function loadGraph(userId: number, options: GraphExportOptions = {}): Promise<GraphSnapshot> {
+    const includeExpired = options.includeExpired ?? false;
+    let entities: EntitySummary[];
+    let truncated: boolean;
+
+    if (options.centerId !== undefined) {
+        const reached = await traverseGraph(userId, options.centerId, {
+            maxDepth: options.depth ?? 2,
+            includeExpired,
+            limit: MAX_EXPORT_ENTITIES + 1,
+        });
+        truncated = reached.length > MAX_EXPORT_ENTITIES;
+        entities = reached.slice(0, MAX_EXPORT_ENTITIES).map((r) => r.entity);
+    } else {
+        const { data, error } = await db
+            .from("entities")
+            .select("id, name, type, properties")
+            .eq("user_id", userId)
+            .order("id")
+            .limit(MAX_EXPORT_ENTITIES + 1);
+        if (error) throw new Error(`Loading entities failed: ${error.message}`);
+        truncated = (data ?? []).length > MAX_EXPORT_ENTITIES;
+        entities = ((data ?? []) as EntitySummary[]).slice(0, MAX_EXPORT_ENTITIES);
+    }
+
+    const ids = new Set(entities.map((e) => e.id));
+    if (ids.size === 0) return { entities, relationships: [], centerId: options.centerId ?? null, truncated };
+
+    const { data: rows, error } = await db
+        .from("relationships")
+        .select("*")
+        .eq("user_id", userId)
+        .in("from_id", [...ids])
+        .order("id");
+    if (error) throw new Error(`Loading relationships failed: ${error.message}`);
+
+    const relationships = ((rows ?? []) as Relationship[]).filter(
+        (r) => ids.has(r.to_id) && (includeExpired || !isExpired(r))
+    );
+
+    return { entities, relationships, centerId: options.centerId ?? null, truncated };
+}
+
+// ─── Text formats ────────────────────────────────────────────────────
+function weightOf(r: Relationship): number {
+    return r.weight ?? relationshipWeight(r.mention_count ?? 1);
+}
+
+function dotString(value: string): string {
+    return `"${value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")}"`;
+}
+
+export function toDot(graph: GraphSnapshot): string {
+    const lines = [
+        "digraph knowledge_graph {",
+        "    rankdir=LR;",
+        '    node [shape=box, style="rounded,filled", fillcolor="#f5f5f5", fontname="Helvetica"];',
+        '    edge [fontname="Helvetica", fontsize=10];',
+    ];
+
+    for (const e of graph.entities) {
+        const center = e.id === graph.centerId ? ', penwidth=2, fillcolor="#dbeafe"' : "";
+        lines.push(`    e${e.id} [label=${dotString(`${e.name}\n(${e.type})`)}${center}];`);
+    }
+
+    for (const r of graph.relationships) {
+        // Thicker edges for relationships mentioned more often
+        const style = isExpired(r) ? ', style=dashed, color="#9ca3af", fontcolor="#9ca3af"' : "";
+        const penwidth = (1 + weightOf(r) * 2).toFixed(1);
+        lines.push(`    e${r.from_id} -> e${r.to_id} [label=${dotString(r.type)}, penwidth=${penwidth}${style}];`);
+    }
+
+    lines.push("}");
+    return lines.join("\n");
+}
+
+function mermaidLabel(value: string): string {
+    return value.replace(/"/g, "#quot;").replace(/[\r\n]+/g, " ");
+}
+
+export function toMermaid(graph: GraphSnapshot): string {
+    const lines = ["graph LR"];
+
+    for (const e of graph.entities) {
+        lines.push(`    e${e.id}["${mermaidLabel(e.name)} (${mermaidLabel(e.type)})"]`);
+    }
+
+    for (const r of graph.relationships) {
+        const arrow = isExpired(r) ? "-.->" : "-->";
+        lines.push(`    e${r.from_id} ${arrow}|"${mermaidLabel(r.type)}"| e${r.to_id}`);
+    }
+
+    if (graph.centerId !== null) {
+        lines.push("    classDef center stroke-width:3px", `    class e${graph.centerId} center`);
+    }
+    return lines.join("\n");
+}
+
+/**
+ * JSON-LD: entities as nodes (schema.org name/alternateName), each
+ * relationship as a node of its own so weight and validity are kept.
+ */
+export function toJsonLd(graph: GraphSnapshot): string {
+    const nodes: Array<Record<string, unknown>> = graph.entities.map((e) => {
+        const { aliases, ...properties } = (e.properties ?? {}) as Record<string, unknown>;
+        return {
+            "@id": `entity:${e.id}`,
+            "@type": e.type,
+            name: e.name,
+            ...(Array.isArray(aliases) && aliases.length > 0 ? { alternateName: aliases } : {}),
+            ...(Object.keys(properties).length > 0 ? { properties } : {}),
+        };
+    });
+
+    for (const r of graph.relationships) {
+        nodes.push({
+            "@id": `relationship:${r.id}`,
+            "@type": "Relationship",
+            relation: r.type,
+            from: { "@id": `entity:${r.from_id}` },
+            to: { "@id": `entity:${r.to_id}` },
+            weight: Math.round(weightOf(r) * 100) / 100,
+            mentions: r.mention_count ?? 1,
+            validFrom: r.valid_from,
+            ...(r.valid_to ? { validTo: r.valid_to } : {}),
+        });
+    }
+
+    return JSON.stringify(
+        {
+            "@context": {
+                "@version": 1.1,
+                "@vocab": "urn:gravity-claw:graph:",
+                entity: "urn:gravity-claw:entity:",
+                relationship: "urn:gravity-claw:relationship:",
+                name: "https://schema.org/name",
+                alternateName: "https://schema.org/alternateName",
+                properties: { "@type": "@json" },
+                validFrom: { "@type": "http://www.w3.org/2001/XMLSchema#dateTime" },
+                validTo: { "@type": "http://www.w3.org/2001/XMLSchema#dateTime" },
+            },
+            "@graph": nodes,
+        },
+        null,
+        2
+    );
+}
+
+export function formatGraph(graph: GraphSnapshot, format: GraphTextFormat): string {
+    switch (format) {
+        case "dot":
+            return toDot(graph);
+        case "mermaid":
+            return toMermaid(graph);
+        case "jsonld":
+            return toJsonLd(graph);
+    }
+}
+
+export const GRAPH_FILE_EXTENSIONS: Record<GraphExportFormat, string> = {
+    png: "png",
+    svg: "svg",
+    dot: "dot",
+    mermaid: "mmd",
+    jsonld: "jsonld",
+};
+
+// ─── Images (GraphViz) ───────────────────────────────────────────────
+/**
+ * Render DOT source to an image with the GraphViz `dot` binary.
+ *
+ * @throws  When GraphViz is not installed, fails or times out
+ */
+export function renderDot(dot: string, format: GraphImageFormat): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+        const child = spawn(DOT_BINARY, [`-T${format}`], { timeout: RENDER_TIMEOUT_MS });
+        const stdout: Buffer[] = [];
+        const stderr: Buffer[] = [];
+
+        child.stdout.on("data", (chunk: Buffer) => stdout.push(chunk));
+        child.stderr.on("data", (chunk: Buffer) => stderr.push(chunk));
+        child.on("error", (err: NodeJS.ErrnoException) => {
+            reject(
+                err.code === "ENOENT"
+                    ? new Error(`GraphViz is not installed ("${DOT_BINARY}" not found) — export as dot, mermaid or jsonld instead.`)
+                    : err
+            );
+        });
+        child.on("close", (code, signal) => {
+            if (code === 0) return resolve(Buffer.concat(stdout));
+            const reason = signal ? `was stopped (${signal})` : `exited with ${code}`;
+            reject(new Error(`GraphViz ${reason}: ${Buffer.concat(stderr).toString().trim()}`));
+        });
+
+        child.stdin.on("error", () => {}); // Reported through "error"/"close"
+        child.stdin.end(dot);
+    });
+}
+
+export interface GraphExport {
+    format: GraphExportFormat;
+    filename: string;
+    data: Buffer;
+    graph: GraphSnapshot;
+}
+
+/** Export a user's graph (or a subgraph) to a file in the given format. */
+export async function exportGraph(
+    userId: number,
+    format: GraphExportFormat,
+    options: GraphExportOptions & { name?: string } = {}
+): Promise<GraphExport> {
+    const graph = await loadGraph(userId, options);
+    const data =
+        format === "png" || format === "svg"
+            ? await renderDot(toDot(graph), format)
+            : Buffer.from(formatGraph(graph, format), "utf8");
+
+    const slug = (options.name ?? "knowledge-graph").toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+    return { format, filename: `${slug || "graph"}.${GRAPH_FILE_EXTENSIONS[format]}`, data, graph };
+}
@@ -3,16 +3,25 @@ import { bot } from "./bot.js";
 import { config } from "./config.js";
 import { runAgent } from "./agent.js";
 import { runMaintenance } from "./memory_evolution.js";
+import { backfillEmbeddings } from "./embeddings.js";
+import { pruneJobRuns, scheduleLedgerJob } from "./job_ledger.js";
 
 interface HeartbeatChecker {
     name: string;
     interval: string; // cron expression
-    check: () => Promise<string | null>; // returns message if noteworthy, null otherwise
+    check: (userId: number) => Promise<string | null>; // runs per user; returns message if noteworthy, null otherwise
 }
 
 const checkers: HeartbeatChecker[] = [];
 const activeJobs: cron.ScheduledTask[] = [];
 
+// Most recent completed heartbeat run (checker or morning briefing), for /healthz
+let lastRun: { name: string; finishedAt: Date } | null = null;
+
+export function getLastHeartbeatRun(): { name: string; finishedAt: Date } | null {
+    return lastRun;
+}
+
 // ─── Register a checker ──────────────────────────────────────────────
 export function registerChecker(checker: HeartbeatChecker): void {
     checkers.push(checker);
@@ -24,77 +33,141 @@ export function registerChecker(checker: HeartbeatChecker): void {
 registerChecker({
     name: "memory-maintenance",
     interval: "0 3 * * *",
-    async check() {
-        const result = await runMaintenance();
-        if (result.duplicatesRemoved > 0) {
-            return `🧹 Memory maintenance: removed ${result.duplicatesRemoved} duplicate memories.`;
+    async check(userId) {
+        const { merges, entities } = await runMaintenance(userId);
+        const sections: string[] = [];
+
+        if (merges.length > 0) {
+            const lines = merges.map(
+                (m) => `• ${plainText(m.originals[0])} + ${plainText(m.originals[1])}\n  → ${plainText(m.merged)}`
+            );
+            sections.push(`Merged ${merges.length} duplicate memories:\n${lines.join("\n")}`);
+        }
+        if (entities.merged.length > 0) {
+            const lines = entities.merged.map(
+                (m) => `• ${m.duplicates.map(plainText).join(", ")} → ${plainText(m.canonical)}`
+            );
+            sections.push(`Merged duplicate entities:\n${lines.join("\n")}`);
+        }
+        if (entities.suggestions.length > 0) {
+            const lines = entities.suggestions.slice(0, 10).map(
+                (d) => `• ${plainText(d.a.name)} ≈ ${plainText(d.b.name)} (${plainText(d.a.type)}, ${d.reason})`
+            );
+            sections.push(
+                `Possibly the same entity — tell me to merge them if so:\n${lines.join("\n")}`
+            );
+        }
+
+        if (sections.length > 0) {
+            return `🧹 Memory maintenance\n\n${sections.join("\n\n")}`;
         }
         return null; // Nothing noteworthy
     },
 });
 
-// ─── Notify user ─────────────────────────────────────────────────────
-async function notifyUser(message: string): Promise<void> {
-    for (const userId of config.allowedUserIds) {
-        try {
-            await bot.api.sendMessage(userId, message, { parse_mode: "Markdown" });
-        } catch (err) {
-            console.error(`❌ Heartbeat notification failed for ${userId}:`, err);
+// Embedding backfill — hourly; embeds memories saved while the embedding
+// provider was unavailable, or with a model that is no longer active
+registerChecker({
+    name: "embedding-backfill",
+    interval: "20 * * * *",
+    async check(userId) {
+        const { embedded, failed } = await backfillEmbeddings(userId);
+        if (embedded > 0 || failed > 0) {
+            console.log(`🧮 Embedding backfill for ${userId}: ${embedded} embedded, ${failed} failed`);
         }
-    }
+        return null; // Housekeeping — nothing to tell the user
+    },
+});
+
+// Memory text is quoted in Markdown messages — drop characters that
+// would be read as (possibly unbalanced) formatting
+function plainText(text: string): string {
+    return text.replace(/[*_`[\]]/g, "");
+}
+
+// ─── Notify user ─────────────────────────────────────────────────────
+// Heartbeat messages go to the user's private chat (chat ID = user ID).
+// A failed send fails the run, so the job ledger retries it.
+async function notifyUser(userId: number, message: string): Promise<void> {
+    await bot.api.sendMessage(userId, message, { parse_mode: "Markdown" });
 }
 
 // ─── Morning briefing ────────────────────────────────────────────────
-async function deliverMorningBriefing(): Promise<void> {
-    console.log("🌅 Generating morning briefing...");
-    try {
-        const briefing = await runAgent(
-            "Generate my morning briefing. Call get_weather and get_briefing to gather data, then compose a concise, friendly briefing message."
-        );
-        await notifyUser(`🌅 **Good Morning!**\n\n${briefing}`);
-        console.log("   ✅ Morning briefing delivered");
-    } catch (err) {
-        console.error("   ❌ Morning briefing failed:", err);
+async function deliverMorningBriefing(userId: number): Promise<void> {
+    console.log(`🌅 Generating morning briefing for ${userId}...`);
+    const briefing = await runAgent(
+        "Generate my morning briefing. Call get_weather and get_briefing to gather data, then compose a concise, friendly briefing message.",
+        { userId, chatId: userId }
+    );
+    await notifyUser(userId, `🌅 **Good Morning!**\n\n${briefing}`);
+    console.log(`   ✅ Morning briefing delivered to ${userId}`);
+    lastRun = { name: "morning-briefing", finishedAt: new Date() };
+}
+
+async function runChecker(checker: HeartbeatChecker, userId: number): Promise<void> {
+    const result = await checker.check(userId);
+    if (result) {
+        await notifyUser(userId, result);
+        console.log(`💓 Heartbeat [${checker.name}]: notified user ${userId}`);
     }
+    lastRun = { name: checker.name, finishedAt: new Date() };
 }
 
 // ─── Start heartbeat system ──────────────────────────────────────────
+// Briefings and checkers are ledger jobs per user (e.g.
+// "heartbeat:memory-maintenance:123"): a run that fails for one user is
+// recorded and retried for that user alone, without repeating it for the rest.
 export function startHeartbeat(): void {
-    const timezone = process.env.POST_TIMEZONE || "Europe/Berlin";
+    const timezone = config.postTimezone;
 
     // Morning briefing
     const briefingTime = process.env.BRIEFING_TIME || "07:30";
     const [bH, bM] = briefingTime.split(":").map(Number);
     if (!isNaN(bH!) && !isNaN(bM!)) {
-        const briefingJob = cron.schedule(
-            `${bM} ${bH} * * 1-5`,
-            deliverMorningBriefing,
-            { timezone }
-        );
-        activeJobs.push(briefingJob);
+        for (const userId of config.allowedUserIds) {
+            const briefingJob = scheduleLedgerJob(
+                {
+                    name: `morning-briefing:${userId}`,
+                    cron: `${bM} ${bH} * * 1-5`,
+                    timezone,
+                    run: () => deliverMorningBriefing(userId),
+                },
+                { catchUp: true }
+            );
+            activeJobs.push(briefingJob);
+        }
         console.log(
             `🌅 Morning briefing: ${briefingTime} (${timezone}), Mon–Fri`
         );
     }
 
-    // Register all checker cron jobs
-    for (const checker of checkers) {
-        const job = cron.schedule(
-            checker.interval,
-            async () => {
-                try {
-                    const result = await checker.check();
-                    if (result) {
-                        await notifyUser(result);
-                        console.log(`💓 Heartbeat [${checker.name}]: notified user`);
-                    }
-                } catch (err) {
-                    console.error(`❌ Heartbeat [${checker.name}] failed:`, err);
-                }
+    // Job ledger retention — daily, after memory maintenance
+    activeJobs.push(
+        scheduleLedgerJob({
+            name: "job-runs-retention",
+            cron: "30 3 * * *",
+            timezone,
+            run: async () => {
+                const pruned = await pruneJobRuns();
+                if (pruned > 0) console.log(`🗑️ Job ledger: pruned ${pruned} old runs`);
             },
-            { timezone }
-        );
-        activeJobs.push(job);
+        })
+    );
+
+    // Register all checker cron jobs; runs missed while the bot was down are caught up
+    for (const checker of checkers) {
+        for (const userId of config.allowedUserIds) {
+            const job = scheduleLedgerJob(
+                {
+                    name: `heartbeat:${checker.name}:${userId}`,
+                    cron: checker.interval,
+                    timezone,
+                    run: () => runChecker(checker, userId),
+                },
+                { catchUp: true }
+            );
+            activeJobs.push(job);
+        }
         console.log(`💓 Heartbeat checker: ${checker.name} (${checker.interval})`);
     }
 }
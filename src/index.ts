@@ -1,12 +1,9 @@
 // ─── Gravity Claw — Entry Point ──────────────────────────────────────
-// Load config first (validates env vars), then Supabase, then all modules.
+// Load config first (validates env vars), then the database, then all modules.
 
 import { config } from "./config.js";
 
-// Initialize Supabase client
-import "./supabase.js";
-
-// Initialize database layer (re-exports supabase)
+// Initialize database layer (Supabase or local store, per STORAGE_BACKEND)
 import "./db.js";
 
 // Initialize knowledge graph
@@ -20,6 +17,9 @@ import "./tools/get_current_time.js";
 import "./tools/linkedin_topics.js";
 import "./tools/linkedin_templates.js";
 import "./tools/linkedin_style.js";
+import "./tools/style_learning.js";
+import "./tools/linkedin_posts.js";
+import "./tools/post_metrics.js";
 import "./tools/memory.js";
 import "./tools/profile.js";
 import "./tools/onboarding.js";
@@ -32,14 +32,25 @@ import "./tools/multimodal.js";
 import "./tools/shell.js";
 import "./tools/web_search.js";
 
-import { bot } from "./bot.js";
+import cron from "node-cron";
+import type http from "http";
+import { bot, drainChatQueues } from "./bot.js";
+import { waitForAgentRuns } from "./agent.js";
+import { waitForExtractions } from "./extraction.js";
 import { startScheduler } from "./scheduler.js";
 import { startHeartbeat } from "./heartbeat.js";
+import { startServer, registerWebhook } from "./server.js";
+
+// How long shutdown waits for in-flight agent turns before exiting anyway
+const SHUTDOWN_TIMEOUT_MS = 30_000;
 
 console.log("🪐 Gravity Claw");
 console.log(`   Allowed users: [${config.allowedUserIds.join(", ")}]`);
 console.log(`   Max agent iterations: ${config.maxAgentIterations}`);
-console.log(`   Database: Supabase Postgres`);
+console.log(
+    `   Database: ${config.storageBackend === "local" ? "Local store" : "Supabase Postgres"}`
+);
+console.log(`   Mode: ${config.botMode === "webhook" ? "Webhook" : "Long-polling"}`);
 console.log("");
 
 // Start scheduled tasks (LinkedIn post delivery)
@@ -50,19 +61,65 @@ startHeartbeat();
 
 console.log("");
 
-// Start bot with long-polling (no web server, no exposed ports)
-bot.start({
-    onStart: (botInfo) => {
-        console.log(`✅ Bot started: @${botInfo.username}`);
-        console.log("   Listening for messages via long-polling...");
-        console.log("   Press Ctrl+C to stop.\n");
-    },
+let server: http.Server | null = null;
+
+async function start(): Promise<void> {
+    // HTTP server: webhook endpoint and /healthz (polling mode only if PORT is set)
+    if (config.port !== undefined) {
+        server = await startServer(config.port);
+    }
+
+    if (config.botMode === "webhook") {
+        await bot.init();
+        await registerWebhook();
+        console.log(`✅ Bot started: @${bot.botInfo.username}`);
+        console.log("   Receiving messages via webhook...\n");
+        return;
+    }
+
+    // Long-polling needs no exposed ports (bot.start() also removes any webhook)
+    void bot.start({
+        onStart: (botInfo) => {
+            console.log(`✅ Bot started: @${botInfo.username}`);
+            console.log("   Listening for messages via long-polling...");
+            console.log("   Press Ctrl+C to stop.\n");
+        },
+    });
+}
+
+start().catch((err) => {
+    console.error("❌ Failed to start:", err instanceof Error ? err.message : err);
+    process.exit(1);
 });
 
-// Graceful shutdown
-const shutdown = () => {
+// ─── Graceful shutdown ───────────────────────────────────────────────
+// Stop taking new updates and cron runs, then let in-flight agent turns
+// finish (and their replies go out) before exiting.
+let shuttingDown = false;
+
+const shutdown = async () => {
+    if (shuttingDown) return;
+    shuttingDown = true;
     console.log("\n🛑 Shutting down...");
-    bot.stop();
+
+    for (const task of cron.getTasks().values()) {
+        await task.stop();
+    }
+    if (config.botMode === "polling") {
+        await bot.stop();
+    }
+    server?.close();
+
+    const drained = await Promise.race([
+        Promise.all([drainChatQueues(), waitForAgentRuns()])
+            .then(() => waitForExtractions())
+            .then(() => true),
+        new Promise<boolean>((resolve) => setTimeout(() => resolve(false), SHUTDOWN_TIMEOUT_MS)),
+    ]);
+    if (!drained) {
+        console.warn(`⚠️ Agent runs still in flight after ${SHUTDOWN_TIMEOUT_MS / 1000}s — exiting anyway`);
+    }
+
     process.exit(0);
 };
 
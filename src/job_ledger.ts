@@ -0,0 +1,179 @@
+// ─── Job ledger ──────────────────────────────────────────────────────
+// Every run of a scheduled job — LinkedIn slot deliveries, publishing and
+// reports, heartbeat checkers and briefings, scheduled tasks — is claimed
+// in job_runs before it executes, keyed by job and intended time. The
+// claim (claim_job_run) is atomic in the database, so with two instances
+// running each run still happens once. A claim whose instance died is
+// taken over after STALE_CLAIM_MS; a failed run is retried after
+// RETRY_DELAY_MS, up to MAX_ATTEMPTS times in all. On startup, cron jobs look up their latest intended
+// run and catch it up when it is younger than CATCH_UP_GRACE_MINUTES, or
+// record it as missed. Runs past the lookback are pruned daily.
+
+import cron from "node-cron";
+import os from "os";
+import { config } from "./config.js";
+import { db } from "./db.js";
+import { previousRun } from "./cron_match.js";
+
+export type JobRunStatus = "running" | "succeeded" | "failed" | "missed";
+
+const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+const STALE_CLAIM_MS = 30 * 60 * 1000;
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5 * 60 * 1000;
+// How far back startup looks for a missed run at all
+const MISSED_LOOKBACK_MS = 7 * 24 * 60 * 60 * 1000;
+// Rows are kept a day past the lookback, then pruned by pruneJobRuns()
+const RETENTION_MS = MISSED_LOOKBACK_MS + 24 * 60 * 60 * 1000;
+
+export function catchUpGraceMs(): number {
+    return config.catchUpGraceMinutes * 60 * 1000;
+}
+
+function minuteOf(date: Date): Date {
+    return new Date(Math.floor(date.getTime() / 60_000) * 60_000);
+}
+
+// ─── Claiming runs ───────────────────────────────────────────────────
+async function claimRun(job: string, scheduledFor: Date): Promise<boolean> {
+    const { data, error } = await db.rpc("claim_job_run", {
+        p_job: job,
+        p_scheduled_for: scheduledFor.toISOString(),
+        p_instance: INSTANCE_ID,
+        p_stale_seconds: STALE_CLAIM_MS / 1000,
+        p_max_attempts: MAX_ATTEMPTS,
+    });
+    if (error) throw new Error(`Claiming run of ${job} failed: ${error.message}`);
+    return data === true;
+}
+
+async function finishRun(job: string, scheduledFor: Date, status: JobRunStatus, error?: string): Promise<void> {
+    const { error: dbError } = await db
+        .from("job_runs")
+        .update({ status, error: error ?? null, finished_at: new Date().toISOString() })
+        .eq("job", job)
+        .eq("scheduled_for", scheduledFor.toISOString())
+        .eq("claimed_by", INSTANCE_ID);
+
+    if (dbError) console.error(`❌ Recording run of ${job} failed:`, dbError.message);
+}
+
+/**
+ * Run a job's occurrence unless it already ran (or is running) anywhere.
+ * The outcome is recorded; errors are rethrown to the caller.
+ *
+ * @returns  Whether this call ran it
+ */
+export async function runOnce(job: string, scheduledFor: Date, run: () => Promise<void>): Promise<boolean> {
+    if (!(await claimRun(job, scheduledFor))) return false;
+
+    try {
+        await run();
+    } catch (err) {
+        await finishRun(job, scheduledFor, "failed", err instanceof Error ? err.message : String(err));
+        throw err;
+    }
+    await finishRun(job, scheduledFor, "succeeded");
+    return true;
+}
+
+/**
+ * Record that a run was skipped because it is too late to make up.
+ *
+ * @returns  False when the run is already in the ledger (ran, or was recorded before)
+ */
+export async function recordMissedRun(job: string, scheduledFor: Date): Promise<boolean> {
+    const { error } = await db.from("job_runs").insert({
+        job,
+        scheduled_for: scheduledFor.toISOString(),
+        status: "missed",
+        claimed_by: INSTANCE_ID,
+        finished_at: new Date().toISOString(),
+    });
+
+    if (!error) return true;
+    if (error.code === "23505") return false;
+    throw new Error(`Recording missed run of ${job} failed: ${error.message}`);
+}
+
+/**
+ * Delete runs older than anything a catch-up or missed-run check still
+ * looks up.
+ *
+ * @returns  How many rows were deleted
+ */
+export async function pruneJobRuns(now = new Date()): Promise<number> {
+    const { error, count } = await db
+        .from("job_runs")
+        .delete({ count: "exact" })
+        .lt("scheduled_for", new Date(now.getTime() - RETENTION_MS).toISOString());
+
+    if (error) throw new Error(`Pruning job runs failed: ${error.message}`);
+    return count ?? 0;
+}
+
+async function ledgerStatus(job: string, scheduledFor: Date): Promise<JobRunStatus | null> {
+    const { data } = await db
+        .from("job_runs")
+        .select("status")
+        .eq("job", job)
+        .eq("scheduled_for", scheduledFor.toISOString())
+        .maybeSingle();
+    return (data?.status as JobRunStatus | undefined) ?? null;
+}
+
+// ─── Cron jobs ───────────────────────────────────────────────────────
+export interface LedgerJob {
+    /** Ledger key, e.g. "morning-briefing:123" or "task:12". */
+    name: string;
+    cron: string;
+    timezone: string;
+    run: () => Promise<void>;
+}
+
+// A failed run is tried again later; the claim refuses once it has had
+// MAX_ATTEMPTS, here or on another instance
+async function runLogged(job: LedgerJob, scheduledFor: Date, attempt = 1): Promise<void> {
+    try {
+        await runOnce(job.name, scheduledFor, job.run);
+    } catch (err) {
+        console.error(`❌ Job ${job.name} failed:`, err instanceof Error ? err.message : err);
+        if (attempt < MAX_ATTEMPTS) {
+            setTimeout(() => void runLogged(job, scheduledFor, attempt + 1), RETRY_DELAY_MS);
+        }
+    }
+}
+
+/**
+ * Make up the job's latest intended run if it did not happen (or failed)
+ * — when it is within the grace window; older runs are only recorded as
+ * missed.
+ */
+export async function catchUpMissedRun(job: LedgerJob, now = new Date()): Promise<void> {
+    const last = previousRun(job.cron, job.timezone, now, MISSED_LOOKBACK_MS);
+    if (!last) return;
+    const status = await ledgerStatus(job.name, last);
+    if (status !== null && status !== "failed") return;
+
+    const late = now.getTime() - last.getTime();
+    if (late <= catchUpGraceMs()) {
+        console.log(`⏪ Catching up ${job.name} (missed ${last.toISOString()})`);
+        await runLogged(job, last);
+    } else if (status === null && (await recordMissedRun(job.name, last))) {
+        console.log(`⏭️ ${job.name} missed its run at ${last.toISOString()} — too late to catch up`);
+    }
+}
+
+/**
+ * Schedule a cron job whose runs go through the ledger.
+ * With catchUp, a run missed before startup is made up first.
+ */
+export function scheduleLedgerJob(job: LedgerJob, { catchUp = false } = {}): cron.ScheduledTask {
+    const task = cron.schedule(job.cron, (ctx) => runLogged(job, minuteOf(ctx.date)), { timezone: job.timezone });
+    if (catchUp) {
+        catchUpMissedRun(job).catch((err) =>
+            console.error(`❌ Catch-up of ${job.name} failed:`, err instanceof Error ? err.message : err)
+        );
+    }
+    return task;
+}
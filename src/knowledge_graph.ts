@@ -1,4 +1,5 @@
-import { supabase } from "./supabase.js";
+import { db } from "./db.js";
+import { cosineSimilarity, embedTexts, embeddingsAvailable } from "./embeddings.js";
 
 // ─── Schema is created via Supabase migrations ──────────────────────
 
@@ -6,6 +7,7 @@ import { supabase } from "./supabase.js";
 
 export interface Entity {
     id: number;
+    user_id: number;
     name: string;
     type: string;
     properties: Record<string, unknown>;
@@ -15,24 +17,68 @@ export interface Entity {
 
 export interface Relationship {
     id: number;
+    user_id: number;
     from_id: number;
     to_id: number;
     type: string;
     properties: Record<string, unknown>;
+    /** How often the relationship was stated; weight grows with it. */
+    mention_count: number;
+    /** Confidence in the relationship, 1 - 0.5^mention_count. */
+    weight: number;
+    last_mentioned_at: string;
+    valid_from: string;
+    /** When the relationship ended; null while it still holds. */
+    valid_to: string | null;
     created_at: string;
 }
 
+/**
+ * Add an entity, or update the one it resolves to (same normalized name
+ * or alias, same type). A new spelling of an existing entity's name is
+ * kept as an alias; properties are merged.
+ */
 export async function addEntity(
+    userId: number,
     name: string,
     type: string,
     properties: Record<string, unknown> = {}
 ): Promise<Entity> {
-    const { data, error } = await supabase
+    const existing = await findEntity(userId, name, type);
+
+    if (existing) {
+        const aliases = new Set([...aliasesOf(existing), ...aliasesOf({ properties })]);
+        if (name !== existing.name) aliases.add(name);
+        aliases.delete(existing.name);
+
+        const { data, error } = await db
+            .from("entities")
+            .update({
+                properties: {
+                    ...existing.properties,
+                    ...properties,
+                    ...(aliases.size > 0 ? { aliases: [...aliases] } : {}),
+                },
+                normalized_name: normalizeEntityName(existing.name),
+                updated_at: new Date().toISOString(),
+            })
+            .eq("id", existing.id)
+            .select()
+            .single();
+
+        if (error) throw new Error(`addEntity failed: ${error.message}`);
+        return data as Entity;
+    }
+
+    const { data, error } = await db
         .from("entities")
-        .upsert(
-            { name, type, properties, updated_at: new Date().toISOString() },
-            { onConflict: "name,type" }
-        )
+        .insert({
+            user_id: userId,
+            name,
+            type,
+            properties,
+            normalized_name: normalizeEntityName(name),
+        })
         .select()
         .single();
 
@@ -40,100 +86,686 @@ export async function addEntity(
     return data as Entity;
 }
 
-export async function addRelationship(
+// ─── Relationships ───────────────────────────────────────────────────
+// Each current relationship is stored once. Stating it again counts as
+// another mention and raises its weight; a relationship that ended keeps
+// its row with valid_to set, so "worked at" history is not lost.
+export function relationshipWeight(mentions: number): number {
+    return 1 - 0.5 ** Math.max(1, mentions);
+}
+
+export function isExpired(relationship: Pick<Relationship, "valid_to">, at = new Date()): boolean {
+    return relationship.valid_to != null && new Date(relationship.valid_to) <= at;
+}
+
+async function findCurrentRelationship(
+    fromId: number,
+    toId: number,
+    type: string
+): Promise<Relationship | undefined> {
+    const { data, error } = await db
+        .from("relationships")
+        .select("*")
+        .eq("from_id", fromId)
+        .eq("to_id", toId)
+        .eq("type", type)
+        .is("valid_to", null)
+        .limit(1)
+        .maybeSingle();
+
+    if (error) throw new Error(`Relationship lookup failed: ${error.message}`);
+    return (data as Relationship | null) ?? undefined;
+}
+
+/**
+ * Add a relationship, or count another mention of the current identical
+ * one (properties are merged). With validTo the relationship is recorded
+ * as ended: a matching current edge is closed, otherwise a historical
+ * one is added.
+ */
+export async function upsertRelationship(
+    userId: number,
     fromId: number,
     toId: number,
     type: string,
-    properties: Record<string, unknown> = {}
-): Promise<Relationship> {
-    const { data, error } = await supabase
+    properties: Record<string, unknown> = {},
+    options: { validFrom?: string; validTo?: string } = {}
+): Promise<{ relationship: Relationship; created: boolean }> {
+    const existing = await findCurrentRelationship(fromId, toId, type);
+    const now = new Date().toISOString();
+
+    if (existing) {
+        const mentions = (existing.mention_count ?? 1) + 1;
+        const { data, error } = await db
+            .from("relationships")
+            .update({
+                properties: { ...(existing.properties ?? {}), ...properties },
+                mention_count: mentions,
+                weight: relationshipWeight(mentions),
+                last_mentioned_at: now,
+                ...(options.validFrom ? { valid_from: options.validFrom } : {}),
+                ...(options.validTo ? { valid_to: options.validTo } : {}),
+            })
+            .eq("id", existing.id)
+            .select()
+            .single();
+
+        if (error) throw new Error(`Updating relationship failed: ${error.message}`);
+        return { relationship: data as Relationship, created: false };
+    }
+
+    const { data, error } = await db
+        .from("relationships")
+        .insert({
+            user_id: userId,
+            from_id: fromId,
+            to_id: toId,
+            type,
+            properties,
+            mention_count: 1,
+            weight: relationshipWeight(1),
+            last_mentioned_at: now,
+            valid_from: options.validFrom ?? now,
+            valid_to: options.validTo ?? null,
+        })
+        .select()
+        .single();
+
+    if (error) throw new Error(`Adding relationship failed: ${error.message}`);
+    return { relationship: data as Relationship, created: true };
+}
+
+/**
+ * Mark the current relationship between two entities as ended.
+ *
+ * @returns  The ended relationship, or undefined if there was no current one
+ */
+export async function endRelationship(
+    fromId: number,
+    toId: number,
+    type: string,
+    endedAt = new Date().toISOString()
+): Promise<Relationship | undefined> {
+    const existing = await findCurrentRelationship(fromId, toId, type);
+    if (!existing) return undefined;
+
+    const { data, error } = await db
         .from("relationships")
-        .insert({ from_id: fromId, to_id: toId, type, properties })
+        .update({ valid_to: endedAt })
+        .eq("id", existing.id)
         .select()
         .single();
 
-    if (error) throw new Error(`addRelationship failed: ${error.message}`);
+    if (error) throw new Error(`Ending relationship failed: ${error.message}`);
     return data as Relationship;
 }
 
+/**
+ * Resolve a name to an entity: normalized name first, then aliases, then
+ * (with fuzzy) the closest similar name — for lookups, never for writes.
+ */
 export async function findEntity(
+    userId: number,
     name: string,
-    type?: string
+    type?: string,
+    options: { fuzzy?: boolean } = {}
 ): Promise<Entity | undefined> {
-    let query = supabase.from("entities").select("*").eq("name", name);
+    const normalized = normalizeEntityName(name);
+
+    let query = db
+        .from("entities")
+        .select("*")
+        .eq("user_id", userId)
+        .eq("normalized_name", normalized);
     if (type) query = query.eq("type", type);
 
     const { data, error } = await query.limit(1).maybeSingle();
     if (error) throw new Error(`findEntity failed: ${error.message}`);
-    return (data as Entity) ?? undefined;
+    if (data) return data as Entity;
+
+    // Aliases, rows saved before normalized_name and fuzzy matches need a scan
+    const candidates = await loadEntities(userId, type);
+    const exact = candidates.find((e) => nameKeys(e).has(normalized));
+    if (exact || !options.fuzzy) return exact;
+
+    let best: { entity: Entity; score: number } | undefined;
+    for (const entity of candidates) {
+        const score = Math.max(...[...nameKeys(entity)].map((key) => nameSimilarity(key, normalized)));
+        if (score >= FUZZY_NAME_MATCH && (!best || score > best.score)) {
+            best = { entity, score };
+        }
+    }
+    return best?.entity;
 }
 
+/**
+ * Link two entities by name, creating either entity if it does not exist
+ * yet. An identical current edge counts another mention rather than
+ * being duplicated.
+ */
+export async function linkEntities(
+    userId: number,
+    from: { name: string; type: string },
+    to: { name: string; type: string },
+    type: string,
+    options: { validFrom?: string; validTo?: string } = {}
+): Promise<{
+    from: Entity;
+    to: Entity;
+    relationship: Relationship;
+    created: { from: boolean; to: boolean; relationship: boolean };
+}> {
+    const existingFrom = await findEntity(userId, from.name, from.type);
+    const existingTo = await findEntity(userId, to.name, to.type);
+
+    const fromEntity = existingFrom ?? (await addEntity(userId, from.name, from.type));
+    const toEntity = existingTo ?? (await addEntity(userId, to.name, to.type));
+
+    const { relationship, created } = await upsertRelationship(
+        userId,
+        fromEntity.id,
+        toEntity.id,
+        type,
+        {},
+        options
+    );
+
+    return {
+        from: fromEntity,
+        to: toEntity,
+        relationship,
+        created: { from: !existingFrom, to: !existingTo, relationship: created },
+    };
+}
+
+export interface Connection {
+    relationship: string;
+    direction: "outgoing" | "incoming";
+    entity: Entity;
+    weight: number;
+    mentions: number;
+    validFrom: string;
+    validTo: string | null;
+}
+
+/**
+ * An entity's direct relationships. Ended ones (valid_to in the past)
+ * are left out unless includeExpired.
+ */
 export async function getConnections(
-    entityId: number
-): Promise<Array<{ relationship: string; direction: string; entity: Entity }>> {
+    entityId: number,
+    options: { includeExpired?: boolean } = {}
+): Promise<Connection[]> {
+    const columns = "type, from_id, to_id, mention_count, weight, valid_from, valid_to";
+    const visible = (rows: Array<Record<string, unknown>> | null) =>
+        ((rows ?? []) as unknown as Relationship[]).filter((r) => options.includeExpired || !isExpired(r));
+
     // Outgoing
-    const { data: outgoing, error: e1 } = await supabase
+    const { data: outgoingRows, error: e1 } = await db
         .from("relationships")
-        .select("type, entities!relationships_to_id_fkey(*)")
+        .select(columns)
         .eq("from_id", entityId);
 
     if (e1) throw new Error(`getConnections outgoing failed: ${e1.message}`);
 
     // Incoming
-    const { data: incoming, error: e2 } = await supabase
+    const { data: incomingRows, error: e2 } = await db
         .from("relationships")
-        .select("type, entities!relationships_from_id_fkey(*)")
+        .select(columns)
         .eq("to_id", entityId);
 
     if (e2) throw new Error(`getConnections incoming failed: ${e2.message}`);
 
-    const results: Array<{ relationship: string; direction: string; entity: Entity }> = [];
+    const outgoing = visible(outgoingRows);
+    const incoming = visible(incomingRows);
+
+    // Resolve the entities on the other end in one query (plain lookups
+    // instead of PostgREST embeds so every storage backend supports it)
+    const neighbourIds = [...outgoing.map((r) => r.to_id), ...incoming.map((r) => r.from_id)];
+    const entitiesById = new Map<number, Entity>();
+    if (neighbourIds.length > 0) {
+        const { data: neighbours, error: e3 } = await db
+            .from("entities")
+            .select("*")
+            .in("id", [...new Set(neighbourIds)]);
+
+        if (e3) throw new Error(`getConnections entities failed: ${e3.message}`);
+        for (const e of neighbours ?? []) entitiesById.set(e.id as number, e as Entity);
+    }
+
+    const connection = (row: Relationship, direction: Connection["direction"], entity: Entity): Connection => ({
+        relationship: row.type,
+        direction,
+        entity,
+        weight: row.weight ?? relationshipWeight(row.mention_count ?? 1),
+        mentions: row.mention_count ?? 1,
+        validFrom: row.valid_from,
+        validTo: row.valid_to ?? null,
+    });
+
+    const results: Connection[] = [];
+
+    for (const row of outgoing) {
+        const entity = entitiesById.get(row.to_id);
+        if (entity) results.push(connection(row, "outgoing", entity));
+    }
+
+    for (const row of incoming) {
+        const entity = entitiesById.get(row.from_id);
+        if (entity) results.push(connection(row, "incoming", entity));
+    }
+
+    return results;
+}
+
+// ─── Entity resolution ───────────────────────────────────────────────
+// Names are compared normalized — case, accents, punctuation and trailing
+// legal suffixes are ignored — so "Anthropic", "anthropic" and
+// "Anthropic PBC" are one entity. Other names an entity goes by are kept
+// in properties.aliases.
+const LEGAL_SUFFIXES = new Set([
+    "inc", "incorporated", "llc", "ltd", "limited", "corp", "corporation",
+    "pbc", "plc", "gmbh", "ag", "sa", "bv", "ab", "oy",
+]);
+// Edit-distance similarity needed for a fuzzy name match
+const FUZZY_NAME_MATCH = 0.85;
+// Shorter names are too easily confused ("Sam" / "Pam")
+const FUZZY_MIN_LENGTH = 5;
+// Name-embedding similarity that makes two entities a suggested duplicate
+const ENTITY_EMBEDDING_MATCH = 0.9;
+// Embedding all names is skipped for larger graphs
+const MAX_EMBEDDED_ENTITIES = 300;
+
+export function normalizeEntityName(name: string): string {
+    const words = name
+        .normalize("NFKD")
+        .replace(/\p{M}/gu, "")
+        .toLowerCase()
+        .match(/[\p{L}\p{N}]+/gu) ?? [];
+    while (words.length > 1 && LEGAL_SUFFIXES.has(words[words.length - 1]!)) {
+        words.pop();
+    }
+    return words.join(" ");
+}
+
+function aliasesOf(entity: Pick<Entity, "properties">): string[] {
+    const aliases = entity.properties?.aliases;
+    return Array.isArray(aliases) ? aliases.filter((a): a is string => typeof a === "string") : [];
+}
+
+// Every normalized name an entity answers to
+function nameKeys(entity: Pick<Entity, "name" | "properties">): Set<string> {
+    return new Set([entity.name, ...aliasesOf(entity)].map(normalizeEntityName));
+}
+
+// Edit distance counting a swap of adjacent letters as one edit ("Antrhopic")
+function editDistance(a: string, b: string): number {
+    const d: number[][] = Array.from({ length: a.length + 1 }, (_, i) => [i]);
+    for (let j = 1; j <= b.length; j++) d[0]![j] = j;
 
-    for (const row of outgoing ?? []) {
-        const entity = (row as any).entities as Entity;
-        if (entity) {
-            results.push({ relationship: row.type, direction: "outgoing", entity });
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+            d[i]![j] = Math.min(d[i - 1]![j]! + 1, d[i]![j - 1]! + 1, d[i - 1]![j - 1]! + cost);
+            if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+                d[i]![j] = Math.min(d[i]![j]!, d[i - 2]![j - 2]! + 1);
+            }
         }
     }
+    return d[a.length]![b.length]!;
+}
+
+function nameSimilarity(a: string, b: string): number {
+    if (a === b) return 1;
+    if (Math.min(a.length, b.length) < FUZZY_MIN_LENGTH) return 0;
+    return 1 - editDistance(a, b) / Math.max(a.length, b.length);
+}
+
+async function loadEntities(userId: number, type?: string): Promise<Entity[]> {
+    let query = db.from("entities").select("*").eq("user_id", userId).order("id");
+    if (type) query = query.eq("type", type);
+
+    const { data, error } = await query;
+    if (error) throw new Error(`Loading entities failed: ${error.message}`);
+    return (data ?? []) as Entity[];
+}
+
+/**
+ * Merge duplicate entities into a canonical one: relationships are
+ * re-pointed (self-loops dropped, repeated edges folded into one), names become
+ * aliases, properties are combined (the canonical entity's win) and the
+ * duplicates are deleted.
+ */
+export async function mergeEntities(
+    userId: number,
+    canonicalId: number,
+    duplicateIds: number[]
+): Promise<{ canonical: Entity; merged: Entity[]; relationshipsMoved: number }> {
+    const ids = duplicateIds.filter((id) => id !== canonicalId);
+    const { data: rows, error } = await db
+        .from("entities")
+        .select("*")
+        .eq("user_id", userId)
+        .in("id", [canonicalId, ...ids]);
+
+    if (error) throw new Error(`mergeEntities failed: ${error.message}`);
+    const canonical = (rows ?? []).find((e) => e.id === canonicalId) as Entity | undefined;
+    const duplicates = (rows ?? []).filter((e) => e.id !== canonicalId) as Entity[];
+    if (!canonical) throw new Error(`Entity #${canonicalId} not found.`);
+    if (duplicates.length === 0) return { canonical, merged: [], relationshipsMoved: 0 };
+
+    let relationshipsMoved = 0;
+    for (const dup of duplicates) {
+        relationshipsMoved += await repointRelationships(dup.id, canonical.id);
+    }
+
+    const aliases = new Set([
+        ...aliasesOf(canonical),
+        ...duplicates.flatMap((d) => [d.name, ...aliasesOf(d)]),
+    ]);
+    aliases.delete(canonical.name);
+
+    const properties = Object.assign(
+        {},
+        ...duplicates.map((d) => d.properties ?? {}),
+        canonical.properties ?? {},
+        { aliases: [...aliases] }
+    ) as Record<string, unknown>;
+
+    const { data: updated, error: updateError } = await db
+        .from("entities")
+        .update({
+            properties,
+            normalized_name: normalizeEntityName(canonical.name),
+            updated_at: new Date().toISOString(),
+        })
+        .eq("id", canonical.id)
+        .select()
+        .single();
+    if (updateError) throw new Error(`Updating canonical entity failed: ${updateError.message}`);
+
+    const { error: deleteError } = await db
+        .from("entities")
+        .delete()
+        .in("id", duplicates.map((d) => d.id));
+    if (deleteError) throw new Error(`Deleting merged entities failed: ${deleteError.message}`);
+
+    console.log(
+        `🕸️ Merged ${duplicates.map((d) => `"${d.name}"`).join(", ")} into "${canonical.name}" (${relationshipsMoved} relationships moved)`
+    );
+    return { canonical: updated as Entity, merged: duplicates, relationshipsMoved };
+}
 
-    for (const row of incoming ?? []) {
-        const entity = (row as any).entities as Entity;
-        if (entity) {
-            results.push({ relationship: row.type, direction: "incoming", entity });
+// Move a merged-away entity's edges onto the canonical one. Edges that
+// would point from the entity to itself are dropped; one that repeats a
+// current edge of the canonical entity is folded into it (mentions add up).
+async function repointRelationships(fromEntityId: number, toEntityId: number): Promise<number> {
+    const { data: outgoing, error: e1 } = await db.from("relationships").select("*").eq("from_id", fromEntityId);
+    const { data: incoming, error: e2 } = await db.from("relationships").select("*").eq("to_id", fromEntityId);
+    const loadError = e1 ?? e2;
+    if (loadError) throw new Error(`Loading relationships to re-point failed: ${loadError.message}`);
+
+    const edges = new Map<number, Relationship>();
+    for (const row of [...(outgoing ?? []), ...(incoming ?? [])]) edges.set(row.id as number, row as Relationship);
+
+    let moved = 0;
+    for (const edge of [...edges.values()].sort((a, b) => a.id - b.id)) {
+        const from = edge.from_id === fromEntityId ? toEntityId : edge.from_id;
+        const to = edge.to_id === fromEntityId ? toEntityId : edge.to_id;
+
+        const existing = from === to || edge.valid_to != null
+            ? undefined
+            : await findCurrentRelationship(from, to, edge.type);
+
+        if (from === to || existing) {
+            if (existing) {
+                const mentions = (existing.mention_count ?? 1) + (edge.mention_count ?? 1);
+                const { error } = await db
+                    .from("relationships")
+                    .update({
+                        properties: { ...(edge.properties ?? {}), ...(existing.properties ?? {}) },
+                        mention_count: mentions,
+                        weight: relationshipWeight(mentions),
+                        last_mentioned_at: [existing.last_mentioned_at, edge.last_mentioned_at].sort().pop(),
+                        valid_from: [existing.valid_from, edge.valid_from].sort()[0],
+                    })
+                    .eq("id", existing.id);
+                if (error) throw new Error(`Folding relationship failed: ${error.message}`);
+            }
+            const { error } = await db.from("relationships").delete().eq("id", edge.id);
+            if (error) throw new Error(`Dropping redundant relationship failed: ${error.message}`);
+        } else {
+            const { error } = await db
+                .from("relationships")
+                .update({ from_id: from, to_id: to })
+                .eq("id", edge.id);
+            if (error) throw new Error(`Re-pointing relationships failed: ${error.message}`);
         }
+        moved++;
     }
+    return moved;
+}
 
-    return results;
+export interface EntityDuplicate {
+    a: Entity;
+    b: Entity;
+    reason: "same name" | "similar name" | "similar meaning";
+    score: number;
 }
 
-export async function traverseGraph(
-    startId: number,
-    maxDepth: number = 3
-): Promise<Array<{ depth: number; entity: Entity; via: string }>> {
-    const visited = new Set<number>();
-    const results: Array<{ depth: number; entity: Entity; via: string }> = [];
+/**
+ * Likely duplicate entities of the same type: identical normalized names
+ * or aliases, similar spellings, and (with embeddings) similar meaning.
+ */
+export async function findDuplicateEntities(userId: number): Promise<EntityDuplicate[]> {
+    const entities = await loadEntities(userId);
 
-    async function dfs(entityId: number, depth: number, via: string) {
-        if (depth > maxDepth || visited.has(entityId)) return;
-        visited.add(entityId);
+    // Rows saved before normalized_name existed get it now
+    for (const e of entities) {
+        const normalized = normalizeEntityName(e.name);
+        if ((e as Entity & { normalized_name?: string }).normalized_name !== normalized) {
+            await db.from("entities").update({ normalized_name: normalized }).eq("id", e.id);
+        }
+    }
 
-        const { data: entity } = await supabase
-            .from("entities")
-            .select("*")
-            .eq("id", entityId)
-            .maybeSingle();
-
-        if (entity) {
-            results.push({ depth, entity: entity as Entity, via });
-            const connections = await getConnections(entityId);
-            for (const conn of connections) {
-                await dfs(conn.entity.id, depth + 1, conn.relationship);
+    let vectors: Map<number, number[]> | null = null;
+    if (embeddingsAvailable() && entities.length <= MAX_EMBEDDED_ENTITIES) {
+        try {
+            const embeddings = await embedTexts(entities.map((e) => e.name));
+            vectors = new Map(entities.map((e, i) => [e.id, embeddings[i]!.vector]));
+        } catch (err) {
+            console.warn("⚠️ Entity name embedding failed:", err instanceof Error ? err.message : err);
+        }
+    }
+
+    const duplicates: EntityDuplicate[] = [];
+    for (let i = 0; i < entities.length; i++) {
+        for (let j = i + 1; j < entities.length; j++) {
+            const a = entities[i]!;
+            const b = entities[j]!;
+            if (a.type !== b.type) continue;
+
+            const keysA = nameKeys(a);
+            const keysB = [...nameKeys(b)];
+            if (keysB.some((k) => keysA.has(k))) {
+                duplicates.push({ a, b, reason: "same name", score: 1 });
+                continue;
+            }
+
+            const spelling = Math.max(...keysB.flatMap((kb) => [...keysA].map((ka) => nameSimilarity(ka, kb))));
+            if (spelling >= FUZZY_NAME_MATCH) {
+                duplicates.push({ a, b, reason: "similar name", score: Math.round(spelling * 100) / 100 });
+                continue;
+            }
+
+            const meaning = vectors ? cosineSimilarity(vectors.get(a.id)!, vectors.get(b.id)!) : 0;
+            if (meaning >= ENTITY_EMBEDDING_MATCH) {
+                duplicates.push({ a, b, reason: "similar meaning", score: Math.round(meaning * 100) / 100 });
             }
         }
     }
 
-    await dfs(startId, 0, "start");
-    return results;
+    return duplicates;
+}
+
+/**
+ * Maintenance pass: entities with the same normalized name (or alias)
+ * and type are merged into the oldest one; less certain matches are
+ * only returned as suggestions.
+ */
+export async function resolveDuplicateEntities(userId: number): Promise<{
+    merged: Array<{ canonical: string; duplicates: string[] }>;
+    suggestions: EntityDuplicate[];
+}> {
+    const duplicates = await findDuplicateEntities(userId);
+    const merged: Array<{ canonical: string; duplicates: string[] }> = [];
+
+    // Union-find over the certain matches, so chains (a=b, b=c) end up in
+    // one group; the root is always the oldest (lowest id) entity
+    const parent = new Map<number, Entity>();
+    const find = (e: Entity): Entity => {
+        const up = parent.get(e.id);
+        if (!up || up.id === e.id) return e;
+        const root = find(up);
+        parent.set(e.id, root);
+        return root;
+    };
+    for (const d of duplicates.filter((d) => d.reason === "same name")) {
+        const rootA = find(d.a);
+        const rootB = find(d.b);
+        if (rootA.id === rootB.id) continue;
+        const [older, newer] = rootA.id < rootB.id ? [rootA, rootB] : [rootB, rootA];
+        parent.set(newer.id, older);
+    }
+
+    const canonicalOf = new Map<number, Entity>();
+    const groups = new Map<number, number[]>();
+    for (const id of parent.keys()) {
+        const root = find(parent.get(id)!);
+        canonicalOf.set(id, root);
+        if (id !== root.id) groups.set(root.id, [...(groups.get(root.id) ?? []), id]);
+    }
+
+    for (const [rootId, ids] of groups) {
+        try {
+            const result = await mergeEntities(userId, rootId, ids);
+            merged.push({ canonical: result.canonical.name, duplicates: result.merged.map((e) => e.name) });
+        } catch (err) {
+            console.error("❌ Entity merge failed:", err instanceof Error ? err.message : err);
+        }
+    }
+
+    // Suggest each pair once, in terms of the entities that still exist
+    const suggestions = new Map<string, EntityDuplicate>();
+    for (const d of duplicates.filter((d) => d.reason !== "same name")) {
+        const a = canonicalOf.get(d.a.id) ?? d.a;
+        const b = canonicalOf.get(d.b.id) ?? d.b;
+        const key = [a.id, b.id].sort((x, y) => x - y).join(":");
+        if (a.id !== b.id && !suggestions.has(key)) suggestions.set(key, { ...d, a, b });
+    }
+
+    return { merged, suggestions: [...suggestions.values()] };
+}
+
+// ─── Traversal & paths ───────────────────────────────────────────────
+// Both run as one database call (traverse_graph / find_graph_path RPCs,
+// mirrored by the local store) instead of a round trip per node.
+export type GraphDirection = "outgoing" | "incoming" | "both";
+
+export interface GraphWalkOptions {
+    maxDepth?: number;
+    /** Relationship types to follow (default: all). */
+    edgeTypes?: string[];
+    /** "outgoing" follows from → to edges, "incoming" the reverse. */
+    direction?: GraphDirection;
+    /** Also follow relationships that have ended (default false). */
+    includeExpired?: boolean;
+}
+
+export type EntitySummary = Pick<Entity, "id" | "name" | "type" | "properties">;
+
+// Deeper walks multiply rows quickly on connected graphs
+const MAX_TRAVERSAL_DEPTH = 6;
+
+function clampDepth(depth: number | undefined, fallback: number): number {
+    return Math.min(Math.max(1, Math.floor(depth ?? fallback)), MAX_TRAVERSAL_DEPTH);
+}
+
+export async function traverseGraph(
+    userId: number,
+    startId: number,
+    options: GraphWalkOptions & { limit?: number } = {}
+): Promise<
+    Array<{
+        depth: number;
+        entity: EntitySummary;
+        via: string | null;
+        direction: "outgoing" | "incoming" | null;
+        parentId: number | null;
+    }>
+> {
+    const { data, error } = await db.rpc("traverse_graph", {
+        start_id: startId,
+        max_depth: clampDepth(options.maxDepth, 3),
+        filter_user_id: userId,
+        edge_types: options.edgeTypes?.length ? options.edgeTypes : null,
+        direction: options.direction ?? "both",
+        max_results: options.limit ?? 100,
+        include_expired: options.includeExpired ?? false,
+    });
+
+    if (error) throw new Error(`traverseGraph failed: ${error.message}`);
+
+    return ((data ?? []) as Array<Record<string, unknown>>).map((r) => ({
+        depth: r.depth as number,
+        entity: {
+            id: r.entity_id as number,
+            name: r.name as string,
+            type: r.type as string,
+            properties: (r.properties as Record<string, unknown>) ?? {},
+        },
+        via: (r.via as string | null) ?? null,
+        direction: (r.via_direction as "outgoing" | "incoming" | null) ?? null,
+        parentId: (r.parent_id as number | null) ?? null,
+    }));
+}
+
+/**
+ * One shortest path between two entities.
+ *
+ * @returns  The entities along the path, starting with fromId (each with
+ *           the edge it was reached by), or null if none within maxDepth
+ */
+export async function findPath(
+    userId: number,
+    fromId: number,
+    toId: number,
+    options: GraphWalkOptions = {}
+): Promise<Array<{
+    entity: Pick<Entity, "id" | "name" | "type">;
+    via: string | null;
+    direction: "outgoing" | "incoming" | null;
+}> | null> {
+    const { data, error } = await db.rpc("find_graph_path", {
+        from_id: fromId,
+        to_id: toId,
+        max_depth: clampDepth(options.maxDepth, 4),
+        filter_user_id: userId,
+        edge_types: options.edgeTypes?.length ? options.edgeTypes : null,
+        direction: options.direction ?? "both",
+        include_expired: options.includeExpired ?? false,
+    });
+
+    if (error) throw new Error(`findPath failed: ${error.message}`);
+
+    const steps = (data ?? []) as Array<Record<string, unknown>>;
+    if (steps.length === 0) return null;
+
+    return steps.map((r) => ({
+        entity: { id: r.entity_id as number, name: r.name as string, type: r.type as string },
+        via: (r.via as string | null) ?? null,
+        direction: (r.via_direction as "outgoing" | "incoming" | null) ?? null,
+    }));
 }
 
 console.log("🕸️ Knowledge graph ready");
@@ -0,0 +1,267 @@
+// ─── LinkedIn API ────────────────────────────────────────────────────
+// Connecting an account (OAuth 2.0 authorization code flow, or a token
+// pasted from the LinkedIn developer portal) and creating posts through
+// the versioned REST Posts API. Needs a LinkedIn app with the
+// "Sign In with LinkedIn using OpenID Connect" and "Share on LinkedIn"
+// products (scopes openid, profile, w_member_social). Reading post
+// metrics (LINKEDIN_ANALYTICS) also needs r_member_postAnalytics.
+
+import { randomBytes } from "crypto";
+import { config } from "./config.js";
+import { db } from "./db.js";
+import { getOAuthToken, saveOAuthToken, type OAuthToken } from "./oauth_tokens.js";
+
+export const LINKEDIN_PROVIDER = "linkedin";
+
+const AUTH_URL = "https://www.linkedin.com/oauth/v2/authorization";
+const TOKEN_URL = "https://www.linkedin.com/oauth/v2/accessToken";
+const USERINFO_URL = "https://api.linkedin.com/v2/userinfo";
+const POSTS_URL = "https://api.linkedin.com/rest/posts";
+const ANALYTICS_URL = "https://api.linkedin.com/rest/memberCreatorPostAnalytics";
+const SCOPES = ["openid", "profile", "w_member_social"];
+
+// Refresh a little before the access token actually expires
+const EXPIRY_MARGIN_MS = 5 * 60 * 1000;
+const AUTH_STATE_TTL_MS = 10 * 60 * 1000;
+
+// ─── OAuth ───────────────────────────────────────────────────────────
+// Authorizations started with /linkedin wait in oauth_states (state →
+// user) for LinkedIn's redirect, so they survive a restart and can be
+// completed by any instance.
+
+export function oauthAvailable(): boolean {
+    const { clientId, clientSecret, redirectUrl } = config.linkedin;
+    return Boolean(clientId && clientSecret && redirectUrl);
+}
+
+/** The LinkedIn consent page URL for a user to open. */
+export async function getAuthorizationUrl(userId: number): Promise<string> {
+    if (!oauthAvailable()) {
+        throw new Error("LinkedIn OAuth needs LINKEDIN_CLIENT_ID, LINKEDIN_CLIENT_SECRET and LINKEDIN_REDIRECT_URL.");
+    }
+
+    await db.from("oauth_states").delete().lt("expires_at", new Date().toISOString());
+    const state = randomBytes(16).toString("hex");
+    const { error } = await db.from("oauth_states").insert({
+        state,
+        user_id: userId,
+        provider: LINKEDIN_PROVIDER,
+        expires_at: new Date(Date.now() + AUTH_STATE_TTL_MS).toISOString(),
+    });
+    if (error) throw new Error(`Saving the LinkedIn authorization failed: ${error.message}`);
+
+    const params = new URLSearchParams({
+        response_type: "code",
+        client_id: config.linkedin.clientId!,
+        redirect_uri: config.linkedin.redirectUrl!,
+        state,
+        scope: (config.linkedin.analytics ? [...SCOPES, "r_member_postAnalytics"] : SCOPES).join(" "),
+    });
+    return `${AUTH_URL}?${params}`;
+}
+
+interface TokenResponse {
+    access_token: string;
+    expires_in?: number;
+    refresh_token?: string;
+}
+
+async function requestToken(params: Record<string, string>): Promise<TokenResponse> {
+    const resp = await fetch(TOKEN_URL, {
+        method: "POST",
+        headers: { "Content-Type": "application/x-www-form-urlencoded" },
+        body: new URLSearchParams({
+            ...params,
+            client_id: config.linkedin.clientId ?? "",
+            client_secret: config.linkedin.clientSecret ?? "",
+        }),
+    });
+
+    if (!resp.ok) {
+        throw new Error(`LinkedIn token request failed: ${resp.status} ${await resp.text()}`);
+    }
+    return (await resp.json()) as TokenResponse;
+}
+
+async function fetchAccount(accessToken: string): Promise<{ accountId: string; accountName: string | null }> {
+    const resp = await fetch(USERINFO_URL, {
+        headers: { Authorization: `Bearer ${accessToken}` },
+    });
+
+    if (!resp.ok) {
+        throw new Error(`LinkedIn profile request failed: ${resp.status} ${resp.statusText}`);
+    }
+    const info = (await resp.json()) as { sub: string; name?: string };
+    return { accountId: `urn:li:person:${info.sub}`, accountName: info.name ?? null };
+}
+
+async function storeToken(userId: number, token: TokenResponse, previousRefresh: string | null = null): Promise<OAuthToken> {
+    const account = await fetchAccount(token.access_token);
+    const stored: OAuthToken = {
+        accessToken: token.access_token,
+        refreshToken: token.refresh_token ?? previousRefresh,
+        expiresAt: token.expires_in ? new Date(Date.now() + token.expires_in * 1000).toISOString() : null,
+        ...account,
+    };
+    await saveOAuthToken(userId, LINKEDIN_PROVIDER, stored);
+    return stored;
+}
+
+/**
+ * Finish an authorization: the OAuth redirect carries code and state.
+ *
+ * @returns  The user who connected, and the account
+ * @throws   When the state is unknown or expired, or LinkedIn rejects the code
+ */
+export async function completeAuthorization(
+    code: string,
+    state: string
+): Promise<{ userId: number; accountName: string | null }> {
+    // Deleting the state claims it, so a replayed redirect finds nothing
+    const { data, error } = await db
+        .from("oauth_states")
+        .delete()
+        .eq("state", state)
+        .eq("provider", LINKEDIN_PROVIDER)
+        .select("user_id, expires_at");
+    if (error) throw new Error(`Loading the LinkedIn authorization failed: ${error.message}`);
+
+    const pending = data?.[0];
+    if (!pending || new Date(pending.expires_at as string).getTime() < Date.now()) {
+        throw new Error("This LinkedIn authorization link has expired — send /linkedin again.");
+    }
+    const userId = Number(pending.user_id);
+
+    const token = await requestToken({
+        grant_type: "authorization_code",
+        code,
+        redirect_uri: config.linkedin.redirectUrl!,
+    });
+    const stored = await storeToken(userId, token);
+    console.log(`🔗 LinkedIn connected for user ${userId} (${stored.accountId})`);
+    return { userId, accountName: stored.accountName };
+}
+
+/** Connect with an access token generated in the LinkedIn developer portal. */
+export async function connectWithToken(userId: number, accessToken: string): Promise<OAuthToken> {
+    // Portal tokens are valid for 60 days
+    return storeToken(userId, { access_token: accessToken, expires_in: 60 * 24 * 60 * 60 });
+}
+
+/**
+ * A user's LinkedIn token, refreshed first if it has (nearly) expired.
+ *
+ * @throws  When no account is connected or the token cannot be refreshed
+ */
+export async function getLinkedInToken(userId: number): Promise<OAuthToken> {
+    const token = await getOAuthToken(userId, LINKEDIN_PROVIDER);
+    if (!token) throw new Error("No LinkedIn account connected — send /linkedin to connect one.");
+
+    const expired = token.expiresAt !== null && new Date(token.expiresAt).getTime() - EXPIRY_MARGIN_MS < Date.now();
+    if (!expired) return token;
+
+    if (!token.refreshToken || !oauthAvailable()) {
+        throw new Error("The LinkedIn token has expired — send /linkedin to reconnect.");
+    }
+    const refreshed = await requestToken({ grant_type: "refresh_token", refresh_token: token.refreshToken });
+    return storeToken(userId, refreshed, token.refreshToken);
+}
+
+// ─── Posts ───────────────────────────────────────────────────────────
+// Post commentary uses LinkedIn's "little text" format: reserved
+// characters are escaped and #words become hashtags.
+const LITTLE_TEXT_RESERVED = /[\\|{}@[\]()<>#*_~]/g;
+
+export function toLittleText(text: string): string {
+    return text
+        .split(/(#[\p{L}\p{N}_]+)/u)
+        .map((part, i) =>
+            i % 2 === 1
+                ? `{hashtag|\\#|${part.slice(1).replace(LITTLE_TEXT_RESERVED, "\\$&")}}`
+                : part.replace(LITTLE_TEXT_RESERVED, "\\$&")
+        )
+        .join("");
+}
+
+/**
+ * Publish a text post to the member's feed.
+ *
+ * @returns  The post URN (e.g. "urn:li:share:7123…") and its feed URL
+ */
+export async function createLinkedInPost(
+    token: OAuthToken,
+    text: string
+): Promise<{ urn: string; url: string }> {
+    const resp = await fetch(POSTS_URL, {
+        method: "POST",
+        headers: {
+            Authorization: `Bearer ${token.accessToken}`,
+            "Content-Type": "application/json",
+            "LinkedIn-Version": config.linkedin.apiVersion,
+            "X-Restli-Protocol-Version": "2.0.0",
+        },
+        body: JSON.stringify({
+            author: token.accountId,
+            commentary: toLittleText(text),
+            visibility: "PUBLIC",
+            distribution: {
+                feedDistribution: "MAIN_FEED",
+                targetEntities: [],
+                thirdPartyDistributionChannels: [],
+            },
+            lifecycleState: "PUBLISHED",
+            isReshareDisabledByAuthor: false,
+        }),
+    });
+
+    if (!resp.ok) {
+        throw new Error(`LinkedIn post failed: ${resp.status} ${(await resp.text()).slice(0, 300)}`);
+    }
+
+    const urn = resp.headers.get("x-restli-id");
+    if (!urn) throw new Error("LinkedIn accepted the post but returned no post ID.");
+    return { urn, url: `https://www.linkedin.com/feed/update/${urn}/` };
+}
+
+// ─── Post analytics ──────────────────────────────────────────────────
+export interface LinkedInPostStats {
+    impressions: number;
+    reactions: number;
+    comments: number;
+    reposts: number;
+}
+
+const ANALYTICS_QUERIES: Record<keyof LinkedInPostStats, string> = {
+    impressions: "IMPRESSION",
+    reactions: "REACTION",
+    comments: "COMMENT",
+    reposts: "RESHARE",
+};
+
+/**
+ * Lifetime metrics of one of the member's posts (memberCreatorPostAnalytics).
+ *
+ * @throws  When LinkedIn rejects a request (e.g. the token lacks r_member_postAnalytics)
+ */
+export async function fetchLinkedInPostStats(token: OAuthToken, urn: string): Promise<LinkedInPostStats> {
+    // (share:urn%3Ali%3Ashare%3A…) or (ugc:urn%3Ali%3AugcPost%3A…)
+    const entity = `(${urn.startsWith("urn:li:ugcPost:") ? "ugc" : "share"}:${encodeURIComponent(urn)})`;
+    const stats = { impressions: 0, reactions: 0, comments: 0, reposts: 0 };
+
+    for (const [key, queryType] of Object.entries(ANALYTICS_QUERIES) as [keyof LinkedInPostStats, string][]) {
+        const resp = await fetch(`${ANALYTICS_URL}?q=entity&entity=${entity}&queryType=${queryType}&aggregation=TOTAL`, {
+            headers: {
+                Authorization: `Bearer ${token.accessToken}`,
+                "LinkedIn-Version": config.linkedin.apiVersion,
+                "X-Restli-Protocol-Version": "2.0.0",
+            },
+        });
+
+        if (!resp.ok) {
+            throw new Error(`LinkedIn analytics request failed: ${resp.status} ${(await resp.text()).slice(0, 300)}`);
+        }
+        const body = (await resp.json()) as { elements?: Array<{ count?: number }> };
+        stats[key] = (body.elements ?? []).reduce((sum, e) => sum + (e.count ?? 0), 0);
+    }
+    return stats;
+}
@@ -0,0 +1,81 @@
+// ─── Live Telegram message (progressive edits) ──────────────────────
+// Wraps a single placeholder message and edits it as the agent streams.
+// Edits are throttled: Telegram allows roughly one edit per second per
+// chat, and answers bursts with 429 + retry_after.
+
+import { GrammyError, type Api } from "grammy";
+
+const TELEGRAM_MAX_LENGTH = 4096;
+const DEFAULT_EDIT_INTERVAL_MS = 1200;
+
+export class LiveMessage {
+    private pendingText: string | null = null;
+    private shownText = "";
+    private lastEditAt = 0;
+    private timer: NodeJS.Timeout | null = null;
+    private inFlight: Promise<void> = Promise.resolve();
+    private pausedUntil = 0;
+    private closed = false;
+
+    constructor(
+        private readonly api: Api,
+        readonly chatId: number,
+        readonly messageId: number,
+        private readonly minIntervalMs = DEFAULT_EDIT_INTERVAL_MS
+    ) { }
+
+    /** Queue new text for the message; only the latest text is sent. */
+    update(text: string): void {
+        if (this.closed) return;
+        this.pendingText = truncate(text);
+        this.schedule();
+    }
+
+    /** Stop editing and wait for any edit that is already on the wire. */
+    async close(): Promise<void> {
+        this.closed = true;
+        if (this.timer) {
+            clearTimeout(this.timer);
+            this.timer = null;
+        }
+        await this.inFlight;
+    }
+
+    private schedule(): void {
+        if (this.timer) return;
+        const earliest = Math.max(this.lastEditAt + this.minIntervalMs, this.pausedUntil);
+        const delay = Math.max(0, earliest - Date.now());
+        this.timer = setTimeout(() => {
+            this.timer = null;
+            this.inFlight = this.inFlight.then(() => this.flush());
+        }, delay);
+    }
+
+    private async flush(): Promise<void> {
+        const text = this.pendingText;
+        this.pendingText = null;
+        if (this.closed || !text?.trim() || text === this.shownText) return;
+
+        this.lastEditAt = Date.now();
+        try {
+            await this.api.editMessageText(this.chatId, this.messageId, text);
+            this.shownText = text;
+        } catch (err) {
+            if (err instanceof GrammyError && err.error_code === 429) {
+                // Rate limited — back off and retry with the newest text
+                const retryAfter = err.parameters.retry_after ?? 3;
+                this.pausedUntil = Date.now() + retryAfter * 1000;
+                if (this.pendingText === null) this.pendingText = text;
+            } else if (!(err instanceof GrammyError && err.description.includes("not modified"))) {
+                console.warn("⚠️ Live message edit failed:", err instanceof Error ? err.message : err);
+            }
+        }
+
+        if (this.pendingText !== null) this.schedule();
+    }
+}
+
+function truncate(text: string): string {
+    if (text.length <= TELEGRAM_MAX_LENGTH) return text;
+    return text.slice(0, TELEGRAM_MAX_LENGTH - 1) + "…";
+}
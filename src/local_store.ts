@@ -0,0 +1,794 @@
+// ─── Local file-backed storage backend ──────────────────────────────
+// Implements the Database interface from db.ts on top of a single JSON
+// file so Gravity Claw runs (and can be tested) without Supabase.
+// Tables are created lazily; column defaults, unique keys and RPC
+// functions mirror supabase_migration.sql. Every query scans its table
+// in memory — fine for a personal bot, not meant for large datasets.
+
+import fs from "fs";
+import path from "path";
+import type {
+    Database,
+    DbError,
+    DbResult,
+    FileBucket,
+    QueryBuilder,
+    Row,
+    TableQuery,
+} from "./db.js";
+
+interface TableData {
+    seq: number;
+    rows: Row[];
+}
+
+interface StoreFile {
+    tables: Record<string, TableData>;
+}
+
+// ─── Schema mirror (keep in sync with supabase_migration.sql) ────────
+const now = () => new Date().toISOString();
+
+const TABLE_DEFAULTS: Record<string, () => Row> = {
+    topics: () => ({
+        status: "draft",
+        theme: null,
+        style_id: null,
+        template_id: null,
+        variant_style_id: null,
+        created_at: now(),
+        updated_at: now(),
+    }),
+    templates: () => ({ created_at: now() }),
+    posts: () => ({
+        delivered: false,
+        status: "draft",
+        style_id: null,
+        variant: null,
+        style_score: null,
+        prompt: null,
+        approved_at: null,
+        published_at: null,
+        publish_at: null,
+        publisher: null,
+        external_urn: null,
+        external_url: null,
+        publish_error: null,
+        created_at: now(),
+        updated_at: now(),
+    }),
+    post_revisions: () => ({ created_at: now() }),
+    post_metrics: () => ({ impressions: 0, reactions: 0, comments: 0, reposts: 0, created_at: now(), updated_at: now() }),
+    oauth_tokens: () => ({ refresh_token: null, expires_at: null, account_name: null, created_at: now(), updated_at: now() }),
+    oauth_states: () => ({ created_at: now() }),
+    profile: () => ({ updated_at: now() }),
+    memories: () => ({
+        category: "general",
+        embedding: null,
+        embedding_model: null,
+        access_count: 0,
+        last_accessed: now(),
+        relevance: 1.0,
+        valid_from: now(),
+        valid_to: null,
+        superseded_by: null,
+        created_at: now(),
+    }),
+    profile_history: () => ({ valid_from: now(), valid_to: null, created_at: now() }),
+    extraction_runs: () => ({ items: 0, created_at: now() }),
+    extracted_items: () => ({ details: {}, undone_at: null, created_at: now() }),
+    conversation_log: () => ({ blocks: null, metadata: {}, created_at: now() }),
+    linkedin_styles: () => ({ is_active: false, fingerprint: null, created_at: now(), updated_at: now() }),
+    style_samples: () => ({ posted_at: null, created_at: now() }),
+    entities: () => ({ properties: {}, normalized_name: null, created_at: now(), updated_at: now() }),
+    relationships: () => ({
+        properties: {},
+        mention_count: 1,
+        weight: 0.5,
+        last_mentioned_at: now(),
+        valid_from: now(),
+        valid_to: null,
+        created_at: now(),
+    }),
+    scheduled_tasks: () => ({ enabled: true, last_run: null, created_at: now() }),
+    content_assignments: () => ({
+        style_id: null,
+        template_id: null,
+        variant_style_id: null,
+        created_at: now(),
+        updated_at: now(),
+    }),
+    job_runs: () => ({ claimed_at: now(), finished_at: null, attempts: 1, error: null, created_at: now() }),
+};
+
+// Tables keyed by something other than an auto-increment "id"
+const PRIMARY_KEYS: Record<string, string> = {
+    profile: "user_id,key",
+};
+
+const UNIQUE_KEYS: Record<string, string[][]> = {
+    templates: [["user_id", "name"]],
+    linkedin_styles: [["user_id", "name"]],
+    entities: [["user_id", "name", "type"]],
+    profile: [["user_id", "key"]],
+    oauth_tokens: [["user_id", "provider"]],
+    oauth_states: [["state"]],
+    post_metrics: [["post_id", "measured_on"]],
+    job_runs: [["job", "scheduled_for"]],
+    content_assignments: [["user_id", "scope", "scope_key"]],
+    style_samples: [["user_id", "content_hash"]],
+};
+
+// ─── Local RPC implementations ───────────────────────────────────────
+type RpcHandler = (store: LocalStore, args: Record<string, unknown>) => unknown;
+
+function cosineSimilarity(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < Math.min(a.length, b.length); i++) {
+        dot += a[i]! * b[i]!;
+        normA += a[i]! * a[i]!;
+        normB += b[i]! * b[i]!;
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+}
+
+// Rough stand-in for Postgres english full-text search: lowercase words
+// minus stop words, with common suffixes stripped.
+const STOP_WORDS = new Set(
+    "a an and are as at be but by do for from has have i in is it me my of on or so that the this to was we what with you your".split(" ")
+);
+
+function searchTerms(text: string): string[] {
+    return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])
+        .filter((w) => w.length > 1 && !STOP_WORDS.has(w))
+        .map((w) => w.replace(/(ing|ed|es|s)$/, "") || w);
+}
+
+// ts_rank_cd-like: ~0.1 per matching word, normalized as rank / (rank + 1)
+function textRank(queryTerms: Set<string>, content: string): number {
+    if (queryTerms.size === 0) return 0;
+    const rank = searchTerms(content).filter((t) => queryTerms.has(t)).length * 0.1;
+    return rank / (rank + 1);
+}
+
+// Adjacency lists for graph walks, honouring the direction, edge_types
+// and include_expired arguments of traverse_graph / find_graph_path
+interface GraphEdge {
+    to: unknown;
+    type: string;
+    direction: "outgoing" | "incoming";
+}
+
+function graphEdges(store: LocalStore, args: Record<string, unknown>): Map<string, GraphEdge[]> {
+    const userId = args.filter_user_id;
+    const edgeTypes = args.edge_types as string[] | null | undefined;
+    const direction = String(args.direction ?? "both");
+    const includeExpired = args.include_expired === true;
+    const edges = new Map<string, GraphEdge[]>();
+
+    const add = (from: unknown, edge: GraphEdge) => {
+        const key = String(from);
+        edges.set(key, [...(edges.get(key) ?? []), edge]);
+    };
+
+    for (const r of store.rows("relationships")) {
+        if (userId != null && !valuesEqual(r.user_id, userId)) continue;
+        if (edgeTypes && !edgeTypes.includes(r.type as string)) continue;
+        if (!includeExpired && r.valid_to != null && new Date(String(r.valid_to)) <= new Date()) continue;
+        if (direction === "outgoing" || direction === "both") {
+            add(r.from_id, { to: r.to_id, type: r.type as string, direction: "outgoing" });
+        }
+        if (direction === "incoming" || direction === "both") {
+            add(r.to_id, { to: r.from_id, type: r.type as string, direction: "incoming" });
+        }
+    }
+    return edges;
+}
+
+const RPC_HANDLERS: Record<string, RpcHandler> = {
+    match_memories(store, args) {
+        const query = args.query_embedding as number[];
+        const threshold = Number(args.match_threshold ?? 0);
+        const count = Number(args.match_count ?? 10);
+        const userId = args.filter_user_id;
+        const embeddingModel = args.filter_embedding_model;
+
+        return store
+            .rows("memories")
+            .filter((m) => Array.isArray(m.embedding))
+            .filter((m) => userId == null || valuesEqual(m.user_id, userId))
+            .filter((m) => embeddingModel == null || valuesEqual(m.embedding_model, embeddingModel))
+            .filter((m) => m.valid_to == null)
+            .map((m) => ({
+                id: m.id,
+                content: m.content,
+                category: m.category,
+                similarity: cosineSimilarity(m.embedding as number[], query),
+            }))
+            .filter((m) => m.similarity > threshold)
+            .sort((a, b) => b.similarity - a.similarity)
+            .slice(0, count);
+    },
+
+    hybrid_search_memories(store, args) {
+        const queryTerms = new Set(searchTerms(String(args.query_text ?? "")));
+        const embedding = (args.query_embedding as number[] | null | undefined) ?? null;
+        const embeddingModel = args.query_embedding_model ?? null;
+        const count = Number(args.match_count ?? 10);
+        const userId = args.filter_user_id;
+        const category = args.filter_category;
+        const requireMatch = args.require_match ?? true;
+        const minSimilarity = Number(args.min_similarity ?? 0.5);
+        const textWeight = Number(args.text_weight ?? 0.35);
+        const vectorWeight = Number(args.vector_weight ?? 0.45);
+        const relevanceWeight = Number(args.relevance_weight ?? 0.2);
+
+        return store
+            .rows("memories")
+            .filter((m) => userId == null || valuesEqual(m.user_id, userId))
+            .filter((m) => category == null || valuesEqual(m.category, category))
+            .filter((m) => m.valid_to == null)
+            .map((m) => {
+                const text_rank = textRank(queryTerms, String(m.content ?? ""));
+                const similarity =
+                    embedding && Array.isArray(m.embedding) && (m.embedding_model ?? null) === embeddingModel
+                        ? cosineSimilarity(m.embedding as number[], embedding)
+                        : 0;
+                const relevance = Math.min(
+                    1,
+                    Number(m.relevance ?? 1) * (1 + 0.1 * Math.log(1 + Number(m.access_count ?? 0)))
+                );
+                return {
+                    id: m.id,
+                    content: m.content,
+                    category: m.category,
+                    created_at: m.created_at,
+                    text_rank,
+                    similarity,
+                    relevance,
+                    score: textWeight * text_rank + vectorWeight * similarity + relevanceWeight * relevance,
+                };
+            })
+            .filter((m) => !requireMatch || m.text_rank > 0 || m.similarity >= minSimilarity)
+            .sort((a, b) => b.score - a.score)
+            .slice(0, count);
+    },
+
+    // Breadth-first, so each entity is first reached at its shortest depth
+    traverse_graph(store, args) {
+        const maxDepth = Number(args.max_depth ?? 3);
+        const maxResults = Number(args.max_results ?? 100);
+        const edges = graphEdges(store, args);
+        const entities = new Map(store.rows("entities").map((e) => [String(e.id), e]));
+
+        const reached = new Map<string, { depth: number; via: string | null; via_direction: string | null; parent_id: unknown }>();
+        reached.set(String(args.start_id), { depth: 0, via: null, via_direction: null, parent_id: null });
+        let frontier = [String(args.start_id)];
+
+        for (let depth = 1; depth <= maxDepth && frontier.length > 0; depth++) {
+            const next: string[] = [];
+            for (const node of frontier) {
+                for (const edge of edges.get(node) ?? []) {
+                    const key = String(edge.to);
+                    if (reached.has(key)) continue;
+                    reached.set(key, { depth, via: edge.type, via_direction: edge.direction, parent_id: entities.get(node)?.id ?? node });
+                    next.push(key);
+                }
+            }
+            frontier = next;
+        }
+
+        return [...reached.entries()]
+            .filter(([id]) => entities.has(id))
+            .map(([id, r]) => {
+                const e = entities.get(id)!;
+                return { entity_id: e.id, name: e.name, type: e.type, properties: e.properties, ...r };
+            })
+            .sort((a, b) => a.depth - b.depth || String(a.name).localeCompare(String(b.name)))
+            .slice(0, maxResults);
+    },
+
+    find_graph_path(store, args) {
+        const maxDepth = Number(args.max_depth ?? 4);
+        const target = String(args.to_id);
+        const edges = graphEdges(store, args);
+        const entities = new Map(store.rows("entities").map((e) => [String(e.id), e]));
+
+        const cameFrom = new Map<string, { from: string; edge: GraphEdge } | null>();
+        cameFrom.set(String(args.from_id), null);
+        let frontier = [String(args.from_id)];
+
+        for (let depth = 1; depth <= maxDepth && frontier.length > 0 && !cameFrom.has(target); depth++) {
+            const next: string[] = [];
+            for (const node of frontier) {
+                for (const edge of edges.get(node) ?? []) {
+                    const key = String(edge.to);
+                    if (cameFrom.has(key)) continue;
+                    cameFrom.set(key, { from: node, edge });
+                    next.push(key);
+                }
+            }
+            frontier = next;
+        }
+        if (!cameFrom.has(target)) return [];
+
+        const steps: Array<{ node: string; via: string | null; via_direction: string | null }> = [];
+        for (let node: string | undefined = target; node !== undefined; ) {
+            const prev = cameFrom.get(node);
+            steps.unshift({ node, via: prev?.edge.type ?? null, via_direction: prev?.edge.direction ?? null });
+            node = prev?.from;
+        }
+
+        return steps.map((s, step) => {
+            const e = entities.get(s.node);
+            return {
+                step,
+                entity_id: e?.id ?? s.node,
+                name: e?.name ?? null,
+                type: e?.type ?? null,
+                via: s.via,
+                via_direction: s.via_direction,
+            };
+        });
+    },
+
+    // Same rules as claim_job_run in supabase_migration.sql
+    claim_job_run(store, args) {
+        const staleBefore = Date.now() - Number(args.p_stale_seconds ?? 1800) * 1000;
+        const maxAttempts = Number(args.p_max_attempts ?? 3);
+        const existing = store
+            .rows("job_runs")
+            .find((r) => valuesEqual(r.job, args.p_job) && valuesEqual(r.scheduled_for, args.p_scheduled_for));
+
+        if (!existing) {
+            store.rows("job_runs").push(
+                store.newRow("job_runs", {
+                    job: args.p_job,
+                    scheduled_for: args.p_scheduled_for,
+                    status: "running",
+                    claimed_by: args.p_instance,
+                })
+            );
+            return true;
+        }
+
+        const takeOver =
+            Number(existing.attempts) < maxAttempts &&
+            (existing.status === "failed" ||
+                (existing.status === "running" && new Date(String(existing.claimed_at)).getTime() < staleBefore));
+        if (!takeOver) return false;
+
+        Object.assign(existing, {
+            status: "running",
+            claimed_by: args.p_instance,
+            claimed_at: now(),
+            finished_at: null,
+            error: null,
+            attempts: Number(existing.attempts) + 1,
+        });
+        return true;
+    },
+};
+
+// ─── Value helpers ───────────────────────────────────────────────────
+function valuesEqual(a: unknown, b: unknown): boolean {
+    if (a === null || a === undefined || b === null || b === undefined) return false;
+    if (typeof a === "object" || typeof b === "object") {
+        return JSON.stringify(a) === JSON.stringify(b);
+    }
+    return String(a) === String(b);
+}
+
+function compareValues(a: unknown, b: unknown): number {
+    const numA = typeof a === "number" ? a : Number(a);
+    const numB = typeof b === "number" ? b : Number(b);
+    if ((typeof a === "number" || typeof b === "number") && !isNaN(numA) && !isNaN(numB)) {
+        return numA - numB;
+    }
+    const strA = String(a);
+    const strB = String(b);
+    return strA < strB ? -1 : strA > strB ? 1 : 0;
+}
+
+// Translate a SQL ILIKE pattern (with \-escapes) into an anchored RegExp
+function likeToRegExp(pattern: string): RegExp {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const ch = pattern[i]!;
+        if (ch === "\\" && i + 1 < pattern.length) {
+            source += pattern[++i]!.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        } else if (ch === "%") {
+            source += ".*";
+        } else if (ch === "_") {
+            source += ".";
+        } else {
+            source += ch.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`, "is");
+}
+
+function project(row: Row, columns: string): Row {
+    const cols = columns.split(",").map((c) => c.trim()).filter(Boolean);
+    if (cols.length === 0 || cols.includes("*")) return structuredClone(row);
+
+    const out: Row = {};
+    for (const col of cols) {
+        out[col] = structuredClone(row[col] ?? null);
+    }
+    return out;
+}
+
+// ─── Store ───────────────────────────────────────────────────────────
+class LocalStore {
+    private readonly file: string;
+    private data: StoreFile;
+
+    constructor(readonly dir: string) {
+        fs.mkdirSync(dir, { recursive: true });
+        this.file = path.join(dir, "store.json");
+        this.data = fs.existsSync(this.file)
+            ? (JSON.parse(fs.readFileSync(this.file, "utf-8")) as StoreFile)
+            : { tables: {} };
+    }
+
+    table(name: string): TableData {
+        if (!this.data.tables[name]) {
+            this.data.tables[name] = { seq: 0, rows: [] };
+        }
+        return this.data.tables[name]!;
+    }
+
+    rows(name: string): Row[] {
+        return this.table(name).rows;
+    }
+
+    newRow(name: string, values: Row): Row {
+        const table = this.table(name);
+        const defaults = TABLE_DEFAULTS[name]?.() ?? { created_at: now() };
+        const row: Row = { ...defaults, ...values };
+
+        if (!PRIMARY_KEYS[name] && row.id === undefined) {
+            row.id = ++table.seq;
+        } else if (typeof row.id === "number" && row.id > table.seq) {
+            table.seq = row.id;
+        }
+        return row;
+    }
+
+    findConflict(name: string, row: Row, columns: string[], ignore?: Row): Row | undefined {
+        return this.rows(name).find(
+            (r) => r !== ignore && columns.every((c) => valuesEqual(r[c], row[c]))
+        );
+    }
+
+    // A statement's rows are checked together, as Postgres does: they may
+    // clash neither with each other nor with the stored rows they don't replace
+    uniqueViolation(name: string, rows: Row[], replaced: Row[] = []): DbError | null {
+        const others = this.rows(name).filter((r) => !replaced.includes(r));
+        for (const [i, row] of rows.entries()) {
+            for (const columns of UNIQUE_KEYS[name] ?? []) {
+                const clash = (r: Row) => columns.every((c) => valuesEqual(r[c], row[c]));
+                if (others.some(clash) || rows.slice(0, i).some(clash)) {
+                    return {
+                        code: "23505",
+                        message: `duplicate key value violates unique constraint on ${name}(${columns.join(", ")})`,
+                    };
+                }
+            }
+        }
+        return null;
+    }
+
+    primaryKey(name: string): string {
+        return PRIMARY_KEYS[name] ?? "id";
+    }
+
+    persist(): void {
+        const tmp = `${this.file}.tmp`;
+        fs.writeFileSync(tmp, JSON.stringify(this.data));
+        fs.renameSync(tmp, this.file);
+    }
+}
+
+// ─── Query builder ───────────────────────────────────────────────────
+type Operation = "select" | "insert" | "update" | "upsert" | "delete";
+
+interface QueryOptions {
+    count?: "exact";
+    head?: boolean;
+    onConflict?: string;
+    ignoreDuplicates?: boolean;
+}
+
+class LocalQuery implements QueryBuilder {
+    private filters: Array<(row: Row) => boolean> = [];
+    private orders: Array<{ column: string; ascending: boolean }> = [];
+    private limitCount: number | null = null;
+    private returning: string | null;
+    private singleMode: "single" | "maybe" | null = null;
+
+    constructor(
+        private readonly store: LocalStore,
+        private readonly tableName: string,
+        private readonly op: Operation,
+        private readonly payload: Row | Row[] | null,
+        private readonly options: QueryOptions,
+        columns: string | null
+    ) {
+        this.returning = columns;
+    }
+
+    eq(column: string, value: unknown): QueryBuilder {
+        this.filters.push((r) => valuesEqual(r[column], value));
+        return this;
+    }
+
+    neq(column: string, value: unknown): QueryBuilder {
+        this.filters.push((r) => r[column] !== null && r[column] !== undefined && !valuesEqual(r[column], value));
+        return this;
+    }
+
+    gt(column: string, value: unknown): QueryBuilder {
+        this.filters.push((r) => r[column] != null && compareValues(r[column], value) > 0);
+        return this;
+    }
+
+    gte(column: string, value: unknown): QueryBuilder {
+        this.filters.push((r) => r[column] != null && compareValues(r[column], value) >= 0);
+        return this;
+    }
+
+    lt(column: string, value: unknown): QueryBuilder {
+        this.filters.push((r) => r[column] != null && compareValues(r[column], value) < 0);
+        return this;
+    }
+
+    lte(column: string, value: unknown): QueryBuilder {
+        this.filters.push((r) => r[column] != null && compareValues(r[column], value) <= 0);
+        return this;
+    }
+
+    ilike(column: string, pattern: string): QueryBuilder {
+        const re = likeToRegExp(pattern);
+        this.filters.push((r) => r[column] != null && re.test(String(r[column])));
+        return this;
+    }
+
+    in(column: string, values: readonly unknown[]): QueryBuilder {
+        this.filters.push((r) => values.some((v) => valuesEqual(r[column], v)));
+        return this;
+    }
+
+    is(column: string, value: null | boolean): QueryBuilder {
+        this.filters.push((r) =>
+            value === null ? r[column] === null || r[column] === undefined : r[column] === value
+        );
+        return this;
+    }
+
+    order(column: string, options?: { ascending?: boolean }): QueryBuilder {
+        this.orders.push({ column, ascending: options?.ascending ?? true });
+        return this;
+    }
+
+    limit(count: number): QueryBuilder {
+        this.limitCount = count;
+        return this;
+    }
+
+    select(columns = "*"): QueryBuilder {
+        this.returning = columns;
+        return this;
+    }
+
+    single(): PromiseLike<DbResult<Row>> {
+        this.singleMode = "single";
+        return this as unknown as PromiseLike<DbResult<Row>>;
+    }
+
+    maybeSingle(): PromiseLike<DbResult<Row | null>> {
+        this.singleMode = "maybe";
+        return this as unknown as PromiseLike<DbResult<Row | null>>;
+    }
+
+    then<TResult1 = DbResult<Row[]>, TResult2 = never>(
+        onfulfilled?: ((value: DbResult<Row[]>) => TResult1 | PromiseLike<TResult1>) | null,
+        onrejected?: ((reason: unknown) => TResult2 | PromiseLike<TResult2>) | null
+    ): PromiseLike<TResult1 | TResult2> {
+        return Promise.resolve()
+            .then(() => this.execute())
+            .then(onfulfilled, onrejected);
+    }
+
+    // ─── Execution ───────────────────────────────────────────────────
+    private matching(): Row[] {
+        return this.store
+            .rows(this.tableName)
+            .filter((row) => this.filters.every((f) => f(row)));
+    }
+
+    private sorted(rows: Row[]): Row[] {
+        if (this.orders.length === 0) return rows;
+        return [...rows].sort((a, b) => {
+            for (const { column, ascending } of this.orders) {
+                const va = a[column];
+                const vb = b[column];
+                // Postgres puts NULLs last ascending and first descending
+                if (va == null && vb == null) continue;
+                if (va == null) return 1;
+                if (vb == null) return -1;
+                const cmp = compareValues(va, vb);
+                if (cmp !== 0) return ascending ? cmp : -cmp;
+            }
+            return 0;
+        });
+    }
+
+    private execute(): DbResult<any> {
+        let affected: Row[];
+        let count: number | null = null;
+        let error: DbError | null = null;
+
+        switch (this.op) {
+            case "select": {
+                const matched = this.sorted(this.matching());
+                if (this.options.count) count = matched.length;
+                affected = this.limitCount !== null ? matched.slice(0, this.limitCount) : matched;
+                if (this.options.head) return { data: null, error: null, count };
+                break;
+            }
+            // Writes are all-or-nothing: every row is checked before the table changes
+            case "insert": {
+                const rows = this.payloadRows().map((values) => this.store.newRow(this.tableName, values));
+                error = this.store.uniqueViolation(this.tableName, rows);
+                affected = error ? [] : rows;
+                if (!error) this.store.rows(this.tableName).push(...rows);
+                break;
+            }
+            case "upsert": {
+                const conflictColumns = (this.options.onConflict ?? this.store.primaryKey(this.tableName))
+                    .split(",")
+                    .map((c) => c.trim());
+                const planned: Array<{ existing: Row | undefined; row: Row }> = [];
+                for (const values of this.payloadRows()) {
+                    const existing = this.store.findConflict(this.tableName, values, conflictColumns);
+                    if (existing && this.options.ignoreDuplicates) continue;
+                    planned.push({
+                        existing,
+                        row: existing ? { ...existing, ...values } : this.store.newRow(this.tableName, values),
+                    });
+                }
+
+                // An update may collide on another unique key than the conflict target
+                error = this.store.uniqueViolation(
+                    this.tableName,
+                    planned.map((p) => p.row),
+                    planned.flatMap((p) => (p.existing ? [p.existing] : []))
+                );
+                affected = [];
+                if (!error) {
+                    for (const { existing, row } of planned) {
+                        if (existing) Object.assign(existing, row);
+                        else this.store.rows(this.tableName).push(row);
+                        affected.push(existing ?? row);
+                    }
+                }
+                break;
+            }
+            case "update": {
+                affected = this.matching();
+                const values = this.payload as Row;
+                error = this.store.uniqueViolation(
+                    this.tableName,
+                    affected.map((row) => ({ ...row, ...values })),
+                    affected
+                );
+                if (!error) {
+                    for (const row of affected) Object.assign(row, values);
+                }
+                if (this.options.count) count = affected.length;
+                break;
+            }
+            case "delete": {
+                affected = this.matching();
+                const doomed = new Set(affected);
+                const table = this.store.table(this.tableName);
+                table.rows = table.rows.filter((r) => !doomed.has(r));
+                if (this.options.count) count = affected.length;
+                break;
+            }
+        }
+
+        if (error) return { data: null, error, count: null };
+        if (this.op !== "select") this.store.persist();
+
+        if (this.returning === null) return { data: null, error: null, count };
+
+        const data = affected.map((row) => project(row, this.returning!));
+
+        if (this.singleMode) {
+            if (data.length === 1) return { data: data[0], error: null, count };
+            if (data.length === 0 && this.singleMode === "maybe") {
+                return { data: null, error: null, count };
+            }
+            return {
+                data: null,
+                error: {
+                    code: "PGRST116",
+                    message: `JSON object requested, ${data.length} rows returned`,
+                },
+                count,
+            };
+        }
+
+        return { data, error: null, count };
+    }
+
+    private payloadRows(): Row[] {
+        const rows = Array.isArray(this.payload) ? this.payload : [this.payload ?? {}];
+        return rows.map((r) => structuredClone(r));
+    }
+}
+
+// ─── Database facade ─────────────────────────────────────────────────
+export function createLocalDatabase(dir: string): Database {
+    const store = new LocalStore(dir);
+
+    return {
+        from(table: string): TableQuery {
+            return {
+                select: (columns = "*", options = {}) =>
+                    new LocalQuery(store, table, "select", null, options, columns),
+                insert: (values) => new LocalQuery(store, table, "insert", values, {}, null),
+                update: (values, options = {}) =>
+                    new LocalQuery(store, table, "update", values, options, null),
+                upsert: (values, options = {}) =>
+                    new LocalQuery(store, table, "upsert", values, options, null),
+                delete: (options = {}) => new LocalQuery(store, table, "delete", null, options, null),
+            };
+        },
+
+        async rpc(fn: string, args: Record<string, unknown> = {}) {
+            const handler = RPC_HANDLERS[fn];
+            if (!handler) {
+                return { data: null, error: { message: `Unknown function: ${fn}` } };
+            }
+            try {
+                const data = handler(store, args);
+                store.persist();
+                return { data, error: null };
+            } catch (err) {
+                return {
+                    data: null,
+                    error: { message: err instanceof Error ? err.message : String(err) },
+                };
+            }
+        },
+
+        storage: {
+            from(bucket: string): FileBucket {
+                const bucketDir = path.resolve(store.dir, "storage", bucket);
+                return {
+                    async upload(filePath, data) {
+                        try {
+                            const target = path.join(bucketDir, filePath);
+                            fs.mkdirSync(path.dirname(target), { recursive: true });
+                            fs.writeFileSync(target, data);
+                            return { error: null };
+                        } catch (err) {
+                            return {
+                                error: { message: err instanceof Error ? err.message : String(err) },
+                            };
+                        }
+                    },
+                    getPublicUrl(filePath) {
+                        return { data: { publicUrl: `file://${path.join(bucketDir, filePath)}` } };
+                    },
+                };
+            },
+        },
+    };
+}
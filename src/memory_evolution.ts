@@ -1,15 +1,19 @@
-import { supabase } from "./supabase.js";
+import { db } from "./db.js";
+import { chat } from "./llm.js";
+import { currentEmbeddingModel, embeddingColumns } from "./embeddings.js";
+import { invalidateMemoryCache } from "./memory_retrieval.js";
+import { resolveDuplicateEntities } from "./knowledge_graph.js";
 
 // ─── Track memory access ─────────────────────────────────────────────
 export async function trackAccess(memoryId: number): Promise<void> {
     // Increment access_count and update last_accessed
-    const { data: current } = await supabase
+    const { data: current } = await db
         .from("memories")
         .select("access_count")
         .eq("id", memoryId)
         .single();
 
-    await supabase
+    await db
         .from("memories")
         .update({
             access_count: ((current?.access_count as number) ?? 0) + 1,
@@ -20,15 +24,16 @@ export async function trackAccess(memoryId: number): Promise<void> {
 
 // ─── Memory decay ────────────────────────────────────────────────────
 // Reduce relevance of memories not accessed recently.
-export async function applyDecay(): Promise<{ affected: number }> {
+export async function applyDecay(userId: number): Promise<{ affected: number }> {
     const thirtyDaysAgo = new Date(
         Date.now() - 30 * 24 * 60 * 60 * 1000
     ).toISOString();
 
     // Fetch memories to decay
-    const { data: toDec } = await supabase
+    const { data: toDec } = await db
         .from("memories")
         .select("id, relevance")
+        .eq("user_id", userId)
         .lt("last_accessed", thirtyDaysAgo)
         .gt("relevance", 0.1);
 
@@ -37,7 +42,7 @@ export async function applyDecay(): Promise<{ affected: number }> {
     let affected = 0;
     for (const mem of toDec) {
         const newRelevance = Math.max(0.1, (mem.relevance as number) * 0.95);
-        const { error } = await supabase
+        const { error } = await db
             .from("memories")
             .update({ relevance: newRelevance })
             .eq("id", mem.id);
@@ -48,14 +53,15 @@ export async function applyDecay(): Promise<{ affected: number }> {
 }
 
 // ─── Boost recently accessed memories ────────────────────────────────
-export async function boostFrequentlyAccessed(): Promise<{ affected: number }> {
+export async function boostFrequentlyAccessed(userId: number): Promise<{ affected: number }> {
     const sevenDaysAgo = new Date(
         Date.now() - 7 * 24 * 60 * 60 * 1000
     ).toISOString();
 
-    const { data: toBoost } = await supabase
+    const { data: toBoost } = await db
         .from("memories")
         .select("id, relevance")
+        .eq("user_id", userId)
         .gt("access_count", 5)
         .gt("last_accessed", sevenDaysAgo)
         .lt("relevance", 2.0);
@@ -65,7 +71,7 @@ export async function boostFrequentlyAccessed(): Promise<{ affected: number }> {
     let affected = 0;
     for (const mem of toBoost) {
         const newRelevance = Math.min(2.0, (mem.relevance as number) * 1.05);
-        const { error } = await supabase
+        const { error } = await db
             .from("memories")
             .update({ relevance: newRelevance })
             .eq("id", mem.id);
@@ -76,95 +82,223 @@ export async function boostFrequentlyAccessed(): Promise<{ affected: number }> {
 }
 
 // ─── Find duplicate memories ─────────────────────────────────────────
-export async function findDuplicates(): Promise<
-    Array<{
-        id1: number;
-        id2: number;
-        content1: string;
-        content2: string;
-        similarity: number;
-    }>
-> {
-    const { data: memories } = await supabase
+// Near-duplicates by vector similarity (match_memories), so "Works at
+// Acme" and "The user is employed by Acme" pair up without sharing words.
+// Each memory is paired at most once per run. Memories without a vector
+// from the active model are skipped until the embedding backfill ran.
+const DUPLICATE_SIMILARITY = 0.9;
+const DUPLICATE_CANDIDATES = 5;
+// Each merge is a model call — bound the nightly cost
+const MAX_MERGES_PER_RUN = 20;
+
+export interface DuplicatePair {
+    id1: number;
+    id2: number;
+    content1: string;
+    content2: string;
+    similarity: number;
+}
+
+export async function findDuplicates(userId: number): Promise<DuplicatePair[]> {
+    const model = currentEmbeddingModel();
+    if (!model) return [];
+
+    const { data: memories } = await db
         .from("memories")
-        .select("id, content")
+        .select("id, content, embedding")
+        .eq("user_id", userId)
+        .eq("embedding_model", model)
+        .is("valid_to", null)
         .order("id");
 
     if (!memories) return [];
 
-    const duplicates: Array<{
-        id1: number;
-        id2: number;
-        content1: string;
-        content2: string;
-        similarity: number;
-    }> = [];
-
-    for (let i = 0; i < memories.length; i++) {
-        for (let j = i + 1; j < memories.length; j++) {
-            const sim = wordOverlap(
-                memories[i]!.content as string,
-                memories[j]!.content as string
-            );
-            if (sim > 0.7) {
-                duplicates.push({
-                    id1: memories[i]!.id as number,
-                    id2: memories[j]!.id as number,
-                    content1: memories[i]!.content as string,
-                    content2: memories[j]!.content as string,
-                    similarity: Math.round(sim * 100) / 100,
-                });
-            }
+    const paired = new Set<number>();
+    const duplicates: DuplicatePair[] = [];
+
+    for (const memory of memories) {
+        const id = memory.id as number;
+        if (paired.has(id)) continue;
+
+        const { data: matches, error } = await db.rpc("match_memories", {
+            query_embedding: memory.embedding,
+            match_threshold: DUPLICATE_SIMILARITY,
+            match_count: DUPLICATE_CANDIDATES + 1, // includes the memory itself
+            filter_user_id: userId,
+            filter_embedding_model: model,
+        });
+        if (error) {
+            throw new Error(`Duplicate search failed: ${error.message}`);
         }
+
+        const match = ((matches ?? []) as Array<{ id: number; content: string; similarity: number }>)
+            .find((m) => m.id !== id && !paired.has(m.id));
+        if (!match) continue;
+
+        paired.add(id);
+        paired.add(match.id);
+        duplicates.push({
+            id1: id,
+            id2: match.id,
+            content1: memory.content as string,
+            content2: match.content,
+            similarity: Math.round(match.similarity * 100) / 100,
+        });
     }
 
     return duplicates;
 }
 
-function wordOverlap(a: string, b: string): number {
-    const wordsA = new Set(a.toLowerCase().split(/\s+/));
-    const wordsB = new Set(b.toLowerCase().split(/\s+/));
-    const intersection = new Set([...wordsA].filter((w) => wordsB.has(w)));
-    const union = new Set([...wordsA, ...wordsB]);
-    return union.size === 0 ? 0 : intersection.size / union.size;
+// ─── Merge duplicate memories ────────────────────────────────────────
+// The model combines each pair into one memory (or says the two are
+// distinct facts after all). The merged memory keeps the row that was
+// used more, with the higher access_count and relevance of the two.
+export interface MemoryMerge {
+    keptId: number;
+    removedId: number;
+    originals: [string, string];
+    merged: string;
 }
 
-// ─── Remove duplicate memories (keep the newer one) ─────────────────
-export async function removeDuplicates(): Promise<{ removed: number }> {
-    const duplicates = await findDuplicates();
-    let removed = 0;
+const DISTINCT_REPLY = "DISTINCT";
 
-    for (const dup of duplicates) {
-        // Keep the newer memory (higher id), delete the older one
-        const { error } = await supabase
-            .from("memories")
-            .delete()
-            .eq("id", dup.id1);
-        if (!error) removed++;
+async function mergeFacts(a: string, b: string): Promise<string | null> {
+    const response = await chat(
+        [
+            {
+                role: "user",
+                content: `These two memories about the user look like near-duplicates:\n\n1. ${a}\n2. ${b}\n\nIf they state the same fact, reply with a single memory that combines them, keeping every detail from both, in the same style. Reply with the memory text only.\nIf they are different facts or contradict each other, reply with exactly: ${DISTINCT_REPLY}`,
+            },
+        ],
+        [],
+        { task: "summary" }
+    );
+
+    const text = response.content
+        .filter((b) => b.type === "text")
+        .map((b) => ("text" in b ? b.text : ""))
+        .join("\n")
+        .trim();
+
+    return mergedMemory(text, a, b);
+}
+
+// "DISTINCT", "**DISTINCT**", "Distinct." or "DISTINCT – they differ" all keep both
+function saysDistinct(reply: string): boolean {
+    return reply
+        .replace(/[*_`"'#>.,:;!()\[\]-]/g, " ")
+        .trim()
+        .toUpperCase()
+        .startsWith(DISTINCT_REPLY);
+}
+
+const words = (text: string) => new Set(text.toLowerCase().match(/[\p{L}\p{N}]{3,}/gu) ?? []);
+
+/**
+ * The merged memory from the model's reply, or null to keep both rows —
+ * also when the reply does not look like a memory built from the two
+ * (too long, or sharing no words with either), since merging deletes one.
+ */
+function mergedMemory(reply: string, a: string, b: string): string | null {
+    const text = reply.replace(/^["'`*]+|["'`*]+$/g, "").trim();
+    if (!text || saysDistinct(text) || /\bDISTINCT\b/.test(text)) return null;
+    if (text.length > 2 * (a.length + b.length) + 50) return null;
+
+    const merged = words(text);
+    const overlaps = (original: string) => [...words(original)].some((w) => merged.has(w));
+    return overlaps(a) && overlaps(b) ? text : null;
+}
+
+async function mergePair(pair: DuplicatePair): Promise<MemoryMerge | null> {
+    const { data: rows } = await db
+        .from("memories")
+        .select("id, access_count, relevance, last_accessed")
+        .in("id", [pair.id1, pair.id2]);
+
+    // One of them changed since the duplicate search
+    if (!rows || rows.length !== 2) return null;
+
+    const merged = await mergeFacts(pair.content1, pair.content2);
+    if (!merged) return null;
+
+    // Keep the more-used row (then the more relevant, then the newer one)
+    const [kept, removed] = [...rows].sort(
+        (a, b) =>
+            (b.access_count as number) - (a.access_count as number) ||
+            (b.relevance as number) - (a.relevance as number) ||
+            (b.id as number) - (a.id as number)
+    ) as [typeof rows[number], typeof rows[number]];
+
+    const { error: updateError } = await db
+        .from("memories")
+        .update({
+            content: merged,
+            access_count: Math.max(kept.access_count as number, removed.access_count as number),
+            relevance: Math.max(kept.relevance as number, removed.relevance as number),
+            last_accessed: [kept.last_accessed as string, removed.last_accessed as string].sort().pop(),
+            ...(await embeddingColumns(merged)),
+        })
+        .eq("id", kept.id);
+    if (updateError) {
+        throw new Error(`Updating merged memory failed: ${updateError.message}`);
+    }
+
+    const { error: deleteError } = await db.from("memories").delete().eq("id", removed.id);
+    if (deleteError) {
+        throw new Error(`Removing merged memory failed: ${deleteError.message}`);
+    }
+
+    return {
+        keptId: kept.id as number,
+        removedId: removed.id as number,
+        originals: [pair.content1, pair.content2],
+        merged,
+    };
+}
+
+export async function mergeDuplicates(userId: number): Promise<MemoryMerge[]> {
+    const duplicates = await findDuplicates(userId);
+    const merges: MemoryMerge[] = [];
+
+    for (const pair of duplicates.slice(0, MAX_MERGES_PER_RUN)) {
+        try {
+            const merge = await mergePair(pair);
+            if (!merge) continue;
+
+            merges.push(merge);
+            console.log(
+                `🔗 Merged memories #${merge.removedId} into #${merge.keptId} (similarity ${pair.similarity}): "${merge.merged}"`
+            );
+        } catch (err) {
+            console.error(
+                `❌ Merging memories #${pair.id1} and #${pair.id2} failed:`,
+                err instanceof Error ? err.message : err
+            );
+        }
     }
 
-    return { removed };
+    if (merges.length > 0) invalidateMemoryCache(userId);
+    return merges;
 }
 
 // ─── Run full maintenance cycle ──────────────────────────────────────
-export async function runMaintenance(): Promise<{
+export async function runMaintenance(userId: number): Promise<{
     decay: { affected: number };
     boost: { affected: number };
-    duplicatesRemoved: number;
+    merges: MemoryMerge[];
+    entities: Awaited<ReturnType<typeof resolveDuplicateEntities>>;
 }> {
-    const decay = await applyDecay();
-    const boost = await boostFrequentlyAccessed();
-    const { removed } = await removeDuplicates();
+    const decay = await applyDecay(userId);
+    const boost = await boostFrequentlyAccessed(userId);
+    const merges = await mergeDuplicates(userId);
+    const entities = await resolveDuplicateEntities(userId);
 
     console.log(
-        `🧹 Memory maintenance: decayed ${decay.affected}, boosted ${boost.affected}, removed ${removed} duplicates`
+        `🧹 Memory maintenance [${userId}]: decayed ${decay.affected}, boosted ${boost.affected}, merged ${merges.length} duplicates, ` +
+            `${entities.merged.length} entity merges, ${entities.suggestions.length} entity suggestions`
     );
 
-    return {
-        decay,
-        boost,
-        duplicatesRemoved: removed,
-    };
+    return { decay, boost, merges, entities };
 }
 
 console.log("🧬 Self-evolving memory ready");
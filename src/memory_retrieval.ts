@@ -0,0 +1,125 @@
+// ─── Hybrid memory retrieval ─────────────────────────────────────────
+// One pipeline for every memory lookup (search_memory, system prompt):
+// Postgres full-text rank + vector similarity + maintained relevance,
+// blended by the hybrid_search_memories function (mirrored locally).
+
+import { db } from "./db.js";
+import { embeddingsAvailable, getEmbedding, type Embedding } from "./embeddings.js";
+import { trackAccess } from "./memory_evolution.js";
+
+export interface RetrievedMemory {
+    id: number;
+    content: string;
+    category: string;
+    created_at: string;
+    text_rank: number;
+    similarity: number;
+    relevance: number;
+    score: number;
+}
+
+export interface RetrievalOptions {
+    limit?: number;
+    category?: string;
+    /**
+     * Only return memories that match the query (text or vector).
+     * When false, the best-ranked remaining memories fill up the limit.
+     */
+    requireMatch?: boolean;
+    /** Count matches as accesses (default true); off for internal lookups. */
+    trackAccess?: boolean;
+}
+
+// Vector similarity a memory needs to count as a match on its own
+const MIN_SIMILARITY = 0.5;
+// Long inputs (e.g. extracted documents) are cut before embedding and text search
+const MAX_QUERY_CHARS = 2000;
+
+// The agent loop rebuilds the system prompt on every iteration of a turn;
+// cache results briefly so the query is embedded (and hits are tracked) once.
+const CACHE_TTL_MS = 2 * 60 * 1000;
+const CACHE_MAX_ENTRIES = 100;
+const cache = new Map<string, { expires: number; result: Promise<RetrievedMemory[]> }>();
+
+function isMatch(memory: RetrievedMemory): boolean {
+    return memory.text_rank > 0 || memory.similarity >= MIN_SIMILARITY;
+}
+
+async function embedQuery(query: string): Promise<Embedding | null> {
+    if (!query.trim() || !embeddingsAvailable()) return null;
+    try {
+        return await getEmbedding(query);
+    } catch (err) {
+        console.warn(
+            "⚠️ Query embedding failed, using text search only:",
+            err instanceof Error ? err.message : err
+        );
+        return null;
+    }
+}
+
+async function search(
+    userId: number,
+    query: string,
+    options: RetrievalOptions
+): Promise<RetrievedMemory[]> {
+    const embedding = await embedQuery(query);
+
+    const { data, error } = await db.rpc("hybrid_search_memories", {
+        query_text: query,
+        query_embedding: embedding?.vector ?? null,
+        query_embedding_model: embedding?.model ?? null,
+        match_count: options.limit ?? 10,
+        filter_user_id: userId,
+        filter_category: options.category ?? null,
+        require_match: options.requireMatch ?? true,
+        min_similarity: MIN_SIMILARITY,
+    });
+
+    if (error) {
+        throw new Error(`Memory search failed: ${error.message}`);
+    }
+
+    const memories = (data ?? []) as RetrievedMemory[];
+
+    // Only real matches count as an access — not memories that merely filled up the list
+    const hits = options.trackAccess === false ? [] : memories.filter(isMatch);
+    if (hits.length > 0) {
+        void Promise.allSettled(hits.map((m) => trackAccess(m.id)));
+    }
+
+    return memories;
+}
+
+/**
+ * Find a user's memories relevant to a query, best first.
+ *
+ * @param query  Natural-language query (e.g. the user's latest message)
+ */
+export function retrieveMemories(
+    userId: number,
+    query: string,
+    options: RetrievalOptions = {}
+): Promise<RetrievedMemory[]> {
+    query = query.slice(0, MAX_QUERY_CHARS);
+    const key = JSON.stringify([userId, query, options]);
+    const cached = cache.get(key);
+    if (cached && cached.expires > Date.now()) return cached.result;
+
+    const result = search(userId, query, options);
+    cache.set(key, { expires: Date.now() + CACHE_TTL_MS, result });
+    // Failed lookups are not cached
+    result.catch(() => cache.delete(key));
+
+    if (cache.size > CACHE_MAX_ENTRIES) {
+        cache.delete(cache.keys().next().value!);
+    }
+    return result;
+}
+
+/** Drop cached results for a user — call after their memories change. */
+export function invalidateMemoryCache(userId: number): void {
+    for (const key of cache.keys()) {
+        if (key.startsWith(`[${userId},`)) cache.delete(key);
+    }
+}
@@ -0,0 +1,101 @@
+// ─── OAuth tokens ────────────────────────────────────────────────────
+// Access and refresh tokens for external accounts (LinkedIn), stored per
+// user and provider in oauth_tokens. Tokens are encrypted with AES-256-GCM
+// under TOKEN_ENCRYPTION_KEY before they reach the database, so a leaked
+// table or local data file does not leak the accounts.
+
+import { createCipheriv, createDecipheriv, randomBytes } from "crypto";
+import { config } from "./config.js";
+import { db } from "./db.js";
+
+export interface OAuthToken {
+    accessToken: string;
+    refreshToken: string | null;
+    /** When the access token stops working; null if unknown. */
+    expiresAt: string | null;
+    /** The connected account, e.g. "urn:li:person:abc123". */
+    accountId: string;
+    accountName: string | null;
+}
+
+// ─── Encryption ──────────────────────────────────────────────────────
+// Stored as "v1:<iv>:<auth tag>:<ciphertext>", each part base64
+function requireKey(): Buffer {
+    if (!config.tokenEncryptionKey) {
+        throw new Error("TOKEN_ENCRYPTION_KEY is not set — generate one with: openssl rand -hex 32");
+    }
+    return config.tokenEncryptionKey;
+}
+
+function encrypt(plaintext: string): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", requireKey(), iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    const tag = cipher.getAuthTag();
+    return `v1:${iv.toString("base64")}:${tag.toString("base64")}:${ciphertext.toString("base64")}`;
+}
+
+function decrypt(stored: string): string {
+    const [version, iv, tag, ciphertext] = stored.split(":");
+    if (version !== "v1" || !iv || !tag || ciphertext === undefined) {
+        throw new Error("Stored token has an unknown format.");
+    }
+    const decipher = createDecipheriv("aes-256-gcm", requireKey(), Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+    try {
+        return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+    } catch {
+        throw new Error("Stored token could not be decrypted — was TOKEN_ENCRYPTION_KEY changed?");
+    }
+}
+
+// ─── Storage ─────────────────────────────────────────────────────────
+export async function saveOAuthToken(userId: number, provider: string, token: OAuthToken): Promise<void> {
+    const { error } = await db.from("oauth_tokens").upsert(
+        {
+            user_id: userId,
+            provider,
+            access_token: encrypt(token.accessToken),
+            refresh_token: token.refreshToken ? encrypt(token.refreshToken) : null,
+            expires_at: token.expiresAt,
+            account_id: token.accountId,
+            account_name: token.accountName,
+            updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id,provider" }
+    );
+
+    if (error) throw new Error(`Saving ${provider} token failed: ${error.message}`);
+}
+
+export async function getOAuthToken(userId: number, provider: string): Promise<OAuthToken | null> {
+    const { data, error } = await db
+        .from("oauth_tokens")
+        .select("access_token, refresh_token, expires_at, account_id, account_name")
+        .eq("user_id", userId)
+        .eq("provider", provider)
+        .maybeSingle();
+
+    if (error) throw new Error(`Loading ${provider} token failed: ${error.message}`);
+    if (!data) return null;
+
+    return {
+        accessToken: decrypt(data.access_token as string),
+        refreshToken: data.refresh_token ? decrypt(data.refresh_token as string) : null,
+        expiresAt: (data.expires_at as string | null) ?? null,
+        accountId: data.account_id as string,
+        accountName: (data.account_name as string | null) ?? null,
+    };
+}
+
+/** @returns  Whether a token was stored */
+export async function deleteOAuthToken(userId: number, provider: string): Promise<boolean> {
+    const { error, count } = await db
+        .from("oauth_tokens")
+        .delete({ count: "exact" })
+        .eq("user_id", userId)
+        .eq("provider", provider);
+
+    if (error) throw new Error(`Removing ${provider} token failed: ${error.message}`);
+    return (count ?? 0) > 0;
+}
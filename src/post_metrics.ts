@@ -0,0 +1,561 @@
+// ─── LinkedIn post performance ───────────────────────────────────────
+// Impressions, reactions, comments and reposts per published post, as
+// dated snapshots in post_metrics (one per post and day; the latest one
+// counts). Metrics come from chat (manual), LinkedIn's analytics export
+// (CSV) or the LinkedIn API (LINKEDIN_ANALYTICS). On top of them:
+// weekly/monthly reports and per theme/template/style insights that the
+// topic planner uses to suggest what has worked.
+
+import { config } from "./config.js";
+import { calendarDate } from "./content_calendar.js";
+import { db } from "./db.js";
+import { fetchLinkedInPostStats, getLinkedInToken } from "./linkedin.js";
+import { getPost } from "./posts.js";
+
+export type MetricsSource = "manual" | "csv" | "api";
+
+export interface PostMetrics {
+    impressions: number;
+    reactions: number;
+    comments: number;
+    reposts: number;
+}
+
+export interface PostMetricsSnapshot extends PostMetrics {
+    post_id: number;
+    source: MetricsSource;
+    /** YYYY-MM-DD the numbers were read. */
+    measured_on: string;
+}
+
+const METRIC_KEYS: (keyof PostMetrics)[] = ["impressions", "reactions", "comments", "reposts"];
+
+/** Reactions, comments and reposts per impression; null without impressions. */
+export function engagementRate(m: PostMetrics): number | null {
+    return m.impressions > 0 ? (m.reactions + m.comments + m.reposts) / m.impressions : null;
+}
+
+function today(): string {
+    return new Date().toISOString().split("T")[0]!;
+}
+
+// ─── Recording ───────────────────────────────────────────────────────
+/**
+ * Record a post's metrics. Fields left out keep their last known value,
+ * so "it got 12 comments" does not zero the impressions.
+ *
+ * @throws  When the post does not exist or is not published
+ */
+export async function recordPostMetrics(
+    userId: number,
+    postId: number,
+    metrics: Partial<PostMetrics>,
+    source: MetricsSource,
+    measuredOn = today()
+): Promise<PostMetricsSnapshot> {
+    const post = await getPost(userId, postId);
+    if (post.status !== "published") {
+        throw new Error(`Post #${post.id} is not published yet.`);
+    }
+
+    const previous = (await latestMetrics(userId, [postId])).get(postId);
+    const row: PostMetricsSnapshot = {
+        post_id: postId,
+        source,
+        measured_on: measuredOn,
+        impressions: 0,
+        reactions: 0,
+        comments: 0,
+        reposts: 0,
+    };
+    for (const key of METRIC_KEYS) {
+        const value = metrics[key] ?? previous?.[key] ?? 0;
+        if (!Number.isFinite(value) || value < 0) throw new Error(`${key} must be a non-negative number.`);
+        row[key] = Math.round(value);
+    }
+
+    const { error } = await db
+        .from("post_metrics")
+        .upsert({ ...row, user_id: userId, updated_at: new Date().toISOString() }, { onConflict: "post_id,measured_on" });
+
+    if (error) throw new Error(`Saving post metrics failed: ${error.message}`);
+    return row;
+}
+
+/** The latest snapshot of each post (all of the user's posts when postIds is omitted). */
+export async function latestMetrics(userId: number, postIds?: number[]): Promise<Map<number, PostMetricsSnapshot>> {
+    if (postIds && postIds.length === 0) return new Map();
+
+    let query = db
+        .from("post_metrics")
+        .select("post_id, source, measured_on, impressions, reactions, comments, reposts")
+        .eq("user_id", userId);
+    if (postIds) query = query.in("post_id", postIds);
+
+    const { data, error } = await query.order("measured_on", { ascending: false });
+    if (error) throw new Error(`Loading post metrics failed: ${error.message}`);
+
+    const latest = new Map<number, PostMetricsSnapshot>();
+    for (const row of (data ?? []) as PostMetricsSnapshot[]) {
+        if (!latest.has(row.post_id)) latest.set(row.post_id, row);
+    }
+    return latest;
+}
+
+// ─── CSV import ──────────────────────────────────────────────────────
+// LinkedIn's analytics export (saved as CSV) lists posts by URL and
+// publish date; a "Post ID" column with our own IDs works too. Rows are
+// matched by URN, then ID, then publish date (if only one post went out
+// that day).
+const CSV_COLUMNS: Record<string, string[]> = {
+    url: ["post url", "url", "post link", "link"],
+    id: ["post id", "post_id", "id"],
+    date: ["post publish date", "publish date", "published", "date", "created date"],
+    impressions: ["impressions", "views"],
+    reactions: ["reactions", "likes"],
+    comments: ["comments"],
+    reposts: ["reposts", "shares", "reshares"],
+};
+
+const CSV_DELIMITERS = [",", ";", "\t"];
+
+// Whichever of comma, semicolon or tab a header line uses most outside
+// quotes; the others then stay part of a field ("1,234", "Q&A; part 2")
+function detectDelimiter(headerLine: string): string {
+    const counts = new Map(CSV_DELIMITERS.map((d) => [d, 0]));
+    let quoted = false;
+    for (const c of headerLine) {
+        if (c === '"') quoted = !quoted;
+        else if (!quoted && counts.has(c)) counts.set(c, counts.get(c)! + 1);
+    }
+    return CSV_DELIMITERS.reduce((best, d) => (counts.get(d)! > counts.get(best)! ? d : best));
+}
+
+/**
+ * Rows of CSV text (quoted fields may span lines), split on one delimiter:
+ * the given one, else the one the first line uses.
+ */
+export function parseCsv(text: string, delimiter?: string): string[][] {
+    const separator = delimiter ?? detectDelimiter(text.trimStart().split(/\r?\n/, 1)[0] ?? "");
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let quoted = false;
+
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i]!;
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') {
+                quoted = false;
+            } else {
+                field += c;
+            }
+        } else if (c === '"') {
+            quoted = true;
+        } else if (c === separator) {
+            row.push(field);
+            field = "";
+        } else if (c === "\n" || c === "\r") {
+            if (c === "\r" && text[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += c;
+        }
+    }
+    if (field || row.length > 0) rows.push([...row, field]);
+    return rows.filter((r) => r.some((f) => f.trim()));
+}
+
+// Exports start with a title or summary block; the header is the first row naming impressions
+function findHeader(rows: string[][]): number {
+    return rows.findIndex((r) => r.some((f) => CSV_COLUMNS.impressions!.includes(f.trim().toLowerCase())));
+}
+
+// The title block above the header may use any separator, so the
+// delimiter is taken from the line where one splits off an impressions column
+function headerDelimiter(text: string): string | undefined {
+    for (const line of text.split(/\r?\n/, 50)) {
+        const delimiter = CSV_DELIMITERS.find((d) =>
+            line.split(d).some((f) => CSV_COLUMNS.impressions!.includes(f.trim().replace(/^"|"$/g, "").toLowerCase()))
+        );
+        if (delimiter) return delimiter;
+    }
+    return undefined;
+}
+
+/** Whether a CSV file looks like post analytics (and should be imported rather than read). */
+export function isMetricsCsv(text: string): boolean {
+    return headerDelimiter(text.slice(0, 5000)) !== undefined;
+}
+
+function parseCount(value: string | undefined): number | undefined {
+    const cleaned = value?.replace(/[,\s]/g, "");
+    if (!cleaned) return undefined;
+    const n = Number(cleaned);
+    return Number.isFinite(n) ? n : undefined;
+}
+
+// "2026-03-14", "3/14/2026" or "14.03.2026"
+function parseCsvDate(value: string | undefined): string | null {
+    const v = value?.trim() ?? "";
+    let m = v.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (m) return `${m[1]}-${m[2]}-${m[3]}`;
+    m = v.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})/);
+    if (m) return `${m[3]}-${m[1]!.padStart(2, "0")}-${m[2]!.padStart(2, "0")}`;
+    m = v.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})/);
+    if (m) return `${m[3]}-${m[2]!.padStart(2, "0")}-${m[1]!.padStart(2, "0")}`;
+    return null;
+}
+
+export interface MetricsImportResult {
+    imported: number;
+    /** Rows no published post matched, as "row N: reason". */
+    unmatched: string[];
+}
+
+/**
+ * Import metrics from a CSV export.
+ *
+ * @throws  When no header row with an impressions column is found
+ */
+export async function importMetricsCsv(userId: number, text: string): Promise<MetricsImportResult> {
+    const rows = parseCsv(text, headerDelimiter(text));
+    const headerIndex = findHeader(rows);
+    if (headerIndex === -1) {
+        throw new Error("No header row with an Impressions column found.");
+    }
+
+    const header = rows[headerIndex]!.map((h) => h.trim().toLowerCase());
+    const column = (name: string) => header.findIndex((h) => CSV_COLUMNS[name]!.includes(h));
+    const columns = Object.fromEntries(Object.keys(CSV_COLUMNS).map((name) => [name, column(name)]));
+
+    const { data: posts, error } = await db
+        .from("posts")
+        .select("id, external_urn, published_at")
+        .eq("user_id", userId)
+        .eq("status", "published");
+    if (error) throw new Error(`Loading posts failed: ${error.message}`);
+
+    const published = (posts ?? []) as { id: number; external_urn: string | null; published_at: string | null }[];
+    const byNumericId = new Map<string, number>();
+    const byDate = new Map<string, number[]>();
+    for (const post of published) {
+        const numeric = post.external_urn?.match(/(\d+)$/)?.[1];
+        if (numeric) byNumericId.set(numeric, post.id);
+        // The export dates posts by the member's local day, not UTC
+        const date = post.published_at ? calendarDate(new Date(post.published_at)) : null;
+        if (date) byDate.set(date, [...(byDate.get(date) ?? []), post.id]);
+    }
+
+    const result: MetricsImportResult = { imported: 0, unmatched: [] };
+    for (let i = headerIndex + 1; i < rows.length; i++) {
+        const row = rows[i]!;
+        const cell = (name: string) => (columns[name]! >= 0 ? row[columns[name]!] : undefined);
+
+        // URLs carry the URN or "...-activity-7123…-abcd"
+        const urnNumber = cell("url")?.match(/(?:share|ugcPost|activity)(?::|%3A|-)(\d{6,})/i)?.[1];
+        const ownId = parseCount(cell("id"));
+        const date = parseCsvDate(cell("date"));
+        const sameDay = date ? byDate.get(date) : undefined;
+
+        const postId =
+            (urnNumber ? byNumericId.get(urnNumber) : undefined) ??
+            (ownId !== undefined && published.some((p) => p.id === ownId) ? ownId : undefined) ??
+            (sameDay?.length === 1 ? sameDay[0] : undefined);
+
+        if (postId === undefined) {
+            result.unmatched.push(`row ${i + 1}: ${cell("url") || date || "no URL or date"}`);
+            continue;
+        }
+
+        const metrics: Partial<PostMetrics> = {};
+        for (const key of METRIC_KEYS) {
+            const value = parseCount(cell(key));
+            if (value !== undefined) metrics[key] = value;
+        }
+        await recordPostMetrics(userId, postId, metrics, "csv");
+        result.imported++;
+    }
+
+    console.log(`📊 Imported metrics for ${result.imported} post(s) (${result.unmatched.length} unmatched rows)`);
+    return result;
+}
+
+// ─── LinkedIn API ────────────────────────────────────────────────────
+// Metrics settle within weeks; older posts are not polled any more
+const SYNC_WINDOW_DAYS = 60;
+
+export function metricsSyncAvailable(): boolean {
+    return config.publisher === "linkedin" && config.linkedin.analytics;
+}
+
+/**
+ * Refresh the metrics of posts published through the LinkedIn API.
+ *
+ * @returns  How many posts were updated
+ * @throws   When no LinkedIn account is connected
+ */
+export async function syncLinkedInMetrics(userId: number): Promise<number> {
+    const since = new Date(Date.now() - SYNC_WINDOW_DAYS * 24 * 60 * 60 * 1000).toISOString();
+    const { data, error } = await db
+        .from("posts")
+        .select("id, external_urn")
+        .eq("user_id", userId)
+        .eq("status", "published")
+        .eq("publisher", "linkedin")
+        .gte("published_at", since);
+    if (error) throw new Error(`Loading posts failed: ${error.message}`);
+
+    const posts = ((data ?? []) as { id: number; external_urn: string | null }[]).filter((p) => p.external_urn);
+    if (posts.length === 0) return 0;
+
+    const token = await getLinkedInToken(userId);
+    let updated = 0;
+    for (const post of posts) {
+        try {
+            const stats = await fetchLinkedInPostStats(token, post.external_urn!);
+            await recordPostMetrics(userId, post.id, stats, "api");
+            updated++;
+        } catch (err) {
+            console.error(`   ❌ Metrics for post #${post.id}:`, err instanceof Error ? err.message : err);
+        }
+    }
+    return updated;
+}
+
+// ─── Performance ─────────────────────────────────────────────────────
+export interface PostPerformance extends PostMetrics {
+    post_id: number;
+    topic: string | null;
+    theme: string | null;
+    template: string | null;
+    style: string | null;
+    published_at: string;
+    engagement_rate: number | null;
+    has_metrics: boolean;
+}
+
+/** Published posts with their latest metrics, newest first. */
+export async function loadPostPerformance(
+    userId: number,
+    range: { from?: Date; to?: Date } = {}
+): Promise<PostPerformance[]> {
+    let query = db
+        .from("posts")
+        .select("id, topic_id, template_id, style_id, published_at")
+        .eq("user_id", userId)
+        .eq("status", "published");
+    if (range.from) query = query.gte("published_at", range.from.toISOString());
+    if (range.to) query = query.lt("published_at", range.to.toISOString());
+
+    const { data, error } = await query.order("published_at", { ascending: false });
+    if (error) throw new Error(`Loading posts failed: ${error.message}`);
+
+    const posts = (data ?? []) as {
+        id: number;
+        topic_id: number | null;
+        template_id: number | null;
+        style_id: number | null;
+        published_at: string;
+    }[];
+    if (posts.length === 0) return [];
+
+    const ids = (key: "topic_id" | "template_id" | "style_id") =>
+        [...new Set(posts.map((p) => p[key]).filter((id): id is number => id !== null))];
+    const lookup = async (table: string, columns: string, keys: number[]) => {
+        if (keys.length === 0) return new Map<number, Record<string, unknown>>();
+        const { data: rows } = await db.from(table).select(columns).in("id", keys);
+        return new Map((rows ?? []).map((r) => [r.id as number, r]));
+    };
+
+    const [metrics, topics, templates, styles] = await Promise.all([
+        latestMetrics(userId, posts.map((p) => p.id)),
+        lookup("topics", "id, topic, theme", ids("topic_id")),
+        lookup("templates", "id, name", ids("template_id")),
+        lookup("linkedin_styles", "id, name", ids("style_id")),
+    ]);
+
+    return posts.map((post) => {
+        const m = metrics.get(post.id);
+        const counts: PostMetrics = {
+            impressions: m?.impressions ?? 0,
+            reactions: m?.reactions ?? 0,
+            comments: m?.comments ?? 0,
+            reposts: m?.reposts ?? 0,
+        };
+        const topic = post.topic_id !== null ? topics.get(post.topic_id) : undefined;
+        return {
+            post_id: post.id,
+            topic: (topic?.topic as string | undefined) ?? null,
+            theme: (topic?.theme as string | null | undefined) ?? null,
+            template: post.template_id !== null ? ((templates.get(post.template_id)?.name as string | undefined) ?? null) : null,
+            style: post.style_id !== null ? ((styles.get(post.style_id)?.name as string | undefined) ?? null) : null,
+            published_at: post.published_at,
+            ...counts,
+            engagement_rate: m ? engagementRate(counts) : null,
+            has_metrics: m !== undefined,
+        };
+    });
+}
+
+function sumMetrics(posts: PostPerformance[]): PostMetrics {
+    const total: PostMetrics = { impressions: 0, reactions: 0, comments: 0, reposts: 0 };
+    for (const post of posts) {
+        for (const key of METRIC_KEYS) total[key] += post[key];
+    }
+    return total;
+}
+
+// ─── Reports ─────────────────────────────────────────────────────────
+export type ReportPeriod = "week" | "month";
+
+const PERIOD_DAYS: Record<ReportPeriod, number> = { week: 7, month: 30 };
+
+interface PeriodSummary {
+    posts: number;
+    with_metrics: number;
+    totals: PostMetrics;
+    engagement_rate: number | null;
+}
+
+export interface PerformanceReport {
+    period: ReportPeriod;
+    from: string;
+    to: string;
+    current: PeriodSummary;
+    previous: PeriodSummary;
+    /** Highest engagement rate first. */
+    posts: PostPerformance[];
+}
+
+function summarize(posts: PostPerformance[]): PeriodSummary {
+    const measured = posts.filter((p) => p.has_metrics);
+    const totals = sumMetrics(measured);
+    return { posts: posts.length, with_metrics: measured.length, totals, engagement_rate: engagementRate(totals) };
+}
+
+/** The last 7 or 30 days, compared with the period before. */
+export async function buildPerformanceReport(
+    userId: number,
+    period: ReportPeriod,
+    now = new Date()
+): Promise<PerformanceReport> {
+    const span = PERIOD_DAYS[period] * 24 * 60 * 60 * 1000;
+    const from = new Date(now.getTime() - span);
+    const [current, previous] = await Promise.all([
+        loadPostPerformance(userId, { from, to: now }),
+        loadPostPerformance(userId, { from: new Date(from.getTime() - span), to: from }),
+    ]);
+
+    return {
+        period,
+        from: from.toISOString(),
+        to: now.toISOString(),
+        current: summarize(current),
+        previous: summarize(previous),
+        posts: [...current].sort((a, b) => (b.engagement_rate ?? -1) - (a.engagement_rate ?? -1)),
+    };
+}
+
+const percent = (rate: number | null) => (rate === null ? "–" : `${(rate * 100).toFixed(1)}%`);
+
+function change(current: number, previous: number): string {
+    if (previous === 0) return "";
+    const delta = ((current - previous) / previous) * 100;
+    return ` (${delta >= 0 ? "+" : ""}${delta.toFixed(0)}%)`;
+}
+
+/** Plain-text report for Telegram. */
+export function formatPerformanceReport(report: PerformanceReport): string {
+    const { current, previous } = report;
+    const title = `📊 LinkedIn performance — last ${PERIOD_DAYS[report.period]} days`;
+    if (current.posts === 0) return `${title}\n\nNo posts were published in this period.`;
+
+    const lines = [
+        title,
+        "",
+        `Posts: ${current.posts}${current.with_metrics < current.posts ? ` (${current.with_metrics} with metrics)` : ""}`,
+        `Impressions: ${current.totals.impressions}${change(current.totals.impressions, previous.totals.impressions)}`,
+        `Reactions: ${current.totals.reactions} · Comments: ${current.totals.comments} · Reposts: ${current.totals.reposts}`,
+        `Engagement rate: ${percent(current.engagement_rate)}` +
+            (previous.engagement_rate !== null ? ` (before: ${percent(previous.engagement_rate)})` : ""),
+    ];
+
+    const measured = report.posts.filter((p) => p.has_metrics);
+    if (measured.length > 0) {
+        lines.push("", "Posts by engagement:");
+        for (const post of measured.slice(0, 5)) {
+            lines.push(
+                `• #${post.post_id} ${percent(post.engagement_rate)} · ${post.impressions} impressions — ${post.topic ?? "(no topic)"}`
+            );
+        }
+    }
+    if (current.with_metrics < current.posts) {
+        lines.push("", "Add missing numbers by telling me them, or send LinkedIn's analytics export as a CSV file.");
+    }
+    return lines.join("\n");
+}
+
+// ─── Insights for topic planning ─────────────────────────────────────
+export interface PerformanceGroup {
+    name: string;
+    posts: number;
+    avg_impressions: number;
+    engagement_rate: number | null;
+}
+
+export interface PerformanceInsights {
+    posts_with_metrics: number;
+    by_theme: PerformanceGroup[];
+    by_template: PerformanceGroup[];
+    by_style: PerformanceGroup[];
+    top_posts: { post_id: number; topic: string | null; theme: string | null; engagement_rate: number | null; impressions: number }[];
+    bottom_posts: { post_id: number; topic: string | null; theme: string | null; engagement_rate: number | null; impressions: number }[];
+}
+
+function groupBy(posts: PostPerformance[], key: "theme" | "template" | "style"): PerformanceGroup[] {
+    const groups = new Map<string, PostPerformance[]>();
+    for (const post of posts) {
+        const name = post[key];
+        if (name) groups.set(name, [...(groups.get(name) ?? []), post]);
+    }
+    return [...groups]
+        .map(([name, members]) => {
+            const totals = sumMetrics(members);
+            return {
+                name,
+                posts: members.length,
+                avg_impressions: Math.round(totals.impressions / members.length),
+                engagement_rate: engagementRate(totals),
+            };
+        })
+        .sort((a, b) => (b.engagement_rate ?? -1) - (a.engagement_rate ?? -1));
+}
+
+/** What has performed best across all measured posts, best first. */
+export async function getPerformanceInsights(userId: number): Promise<PerformanceInsights> {
+    const measured = (await loadPostPerformance(userId)).filter((p) => p.has_metrics);
+    const ranked = [...measured].sort((a, b) => (b.engagement_rate ?? -1) - (a.engagement_rate ?? -1));
+    const brief = (p: PostPerformance) => ({
+        post_id: p.post_id,
+        topic: p.topic,
+        theme: p.theme,
+        engagement_rate: p.engagement_rate,
+        impressions: p.impressions,
+    });
+
+    return {
+        posts_with_metrics: measured.length,
+        by_theme: groupBy(measured, "theme"),
+        by_template: groupBy(measured, "template"),
+        by_style: groupBy(measured, "style"),
+        top_posts: ranked.slice(0, 5).map(brief),
+        bottom_posts: ranked.length > 5 ? ranked.slice(-3).map(brief) : [],
+    };
+}
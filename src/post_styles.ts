@@ -0,0 +1,398 @@
+// ─── LinkedIn styles & templates per slot ────────────────────────────
+// A user can keep several style guides and templates. Which ones a slot's
+// post is written with is decided per field, most specific first: set on
+// the topic itself, assigned to its content pillar (the topic's theme),
+// assigned to its weekday, else the default — the active style and the
+// "default" (or newest) template. A variant style makes the scheduler
+// write the post twice, A and B in different styles, for the user to pick.
+
+import { db } from "./db.js";
+import { DAY_NAMES, type CalendarSlot } from "./content_calendar.js";
+import type { StyleFingerprint } from "./style_learning.js";
+
+export type AssignmentScope = "weekday" | "pillar";
+export type SettingSource = "topic" | "pillar" | "weekday" | "default";
+
+export interface PostStyle {
+    id: number;
+    name: string;
+    style_guide: string;
+    /** Set for styles learned from the user's posts (style_learning.ts). */
+    fingerprint: StyleFingerprint | null;
+}
+
+export interface PostTemplate {
+    id: number;
+    name: string;
+    content: string;
+}
+
+/** What a slot's post is written with, and where each choice came from. */
+export interface PostSettings {
+    style: PostStyle | null;
+    template: PostTemplate | null;
+    /** Style of the B variant; null when no A/B test is set. */
+    variantStyle: PostStyle | null;
+    sources: { style: SettingSource; template: SettingSource; variantStyle: SettingSource | null };
+}
+
+/** Style, template and variant style by name; null clears, undefined keeps. */
+export interface SettingNames {
+    style?: string | null;
+    template?: string | null;
+    variantStyle?: string | null;
+}
+
+type SettingIds = Pick<CalendarSlot, "style_id" | "template_id" | "variant_style_id">;
+
+// ─── Andrew Ng default style (auto-seeded) ───────────────────────────
+const ANDREW_NG_STYLE = `STYLE NAME: Andrew Ng — Warm Thought Leader
+
+STRUCTURE:
+- Use the "Hook → Insight → CTA" framework for every post.
+- Open with a bold, one-line hook that stops the scroll (max 2 lines before "see more").
+- Leave an empty line after the hook to force the "see more" click.
+- Use very short paragraphs — one sentence per line.
+- Use numbered lists (1️⃣, 2️⃣, etc.) for key insights (typically 3-5 points).
+- Each numbered point has a bold header followed by a brief explanation.
+- End with a single-line takeaway or reframe.
+- Close with an open-ended engagement question + 👇 emoji.
+- Add 3-5 relevant hashtags at the very end.
+
+TONE:
+- Warm, mentor-like, and inclusive. Like a respected professor sharing wisdom over coffee.
+- Forward-looking and optimistic, but honest about challenges.
+- Confident without being arrogant. Use "I believe" and "Here's what I've learned."
+- Accessible — avoid jargon. If a concept is complex, simplify it with an analogy.
+- Personal when possible — reference your own experience or perspective.
+
+FORMATTING:
+- Line break after every sentence.
+- Moderate emoji use: numbered emojis (1️⃣-5️⃣) and a single 👇 at the end. No excessive emojis.
+- Bold keywords and key phrases for scannability.
+- No walls of text — if it looks dense, break it up.
+- Keep total length to 150-250 words (sweet spot for engagement).
+
+VIRAL FORMULAS TO ROTATE:
+1. "I was wrong about..." (Vulnerability + Learning)
+2. "Stop doing X, do Y instead" (Contrarian Advice)
+3. "Here's what [complex thing] actually means" (Simplification)
+4. "Behind the scenes of [achievement]" (Insider Story)
+5. "The real reason [trend] is happening" (Framework Post)
+6. "X years ago I [struggled]. Here's what happened." (Journey Arc)
+
+RULES:
+- The first 2 lines MUST create curiosity or tension (this triggers the "see more" click — LinkedIn's algorithm treats this as engagement).
+- Never start with "I'm excited to announce" or "I'm thrilled" — these are LinkedIn clichés.
+- Always end with a question that invites the audience to share their perspective.
+- Save the strongest insight for last in numbered lists.
+- When referencing a person's professional title or company, make it feel natural, not name-droppy.`;
+
+// ─── Styles & templates ──────────────────────────────────────────────
+const STYLE_FIELDS = "id, name, style_guide, fingerprint";
+const TEMPLATE_FIELDS = "id, name, content";
+
+/** The active (default) style; a user without any style gets the Andrew Ng one. */
+export async function getActiveStyle(userId: number): Promise<PostStyle | null> {
+    const { data: style } = await db
+        .from("linkedin_styles")
+        .select(STYLE_FIELDS)
+        .eq("user_id", userId)
+        .eq("is_active", true)
+        .limit(1)
+        .maybeSingle();
+    if (style) return style as PostStyle;
+
+    const { count } = await db
+        .from("linkedin_styles")
+        .select("*", { count: "exact", head: true })
+        .eq("user_id", userId);
+    if (count !== 0) return null;
+
+    const { data: seeded } = await db
+        .from("linkedin_styles")
+        .insert({ user_id: userId, name: "andrew_ng", style_guide: ANDREW_NG_STYLE, is_active: true })
+        .select(STYLE_FIELDS)
+        .single();
+    return (seeded as PostStyle | null) ?? null;
+}
+
+export async function getStyleById(userId: number, styleId: number): Promise<PostStyle | null> {
+    const { data } = await db
+        .from("linkedin_styles")
+        .select(STYLE_FIELDS)
+        .eq("id", styleId)
+        .eq("user_id", userId)
+        .maybeSingle();
+    return (data as PostStyle | null) ?? null;
+}
+
+/** @throws  When the user has no style of that name */
+export async function findStyle(userId: number, name: string): Promise<PostStyle> {
+    const { data, error } = await db
+        .from("linkedin_styles")
+        .select(STYLE_FIELDS)
+        .eq("user_id", userId)
+        .eq("name", name.trim())
+        .maybeSingle();
+
+    if (error) throw new Error(`Loading style failed: ${error.message}`);
+    if (!data) throw new Error(`Style "${name}" not found — see list_linkedin_styles.`);
+    return data as PostStyle;
+}
+
+/** @throws  When the user has no template of that name */
+export async function findTemplate(userId: number, name: string): Promise<PostTemplate> {
+    const { data, error } = await db
+        .from("templates")
+        .select(TEMPLATE_FIELDS)
+        .eq("user_id", userId)
+        .eq("name", name.trim())
+        .maybeSingle();
+
+    if (error) throw new Error(`Loading template failed: ${error.message}`);
+    if (!data) throw new Error(`Template "${name}" not found — see list_templates.`);
+    return data as PostTemplate;
+}
+
+/** The "default" template, else the newest one. */
+async function getDefaultTemplate(userId: number): Promise<PostTemplate | null> {
+    const { data: template } = await db
+        .from("templates")
+        .select(TEMPLATE_FIELDS)
+        .eq("user_id", userId)
+        .eq("name", "default")
+        .maybeSingle();
+    if (template) return template as PostTemplate;
+
+    const { data: newest } = await db
+        .from("templates")
+        .select(TEMPLATE_FIELDS)
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+    return (newest as PostTemplate | null) ?? null;
+}
+
+// Names to IDs for the fields being changed
+async function resolveNames(userId: number, names: SettingNames): Promise<Partial<SettingIds>> {
+    const ids: Partial<SettingIds> = {};
+    if (names.style !== undefined) ids.style_id = names.style ? (await findStyle(userId, names.style)).id : null;
+    if (names.template !== undefined) {
+        ids.template_id = names.template ? (await findTemplate(userId, names.template)).id : null;
+    }
+    if (names.variantStyle !== undefined) {
+        ids.variant_style_id = names.variantStyle ? (await findStyle(userId, names.variantStyle)).id : null;
+    }
+    return ids;
+}
+
+// ─── Assignments ─────────────────────────────────────────────────────
+export interface StyleAssignment {
+    scope: AssignmentScope | "topic";
+    /** Weekday name, pillar, or slot ID for topics. */
+    key: string;
+    style: string | null;
+    template: string | null;
+    variant_style: string | null;
+}
+
+/** Weekdays are stored by name ("monday"), pillars case-insensitively. */
+function assignmentKey(scope: AssignmentScope, value: string): string {
+    const key = value.trim().toLowerCase();
+    if (scope === "weekday") {
+        const day = key.length >= 3 ? DAY_NAMES.find((d) => d.toLowerCase().startsWith(key)) : undefined;
+        if (!day) throw new Error(`Unknown weekday "${value}".`);
+        return day.toLowerCase();
+    }
+    if (!key) throw new Error("The pillar needs a name.");
+    return key;
+}
+
+/**
+ * Assign a style, template and/or variant style to a weekday or pillar.
+ * Fields left undefined keep their current assignment.
+ */
+export async function setAssignment(
+    userId: number,
+    scope: AssignmentScope,
+    value: string,
+    names: SettingNames
+): Promise<StyleAssignment> {
+    const key = assignmentKey(scope, value);
+    const ids = await resolveNames(userId, names);
+
+    const { data: existing } = await db
+        .from("content_assignments")
+        .select("style_id, template_id, variant_style_id")
+        .eq("user_id", userId)
+        .eq("scope", scope)
+        .eq("scope_key", key)
+        .maybeSingle();
+
+    const { error } = await db.from("content_assignments").upsert(
+        {
+            user_id: userId,
+            scope,
+            scope_key: key,
+            style_id: null,
+            template_id: null,
+            variant_style_id: null,
+            ...(existing ?? {}),
+            ...ids,
+            updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id,scope,scope_key" }
+    );
+    if (error) throw new Error(`Saving assignment failed: ${error.message}`);
+
+    const saved = (await listAssignments(userId)).find((a) => a.scope === scope && a.key === key);
+    return saved!;
+}
+
+/** @returns  Whether there was an assignment to remove */
+export async function removeAssignment(userId: number, scope: AssignmentScope, value: string): Promise<boolean> {
+    const { count, error } = await db
+        .from("content_assignments")
+        .delete({ count: "exact" })
+        .eq("user_id", userId)
+        .eq("scope", scope)
+        .eq("scope_key", assignmentKey(scope, value));
+
+    if (error) throw new Error(`Removing assignment failed: ${error.message}`);
+    return (count ?? 0) > 0;
+}
+
+async function nameLookup(userId: number): Promise<{ styles: Map<number, string>; templates: Map<number, string> }> {
+    const [{ data: styles }, { data: templates }] = await Promise.all([
+        db.from("linkedin_styles").select("id, name").eq("user_id", userId),
+        db.from("templates").select("id, name").eq("user_id", userId),
+    ]);
+    return {
+        styles: new Map((styles ?? []).map((s) => [s.id as number, s.name as string])),
+        templates: new Map((templates ?? []).map((t) => [t.id as number, t.name as string])),
+    };
+}
+
+/** Weekday and pillar assignments, plus topics that have their own. */
+export async function listAssignments(userId: number): Promise<StyleAssignment[]> {
+    const [{ data: rules, error }, { data: topics }, names] = await Promise.all([
+        db
+            .from("content_assignments")
+            .select("scope, scope_key, style_id, template_id, variant_style_id")
+            .eq("user_id", userId)
+            .order("scope_key"),
+        db
+            .from("topics")
+            .select("id, style_id, template_id, variant_style_id")
+            .eq("user_id", userId)
+            .neq("status", "posted")
+            .order("scheduled_at"),
+        nameLookup(userId),
+    ]);
+    if (error) throw new Error(`Loading assignments failed: ${error.message}`);
+
+    const describe = (scope: StyleAssignment["scope"], key: string, ids: SettingIds): StyleAssignment => ({
+        scope,
+        key,
+        style: ids.style_id !== null ? (names.styles.get(ids.style_id) ?? null) : null,
+        template: ids.template_id !== null ? (names.templates.get(ids.template_id) ?? null) : null,
+        variant_style: ids.variant_style_id !== null ? (names.styles.get(ids.variant_style_id) ?? null) : null,
+    });
+
+    const order: AssignmentScope[] = ["weekday", "pillar"];
+    const weekdayOrder = (key: string) => DAY_NAMES.findIndex((d) => d.toLowerCase() === key);
+    return [
+        ...(rules ?? [])
+            .map((r) => describe(r.scope as AssignmentScope, r.scope_key as string, r as unknown as SettingIds))
+            .sort((a, b) =>
+                a.scope !== b.scope
+                    ? order.indexOf(a.scope as AssignmentScope) - order.indexOf(b.scope as AssignmentScope)
+                    : a.scope === "weekday"
+                      ? weekdayOrder(a.key) - weekdayOrder(b.key)
+                      : a.key.localeCompare(b.key)
+            ),
+        ...(topics ?? [])
+            .filter((t) => t.style_id !== null || t.template_id !== null || t.variant_style_id !== null)
+            .map((t) => describe("topic", String(t.id), t as unknown as SettingIds)),
+    ];
+}
+
+/** Set a slot's own style, template and/or variant style. */
+export async function assignToSlot(userId: number, slotId: number, names: SettingNames): Promise<void> {
+    const ids = await resolveNames(userId, names);
+    const { data, error } = await db
+        .from("topics")
+        .update({ ...ids, updated_at: new Date().toISOString() })
+        .eq("id", slotId)
+        .eq("user_id", userId)
+        .neq("status", "posted")
+        .select("id");
+
+    if (error) throw new Error(`Updating slot failed: ${error.message}`);
+    if (!data || data.length === 0) throw new Error(`Slot #${slotId} not found or already posted.`);
+}
+
+// ─── Resolution ──────────────────────────────────────────────────────
+async function loadById<T>(table: string, fields: string, userId: number, id: number): Promise<T | null> {
+    const { data } = await db.from(table).select(fields).eq("id", id).eq("user_id", userId).maybeSingle();
+    return (data as T | null) ?? null;
+}
+
+/** The style, template and variant style a slot's post is written with. */
+export async function resolvePostSettings(slot: CalendarSlot): Promise<PostSettings> {
+    const userId = slot.user_id;
+    const scopes: { source: SettingSource; scope: AssignmentScope; key: string }[] = [];
+    if (slot.theme?.trim()) scopes.push({ source: "pillar", scope: "pillar", key: slot.theme.trim().toLowerCase() });
+    scopes.push({ source: "weekday", scope: "weekday", key: DAY_NAMES[slot.day_index]!.toLowerCase() });
+
+    const { data: rules } = await db
+        .from("content_assignments")
+        .select("scope, scope_key, style_id, template_id, variant_style_id")
+        .eq("user_id", userId)
+        .in("scope_key", scopes.map((s) => s.key));
+
+    // Most specific first: the topic, its pillar, its weekday
+    const layers: { source: SettingSource; ids: Partial<SettingIds> }[] = [
+        { source: "topic", ids: slot },
+        ...scopes.map(({ source, scope, key }) => ({
+            source,
+            ids: ((rules ?? []).find((r) => r.scope === scope && r.scope_key === key) ?? {}) as Partial<SettingIds>,
+        })),
+    ];
+
+    const pick = async <T>(
+        field: keyof SettingIds,
+        table: string,
+        fields: string
+    ): Promise<{ value: T; source: SettingSource } | null> => {
+        for (const layer of layers) {
+            const id = layer.ids[field];
+            if (id === null || id === undefined) continue;
+            // A deleted style or template falls through to the next layer
+            const value = await loadById<T>(table, fields, userId, id);
+            if (value) return { value, source: layer.source };
+        }
+        return null;
+    };
+
+    const style = await pick<PostStyle>("style_id", "linkedin_styles", STYLE_FIELDS);
+    const template = await pick<PostTemplate>("template_id", "templates", TEMPLATE_FIELDS);
+    const variant = await pick<PostStyle>("variant_style_id", "linkedin_styles", STYLE_FIELDS);
+
+    const resolvedStyle = style?.value ?? (await getActiveStyle(userId));
+    // A/B needs two different styles
+    const variantStyle = variant && variant.value.id !== resolvedStyle?.id ? variant : null;
+
+    return {
+        style: resolvedStyle,
+        template: template?.value ?? (await getDefaultTemplate(userId)),
+        variantStyle: variantStyle?.value ?? null,
+        sources: {
+            style: style?.source ?? "default",
+            template: template?.source ?? "default",
+            variantStyle: variantStyle?.source ?? null,
+        },
+    };
+}
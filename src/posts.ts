@@ -0,0 +1,309 @@
+// ─── LinkedIn post review ────────────────────────────────────────────
+// A generated post is a draft until the user approves it. Each rewrite
+// (regenerate, shorter, new hook, manual edit) makes the post "revised"
+// and is stored as a numbered revision, so the post's evolution can be
+// reviewed. Lifecycle: draft → revised → approved → (publishing →)
+// published; "publishing" is held only while a publisher call runs.
+
+import { db } from "./db.js";
+import { chat, type Message } from "./llm.js";
+import { scoreForStyle } from "./style_learning.js";
+
+export type PostStatus = "draft" | "revised" | "approved" | "publishing" | "published";
+export type PostVariant = "A" | "B";
+export type RevisionAction = "generated" | "regenerate" | "shorter" | "hook" | "manual";
+
+export interface Post {
+    id: number;
+    user_id: number;
+    topic_id: number | null;
+    template_id: number | null;
+    /** The style guide the post was written in. */
+    style_id: number | null;
+    /** 0–100 match with the style's fingerprint, for learned styles. */
+    style_score: number | null;
+    /** "A" or "B" while the post is one of two A/B drafts awaiting a pick. */
+    variant: PostVariant | null;
+    content: string;
+    prompt: string | null;
+    status: PostStatus;
+    delivered: boolean;
+    approved_at: string | null;
+    published_at: string | null;
+    /** When an approved post is to be published automatically. */
+    publish_at: string | null;
+    publisher: string | null;
+    /** The post's ID on LinkedIn once published (e.g. "urn:li:share:…"). */
+    external_urn: string | null;
+    external_url: string | null;
+    /** Why the last publish attempt failed. */
+    publish_error: string | null;
+    created_at: string;
+    updated_at: string;
+}
+
+export interface PostRevision {
+    id: number;
+    post_id: number;
+    revision: number;
+    action: RevisionAction;
+    content: string;
+    created_at: string;
+}
+
+// Instructions for the model-made revisions; "regenerate" reruns the original prompt
+const REWRITE_INSTRUCTIONS: Record<"shorter" | "hook", string> = {
+    shorter:
+        "Rewrite this LinkedIn post to about half its length. Keep the voice, the main point, the call-to-action and the hashtags.",
+    hook:
+        "Rewrite only the opening hook (the first one or two lines) of this LinkedIn post with a different, stronger hook. Keep everything after it unchanged.",
+};
+
+// ─── Reading ─────────────────────────────────────────────────────────
+export async function getPost(userId: number, postId: number): Promise<Post> {
+    const { data, error } = await db
+        .from("posts")
+        .select("*")
+        .eq("id", postId)
+        .eq("user_id", userId)
+        .maybeSingle();
+
+    if (error) throw new Error(`Loading post failed: ${error.message}`);
+    if (!data) throw new Error(`Post #${postId} not found.`);
+    return data as Post;
+}
+
+/** A post's versions, oldest first. */
+export async function getPostRevisions(userId: number, postId: number): Promise<PostRevision[]> {
+    const { data, error } = await db
+        .from("post_revisions")
+        .select("id, post_id, revision, action, content, created_at")
+        .eq("user_id", userId)
+        .eq("post_id", postId)
+        .order("revision");
+
+    if (error) throw new Error(`Loading post revisions failed: ${error.message}`);
+    return (data ?? []) as PostRevision[];
+}
+
+// ─── Writing ─────────────────────────────────────────────────────────
+async function addRevision(
+    userId: number,
+    postId: number,
+    action: RevisionAction,
+    content: string
+): Promise<number> {
+    const { data: latest } = await db
+        .from("post_revisions")
+        .select("revision")
+        .eq("post_id", postId)
+        .order("revision", { ascending: false })
+        .limit(1)
+        .maybeSingle();
+    const revision = ((latest?.revision as number | undefined) ?? 0) + 1;
+
+    const { error } = await db
+        .from("post_revisions")
+        .insert({ post_id: postId, user_id: userId, revision, action, content });
+    if (error) throw new Error(`Saving post revision failed: ${error.message}`);
+    return revision;
+}
+
+/** Save a freshly generated post as a draft (revision 1). */
+export async function createDraftPost(
+    userId: number,
+    post: {
+        topicId: number | null;
+        templateId: number | null;
+        styleId?: number | null;
+        variant?: PostVariant | null;
+        styleScore?: number | null;
+        content: string;
+        prompt: string;
+    }
+): Promise<Post> {
+    const { data, error } = await db
+        .from("posts")
+        .insert({
+            user_id: userId,
+            topic_id: post.topicId,
+            template_id: post.templateId,
+            style_id: post.styleId ?? null,
+            variant: post.variant ?? null,
+            style_score: post.styleScore ?? null,
+            content: post.content,
+            prompt: post.prompt,
+            status: "draft",
+        })
+        .select()
+        .single();
+
+    if (error) throw new Error(`Saving post failed: ${error.message}`);
+    await addRevision(userId, data.id as number, "generated", post.content);
+    return data as Post;
+}
+
+function assertEditable(post: Post): void {
+    if (post.status === "published") {
+        throw new Error(`Post #${post.id} is already published.`);
+    }
+    if (post.status === "publishing") {
+        throw new Error(`Post #${post.id} is being published right now.`);
+    }
+}
+
+async function saveRevision(post: Post, action: RevisionAction, content: string): Promise<Post> {
+    await addRevision(post.user_id, post.id, action, content);
+    const fit = await scoreForStyle(post.style_id, content);
+
+    // A changed post needs approving again, so any scheduled publish is off
+    const { data, error } = await db
+        .from("posts")
+        .update({
+            content,
+            style_score: fit?.score ?? null,
+            status: "revised",
+            approved_at: null,
+            publish_at: null,
+            updated_at: new Date().toISOString(),
+        })
+        .eq("id", post.id)
+        .select()
+        .single();
+
+    if (error) throw new Error(`Updating post failed: ${error.message}`);
+    return data as Post;
+}
+
+/**
+ * Let the model rewrite a post: regenerate it from the original prompt,
+ * shorten it, or give it a new hook.
+ *
+ * @throws  When the post is published or the model returns nothing
+ */
+export async function revisePost(
+    userId: number,
+    postId: number,
+    action: "regenerate" | "shorter" | "hook"
+): Promise<Post> {
+    const post = await getPost(userId, postId);
+    assertEditable(post);
+
+    const messages: Message[] =
+        action === "regenerate"
+            ? [
+                  {
+                      role: "user",
+                      content: post.prompt
+                          ? `${post.prompt}\n\nTake a different angle than this earlier version:\n\n${post.content}`
+                          : `Rewrite this LinkedIn post from scratch, taking a different angle on the same topic:\n\n${post.content}\n\nReturn ONLY the final post text, ready to copy-paste to LinkedIn. No meta-commentary.`,
+                  },
+              ]
+            : [
+                  {
+                      role: "user",
+                      content: `${REWRITE_INSTRUCTIONS[action]}\n\n---\n${post.content}\n---\n\nReturn ONLY the rewritten post text. No meta-commentary.`,
+                  },
+              ];
+
+    const response = await chat(messages, [], { userId, task: "linkedin" });
+    const content = response.content
+        .filter((b) => b.type === "text")
+        .map((b) => ("text" in b ? b.text : ""))
+        .join("\n")
+        .trim();
+
+    if (!content) throw new Error("The model returned an empty post.");
+    return saveRevision(post, action, content);
+}
+
+/** Replace a post's text with the user's own edit. */
+export async function editPost(userId: number, postId: number, content: string): Promise<Post> {
+    const post = await getPost(userId, postId);
+    assertEditable(post);
+    return saveRevision(post, "manual", content.trim());
+}
+
+async function setStatus(post: Post, status: PostStatus, extra: Record<string, unknown>): Promise<Post> {
+    const { data, error } = await db
+        .from("posts")
+        .update({ status, ...extra, updated_at: new Date().toISOString() })
+        .eq("id", post.id)
+        .select()
+        .single();
+
+    if (error) throw new Error(`Updating post failed: ${error.message}`);
+    return data as Post;
+}
+
+/** Approve a post's current version; its topic counts as posted. An A/B variant is picked first. */
+export async function approvePost(userId: number, postId: number): Promise<Post> {
+    let post = await getPost(userId, postId);
+    if (post.variant) post = await pickVariant(userId, postId);
+    if (post.status === "approved" || post.status === "publishing" || post.status === "published") return post;
+
+    const approved = await setStatus(post, "approved", { approved_at: new Date().toISOString() });
+    if (post.topic_id !== null) {
+        await db
+            .from("topics")
+            .update({ status: "posted", updated_at: new Date().toISOString() })
+            .eq("id", post.topic_id);
+    }
+    return approved;
+}
+
+/**
+ * Keep one of a topic's A/B drafts; the other variant and its revisions
+ * are deleted. The kept post continues as a normal draft.
+ *
+ * @throws  When the post is not an A/B variant awaiting a pick
+ */
+export async function pickVariant(userId: number, postId: number): Promise<Post> {
+    const post = await getPost(userId, postId);
+    if (!post.variant || post.topic_id === null) {
+        throw new Error(`Post #${post.id} is not an A/B variant.`);
+    }
+
+    const { data: siblings } = await db
+        .from("posts")
+        .select("id, variant")
+        .eq("user_id", userId)
+        .eq("topic_id", post.topic_id)
+        .neq("id", post.id);
+    const others = (siblings ?? []).filter((p) => p.variant !== null).map((p) => p.id as number);
+
+    if (others.length > 0) {
+        await db.from("post_revisions").delete().in("post_id", others);
+        const { error } = await db.from("posts").delete().in("id", others);
+        if (error) throw new Error(`Discarding the other variant failed: ${error.message}`);
+    }
+
+    const { data, error } = await db
+        .from("posts")
+        .update({ variant: null, updated_at: new Date().toISOString() })
+        .eq("id", post.id)
+        .select()
+        .single();
+
+    if (error) throw new Error(`Updating post failed: ${error.message}`);
+    return data as Post;
+}
+
+/**
+ * Record that an approved post went live — posted by hand; publishPost
+ * (publishers.ts) records posts it published itself.
+ *
+ * @throws  When the post has not been approved
+ */
+export async function markPostPublished(userId: number, postId: number): Promise<Post> {
+    const post = await getPost(userId, postId);
+    if (post.status === "published") return post;
+    if (post.status !== "approved") {
+        throw new Error(`Post #${post.id} must be approved before it is published.`);
+    }
+    return setStatus(post, "published", {
+        published_at: new Date().toISOString(),
+        publisher: "manual",
+        publish_at: null,
+    });
+}
@@ -0,0 +1,266 @@
+// ─── LLM providers ───────────────────────────────────────────────────
+// Routes each model call to the model configured for its task, retries
+// rate limits and overloads with backoff, and falls back to a secondary
+// model (e.g. Groq) when the primary one stays unavailable.
+// Requests and responses use Anthropic's shapes throughout; the Groq
+// provider translates to and from its OpenAI-compatible chat API.
+
+import Anthropic from "@anthropic-ai/sdk";
+import Groq from "groq-sdk";
+import { config, type LlmTask, type ModelRoute, type ProviderName } from "./config.js";
+
+export type LlmRequest = Anthropic.MessageCreateParamsNonStreaming;
+
+export interface LlmProvider {
+    readonly name: ProviderName;
+    /** Run a request; with onText the response is streamed as text snapshots. */
+    create(request: LlmRequest, onText?: (snapshot: string) => void): Promise<Anthropic.Message>;
+}
+
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 30_000;
+// Rate limited (429), overloaded (529) and transient server errors
+const RETRYABLE_STATUS = new Set([429, 500, 502, 503, 504, 529]);
+
+// ─── Anthropic ───────────────────────────────────────────────────────
+// Retries are handled below (with fallback), not by the SDK
+export const anthropic = new Anthropic({ apiKey: config.anthropicKey, maxRetries: 0 });
+
+const anthropicProvider: LlmProvider = {
+    name: "anthropic",
+    async create(request, onText) {
+        if (!onText) return anthropic.messages.create(request);
+
+        const stream = anthropic.messages.stream(request);
+        stream.on("text", (_delta, snapshot) => onText(snapshot));
+        return stream.finalMessage();
+    },
+};
+
+// ─── Groq (OpenAI-compatible) ────────────────────────────────────────
+let groqClient: Groq | null = null;
+
+function getGroq(): Groq {
+    if (!groqClient) {
+        if (!config.groqApiKey) {
+            throw new Error("GROQ_API_KEY is not configured.");
+        }
+        groqClient = new Groq({ apiKey: config.groqApiKey, maxRetries: 0 });
+    }
+    return groqClient;
+}
+
+const groqProvider: LlmProvider = {
+    name: "groq",
+    async create(request, onText) {
+        const completion = await getGroq().chat.completions.create({
+            model: request.model,
+            max_tokens: request.max_tokens,
+            messages: toGroqMessages(request),
+            // Only custom tools translate; Anthropic's built-in tools have no equivalent
+            tools: request.tools?.flatMap((t) => ("input_schema" in t ? [toGroqTool(t)] : [])),
+        });
+
+        const message = fromGroqCompletion(completion);
+        // Not streamed — report the whole text at once
+        const text = message.content
+            .flatMap((b) => (b.type === "text" ? [b.text] : []))
+            .join("\n");
+        if (onText && text) onText(text);
+        return message;
+    },
+};
+
+function blocksToText(content: string | Array<{ type: string; text?: string }>): string {
+    if (typeof content === "string") return content;
+    return content.map((b) => (b.type === "text" ? b.text : `[${b.type}]`)).join("\n");
+}
+
+function toGroqMessages(request: LlmRequest): Groq.Chat.ChatCompletionMessageParam[] {
+    const messages: Groq.Chat.ChatCompletionMessageParam[] = [];
+
+    if (request.system) {
+        messages.push({ role: "system", content: blocksToText(request.system) });
+    }
+
+    for (const msg of request.messages) {
+        if (typeof msg.content === "string") {
+            messages.push({ role: msg.role, content: msg.content });
+            continue;
+        }
+
+        if (msg.role === "assistant") {
+            const toolCalls = msg.content.flatMap((b) =>
+                b.type === "tool_use"
+                    ? [{
+                        id: b.id,
+                        type: "function" as const,
+                        function: { name: b.name, arguments: JSON.stringify(b.input) },
+                    }]
+                    : []
+            );
+            messages.push({
+                role: "assistant",
+                content: blocksToText(msg.content.filter((b) => b.type === "text")) || null,
+                ...(toolCalls.length > 0 ? { tool_calls: toolCalls } : {}),
+            });
+            continue;
+        }
+
+        // Tool results become "tool" messages, which must directly follow the call
+        const rest: string[] = [];
+        for (const block of msg.content) {
+            if (block.type === "tool_result") {
+                messages.push({
+                    role: "tool",
+                    tool_call_id: block.tool_use_id,
+                    content: blocksToText(block.content ?? ""),
+                });
+            } else if (block.type === "text") {
+                rest.push(block.text);
+            } else if (block.type === "image") {
+                rest.push("[Image omitted — the fallback model cannot see images]");
+            }
+        }
+        if (rest.length > 0) {
+            messages.push({ role: "user", content: rest.join("\n") });
+        }
+    }
+
+    return messages;
+}
+
+function toGroqTool(tool: Anthropic.Tool): Groq.Chat.ChatCompletionTool {
+    return {
+        type: "function",
+        function: {
+            name: tool.name,
+            description: tool.description,
+            parameters: tool.input_schema as Record<string, unknown>,
+        },
+    };
+}
+
+function fromGroqCompletion(completion: Groq.Chat.ChatCompletion): Anthropic.Message {
+    const choice = completion.choices[0];
+    const content: Anthropic.ContentBlock[] = [];
+
+    if (choice?.message.content) {
+        content.push({ type: "text", text: choice.message.content, citations: null });
+    }
+    for (const call of choice?.message.tool_calls ?? []) {
+        let input: unknown = {};
+        try {
+            input = JSON.parse(call.function.arguments || "{}");
+        } catch {
+            // Leave input empty — the tool reports the missing arguments
+        }
+        content.push({ type: "tool_use", id: call.id, name: call.function.name, input });
+    }
+
+    const stopReason: Anthropic.Message["stop_reason"] =
+        choice?.finish_reason === "tool_calls"
+            ? "tool_use"
+            : choice?.finish_reason === "length"
+                ? "max_tokens"
+                : "end_turn";
+
+    return {
+        id: completion.id,
+        type: "message",
+        role: "assistant",
+        model: completion.model,
+        content,
+        stop_reason: stopReason,
+        stop_sequence: null,
+        usage: {
+            input_tokens: completion.usage?.prompt_tokens ?? 0,
+            output_tokens: completion.usage?.completion_tokens ?? 0,
+            cache_creation_input_tokens: null,
+            cache_read_input_tokens: null,
+        },
+    };
+}
+
+// ─── Retry & fallback ────────────────────────────────────────────────
+function providerFor(route: ModelRoute): LlmProvider {
+    return route.provider === "groq" ? groqProvider : anthropicProvider;
+}
+
+function routeLabel(route: ModelRoute): string {
+    return `${route.provider}:${route.model}`;
+}
+
+function isRetryable(err: unknown): boolean {
+    if (err instanceof Anthropic.APIConnectionError || err instanceof Groq.APIConnectionError) {
+        return true;
+    }
+    const status = (err as { status?: unknown })?.status;
+    return typeof status === "number" && RETRYABLE_STATUS.has(status);
+}
+
+function retryDelay(err: unknown, attempt: number): number {
+    // Honour the server's retry-after (seconds) when it sends one
+    const headers = (err as { headers?: Record<string, string | null | undefined> })?.headers;
+    const retryAfter = Number(headers?.["retry-after"]);
+    if (retryAfter > 0) return Math.min(retryAfter * 1000, MAX_RETRY_DELAY_MS);
+
+    const backoff = BASE_RETRY_DELAY_MS * 2 ** (attempt - 1);
+    return Math.min(backoff + Math.random() * BASE_RETRY_DELAY_MS, MAX_RETRY_DELAY_MS);
+}
+
+function describeError(err: unknown): string {
+    const status = (err as { status?: unknown })?.status;
+    const message = err instanceof Error ? err.message : String(err);
+    return typeof status === "number" ? `${status}: ${message}` : message;
+}
+
+async function withRetry<T>(route: ModelRoute, fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+        try {
+            return await fn();
+        } catch (err) {
+            if (attempt >= MAX_ATTEMPTS || !isRetryable(err)) throw err;
+
+            const delay = retryDelay(err, attempt);
+            console.warn(
+                `⚠️ ${routeLabel(route)} failed (${describeError(err)}) — retry ${attempt}/${MAX_ATTEMPTS - 1} in ${(delay / 1000).toFixed(1)}s`
+            );
+            await new Promise((resolve) => setTimeout(resolve, delay));
+        }
+    }
+}
+
+/** The model a task is routed to. */
+export function routeFor(task: LlmTask): ModelRoute {
+    return config.models[task];
+}
+
+/**
+ * Run a model call for a task. The request is built per route, since
+ * model and output limit differ between the primary and fallback model.
+ */
+export async function complete(
+    task: LlmTask,
+    buildRequest: (route: ModelRoute) => LlmRequest,
+    onText?: (snapshot: string) => void
+): Promise<Anthropic.Message> {
+    const route = routeFor(task);
+
+    try {
+        return await withRetry(route, () => providerFor(route).create(buildRequest(route), onText));
+    } catch (err) {
+        const fallback = config.fallbackModel;
+        if (!fallback || routeLabel(fallback) === routeLabel(route) || !isRetryable(err)) {
+            throw err;
+        }
+
+        console.warn(
+            `⚠️ ${routeLabel(route)} unavailable for ${task} — falling back to ${routeLabel(fallback)}`
+        );
+        return withRetry(fallback, () =>
+            providerFor(fallback).create(buildRequest(fallback), onText)
+        );
+    }
+}
@@ -0,0 +1,224 @@
+// ─── Post publishing ─────────────────────────────────────────────────
+// Approved posts are published through the configured publisher
+// (PUBLISHER):
+//   linkedin — the LinkedIn Posts API, with the user's connected account
+//   dry-run  — nothing leaves the machine; posts are appended to
+//              <LOCAL_DATA_DIR>/published_posts.jsonl for inspection
+//   none     — no publishing; posts are copy-pasted from Telegram
+// Publishing can also be scheduled: the scheduler publishes approved
+// posts whose publish_at has passed.
+
+import { appendFile, mkdir } from "fs/promises";
+import path from "path";
+import { config } from "./config.js";
+import { db } from "./db.js";
+import { createLinkedInPost, getLinkedInToken } from "./linkedin.js";
+import { getPost, type Post } from "./posts.js";
+
+export interface PublishResult {
+    /** The post's ID on the platform, e.g. "urn:li:share:7123…". */
+    urn: string;
+    url: string | null;
+}
+
+export interface PostPublisher {
+    /** Stored on the post, e.g. "linkedin". */
+    readonly id: string;
+    publish(userId: number, post: Post): Promise<PublishResult>;
+}
+
+// ─── LinkedIn ────────────────────────────────────────────────────────
+function createLinkedInPublisher(): PostPublisher {
+    return {
+        id: "linkedin",
+        async publish(userId, post) {
+            const token = await getLinkedInToken(userId);
+            return createLinkedInPost(token, post.content);
+        },
+    };
+}
+
+// ─── Dry run ─────────────────────────────────────────────────────────
+function createDryRunPublisher(): PostPublisher {
+    const file = path.join(config.localDataDir, "published_posts.jsonl");
+    return {
+        id: "dry-run",
+        async publish(userId, post) {
+            const urn = `urn:li:share:dry-run-${post.id}-${Date.now()}`;
+            await mkdir(config.localDataDir, { recursive: true });
+            await appendFile(
+                file,
+                JSON.stringify({ urn, user_id: userId, post_id: post.id, content: post.content, published_at: new Date().toISOString() }) + "\n"
+            );
+            console.log(`📤 Dry run: post #${post.id} "published" as ${urn} (${file})`);
+            return { urn, url: null };
+        },
+    };
+}
+
+function createPublisher(): PostPublisher | null {
+    switch (config.publisher) {
+        case "linkedin":
+            return createLinkedInPublisher();
+        case "dry-run":
+            return createDryRunPublisher();
+        case "none":
+            return null;
+    }
+}
+
+const publisher = createPublisher();
+
+export function publishingAvailable(): boolean {
+    return publisher !== null;
+}
+
+export function publisherId(): string | null {
+    return publisher?.id ?? null;
+}
+
+// ─── Publishing ──────────────────────────────────────────────────────
+function requirePublisher(): PostPublisher {
+    if (!publisher) {
+        throw new Error("Publishing is off (PUBLISHER=none) — copy the post to LinkedIn and mark it published.");
+    }
+    return publisher;
+}
+
+// A post stuck in "publishing" this long (its instance died mid-publish)
+// may be claimed again
+const STALE_PUBLISHING_MS = 10 * 60 * 1000;
+
+// Move the post to "publishing" unless another caller (button, tool or
+// the scheduler) already did — the status check and update are one
+// statement, so only one of them gets the row back
+async function claimForPublishing(post: Post): Promise<Post | null> {
+    const claim = db
+        .from("posts")
+        .update({ status: "publishing", updated_at: new Date().toISOString() })
+        .eq("id", post.id);
+    const { data, error } = await (post.status === "publishing"
+        ? claim.eq("status", "publishing").eq("updated_at", post.updated_at)
+        : claim.eq("status", "approved")
+    ).select();
+
+    if (error) throw new Error(`Claiming post for publishing failed: ${error.message}`);
+    return ((data ?? [])[0] as Post | undefined) ?? null;
+}
+
+/**
+ * Publish an approved post now and record its external URN. The post is
+ * claimed first, so concurrent calls publish it once. A failure is
+ * recorded in publish_error and the post goes back to approved.
+ *
+ * @throws  When the post is not approved, is being published, or the publisher fails
+ */
+export async function publishPost(userId: number, postId: number): Promise<Post> {
+    const active = requirePublisher();
+    const post = await getPost(userId, postId);
+    if (post.status === "published") return post;
+
+    const stale = post.status === "publishing" && Date.now() - new Date(post.updated_at).getTime() > STALE_PUBLISHING_MS;
+    if (post.status !== "approved" && !stale) {
+        throw new Error(
+            post.status === "publishing"
+                ? `Post #${post.id} is already being published.`
+                : `Post #${post.id} must be approved before it is published.`
+        );
+    }
+
+    const claimed = await claimForPublishing(post);
+    if (!claimed) {
+        const current = await getPost(userId, postId);
+        if (current.status === "published") return current;
+        throw new Error(`Post #${post.id} is already being published.`);
+    }
+
+    let result: PublishResult;
+    try {
+        result = await active.publish(userId, claimed);
+    } catch (err) {
+        const message = err instanceof Error ? err.message : String(err);
+        await db
+            .from("posts")
+            .update({ status: "approved", publish_at: null, publish_error: message, updated_at: new Date().toISOString() })
+            .eq("id", post.id);
+        throw err;
+    }
+
+    const { data, error } = await db
+        .from("posts")
+        .update({
+            status: "published",
+            published_at: new Date().toISOString(),
+            publisher: active.id,
+            external_urn: result.urn,
+            external_url: result.url,
+            publish_at: null,
+            publish_error: null,
+            updated_at: new Date().toISOString(),
+        })
+        .eq("id", post.id)
+        .select()
+        .single();
+
+    // Already live — losing the URN must not make it look unpublished
+    if (error) {
+        console.error(`❌ Post #${post.id} was published as ${result.urn}, but saving that failed: ${error.message}`);
+        return { ...post, status: "published", external_urn: result.urn, external_url: result.url };
+    }
+    console.log(`📤 Post #${post.id} published via ${active.id}: ${result.urn}`);
+    return data as Post;
+}
+
+/**
+ * Publish an approved post at a later time.
+ *
+ * @throws  When publishing is off, the post is not approved or the time has passed
+ */
+export async function schedulePostPublish(userId: number, postId: number, at: Date): Promise<Post> {
+    requirePublisher();
+    const post = await getPost(userId, postId);
+    if (post.status !== "approved") {
+        throw new Error(`Post #${post.id} must be approved before it is scheduled.`);
+    }
+    if (at.getTime() <= Date.now()) {
+        throw new Error("That time has already passed.");
+    }
+
+    const { data, error } = await db
+        .from("posts")
+        .update({ publish_at: at.toISOString(), publish_error: null, updated_at: new Date().toISOString() })
+        .eq("id", post.id)
+        .select()
+        .single();
+
+    if (error) throw new Error(`Scheduling post failed: ${error.message}`);
+    return data as Post;
+}
+
+export async function cancelScheduledPublish(userId: number, postId: number): Promise<Post> {
+    const post = await getPost(userId, postId);
+    const { data, error } = await db
+        .from("posts")
+        .update({ publish_at: null, updated_at: new Date().toISOString() })
+        .eq("id", post.id)
+        .select()
+        .single();
+
+    if (error) throw new Error(`Cancelling scheduled post failed: ${error.message}`);
+    return data as Post;
+}
+
+/** Approved posts whose scheduled time has come, oldest first. */
+export async function findDuePosts(): Promise<Post[]> {
+    const { data, error } = await db
+        .from("posts")
+        .select("*")
+        .eq("status", "approved")
+        .lte("publish_at", new Date().toISOString())
+        .order("publish_at");
+
+    if (error) throw new Error(`Loading scheduled posts failed: ${error.message}`);
+    return (data ?? []) as Post[];
+}
@@ -1,9 +1,22 @@
 import cron from "node-cron";
-import { supabase } from "./supabase.js";
+import { db } from "./db.js";
 import { chat, type Message } from "./llm.js";
-import { bot } from "./bot.js";
+import { bot, sendPostForReview } from "./bot.js";
 import { config } from "./config.js";
 import { searchWeb, isSearchAvailable } from "./tools/web_search.js";
+import { createDraftPost, type Post, type PostVariant } from "./posts.js";
+import { DAY_NAMES, findDueSlots, findMissedSlots, slotDateTime, type CalendarSlot } from "./content_calendar.js";
+import { resolvePostSettings, type PostStyle } from "./post_styles.js";
+import { scoreDraft } from "./style_learning.js";
+import { recordMissedRun, runOnce, scheduleLedgerJob } from "./job_ledger.js";
+import { findDuePosts, publishingAvailable, publishPost, publisherId } from "./publishers.js";
+import {
+    buildPerformanceReport,
+    formatPerformanceReport,
+    metricsSyncAvailable,
+    syncLinkedInMetrics,
+    type ReportPeriod,
+} from "./post_metrics.js";
 
 // ─── Fetch trending context for a topic ─────────────────────────────
 async function fetchTrendingContext(topic: string): Promise<string> {
@@ -30,75 +43,157 @@ async function fetchTrendingContext(topic: string): Promise<string> {
     }
 }
 
-const DAY_NAMES = [
-    "Monday",
-    "Tuesday",
-    "Wednesday",
-    "Thursday",
-    "Friday",
-    "Saturday",
-    "Sunday",
-];
-
-// ─── Get today's day index (0=Monday) ────────────────────────────────
-function getTodayIndex(): number {
-    const jsDay = new Date().getDay(); // 0=Sun
-    return jsDay === 0 ? 6 : jsDay - 1; // Convert to 0=Mon
+// ─── Generate and deliver the posts of due calendar slots ────────────
+// Runs every minute. Each slot is claimed in the job ledger, so a slot
+// gets one post even with several instances; a failed generation or
+// Telegram send is retried on the next ticks. Slots due while the bot was
+// down are caught up within CATCH_UP_GRACE_MINUTES.
+let deliveringSlots = false;
+
+const slotJob = (slot: CalendarSlot) => `linkedin-slot:${slot.id}`;
+
+async function deliverDueSlots(): Promise<void> {
+    if (deliveringSlots) return;
+    deliveringSlots = true;
+    try {
+        const due = await findDueSlots();
+        for (const slot of due.filter((s) => config.allowedUserIds.includes(s.user_id))) {
+            try {
+                await runOnce(slotJob(slot), new Date(slot.scheduled_at), () => deliverSlotPost(slot));
+            } catch (err) {
+                console.error(`   ❌ Slot #${slot.id}:`, err instanceof Error ? err.message : err);
+            }
+        }
+    } catch (err) {
+        console.error("❌ Slot delivery:", err instanceof Error ? err.message : err);
+    } finally {
+        deliveringSlots = false;
+    }
 }
 
-function getCurrentWeekStart(): string {
-    const now = new Date();
-    const day = now.getDay();
-    const diff = day === 0 ? -6 : 1 - day;
-    const monday = new Date(now);
-    monday.setDate(now.getDate() + diff);
-    return monday.toISOString().split("T")[0]!;
+// Slots that were due too long ago are not generated late; their owner
+// is told once so they can be moved
+async function reportMissedSlots(): Promise<void> {
+    try {
+        const missed = await findMissedSlots();
+        for (const slot of missed.filter((s) => config.allowedUserIds.includes(s.user_id))) {
+            if (!(await recordMissedRun(slotJob(slot), new Date(slot.scheduled_at)))) continue;
+
+            const { date, time } = slotDateTime(slot);
+            console.log(`   ⏭️ Slot #${slot.id} (${date} ${time}) was missed`);
+            await bot.api
+                .sendMessage(
+                    slot.user_id,
+                    `⏭️ The post for "${slot.topic}" (slot #${slot.id}, ${date} ${time}) was missed while I was offline. Tell me a new date for it, or see /calendar.`
+                )
+                .catch(() => {});
+        }
+    } catch (err) {
+        console.error("❌ Missed slot check:", err instanceof Error ? err.message : err);
+    }
 }
 
-// ─── Generate and deliver the daily LinkedIn post ────────────────────
-async function deliverDailyPost(): Promise<void> {
-    const todayIndex = getTodayIndex();
-    const weekStart = getCurrentWeekStart();
+// ─── Generate and deliver one slot's LinkedIn post ───────────────────
+// Written in the style and template resolved for the slot (post_styles.ts);
+// with a variant style, twice — A and B — for the user to pick one.
+async function writePost(userId: number, prompt: string): Promise<string> {
+    const messages: Message[] = [{ role: "user", content: prompt }];
+    const response = await chat(messages, [], { userId, task: "linkedin" });
 
-    console.log(
-        `📅 Scheduler: checking for ${DAY_NAMES[todayIndex]} post (week ${weekStart})`
+    const textBlocks = response.content.filter(
+        (block) => block.type === "text"
     );
+    const postContent = textBlocks
+        .map((b) => ("text" in b ? b.text : ""))
+        .join("\n");
 
-    // Get today's confirmed topic
-    const { data: topic } = await supabase
-        .from("topics")
-        .select("id, topic")
-        .eq("week_start", weekStart)
-        .eq("day_index", todayIndex)
-        .eq("status", "confirmed")
-        .maybeSingle();
-
-    if (!topic) {
-        console.log("   No confirmed topic for today — skipping.");
-        return;
+    if (!postContent) {
+        throw new Error("Empty response from LLM");
+    }
+    return postContent;
+}
+
+// Drafts in a learned style are scored against its fingerprint before
+// delivery; one that scores below STYLE_SCORE_MIN is rewritten once with
+// the deviations spelled out, and the closer of the two is kept
+async function writeInStyle(
+    userId: number,
+    prompt: string,
+    style: PostStyle | null
+): Promise<{ content: string; score: number | null }> {
+    const content = await writePost(userId, prompt);
+    if (!style?.fingerprint) return { content, score: null };
+
+    const fit = scoreDraft(content, style.fingerprint);
+    if (config.styleScoreMin === 0 || fit.score >= config.styleScoreMin) return { content, score: fit.score };
+
+    console.log(`   🎯 Draft scored ${fit.score}/100 against "${style.name}" — rewriting`);
+    const retry = await writePost(
+        userId,
+        `${prompt}\n\nA first draft did not sound like the author:\n${fit.notes.map((n) => `- ${n}`).join("\n")}\n\nFirst draft:\n${content}\n\nWrite the post again, fixing these points.`
+    );
+    const retryFit = scoreDraft(retry, style.fingerprint);
+    console.log(`   🎯 Rewrite scored ${retryFit.score}/100`);
+    return retryFit.score >= fit.score ? { content: retry, score: retryFit.score } : { content, score: fit.score };
+}
+
+// Sends the slot's posts to its owner with the review buttons, marking
+// each delivered once sent. A failed send is thrown, so the ledger marks
+// the run failed and the retry sends the undelivered posts again.
+async function sendForReview(topic: CalendarSlot, posts: Post[], abLine: string): Promise<void> {
+    const userId = topic.user_id;
+    const { time } = slotDateTime(topic);
+    const header = `📝 **LinkedIn Post — ${DAY_NAMES[topic.day_index]} ${time}**\n_Topic: ${topic.topic}_${abLine}`;
+
+    await bot.api
+        .sendMessage(userId, header, { parse_mode: "Markdown" })
+        .catch(() => bot.api.sendMessage(userId, header.replace(/[*_]/g, "")));
+    for (const post of posts) {
+        await sendPostForReview(userId, post);
+        const { error } = await db.from("posts").update({ delivered: true }).eq("id", post.id);
+        if (error) console.error(`   ❌ Marking post #${post.id} delivered failed:`, error.message);
     }
+}
 
-    // Get template (prefer "default", fall back to any)
-    let { data: template } = await supabase
-        .from("templates")
-        .select("id, name, content")
-        .eq("name", "default")
-        .maybeSingle();
-
-    if (!template) {
-        const { data: fallback } = await supabase
-            .from("templates")
-            .select("id, name, content")
-            .order("created_at", { ascending: false })
-            .limit(1)
-            .maybeSingle();
-        template = fallback;
+async function deliverSlotPost(topic: CalendarSlot): Promise<void> {
+    const userId = topic.user_id;
+    const { date, time } = slotDateTime(topic);
+    const dayName = DAY_NAMES[topic.day_index]!;
+
+    console.log(`📅 Scheduler: slot #${topic.id} due (${dayName} ${date} ${time}, user ${userId})`);
+
+    // Posts already written for the slot are not generated twice; those
+    // whose review message never reached the user are sent again
+    const { data: existingPosts, error: existingError } = await db
+        .from("posts")
+        .select("*")
+        .eq("topic_id", topic.id)
+        .order("id");
+    if (existingError) throw new Error(`Loading posts of slot #${topic.id} failed: ${existingError.message}`);
+
+    if (existingPosts && existingPosts.length > 0) {
+        const undelivered = (existingPosts as Post[]).filter((p) => !p.delivered);
+        if (undelivered.length === 0) {
+            console.log(`   Post #${existingPosts[0].id} already exists for this topic — skipping.`);
+            return;
+        }
+        const abLine = undelivered.some((p) => p.variant) ? "\n🅰️🅱️ Two variants — pick one." : "";
+        await sendForReview(topic, undelivered, abLine);
+        console.log(`   ✅ Resent ${undelivered.map((p) => `#${p.id}`).join(", ")} for review — topic: "${topic.topic}"`);
+        return;
     }
 
+    const { style, template, variantStyle, sources } = await resolvePostSettings(topic);
+    console.log(
+        `   ✍️ Style: ${style?.name ?? "none"} (${sources.style}), template: ${template?.name ?? "none"} (${sources.template})` +
+            (variantStyle ? `, B variant: ${variantStyle.name} (${sources.variantStyle})` : "")
+    );
+
     // Load user profile for personalization
-    const { data: profileRows } = await supabase
+    const { data: profileRows } = await db
         .from("profile")
         .select("key, value")
+        .eq("user_id", userId)
         .order("key");
 
     let profileContext = "";
@@ -113,94 +208,167 @@ async function deliverDailyPost(): Promise<void> {
         ? `Use this template structure:\n\n${template.content}\n\nFill in the placeholders based on the topic.`
         : `Write a professional LinkedIn post. Include a hook, main body, call-to-action, and relevant hashtags.`;
 
-    // Search for trending content related to the topic
-    const trendingContext = await fetchTrendingContext(topic.topic as string);
+    const styleInstruction = (guide: PostStyle | null) =>
+        guide
+            ? `\n\nWRITING STYLE GUIDE:\n${guide.style_guide}\n\nApply this style naturally — internalize the tone, structure and patterns; don't copy the guide or mention it.`
+            : "";
 
-    const messages: Message[] = [
-        {
-            role: "user",
-            content: `Write a LinkedIn post about: "${topic.topic}"\n\nDay: ${DAY_NAMES[todayIndex]}${profileContext}${trendingContext}\n\n${templateInstruction}\n\nReturn ONLY the final post text, ready to copy-paste to LinkedIn. No meta-commentary.`,
-        },
-    ];
+    // Search for trending content related to the topic
+    const trendingContext = await fetchTrendingContext(topic.topic);
 
-    try {
-        const response = await chat(messages, []);
+    const buildPrompt = (guide: PostStyle | null) =>
+        `Write a LinkedIn post about: "${topic.topic}"\n\nDay: ${dayName}${profileContext}${trendingContext}${styleInstruction(guide)}\n\n${templateInstruction}\n\nReturn ONLY the final post text, ready to copy-paste to LinkedIn. No meta-commentary.`;
 
-        const textBlocks = response.content.filter(
-            (block) => block.type === "text"
-        );
-        const postContent = textBlocks
-            .map((b) => ("text" in b ? b.text : ""))
-            .join("\n");
+    const drafts: { style: PostStyle | null; variant: PostVariant | null }[] = variantStyle
+        ? [
+              { style, variant: "A" },
+              { style: variantStyle, variant: "B" },
+          ]
+        : [{ style, variant: null }];
 
-        if (!postContent) {
-            console.error("   ❌ Empty response from LLM");
-            return;
+    try {
+        // Both variants are written before either is saved, so a failed
+        // B does not leave a lone A behind when the slot is retried
+        const written = [];
+        for (const draft of drafts) {
+            const prompt = buildPrompt(draft.style);
+            const { content, score } = await writeInStyle(userId, prompt, draft.style);
+            written.push({ ...draft, prompt, content, score });
         }
 
-        // Save the generated post
-        await supabase.from("posts").insert({
-            topic_id: topic.id,
-            template_id: template?.id ?? null,
-            content: postContent,
-            delivered: true,
-        });
-
-        // Mark topic as posted
-        await supabase
-            .from("topics")
-            .update({ status: "posted", updated_at: new Date().toISOString() })
-            .eq("id", topic.id);
-
-        // Send to user via Telegram
-        const header = `📝 **LinkedIn Post — ${DAY_NAMES[todayIndex]}**\n_Topic: ${topic.topic}_\n\n---\n\n`;
-        const fullMessage = header + postContent;
-
-        for (const userId of config.allowedUserIds) {
-            try {
-                if (fullMessage.length <= 4096) {
-                    await bot.api.sendMessage(userId, fullMessage, {
-                        parse_mode: "Markdown",
-                    });
-                } else {
-                    await bot.api.sendMessage(userId, header, {
-                        parse_mode: "Markdown",
-                    });
-                    await bot.api.sendMessage(userId, postContent);
-                }
-            } catch (err) {
-                console.error(`   ❌ Failed to send to user ${userId}:`, err);
-            }
+        // Saved as drafts — the topic counts as posted once the user approves one
+        const posts = [];
+        for (const draft of written) {
+            posts.push(
+                await createDraftPost(userId, {
+                    topicId: topic.id,
+                    templateId: template?.id ?? null,
+                    styleId: draft.style?.id ?? null,
+                    variant: draft.variant,
+                    styleScore: draft.score,
+                    content: draft.content,
+                    prompt: draft.prompt,
+                })
+            );
         }
 
+        // Send to the topic's owner via Telegram, with the review buttons
+        const abLine = variantStyle
+            ? `\n🅰️🅱️ Two variants — A in "${style?.name ?? "no style"}", B in "${variantStyle.name}". Pick one.`
+            : "";
+        await sendForReview(topic, posts, abLine);
+
         console.log(
-            `   ✅ Post delivered (${postContent.length} chars) — topic: "${topic.topic}"`
+            `   ✅ Post${posts.length > 1 ? "s" : ""} ${posts.map((p) => `#${p.id}`).join(", ")} delivered for review — topic: "${topic.topic}"`
         );
     } catch (err) {
         const msg = err instanceof Error ? err.message : String(err);
-        console.error("   ❌ Failed to generate post:", msg);
+        console.error("   ❌ Failed to deliver post:", msg);
+        throw err;
     }
 }
 
-// ─── Start the cron scheduler ────────────────────────────────────────
-export function startScheduler(): void {
-    const deliveryTime = process.env.POST_DELIVERY_TIME || "07:00";
-    const timezone = process.env.POST_TIMEZONE || "Europe/Berlin";
+// ─── Publish approved posts whose scheduled time has come ────────────
+// Runs every minute; a slow run must not overlap the next one
+let publishingDuePosts = false;
 
-    const [hours, minutes] = deliveryTime.split(":").map(Number);
+async function publishDuePosts(): Promise<void> {
+    if (publishingDuePosts) return;
+    publishingDuePosts = true;
+    try {
+        await publishDue();
+    } finally {
+        publishingDuePosts = false;
+    }
+}
 
-    if (isNaN(hours!) || isNaN(minutes!)) {
-        console.error(
-            `❌ Invalid POST_DELIVERY_TIME: "${deliveryTime}". Use HH:MM format.`
-        );
+async function publishDue(): Promise<void> {
+    let due;
+    try {
+        due = await findDuePosts();
+    } catch (err) {
+        console.error("❌ Scheduled publishing:", err instanceof Error ? err.message : err);
         return;
     }
 
-    const cronExpression = `${minutes} ${hours} * * 1-5`;
+    // Claimed in the job ledger, so a second instance does not publish it again
+    for (const post of due) {
+        try {
+            await runOnce(`linkedin-publish:${post.id}`, new Date(post.publish_at!), async () => {
+                const published = await publishPost(post.user_id, post.id);
+                await bot.api
+                    .sendMessage(
+                        post.user_id,
+                        `🚀 Post #${post.id} is live${published.external_url ? `: ${published.external_url}` : ` (${published.external_urn})`}`
+                    )
+                    .catch(() => {});
+            });
+        } catch (err) {
+            const msg = err instanceof Error ? err.message : String(err);
+            console.error(`   ❌ Publishing post #${post.id} failed:`, msg);
+            await bot.api
+                .sendMessage(post.user_id, `❌ Scheduled post #${post.id} could not be published: ${msg}`, {
+                    reply_markup: { inline_keyboard: [[{ text: "🚀 Try again", callback_data: `post:publish_now:${post.id}` }]] },
+                })
+                .catch(() => {});
+        }
+    }
+}
 
-    cron.schedule(cronExpression, deliverDailyPost, { timezone });
+// ─── Post metrics and performance reports ────────────────────────────
+async function syncMetrics(): Promise<void> {
+    for (const userId of config.allowedUserIds) {
+        try {
+            const updated = await syncLinkedInMetrics(userId);
+            if (updated > 0) console.log(`📊 Metrics updated for ${updated} post(s) (user ${userId})`);
+        } catch (err) {
+            console.error(`❌ Metrics sync for user ${userId}:`, err instanceof Error ? err.message : err);
+        }
+    }
+}
+
+// Only users who published something in the period get a report
+async function sendPerformanceReports(period: ReportPeriod): Promise<void> {
+    for (const userId of config.allowedUserIds) {
+        try {
+            const report = await buildPerformanceReport(userId, period);
+            if (report.current.posts === 0) continue;
+            await bot.api.sendMessage(userId, formatPerformanceReport(report));
+        } catch (err) {
+            console.error(`❌ ${period}ly report for user ${userId}:`, err instanceof Error ? err.message : err);
+        }
+    }
+}
+
+// ─── Start the cron scheduler ────────────────────────────────────────
+export function startScheduler(): void {
+    const timezone = config.postTimezone;
+
+    // Each calendar slot has its own date and time
+    cron.schedule("* * * * *", deliverDueSlots);
+    cron.schedule("5 * * * *", reportMissedSlots);
+    void reportMissedSlots();
 
     console.log(
-        `⏰ Scheduler: LinkedIn posts at ${deliveryTime} (${timezone}), Mon–Fri`
+        `⏰ Scheduler: LinkedIn posts at their calendar slots (${timezone}, default ${config.postDeliveryTime})`
+    );
+
+    if (publishingAvailable()) {
+        cron.schedule("* * * * *", publishDuePosts);
+        console.log(`📤 Scheduler: publishing scheduled posts via ${publisherId()}`);
+    }
+
+    // Reports go out after the daily metrics sync
+    if (metricsSyncAvailable()) {
+        scheduleLedgerJob({ name: "linkedin-metrics-sync", cron: "0 6 * * *", timezone, run: syncMetrics }, { catchUp: true });
+        console.log("📊 Scheduler: LinkedIn post metrics synced daily at 06:00");
+    }
+    scheduleLedgerJob(
+        { name: "performance-report:week", cron: "0 9 * * 1", timezone, run: () => sendPerformanceReports("week") },
+        { catchUp: true }
+    );
+    scheduleLedgerJob(
+        { name: "performance-report:month", cron: "0 9 1 * *", timezone, run: () => sendPerformanceReports("month") },
+        { catchUp: true }
     );
 }
@@ -0,0 +1,175 @@
+// ─── HTTP server (webhook + health check) ────────────────────────────
+// Webhook mode: Telegram POSTs updates to the path of WEBHOOK_URL, each
+// request verified by the X-Telegram-Bot-Api-Secret-Token header.
+// Both modes: GET /healthz reports database reachability, scheduled
+// job count and the last heartbeat run (for Railway health checks), and
+// the path of LINKEDIN_REDIRECT_URL completes LinkedIn account connects.
+
+import http from "http";
+import cron from "node-cron";
+import { webhookCallback } from "grammy";
+import { bot } from "./bot.js";
+import { config } from "./config.js";
+import { db } from "./db.js";
+import { getInFlightRunCount } from "./agent.js";
+import { getLastHeartbeatRun } from "./heartbeat.js";
+import { completeAuthorization } from "./linkedin.js";
+
+const DB_CHECK_TIMEOUT_MS = 5000;
+
+interface HealthReport {
+    status: "ok" | "degraded";
+    mode: string;
+    uptime_s: number;
+    database: { ok: boolean; latency_ms: number; error?: string };
+    scheduler: { jobs: number };
+    heartbeat: { last_run: string | null; checker: string | null };
+    agent: { in_flight: number };
+}
+
+// ─── Health check ────────────────────────────────────────────────────
+async function checkDatabase(): Promise<HealthReport["database"]> {
+    const started = Date.now();
+    try {
+        const query = db.from("profile").select("key", { count: "exact", head: true });
+        const timeout = new Promise<never>((_, reject) =>
+            setTimeout(() => reject(new Error("timed out")), DB_CHECK_TIMEOUT_MS).unref()
+        );
+        const { error } = await Promise.race([query, timeout]);
+        return {
+            ok: !error,
+            latency_ms: Date.now() - started,
+            ...(error ? { error: error.message } : {}),
+        };
+    } catch (err) {
+        return {
+            ok: false,
+            latency_ms: Date.now() - started,
+            error: err instanceof Error ? err.message : String(err),
+        };
+    }
+}
+
+// Post delivery, heartbeat checkers and user-scheduled tasks all run on
+// node-cron; paused or deleted tasks are stopped and not counted.
+async function countActiveJobs(): Promise<number> {
+    let active = 0;
+    for (const task of cron.getTasks().values()) {
+        const status = await task.getStatus();
+        if (status !== "stopped" && status !== "destroyed") active++;
+    }
+    return active;
+}
+
+async function buildHealthReport(): Promise<HealthReport> {
+    const database = await checkDatabase();
+    const lastRun = getLastHeartbeatRun();
+
+    return {
+        status: database.ok ? "ok" : "degraded",
+        mode: config.botMode,
+        uptime_s: Math.round(process.uptime()),
+        database,
+        scheduler: { jobs: await countActiveJobs() },
+        heartbeat: {
+            last_run: lastRun?.finishedAt.toISOString() ?? null,
+            checker: lastRun?.name ?? null,
+        },
+        agent: { in_flight: getInFlightRunCount() },
+    };
+}
+
+// ─── Server ──────────────────────────────────────────────────────────
+function sendJson(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { "Content-Type": "application/json" });
+    res.end(JSON.stringify(body));
+}
+
+function sendText(res: http.ServerResponse, status: number, text: string): void {
+    res.writeHead(status, { "Content-Type": "text/plain; charset=utf-8" });
+    res.end(text);
+}
+
+// ─── LinkedIn OAuth redirect ─────────────────────────────────────────
+async function handleLinkedInCallback(url: URL, res: http.ServerResponse): Promise<void> {
+    const code = url.searchParams.get("code");
+    const state = url.searchParams.get("state");
+    const denied = url.searchParams.get("error_description") ?? url.searchParams.get("error");
+
+    if (denied || !code || !state) {
+        sendText(res, 400, `LinkedIn was not connected: ${denied ?? "missing code"}.`);
+        return;
+    }
+
+    try {
+        const { userId, accountName } = await completeAuthorization(code, state);
+        await bot.api
+            .sendMessage(userId, `🔗 LinkedIn connected${accountName ? ` as ${accountName}` : ""}.`)
+            .catch(() => {});
+        sendText(res, 200, "LinkedIn connected. You can close this tab and return to Telegram.");
+    } catch (err) {
+        console.error("❌ LinkedIn authorization failed:", err instanceof Error ? err.message : err);
+        sendText(res, 400, err instanceof Error ? err.message : "LinkedIn authorization failed.");
+    }
+}
+
+/**
+ * Start the HTTP server. In webhook mode it also receives Telegram updates.
+ *
+ * @returns  The listening server (close it on shutdown)
+ */
+export async function startServer(port: number): Promise<http.Server> {
+    const webhookPath =
+        config.botMode === "webhook" ? new URL(config.webhookUrl!).pathname : null;
+    const handleUpdate =
+        config.botMode === "webhook"
+            ? webhookCallback(bot, "http", { secretToken: config.webhookSecret })
+            : null;
+    const linkedinCallbackPath = config.linkedin.redirectUrl
+        ? new URL(config.linkedin.redirectUrl).pathname
+        : null;
+
+    const server = http.createServer(async (req, res) => {
+        const url = new URL(req.url ?? "/", "http://localhost");
+        const path = url.pathname;
+
+        try {
+            if (req.method === "GET" && path === "/healthz") {
+                const report = await buildHealthReport();
+                sendJson(res, report.status === "ok" ? 200 : 503, report);
+                return;
+            }
+
+            if (req.method === "GET" && path === linkedinCallbackPath) {
+                await handleLinkedInCallback(url, res);
+                return;
+            }
+
+            if (handleUpdate && req.method === "POST" && path === webhookPath) {
+                // Rejects requests without the right secret token with 401
+                await handleUpdate(req, res);
+                return;
+            }
+
+            sendJson(res, 404, { error: "Not found" });
+        } catch (err) {
+            console.error("❌ HTTP request failed:", err instanceof Error ? err.message : err);
+            if (!res.headersSent) sendJson(res, 500, { error: "Internal error" });
+            else res.end();
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        server.once("error", reject);
+        server.listen(port, () => resolve());
+    });
+
+    console.log(`🌐 HTTP server listening on :${port} (GET /healthz)`);
+    return server;
+}
+
+/** Register the webhook with Telegram, including the secret token. */
+export async function registerWebhook(): Promise<void> {
+    await bot.api.setWebhook(config.webhookUrl!, { secret_token: config.webhookSecret });
+    console.log(`🔗 Webhook registered: ${config.webhookUrl}`);
+}
@@ -0,0 +1,519 @@
+// ─── Learning a writing style from the user's own posts ──────────────
+// Samples of the user's LinkedIn posts — pasted, forwarded, taken from
+// LinkedIn's data export (Shares.csv) or published through the bot — are
+// measured into a style fingerprint: length, sentence length, line
+// breaks, emoji and hashtag use, lists, hook types, closing questions and
+// recurring vocabulary. The model turns the fingerprint and the posts into
+// a style guide; both are saved as a linkedin_styles row. Drafts written
+// in a learned style are scored 0–100 against its fingerprint.
+
+import crypto from "crypto";
+import { db } from "./db.js";
+import { chat, type Message } from "./llm.js";
+import { readZipEntry } from "./documents.js";
+import { parseCsv } from "./post_metrics.js";
+
+export type SampleSource = "paste" | "forward" | "export";
+export type HookType = "question" | "contrarian" | "personal" | "number" | "statement";
+
+export interface StyleSample {
+    content: string;
+    source: SampleSource;
+    /** When the post went out on LinkedIn, if known. */
+    posted_at?: string | null;
+}
+
+export interface NumericFeature {
+    mean: number;
+    sd: number;
+}
+
+export interface StyleFingerprint {
+    samples: number;
+    /** Words per post, hashtags left out. */
+    words: NumericFeature;
+    /** Words per sentence. */
+    sentence_words: NumericFeature;
+    /** Non-empty lines per post. */
+    lines: NumericFeature;
+    emojis: NumericFeature;
+    hashtags: NumericFeature;
+    /** Words in the opening line. */
+    hook_words: NumericFeature;
+    /** Share of posts with a numbered or bulleted list. */
+    list_share: number;
+    /** Share of posts that end on a question. */
+    question_close_share: number;
+    /** Share of each kind of opening line. */
+    hooks: Record<HookType, number>;
+    /** Words the user keeps coming back to. */
+    vocabulary: string[];
+}
+
+export interface StyleScore {
+    /** 0–100; 100 is indistinguishable from the user's posts. */
+    score: number;
+    /** The largest deviations, worst first. */
+    notes: string[];
+}
+
+const MIN_SAMPLE_CHARS = 40;
+const MIN_SAMPLES_TO_LEARN = 3;
+// Posts the model reads when writing the guide, and their maximum length
+const GUIDE_EXAMPLES = 12;
+const GUIDE_EXAMPLE_CHARS = 1500;
+
+const HOOK_TYPES: HookType[] = ["question", "contrarian", "personal", "number", "statement"];
+
+const STOPWORDS = new Set(
+    (
+        "about above after again also because been before being below between both could does doing down during each " +
+        "every from further have having here hers herself himself into itself just more most much myself only other " +
+        "ours ourselves over same should some such than that their theirs them themselves then there these they this " +
+        "those through under until very were what when where which while whom whose will with would your yours " +
+        "yourself really thing things make made want know like even still it's that's there's don't can't i'm i've you're"
+    ).split(" ")
+);
+
+// ─── Measuring posts ─────────────────────────────────────────────────
+const EMOJI = /\p{Extended_Pictographic}|\d\uFE0F?\u20E3/gu;
+const HASHTAG = /#[\p{L}\p{N}_]+/gu;
+const WORD = /[\p{L}\p{N}][\p{L}\p{N}'’-]*/gu;
+const LIST_LINE = /^\s*(?:\d+[.)]|\d\uFE0F?\u20E3|[-•*▪→✅✔👉])\s*/u;
+
+interface PostFeatures {
+    words: number;
+    sentence_words: number;
+    lines: number;
+    emojis: number;
+    hashtags: number;
+    hook_words: number;
+    has_list: boolean;
+    question_close: boolean;
+    hook: HookType;
+    terms: Set<string>;
+}
+
+function classifyHook(line: string): HookType {
+    if (line.includes("?")) return "question";
+    if (/^(stop|don['’]t|do not|never|unpopular|hot take|most people|nobody|forget|everyone)\b/i.test(line)) {
+        return "contrarian";
+    }
+    if (/^(i|i['’]m|i['’]ve|my|when i|last (week|month|year)|yesterday|today i|\d+ years ago)\b/i.test(line)) {
+        return "personal";
+    }
+    if (/^\s*\d/.test(line) || /\b\d+\s*(%|x\b|ways|things|lessons|mistakes|tips|steps|years)/i.test(line)) return "number";
+    return "statement";
+}
+
+function measurePost(content: string): PostFeatures {
+    const body = content.replace(HASHTAG, "");
+    const words = body.match(WORD) ?? [];
+    const sentences = body.split(/[.!?…]+(?=\s|$)|\n+/).filter((s) => /[\p{L}\p{N}]/u.test(s));
+    // Lines of only hashtags are the tag block, not text
+    const lines = content
+        .split("\n")
+        .map((l) => l.trim())
+        .filter((l) => l && l.replace(HASHTAG, "").trim());
+    const hook = lines[0] ?? "";
+
+    return {
+        words: words.length,
+        sentence_words: words.length / Math.max(1, sentences.length),
+        lines: lines.length,
+        emojis: (content.match(EMOJI) ?? []).length,
+        hashtags: (content.match(HASHTAG) ?? []).length,
+        hook_words: (hook.match(WORD) ?? []).length,
+        has_list: lines.filter((l) => LIST_LINE.test(l)).length >= 2,
+        question_close: (lines[lines.length - 1] ?? "").includes("?"),
+        hook: classifyHook(hook),
+        terms: new Set(
+            words.map((w) => w.toLowerCase().replace(/['’]s$/, "")).filter((w) => w.length >= 4 && !STOPWORDS.has(w) && !/^\d/.test(w))
+        ),
+    };
+}
+
+function numeric(values: number[]): NumericFeature {
+    const mean = values.reduce((a, b) => a + b, 0) / values.length;
+    const variance = values.reduce((a, b) => a + (b - mean) ** 2, 0) / values.length;
+    return { mean: Math.round(mean * 10) / 10, sd: Math.round(Math.sqrt(variance) * 10) / 10 };
+}
+
+const share = (flags: boolean[]) => Math.round((flags.filter(Boolean).length / flags.length) * 100) / 100;
+
+/** Measure a set of posts. */
+export function buildFingerprint(posts: string[]): StyleFingerprint {
+    if (posts.length === 0) throw new Error("A fingerprint needs at least one post.");
+    const features = posts.map(measurePost);
+
+    // Words used in many posts (at least two, or a fifth of them), most common first
+    const documentFrequency = new Map<string, number>();
+    for (const f of features) for (const term of f.terms) documentFrequency.set(term, (documentFrequency.get(term) ?? 0) + 1);
+    const minPosts = posts.length < 3 ? 1 : Math.max(2, Math.ceil(posts.length / 5));
+    const vocabulary = [...documentFrequency]
+        .filter(([, n]) => n >= minPosts)
+        .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+        .slice(0, 20)
+        .map(([term]) => term);
+
+    return {
+        samples: posts.length,
+        words: numeric(features.map((f) => f.words)),
+        sentence_words: numeric(features.map((f) => f.sentence_words)),
+        lines: numeric(features.map((f) => f.lines)),
+        emojis: numeric(features.map((f) => f.emojis)),
+        hashtags: numeric(features.map((f) => f.hashtags)),
+        hook_words: numeric(features.map((f) => f.hook_words)),
+        list_share: share(features.map((f) => f.has_list)),
+        question_close_share: share(features.map((f) => f.question_close)),
+        hooks: Object.fromEntries(HOOK_TYPES.map((t) => [t, share(features.map((f) => f.hook === t))])) as Record<HookType, number>,
+        vocabulary,
+    };
+}
+
+// ─── Scoring drafts ──────────────────────────────────────────────────
+// Full marks within half the tolerance of the user's mean, none beyond
+// one and a half; the tolerance grows with how much the user varies
+function numericFit(value: number, feature: NumericFeature, floor: number): number {
+    const tolerance = Math.max(feature.sd * 2, feature.mean * 0.3, floor);
+    return Math.min(1, Math.max(0, 1 - (Math.abs(value - feature.mean) - tolerance / 2) / tolerance));
+}
+
+// A yes/no trait against how often the user shows it
+function shareFit(present: boolean, userShare: number): number {
+    return Math.min(1, Math.max(0, 1 - (Math.abs((present ? 1 : 0) - userShare) - 0.25) / 0.75));
+}
+
+const round = (n: number) => Math.round(n);
+
+/** Score a draft against a fingerprint. */
+export function scoreDraft(content: string, fingerprint: StyleFingerprint): StyleScore {
+    const f = measurePost(content);
+    const usual = (feature: NumericFeature) => round(feature.mean);
+    const topHook = HOOK_TYPES.reduce((best, t) => (fingerprint.hooks[t] > fingerprint.hooks[best] ? t : best));
+    const vocabularyHits = fingerprint.vocabulary.filter((w) => f.terms.has(w)).length;
+
+    const checks: { weight: number; fit: number; note: string }[] = [
+        {
+            weight: 2,
+            fit: numericFit(f.words, fingerprint.words, 30),
+            note: `${f.words} words — you usually write about ${usual(fingerprint.words)}`,
+        },
+        {
+            weight: 2,
+            fit: numericFit(f.sentence_words, fingerprint.sentence_words, 4),
+            note: `sentences average ${round(f.sentence_words)} words — yours about ${usual(fingerprint.sentence_words)}`,
+        },
+        {
+            weight: 1.5,
+            fit: numericFit(f.lines, fingerprint.lines, 3),
+            note: `${f.lines} lines — yours usually have about ${usual(fingerprint.lines)}`,
+        },
+        {
+            weight: 1,
+            fit: numericFit(f.emojis, fingerprint.emojis, 1.5),
+            note: `${f.emojis} emojis — you usually use about ${usual(fingerprint.emojis)}`,
+        },
+        {
+            weight: 1,
+            fit: numericFit(f.hashtags, fingerprint.hashtags, 1),
+            note: `${f.hashtags} hashtags — you usually use about ${usual(fingerprint.hashtags)}`,
+        },
+        {
+            weight: 1,
+            fit: numericFit(f.hook_words, fingerprint.hook_words, 4),
+            note: `the opening line has ${f.hook_words} words — yours about ${usual(fingerprint.hook_words)}`,
+        },
+        {
+            weight: 1,
+            fit: shareFit(f.has_list, fingerprint.list_share),
+            note: f.has_list ? "uses a list — you rarely do" : "has no list — most of your posts do",
+        },
+        {
+            weight: 1,
+            fit: shareFit(f.question_close, fingerprint.question_close_share),
+            note: f.question_close ? "ends on a question — you rarely do" : "doesn't end on a question — most of your posts do",
+        },
+        {
+            weight: 1,
+            fit: fingerprint.hooks[topHook] > 0 ? Math.min(1, fingerprint.hooks[f.hook] / fingerprint.hooks[topHook]) : 1,
+            note: `opens with a ${f.hook} hook — yours are mostly ${topHook}`,
+        },
+    ];
+    if (fingerprint.vocabulary.length > 0) {
+        checks.push({
+            weight: 0.5,
+            fit: Math.min(1, vocabularyHits / Math.min(3, fingerprint.vocabulary.length)),
+            note: `uses little of your usual vocabulary (${fingerprint.vocabulary.slice(0, 5).join(", ")})`,
+        });
+    }
+
+    const total = checks.reduce((sum, c) => sum + c.weight, 0);
+    const score = round((checks.reduce((sum, c) => sum + c.weight * c.fit, 0) / total) * 100);
+    const notes = checks
+        .filter((c) => c.fit < 0.6)
+        .sort((a, b) => a.fit - b.fit)
+        .slice(0, 4)
+        .map((c) => c.note);
+    return { score, notes };
+}
+
+/** Score a post's text against the fingerprint of a style, if it was learned. */
+export async function scoreForStyle(styleId: number | null, content: string): Promise<StyleScore | null> {
+    if (styleId === null) return null;
+    const { data } = await db.from("linkedin_styles").select("fingerprint").eq("id", styleId).maybeSingle();
+    const fingerprint = data?.fingerprint as StyleFingerprint | null | undefined;
+    return fingerprint ? scoreDraft(content, fingerprint) : null;
+}
+
+// ─── Samples ─────────────────────────────────────────────────────────
+// Whitespace and case do not make a post a different one
+function contentHash(content: string): string {
+    return crypto.createHash("sha256").update(content.toLowerCase().replace(/\s+/g, " ").trim()).digest("hex");
+}
+
+function normalizeSample(content: string): string {
+    return content.replace(/\r\n?/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+}
+
+/**
+ * Save posts as samples to learn from. Posts seen before and fragments
+ * too short to tell anything are skipped.
+ */
+export async function addStyleSamples(
+    userId: number,
+    samples: StyleSample[]
+): Promise<{ added: number; duplicates: number; too_short: number }> {
+    const rows = new Map<string, Record<string, unknown>>();
+    let tooShort = 0;
+    for (const sample of samples) {
+        const content = normalizeSample(sample.content);
+        if (content.length < MIN_SAMPLE_CHARS) {
+            tooShort++;
+            continue;
+        }
+        const hash = contentHash(content);
+        if (!rows.has(hash)) {
+            rows.set(hash, { user_id: userId, source: sample.source, content, content_hash: hash, posted_at: sample.posted_at ?? null });
+        }
+    }
+    const withinBatch = samples.length - tooShort - rows.size;
+    if (rows.size === 0) return { added: 0, duplicates: withinBatch, too_short: tooShort };
+
+    const { data: existing, error: loadError } = await db
+        .from("style_samples")
+        .select("content_hash")
+        .eq("user_id", userId)
+        .in("content_hash", [...rows.keys()]);
+    if (loadError) throw new Error(`Loading style samples failed: ${loadError.message}`);
+    for (const row of existing ?? []) rows.delete(row.content_hash as string);
+
+    const fresh = [...rows.values()];
+    if (fresh.length > 0) {
+        const { error } = await db.from("style_samples").insert(fresh);
+        if (error) throw new Error(`Saving style samples failed: ${error.message}`);
+    }
+    return { added: fresh.length, duplicates: withinBatch + (existing ?? []).length, too_short: tooShort };
+}
+
+export async function countStyleSamples(userId: number): Promise<number> {
+    const { count } = await db
+        .from("style_samples")
+        .select("*", { count: "exact", head: true })
+        .eq("user_id", userId);
+    return count ?? 0;
+}
+
+/** @returns  How many samples were deleted */
+export async function clearStyleSamples(userId: number): Promise<number> {
+    const { count, error } = await db.from("style_samples").delete({ count: "exact" }).eq("user_id", userId);
+    if (error) throw new Error(`Deleting style samples failed: ${error.message}`);
+    return count ?? 0;
+}
+
+// ─── LinkedIn data export ────────────────────────────────────────────
+// The export ("Get a copy of your data") is a ZIP with Shares.csv: one
+// row per post, the text in ShareCommentary. Reshares without text are
+// skipped.
+const SHARES_FILE = /(^|\/)shares\.csv$/i;
+
+function sharesColumns(header: string[]): { text: number; date: number } {
+    const names = header.map((h) => h.trim().toLowerCase().replace(/\s+/g, ""));
+    return { text: names.indexOf("sharecommentary"), date: names.indexOf("date") };
+}
+
+/** Whether CSV text is the Shares.csv of a LinkedIn data export. */
+export function isSharesCsv(text: string): boolean {
+    const [header] = parseCsv(text.slice(0, 2000));
+    return !!header && sharesColumns(header).text !== -1;
+}
+
+export function parseSharesCsv(text: string): StyleSample[] {
+    const [header, ...rows] = parseCsv(text.replace(/^\uFEFF/, ""));
+    const columns = header ? sharesColumns(header) : { text: -1, date: -1 };
+    if (columns.text === -1) throw new Error("This CSV has no ShareCommentary column — is it Shares.csv from a LinkedIn data export?");
+
+    return rows
+        .map((row) => {
+            const date = columns.date >= 0 ? row[columns.date]?.trim() : undefined;
+            const postedAt = date ? new Date(date.replace(" ", "T") + (date.includes("Z") ? "" : "Z")) : null;
+            return {
+                content: row[columns.text] ?? "",
+                source: "export" as const,
+                posted_at: postedAt && !isNaN(postedAt.getTime()) ? postedAt.toISOString() : null,
+            };
+        })
+        .filter((s) => s.content.trim());
+}
+
+/**
+ * Import the posts of a LinkedIn data export — the ZIP archive or its
+ * Shares.csv — as style samples.
+ *
+ * @throws  When the file holds no Shares.csv
+ */
+export async function importLinkedInExport(
+    userId: number,
+    file: Buffer,
+    isZip: boolean
+): Promise<{ posts: number; added: number; duplicates: number; too_short: number }> {
+    let csv = file;
+    if (isZip) {
+        const shares = readZipEntry(file, (name) => SHARES_FILE.test(name));
+        if (!shares) {
+            throw new Error("No Shares.csv in this archive — send the ZIP from LinkedIn's Settings → Data privacy → Get a copy of your data.");
+        }
+        csv = shares;
+    }
+    const samples = parseSharesCsv(csv.toString("utf8"));
+    return { posts: samples.length, ...(await addStyleSamples(userId, samples)) };
+}
+
+// ─── Learning ────────────────────────────────────────────────────────
+export interface LearnedStyle {
+    name: string;
+    samples: number;
+    fingerprint: StyleFingerprint;
+    style_guide: string;
+}
+
+// Samples plus (optionally) the posts the bot published, newest first, without repeats
+async function loadLearningPosts(userId: number, includePublished: boolean): Promise<string[]> {
+    const { data: samples, error } = await db
+        .from("style_samples")
+        .select("content, posted_at, created_at")
+        .eq("user_id", userId)
+        .order("created_at", { ascending: false })
+        .limit(500);
+    if (error) throw new Error(`Loading style samples failed: ${error.message}`);
+
+    const dated = (samples ?? []).map((s) => ({
+        content: s.content as string,
+        at: (s.posted_at as string | null) ?? (s.created_at as string),
+    }));
+    if (includePublished) {
+        const { data: published } = await db
+            .from("posts")
+            .select("content, published_at")
+            .eq("user_id", userId)
+            .eq("status", "published")
+            .order("published_at", { ascending: false })
+            .limit(100);
+        dated.push(...(published ?? []).map((p) => ({ content: p.content as string, at: p.published_at as string })));
+    }
+
+    const seen = new Set<string>();
+    return dated
+        .sort((a, b) => (b.at ?? "").localeCompare(a.at ?? ""))
+        .filter((p) => {
+            const hash = contentHash(p.content);
+            if (seen.has(hash)) return false;
+            seen.add(hash);
+            return true;
+        })
+        .map((p) => p.content);
+}
+
+/** The fingerprint in words, for the model and the user. */
+export function describeFingerprint(fp: StyleFingerprint): string {
+    const pct = (n: number) => `${Math.round(n * 100)}%`;
+    const hooks = HOOK_TYPES.filter((t) => fp.hooks[t] > 0)
+        .sort((a, b) => fp.hooks[b] - fp.hooks[a])
+        .map((t) => `${t} ${pct(fp.hooks[t])}`)
+        .join(", ");
+    return [
+        `Measured from ${fp.samples} posts:`,
+        `- Length: ${round(fp.words.mean)} words (±${round(fp.words.sd)}), ${round(fp.lines.mean)} lines`,
+        `- Sentences: ${round(fp.sentence_words.mean)} words on average`,
+        `- Opening line: ${round(fp.hook_words.mean)} words; hooks: ${hooks}`,
+        `- Emojis per post: ${fp.emojis.mean}; hashtags per post: ${fp.hashtags.mean}`,
+        `- Lists in ${pct(fp.list_share)} of posts; ends on a question in ${pct(fp.question_close_share)}`,
+        ...(fp.vocabulary.length > 0 ? [`- Recurring words: ${fp.vocabulary.join(", ")}`] : []),
+    ].join("\n");
+}
+
+async function writeStyleGuide(userId: number, name: string, fingerprint: StyleFingerprint, posts: string[]): Promise<string> {
+    const examples = posts
+        .slice(0, GUIDE_EXAMPLES)
+        .map((p, i) => `--- Post ${i + 1} ---\n${p.slice(0, GUIDE_EXAMPLE_CHARS)}`)
+        .join("\n\n");
+    const prompt =
+        `These are LinkedIn posts written by one author, with measurements of their style.\n\n${describeFingerprint(fingerprint)}\n\n${examples}\n\n` +
+        `Write a style guide that lets someone write new posts indistinguishable from this author's. ` +
+        `Start with "STYLE NAME: ${name}" and use the sections STRUCTURE, HOOKS, TONE, FORMATTING, VOCABULARY and RULES as bullet lists. ` +
+        `Base every point on the posts, use the measured numbers as targets, quote typical phrasings briefly, and note what the author never does. ` +
+        `Return ONLY the style guide.`;
+
+    const messages: Message[] = [{ role: "user", content: prompt }];
+    const response = await chat(messages, [], { userId, task: "linkedin" });
+    const guide = response.content
+        .filter((b) => b.type === "text")
+        .map((b) => ("text" in b ? b.text : ""))
+        .join("\n")
+        .trim();
+    if (!guide) throw new Error("The model returned an empty style guide.");
+    return guide;
+}
+
+/**
+ * Learn a style from the user's samples (and published posts): measure a
+ * fingerprint, have the model write the guide, and save both under name.
+ *
+ * @throws  When there are too few posts to learn from
+ */
+export async function learnStyle(
+    userId: number,
+    name: string,
+    { includePublished = true, setActive = false } = {}
+): Promise<LearnedStyle> {
+    const styleName = name.trim();
+    if (!styleName) throw new Error("The style needs a name.");
+
+    const posts = await loadLearningPosts(userId, includePublished);
+    if (posts.length < MIN_SAMPLES_TO_LEARN) {
+        throw new Error(
+            `Learning a style needs at least ${MIN_SAMPLES_TO_LEARN} of your posts (have ${posts.length}). Paste or forward more, or send your LinkedIn data export.`
+        );
+    }
+
+    const fingerprint = buildFingerprint(posts);
+    const styleGuide = await writeStyleGuide(userId, styleName, fingerprint, posts);
+
+    const { error } = await db.from("linkedin_styles").upsert(
+        {
+            user_id: userId,
+            name: styleName,
+            style_guide: styleGuide,
+            fingerprint,
+            ...(setActive ? { is_active: true } : {}),
+            updated_at: new Date().toISOString(),
+        },
+        { onConflict: "user_id,name" }
+    );
+    if (error) throw new Error(`Saving style failed: ${error.message}`);
+
+    if (setActive) {
+        await db.from("linkedin_styles").update({ is_active: false }).eq("user_id", userId).neq("name", styleName);
+    }
+    return { name: styleName, samples: posts.length, fingerprint, style_guide: styleGuide };
+}
@@ -1,10 +1,13 @@
-// ─── Shared Supabase Client ──────────────────────────────────────────
+// ─── Supabase Client ─────────────────────────────────────────────────
 import { createClient, type SupabaseClient } from "@supabase/supabase-js";
 import { config } from "./config.js";
 
-export const supabase: SupabaseClient = createClient(
-    config.supabaseUrl,
-    config.supabaseKey
-);
+export function createSupabaseClient(): SupabaseClient {
+    if (!config.supabaseUrl || !config.supabaseKey) {
+        throw new Error("SUPABASE_URL and SUPABASE_KEY are required for the Supabase backend.");
+    }
 
-console.log("☁️  Supabase client ready");
+    const client = createClient(config.supabaseUrl, config.supabaseKey);
+    console.log("☁️  Supabase client ready");
+    return client;
+}
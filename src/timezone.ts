@@ -0,0 +1,116 @@
+// ─── Wall-clock times in a time zone ─────────────────────────────────
+// The user thinks in POST_TIMEZONE ("tomorrow 09:30"); rows store UTC.
+// Conversions use Intl, so any IANA zone works without a date library.
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function formatter(timeZone: string): Intl.DateTimeFormat {
+    let f = formatters.get(timeZone);
+    if (!f) {
+        f = new Intl.DateTimeFormat("en-US", {
+            timeZone,
+            hourCycle: "h23",
+            year: "numeric",
+            month: "2-digit",
+            day: "2-digit",
+            hour: "2-digit",
+            minute: "2-digit",
+            second: "2-digit",
+        });
+        formatters.set(timeZone, f);
+    }
+    return f;
+}
+
+export interface WallClock {
+    year: number;
+    month: number; // 1-12
+    day: number;
+    hour: number;
+    minute: number;
+}
+
+/** The date and time a UTC instant shows on clocks in timeZone. */
+export function wallClockAt(date: Date, timeZone: string): WallClock & { second: number } {
+    const parts = Object.fromEntries(
+        formatter(timeZone)
+            .formatToParts(date)
+            .filter((p) => p.type !== "literal")
+            .map((p) => [p.type, Number(p.value)])
+    );
+    return {
+        year: parts.year!,
+        month: parts.month!,
+        day: parts.day!,
+        hour: parts.hour!,
+        minute: parts.minute!,
+        second: parts.second!,
+    };
+}
+
+// Milliseconds timeZone is ahead of UTC at that instant
+function offsetAt(date: Date, timeZone: string): number {
+    const c = wallClockAt(date, timeZone);
+    const asUtc = Date.UTC(c.year, c.month - 1, c.day, c.hour, c.minute, c.second);
+    return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/** The UTC instant at which clocks in timeZone show the given time. */
+export function zonedTimeToUtc(clock: WallClock, timeZone: string): Date {
+    const guess = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute);
+    // Second pass settles times next to a DST switch
+    const first = guess - offsetAt(new Date(guess), timeZone);
+    return new Date(guess - offsetAt(new Date(first), timeZone));
+}
+
+/** "2026-03-14 09:30" in timeZone. */
+export function formatInTimeZone(date: Date, timeZone: string): string {
+    const c = wallClockAt(date, timeZone);
+    const pad = (n: number) => String(n).padStart(2, "0");
+    return `${c.year}-${pad(c.month)}-${pad(c.day)} ${pad(c.hour)}:${pad(c.minute)}`;
+}
+
+/**
+ * Parse a time the user typed, in timeZone: "09:30" (the next time it
+ * is 09:30), "tomorrow 09:30", "2026-03-14 09:30" or a full ISO
+ * timestamp with offset.
+ *
+ * @returns  The UTC instant, or null if the text is not a time
+ */
+export function parseUserTime(text: string, timeZone: string, now = new Date()): Date | null {
+    const input = text.trim().toLowerCase();
+
+    // Explicit offsets need no zone
+    if (/^\d{4}-\d{2}-\d{2}t\d{2}:\d{2}(:\d{2}(\.\d+)?)?(z|[+-]\d{2}:?\d{2})$/.test(input)) {
+        const date = new Date(text.trim());
+        return Number.isNaN(date.getTime()) ? null : date;
+    }
+
+    const match = input.match(/^(?:(today|tomorrow)\s+|(\d{4})-(\d{2})-(\d{2})[ t])?(\d{1,2}):(\d{2})$/);
+    if (!match) return null;
+
+    const [, relative, year, month, day, hour, minute] = match;
+    const h = Number(hour);
+    const m = Number(minute);
+    if (h > 23 || m > 59) return null;
+
+    if (year) {
+        const clock = { year: Number(year), month: Number(month), day: Number(day), hour: h, minute: m };
+        if (clock.month < 1 || clock.month > 12 || clock.day < 1 || clock.day > 31) return null;
+        return zonedTimeToUtc(clock, timeZone);
+    }
+
+    const today = wallClockAt(now, timeZone);
+    const at = (offsetDays: number) => {
+        // Date.UTC rolls the day over month ends
+        const d = new Date(Date.UTC(today.year, today.month - 1, today.day + offsetDays));
+        return zonedTimeToUtc(
+            { year: d.getUTCFullYear(), month: d.getUTCMonth() + 1, day: d.getUTCDate(), hour: h, minute: m },
+            timeZone
+        );
+    };
+
+    if (relative === "tomorrow") return at(1);
+    const candidate = at(0);
+    return relative === "today" || candidate > now ? candidate : at(1);
+}
@@ -0,0 +1,87 @@
+// ─── Local token estimator ──────────────────────────────────────────
+// Offline approximation of Anthropic token counts, used when the
+// token-counting endpoint is unreachable and for cheap log output.
+// Claude's tokenizer is not public; cl100k_base lands within ~10–20%
+// for English text, which is close enough for budgeting decisions.
+
+import { get_encoding, type Tiktoken } from "tiktoken";
+import type Anthropic from "@anthropic-ai/sdk";
+import type { Message } from "./llm.js";
+
+// Rough per-image cost: Claude resizes large images to ~1.15 megapixels,
+// which is about 1,600 tokens.
+const IMAGE_TOKENS = 1600;
+const MESSAGE_OVERHEAD = 4;
+
+let encoder: Tiktoken | null = null;
+
+function getEncoder(): Tiktoken {
+    if (!encoder) {
+        encoder = get_encoding("cl100k_base");
+    }
+    return encoder;
+}
+
+export function countTokens(text: string): number {
+    return getEncoder().encode(text).length;
+}
+
+type Block =
+    | Anthropic.ContentBlock
+    | Anthropic.ContentBlockParam
+    | Anthropic.ToolResultBlockParam;
+
+function blockTokens(block: Block): number {
+    switch (block.type) {
+        case "text":
+            return countTokens(block.text);
+        case "image":
+            return IMAGE_TOKENS;
+        case "tool_use":
+            return countTokens(block.name) + countTokens(JSON.stringify(block.input));
+        case "tool_result":
+            if (typeof block.content === "string") return countTokens(block.content);
+            return (block.content ?? []).reduce((sum, b) => sum + blockTokens(b), 0);
+        default:
+            return countTokens(JSON.stringify(block));
+    }
+}
+
+export function estimateMessageTokens(msg: Message): number {
+    if (typeof msg.content === "string") {
+        return countTokens(msg.content) + MESSAGE_OVERHEAD;
+    }
+    const blocks = msg.content as Block[];
+    return blocks.reduce((sum, b) => sum + blockTokens(b), MESSAGE_OVERHEAD);
+}
+
+/** Estimate a full request: system prompt, tool definitions and messages. */
+export function estimateRequestTokens(request: {
+    system?: string | Anthropic.TextBlockParam[];
+    tools?: Anthropic.Tool[];
+    messages: Message[];
+}): number {
+    let total = 0;
+
+    if (typeof request.system === "string") {
+        total += countTokens(request.system);
+    } else if (request.system) {
+        total += request.system.reduce((sum, b) => sum + countTokens(b.text), 0);
+    }
+
+    for (const tool of request.tools ?? []) {
+        total += countTokens(
+            JSON.stringify({
+                name: tool.name,
+                description: tool.description,
+                input_schema: tool.input_schema,
+            })
+        );
+    }
+
+    for (const msg of request.messages) {
+        total += estimateMessageTokens(msg);
+    }
+
+    return total;
+}
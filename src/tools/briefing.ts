@@ -1,5 +1,5 @@
-import { registerTool } from "./index.js";
-import { supabase } from "../supabase.js";
+import { registerTool, type ToolContext } from "./index.js";
+import { db } from "../db.js";
 
 // ─── Tool: get_weather ───────────────────────────────────────────────
 // Uses Open-Meteo API (free, no API key required)
@@ -111,29 +111,35 @@ registerTool({
         },
         required: [],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const city = (input.city as string) || "Berlin";
 
-        // Pending confirmed topics
-        const { data: pendingTopics } = await supabase
+        // Pending confirmed topics, next calendar slots first
+        const { data: pendingTopics } = await db
             .from("topics")
-            .select("day_index, topic")
+            .select("scheduled_at, topic")
+            .eq("user_id", userId)
             .eq("status", "confirmed")
-            .order("day_index");
+            .gte("scheduled_at", new Date().toISOString())
+            .order("scheduled_at")
+            .limit(10);
 
         // Recent memories
-        const { data: recentMemories } = await supabase
+        const { data: recentMemories } = await db
             .from("memories")
             .select("content, category")
+            .eq("user_id", userId)
+            .is("valid_to", null)
             .order("created_at", { ascending: false })
             .limit(5);
 
         // Scheduled tasks
         let scheduledTasks: unknown[] = [];
         try {
-            const { data } = await supabase
+            const { data } = await db
                 .from("scheduled_tasks")
                 .select("name, cron, last_run")
+                .eq("user_id", userId)
                 .eq("enabled", true);
             scheduledTasks = data ?? [];
         } catch {
@@ -1,8 +1,26 @@
+// Who a tool call is acting for — every stored row is scoped by user,
+// conversation history additionally by chat (private chat or group).
+export interface ToolContext {
+    userId: number;
+    chatId: number;
+}
+
 export interface Tool {
     name: string;
     description: string;
     inputSchema: Record<string, unknown>;
-    execute: (input: Record<string, unknown>) => Promise<string>;
+    /**
+     * Ask the user to approve the call before it runs. Either always (true)
+     * or decided per call from the tool input. Calls that need approval are
+     * denied when no one can answer (scheduled tasks, briefings).
+     */
+    requiresConfirmation?: boolean | ((input: Record<string, unknown>) => boolean);
+    execute: (input: Record<string, unknown>, context: ToolContext) => Promise<string>;
+}
+
+export function needsConfirmation(tool: Tool, input: Record<string, unknown>): boolean {
+    const policy = tool.requiresConfirmation;
+    return typeof policy === "function" ? policy(input) : policy === true;
 }
 
 const registry = new Map<string, Tool>();
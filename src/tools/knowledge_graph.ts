@@ -1,18 +1,38 @@
-import { registerTool } from "./index.js";
+import { registerTool, type ToolContext } from "./index.js";
 import {
     addEntity,
-    addRelationship,
+    endRelationship,
+    findDuplicateEntities,
     findEntity,
+    findPath,
     getConnections,
+    linkEntities,
+    mergeEntities,
     traverseGraph,
+    type GraphDirection,
+    type Entity,
+    type GraphWalkOptions,
 } from "../knowledge_graph.js";
-import { supabase } from "../supabase.js";
+import { db } from "../db.js";
+import { sendGraphExport } from "../bot.js";
+import { exportGraph, GRAPH_EXPORT_FORMATS, type GraphExportFormat } from "../graph_export.js";
+
+function round(weight: number): number {
+    return Math.round(weight * 100) / 100;
+}
+
+// Optional ISO date input: undefined when absent, null when unparseable
+function parseDate(value: unknown): string | undefined | null {
+    if (value === undefined || value === null || value === "") return undefined;
+    const date = new Date(String(value));
+    return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
 
 // ─── Tool: add_entity ────────────────────────────────────────────────
 registerTool({
     name: "add_entity",
     description:
-        "Add an entity to the knowledge graph. Entities are people, companies, projects, technologies, concepts, etc. Use this to build a web of connected knowledge.",
+        "Add an entity to the knowledge graph. Entities are people, companies, projects, technologies, concepts, etc. Use this to build a web of connected knowledge. Names are matched case- and suffix-insensitively (\"Acme Inc\" = \"acme\"), so an existing entity is updated rather than duplicated.",
     inputSchema: {
         type: "object" as const,
         properties: {
@@ -27,14 +47,24 @@ registerTool({
                 description:
                     'Additional properties as key-value pairs (e.g. {"url": "...", "description": "..."}).',
             },
+            aliases: {
+                type: "array",
+                items: { type: "string" },
+                description: 'Other names for this entity (e.g. ["Meta", "Facebook"]).',
+            },
         },
         required: ["name", "type"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const aliases = input.aliases as string[] | undefined;
         const entity = await addEntity(
+            userId,
             input.name as string,
             input.type as string,
-            (input.properties as Record<string, unknown>) || {}
+            {
+                ...((input.properties as Record<string, unknown>) || {}),
+                ...(aliases?.length ? { aliases } : {}),
+            }
         );
         return JSON.stringify({
             success: true,
@@ -48,7 +78,7 @@ registerTool({
 registerTool({
     name: "add_relationship",
     description:
-        'Link two entities in the knowledge graph. E.g. "Mikhail" --works_at--> "Acme Corp", or "Python" --used_in--> "Data Pipeline".',
+        'Link two entities in the knowledge graph. E.g. "Mikhail" --works_at--> "Acme Corp", or "Python" --used_in--> "Data Pipeline". Linking the same entities again is safe: it counts as another mention and raises the relationship\'s weight. Pass valid_to for relationships that have already ended (e.g. a former employer).',
     inputSchema: {
         type: "object" as const,
         properties: {
@@ -61,26 +91,90 @@ registerTool({
                 description:
                     'Relationship type (e.g. "works_at", "uses", "interested_in", "knows", "created").',
             },
+            valid_from: {
+                type: "string",
+                description: "Optional ISO date the relationship started (default: now).",
+            },
+            valid_to: {
+                type: "string",
+                description: "Optional ISO date the relationship ended. Omit while it still holds.",
+            },
         },
         required: ["from_name", "from_type", "to_name", "to_type", "relationship"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
-        const from = await findEntity(input.from_name as string, input.from_type as string);
-        const to = await findEntity(input.to_name as string, input.to_type as string);
-
-        // Auto-create entities if they don't exist
-        const fromEntity = from || await addEntity(input.from_name as string, input.from_type as string);
-        const toEntity = to || await addEntity(input.to_name as string, input.to_type as string);
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const validFrom = parseDate(input.valid_from);
+        const validTo = parseDate(input.valid_to);
+        if (validFrom === null || validTo === null) {
+            return JSON.stringify({ error: "valid_from and valid_to must be ISO dates (e.g. 2023-05-01)." });
+        }
 
-        const rel = await addRelationship(
-            fromEntity.id,
-            toEntity.id,
-            input.relationship as string
+        // Entities that don't exist yet are created
+        const link = await linkEntities(
+            userId,
+            { name: input.from_name as string, type: input.from_type as string },
+            { name: input.to_name as string, type: input.to_type as string },
+            input.relationship as string,
+            { validFrom, validTo }
         );
 
         return JSON.stringify({
             success: true,
-            message: `${fromEntity.name} --[${rel.type}]--> ${toEntity.name}`,
+            message: `${link.from.name} --[${link.relationship.type}]--> ${link.to.name}`,
+            mentions: link.relationship.mention_count,
+            weight: round(link.relationship.weight),
+            valid_from: link.relationship.valid_from,
+            ...(link.relationship.valid_to ? { valid_to: link.relationship.valid_to } : {}),
+            ...(link.created.relationship
+                ? {}
+                : { note: "This relationship already existed; counted as another mention." }),
+        });
+    },
+});
+
+// ─── Tool: end_relationship ──────────────────────────────────────────
+registerTool({
+    name: "end_relationship",
+    description:
+        'Mark a relationship as ended (e.g. the user left a company: "Mikhail" --works_at--> "Acme Corp"). The relationship is kept as history but hidden from graph queries by default.',
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            from_name: { type: "string", description: "Source entity name." },
+            to_name: { type: "string", description: "Target entity name." },
+            relationship: { type: "string", description: 'Relationship type (e.g. "works_at").' },
+            ended_at: {
+                type: "string",
+                description: "Optional ISO date the relationship ended (default: now).",
+            },
+        },
+        required: ["from_name", "to_name", "relationship"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const endedAt = parseDate(input.ended_at);
+        if (endedAt === null) {
+            return JSON.stringify({ error: "ended_at must be an ISO date (e.g. 2023-05-01)." });
+        }
+
+        const fuzzy = { fuzzy: true };
+        const from = await findEntity(userId, input.from_name as string, undefined, fuzzy);
+        const to = await findEntity(userId, input.to_name as string, undefined, fuzzy);
+        if (!from || !to) {
+            return JSON.stringify({
+                error: `Entity "${!from ? input.from_name : input.to_name}" not found.`,
+            });
+        }
+
+        const ended = await endRelationship(from.id, to.id, input.relationship as string, endedAt);
+        if (!ended) {
+            return JSON.stringify({
+                error: `No current "${input.relationship}" relationship from "${from.name}" to "${to.name}".`,
+            });
+        }
+
+        return JSON.stringify({
+            success: true,
+            message: `${from.name} --[${ended.type}]--> ${to.name} ended ${ended.valid_to}.`,
         });
     },
 });
@@ -95,13 +189,19 @@ registerTool({
         properties: {
             name: { type: "string", description: "Entity name to look up." },
             type: { type: "string", description: "Optional type filter." },
+            include_expired: {
+                type: "boolean",
+                description: "Also show relationships that have ended (default: false).",
+            },
         },
         required: ["name"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const entity = await findEntity(
+            userId,
             input.name as string,
-            input.type as string | undefined
+            input.type as string | undefined,
+            { fuzzy: true }
         );
 
         if (!entity) {
@@ -110,7 +210,9 @@ registerTool({
             });
         }
 
-        const connections = await getConnections(entity.id);
+        const connections = await getConnections(entity.id, {
+            includeExpired: input.include_expired === true,
+        });
         return JSON.stringify({
             entity: {
                 id: entity.id,
@@ -122,50 +224,226 @@ registerTool({
                 relationship: c.relationship,
                 direction: c.direction,
                 entity: { name: c.entity.name, type: c.entity.type },
+                weight: round(c.weight),
+                mentions: c.mentions,
+                ...(c.validTo ? { valid_from: c.validFrom, valid_to: c.validTo } : {}),
             })),
         });
     },
 });
 
+// Walk options shared by traverse_graph and find_path
+const walkProperties = {
+    edge_types: {
+        type: "array",
+        items: { type: "string" },
+        description: 'Only follow these relationship types (e.g. ["knows", "works_at"]). Omit for all.',
+    },
+    direction: {
+        type: "string",
+        enum: ["outgoing", "incoming", "both"],
+        description:
+            'Edge direction to follow: "outgoing" (A --rel--> B from A), "incoming" (the reverse), or "both" (default).',
+    },
+    include_expired: {
+        type: "boolean",
+        description: "Also follow relationships that have ended (default: false).",
+    },
+};
+
+function walkOptions(input: Record<string, unknown>): GraphWalkOptions {
+    return {
+        edgeTypes: input.edge_types as string[] | undefined,
+        direction: input.direction as GraphDirection | undefined,
+        maxDepth: input.max_depth as number | undefined,
+        includeExpired: input.include_expired === true,
+    };
+}
+
 // ─── Tool: traverse_graph ────────────────────────────────────────────
 registerTool({
     name: "traverse_graph",
     description:
-        "Traverse the knowledge graph from a starting entity. Finds all connected entities up to a given depth.",
+        "Traverse the knowledge graph from a starting entity. Finds all connected entities up to a given depth, each at its shortest distance, with the relationship it was reached through.",
     inputSchema: {
         type: "object" as const,
         properties: {
             name: { type: "string", description: "Starting entity name." },
+            type: { type: "string", description: "Optional type of the starting entity." },
             max_depth: {
                 type: "number",
-                description: "Maximum traversal depth (default: 3).",
+                description: "Maximum traversal depth (default: 3, max: 6).",
+            },
+            ...walkProperties,
+            limit: {
+                type: "number",
+                description: "Max entities to return (default: 50).",
             },
         },
         required: ["name"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
-        const entity = await findEntity(input.name as string);
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const entity = await findEntity(userId, input.name as string, input.type as string | undefined, {
+            fuzzy: true,
+        });
         if (!entity) {
             return JSON.stringify({
                 error: `Entity "${input.name}" not found.`,
             });
         }
 
-        const maxDepth = (input.max_depth as number) || 3;
-        const results = await traverseGraph(entity.id, maxDepth);
+        const limit = (input.limit as number) || 50;
+        const results = await traverseGraph(userId, entity.id, { ...walkOptions(input), limit });
+        const names = new Map(results.map((r) => [r.entity.id, r.entity.name]));
 
         return JSON.stringify({
             start: entity.name,
-            results: results.map((r) => ({
-                depth: r.depth,
-                via: r.via,
-                name: r.entity.name,
-                type: r.entity.type,
+            results: results
+                .filter((r) => r.depth > 0)
+                .map((r) => ({
+                    depth: r.depth,
+                    via: r.via,
+                    direction: r.direction,
+                    from: r.parentId !== null ? names.get(r.parentId) : undefined,
+                    name: r.entity.name,
+                    type: r.entity.type,
+                })),
+            ...(results.length >= limit ? { truncated: true } : {}),
+        });
+    },
+});
+
+// ─── Tool: find_path ─────────────────────────────────────────────────
+registerTool({
+    name: "find_path",
+    description:
+        'Find the shortest connection between two entities in the knowledge graph — e.g. "how do I know Alice?" (from the user\'s own entity to Alice) or "how is Acme related to Python?".',
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            from_name: { type: "string", description: "Start entity name (the user's own name for \"how do I know ...\")." },
+            from_type: { type: "string", description: "Optional start entity type." },
+            to_name: { type: "string", description: "Target entity name." },
+            to_type: { type: "string", description: "Optional target entity type." },
+            max_depth: {
+                type: "number",
+                description: "Longest path to look for, in hops (default: 4, max: 6).",
+            },
+            ...walkProperties,
+        },
+        required: ["from_name", "to_name"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const fuzzy = { fuzzy: true };
+        const from = await findEntity(userId, input.from_name as string, input.from_type as string | undefined, fuzzy);
+        const to = await findEntity(userId, input.to_name as string, input.to_type as string | undefined, fuzzy);
+        if (!from || !to) {
+            return JSON.stringify({
+                error: `Entity "${!from ? input.from_name : input.to_name}" not found.`,
+            });
+        }
+
+        const path = await findPath(userId, from.id, to.id, walkOptions(input));
+        if (!path) {
+            return JSON.stringify({
+                found: false,
+                message: `No connection between "${from.name}" and "${to.name}" within the search depth.`,
+            });
+        }
+
+        // e.g. "Mikhail --knows--> Bob <--manages-- Alice"
+        const rendered = path
+            .map((step, i) =>
+                i === 0
+                    ? step.entity.name
+                    : step.direction === "incoming"
+                        ? `<--${step.via}-- ${step.entity.name}`
+                        : `--${step.via}--> ${step.entity.name}`
+            )
+            .join(" ");
+
+        return JSON.stringify({
+            found: true,
+            hops: path.length - 1,
+            path: rendered,
+            steps: path.map((step) => ({
+                name: step.entity.name,
+                type: step.entity.type,
+                via: step.via,
+                direction: step.direction,
             })),
         });
     },
 });
 
+// ─── Tool: export_graph ──────────────────────────────────────────────
+// Text exports short enough are also returned to the model, e.g. to
+// quote a Mermaid diagram in the reply
+const MAX_INLINE_EXPORT_CHARS = 6000;
+
+registerTool({
+    name: "export_graph",
+    description:
+        "Export the knowledge graph — all of it, or the part around one entity — and send it to the chat as a file: png/svg (rendered image), dot (GraphViz), mermaid or jsonld (JSON-LD). Use when the user wants to see, audit or download what is in the graph.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            format: {
+                type: "string",
+                enum: GRAPH_EXPORT_FORMATS,
+                description: "Export format (default: png).",
+            },
+            name: {
+                type: "string",
+                description: "Optional entity to center the export on. Omit for the whole graph.",
+            },
+            depth: {
+                type: "number",
+                description: "Hops around the entity to include (default: 2, max: 6).",
+            },
+            include_expired: {
+                type: "boolean",
+                description: "Also include relationships that have ended, drawn dashed (default: false).",
+            },
+        },
+        required: [],
+    },
+    async execute(input: Record<string, unknown>, { userId, chatId }: ToolContext): Promise<string> {
+        const format = (input.format as GraphExportFormat | undefined) ?? "png";
+        if (!GRAPH_EXPORT_FORMATS.includes(format)) {
+            return JSON.stringify({ error: `Unknown format "${format}". Use one of: ${GRAPH_EXPORT_FORMATS.join(", ")}.` });
+        }
+
+        let entity: Entity | undefined;
+        if (input.name) {
+            entity = await findEntity(userId, input.name as string, undefined, { fuzzy: true });
+            if (!entity) return JSON.stringify({ error: `Entity "${input.name}" not found.` });
+        }
+
+        const exported = await exportGraph(userId, format, {
+            centerId: entity?.id,
+            name: entity?.name,
+            depth: input.depth as number | undefined,
+            includeExpired: input.include_expired === true,
+        });
+        if (exported.graph.entities.length === 0) {
+            return JSON.stringify({ error: "The knowledge graph is empty." });
+        }
+
+        await sendGraphExport(chatId, exported, entity?.name);
+
+        const text = format === "png" || format === "svg" ? undefined : exported.data.toString("utf8");
+        return JSON.stringify({
+            success: true,
+            message: `Sent ${exported.filename} to the chat.`,
+            entities: exported.graph.entities.length,
+            relationships: exported.graph.relationships.length,
+            ...(exported.graph.truncated ? { truncated: true } : {}),
+            ...(text && text.length <= MAX_INLINE_EXPORT_CHARS ? { content: text } : {}),
+        });
+    },
+});
+
 // ─── Tool: list_entities ─────────────────────────────────────────────
 registerTool({
     name: "list_entities",
@@ -178,13 +456,14 @@ registerTool({
         },
         required: [],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const type = input.type as string | undefined;
         const limit = (input.limit as number) || 50;
 
-        let q = supabase
+        let q = db
             .from("entities")
             .select("id, name, type")
+            .eq("user_id", userId)
             .order("name")
             .limit(limit);
 
@@ -200,3 +479,90 @@ registerTool({
         });
     },
 });
+
+// ─── Tool: find_duplicate_entities ───────────────────────────────────
+registerTool({
+    name: "find_duplicate_entities",
+    description:
+        "List knowledge-graph entities that are probably the same thing (same or similar names, aliases, similar meaning). Use before merge_entities, or when the user asks to clean up the graph.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {},
+        required: [],
+    },
+    async execute(_input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const duplicates = await findDuplicateEntities(userId);
+        return JSON.stringify({
+            duplicates: duplicates.map((d) => ({
+                a: { name: d.a.name, type: d.a.type },
+                b: { name: d.b.name, type: d.b.type },
+                reason: d.reason,
+                score: d.score,
+            })),
+            count: duplicates.length,
+        });
+    },
+});
+
+// ─── Tool: merge_entities ────────────────────────────────────────────
+registerTool({
+    name: "merge_entities",
+    description:
+        "Merge duplicate entities into one canonical entity. Only entities of the canonical entity's type are merged. Relationships move to the canonical entity, the duplicates' names become its aliases, and the duplicates are deleted.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            canonical_name: { type: "string", description: "Name of the entity to keep." },
+            canonical_type: { type: "string", description: "Optional type of the entity to keep." },
+            duplicate_names: {
+                type: "array",
+                items: { type: "string" },
+                description: "Names of the entities to merge into it.",
+            },
+        },
+        required: ["canonical_name", "duplicate_names"],
+    },
+    requiresConfirmation: true,
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const canonical = await findEntity(
+            userId,
+            input.canonical_name as string,
+            input.canonical_type as string | undefined
+        );
+        if (!canonical) {
+            return JSON.stringify({ error: `Entity "${input.canonical_name}" not found.` });
+        }
+
+        // Exact lookups: the duplicate may well resolve to the canonical entity otherwise
+        const names = input.duplicate_names as string[];
+        const { data: rows } = await db
+            .from("entities")
+            .select("id, name, type")
+            .eq("user_id", userId)
+            .in("name", names);
+        const found = (rows ?? []).filter((r) => r.id !== canonical.id);
+        const duplicates = found.filter((r) => r.type === canonical.type);
+
+        // Names found only under another type are reported, not merged
+        const otherTypes = found
+            .filter((r) => r.type !== canonical.type && !duplicates.some((d) => d.name === r.name))
+            .map((r) => ({ name: r.name, type: r.type }));
+        const missing = names.filter((n) => !found.some((r) => r.name === n));
+        const unmerged = {
+            ...(missing.length > 0 ? { not_found: missing } : {}),
+            ...(otherTypes.length > 0 ? { other_types: otherTypes } : {}),
+        };
+
+        if (duplicates.length === 0) {
+            return JSON.stringify({ error: `No other ${canonical.type} entities with those names found.`, ...unmerged });
+        }
+
+        const result = await mergeEntities(userId, canonical.id, duplicates.map((d) => d.id as number));
+        return JSON.stringify({
+            success: true,
+            message: `Merged ${result.merged.map((e) => `"${e.name}"`).join(", ")} into "${result.canonical.name}" (${result.relationshipsMoved} relationships moved).`,
+            aliases: result.canonical.properties.aliases,
+            ...unmerged,
+        });
+    },
+});
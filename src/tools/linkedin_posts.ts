@@ -0,0 +1,73 @@
+import { registerTool, type ToolContext } from "./index.js";
+import { config } from "../config.js";
+import { cancelScheduledPublish, publishPost, schedulePostPublish } from "../publishers.js";
+import { formatInTimeZone, parseUserTime } from "../timezone.js";
+
+// ─── Tool: publish_post ──────────────────────────────────────────────
+registerTool({
+    name: "publish_post",
+    description:
+        "Publishes an approved LinkedIn post through the configured publisher, now or at a given time. Only approved posts can be published; the user approves posts with the buttons under them.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            post_id: { type: "number", description: "ID of the approved post." },
+            at: {
+                type: "string",
+                description: `Optional time to publish at, in the user's time zone (${config.postTimezone}): "09:30", "tomorrow 09:30", "2026-03-14 09:30" or an ISO timestamp. Omit to publish now.`,
+            },
+        },
+        required: ["post_id"],
+    },
+    requiresConfirmation: true,
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const postId = input.post_id as number;
+        const atText = input.at as string | undefined;
+
+        try {
+            if (atText) {
+                const at = parseUserTime(atText, config.postTimezone);
+                if (!at) return JSON.stringify({ error: `Could not understand the time "${atText}".` });
+
+                await schedulePostPublish(userId, postId, at);
+                return JSON.stringify({
+                    success: true,
+                    message: `Post #${postId} will be published at ${formatInTimeZone(at, config.postTimezone)} (${config.postTimezone}).`,
+                });
+            }
+
+            const post = await publishPost(userId, postId);
+            return JSON.stringify({
+                success: true,
+                message: `Post #${postId} published.`,
+                external_urn: post.external_urn,
+                url: post.external_url,
+            });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: unschedule_post ───────────────────────────────────────────
+registerTool({
+    name: "unschedule_post",
+    description: "Cancels the scheduled publishing of a post. The post stays approved.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            post_id: { type: "number", description: "ID of the scheduled post." },
+        },
+        required: ["post_id"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const postId = input.post_id as number;
+
+        try {
+            await cancelScheduledPublish(userId, postId);
+            return JSON.stringify({ success: true, message: `Post #${postId} is no longer scheduled.` });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
@@ -1,83 +1,46 @@
-import { registerTool } from "./index.js";
-import { supabase } from "../supabase.js";
-
-// ─── Andrew Ng default style (auto-seeded) ───────────────────────────
-const ANDREW_NG_STYLE = `STYLE NAME: Andrew Ng — Warm Thought Leader
-
-STRUCTURE:
-- Use the "Hook → Insight → CTA" framework for every post.
-- Open with a bold, one-line hook that stops the scroll (max 2 lines before "see more").
-- Leave an empty line after the hook to force the "see more" click.
-- Use very short paragraphs — one sentence per line.
-- Use numbered lists (1️⃣, 2️⃣, etc.) for key insights (typically 3-5 points).
-- Each numbered point has a bold header followed by a brief explanation.
-- End with a single-line takeaway or reframe.
-- Close with an open-ended engagement question + 👇 emoji.
-- Add 3-5 relevant hashtags at the very end.
-
-TONE:
-- Warm, mentor-like, and inclusive. Like a respected professor sharing wisdom over coffee.
-- Forward-looking and optimistic, but honest about challenges.
-- Confident without being arrogant. Use "I believe" and "Here's what I've learned."
-- Accessible — avoid jargon. If a concept is complex, simplify it with an analogy.
-- Personal when possible — reference your own experience or perspective.
-
-FORMATTING:
-- Line break after every sentence.
-- Moderate emoji use: numbered emojis (1️⃣-5️⃣) and a single 👇 at the end. No excessive emojis.
-- Bold keywords and key phrases for scannability.
-- No walls of text — if it looks dense, break it up.
-- Keep total length to 150-250 words (sweet spot for engagement).
-
-VIRAL FORMULAS TO ROTATE:
-1. "I was wrong about..." (Vulnerability + Learning)
-2. "Stop doing X, do Y instead" (Contrarian Advice)
-3. "Here's what [complex thing] actually means" (Simplification)
-4. "Behind the scenes of [achievement]" (Insider Story)
-5. "The real reason [trend] is happening" (Framework Post)
-6. "X years ago I [struggled]. Here's what happened." (Journey Arc)
-
-RULES:
-- The first 2 lines MUST create curiosity or tension (this triggers the "see more" click — LinkedIn's algorithm treats this as engagement).
-- Never start with "I'm excited to announce" or "I'm thrilled" — these are LinkedIn clichés.
-- Always end with a question that invites the audience to share their perspective.
-- Save the strongest insight for last in numbered lists.
-- When referencing a person's professional title or company, make it feel natural, not name-droppy.`;
+import { registerTool, type ToolContext } from "./index.js";
+import { db } from "../db.js";
+import { getSlot } from "../content_calendar.js";
+import {
+    assignToSlot,
+    getActiveStyle,
+    listAssignments,
+    removeAssignment,
+    resolvePostSettings,
+    setAssignment,
+    type AssignmentScope,
+    type SettingNames,
+} from "../post_styles.js";
 
 // ─── Tool: get_linkedin_style ────────────────────────────────────────
 registerTool({
     name: "get_linkedin_style",
     description:
-        "Retrieves the currently active LinkedIn writing style guide. ALWAYS call this before writing any LinkedIn post. If no style exists, the Andrew Ng default will be auto-seeded.",
+        "Retrieves the LinkedIn writing style guide to write with: the active (default) style, or — with slot_id — the style assigned to that calendar slot's topic, pillar or weekday. ALWAYS call this before writing any LinkedIn post. If no style exists, the Andrew Ng default will be auto-seeded.",
     inputSchema: {
         type: "object" as const,
-        properties: {},
+        properties: {
+            slot_id: {
+                type: "number",
+                description: "Calendar slot the post is for; its assigned style is returned.",
+            },
+        },
         required: [],
     },
-    async execute(): Promise<string> {
-        // Try to find active style
-        let { data: style } = await supabase
-            .from("linkedin_styles")
-            .select("id, name, style_guide")
-            .eq("is_active", true)
-            .limit(1)
-            .maybeSingle();
-
-        // Auto-seed if table is empty
-        if (!style) {
-            const { count } = await supabase
-                .from("linkedin_styles")
-                .select("*", { count: "exact", head: true });
-
-            if (count === 0) {
-                const { data: seeded } = await supabase
-                    .from("linkedin_styles")
-                    .insert({ name: "andrew_ng", style_guide: ANDREW_NG_STYLE, is_active: true })
-                    .select("id, name, style_guide")
-                    .single();
-
-                style = seeded;
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const slotId = input.slot_id as number | undefined;
+        let style;
+        let source = "default";
+        try {
+            if (slotId !== undefined) {
+                const settings = await resolvePostSettings(await getSlot(userId, slotId));
+                style = settings.style;
+                source = settings.sources.style;
+            } else {
+                style = await getActiveStyle(userId);
             }
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
         }
 
         if (!style) {
@@ -88,6 +51,7 @@ registerTool({
 
         return JSON.stringify({
             name: style.name,
+            ...(slotId !== undefined ? { assigned_by: source } : {}),
             style_guide: style.style_guide,
             instruction:
                 "Apply this style naturally when writing the LinkedIn post. Internalize the patterns — don't copy the template verbatim.",
@@ -99,7 +63,7 @@ registerTool({
 registerTool({
     name: "save_linkedin_style",
     description:
-        "Saves a new LinkedIn writing style guide and sets it as the active style. If a style with the same name exists, it will be updated. Only one style can be active at a time.",
+        "Saves a new LinkedIn writing style guide and sets it as the active style. If a style with the same name exists, it will be updated. The active style is the default; other styles are used where assigned with assign_post_style.",
     inputSchema: {
         type: "object" as const,
         properties: {
@@ -121,29 +85,31 @@ registerTool({
         },
         required: ["name", "style_guide"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const name = input.name as string;
         const styleGuide = input.style_guide as string;
         const setActive = (input.set_active as boolean) ?? true;
 
         // Upsert the style
-        await supabase
+        await db
             .from("linkedin_styles")
             .upsert(
                 {
+                    user_id: userId,
                     name,
                     style_guide: styleGuide,
                     is_active: setActive,
                     updated_at: new Date().toISOString(),
                 },
-                { onConflict: "name" }
+                { onConflict: "user_id,name" }
             );
 
         // If setting active, deactivate all others
         if (setActive) {
-            await supabase
+            await db
                 .from("linkedin_styles")
                 .update({ is_active: false })
+                .eq("user_id", userId)
                 .neq("name", name);
         }
 
@@ -163,10 +129,11 @@ registerTool({
         properties: {},
         required: [],
     },
-    async execute(): Promise<string> {
-        const { data: styles } = await supabase
+    async execute(_input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const { data: styles } = await db
             .from("linkedin_styles")
             .select("id, name, is_active, created_at")
+            .eq("user_id", userId)
             .order("name");
 
         if (!styles || styles.length === 0) {
@@ -185,3 +152,110 @@ registerTool({
         });
     },
 });
+
+// ─── Tool: assign_post_style ─────────────────────────────────────────
+registerTool({
+    name: "assign_post_style",
+    description:
+        "Chooses the style guide and/or template that scheduled LinkedIn posts are written with — for one topic (calendar slot), a content pillar (topic theme) or a weekday. The most specific assignment wins: topic, then pillar, then weekday, then the active style and default template. A variant_style makes the post be written twice (A in the style, B in the variant style) for the user to pick one. Pass an empty string to clear a field.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            scope: { type: "string", enum: ["topic", "pillar", "weekday"], description: "What the assignment applies to." },
+            slot_id: { type: "number", description: "For scope topic: the calendar slot." },
+            value: {
+                type: "string",
+                description: 'For scope pillar: the theme, e.g. "AI strategy". For scope weekday: the day, e.g. "Friday".',
+            },
+            style: { type: "string", description: "Style name (see list_linkedin_styles)." },
+            template: { type: "string", description: "Template name (see list_templates)." },
+            variant_style: { type: "string", description: "Style of the B variant for A/B drafts." },
+        },
+        required: ["scope"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const scope = input.scope as AssignmentScope | "topic";
+        const names: SettingNames = {};
+        if (typeof input.style === "string") names.style = input.style || null;
+        if (typeof input.template === "string") names.template = input.template || null;
+        if (typeof input.variant_style === "string") names.variantStyle = input.variant_style || null;
+        if (Object.keys(names).length === 0) {
+            return JSON.stringify({ error: "Give a style, template or variant_style to assign." });
+        }
+
+        try {
+            if (scope === "topic") {
+                const slotId = input.slot_id as number | undefined;
+                if (slotId === undefined) return JSON.stringify({ error: "slot_id is required for scope topic." });
+                await assignToSlot(userId, slotId, names);
+                const settings = await resolvePostSettings(await getSlot(userId, slotId));
+                return JSON.stringify({
+                    success: true,
+                    slot_id: slotId,
+                    style: settings.style?.name ?? null,
+                    template: settings.template?.name ?? null,
+                    variant_style: settings.variantStyle?.name ?? null,
+                    sources: settings.sources,
+                });
+            }
+
+            const value = input.value as string | undefined;
+            if (!value) return JSON.stringify({ error: `value is required for scope ${scope}.` });
+            const assignment = await setAssignment(userId, scope, value, names);
+            return JSON.stringify({ success: true, assignment });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: remove_style_assignment ───────────────────────────────────
+registerTool({
+    name: "remove_style_assignment",
+    description:
+        "Removes the style/template assignment of a content pillar or weekday, so its posts fall back to the next rule. (Clear a topic's own assignment with assign_post_style and empty strings.)",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            scope: { type: "string", enum: ["pillar", "weekday"] },
+            value: { type: "string", description: "The pillar (theme) or weekday." },
+        },
+        required: ["scope", "value"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        try {
+            const removed = await removeAssignment(userId, input.scope as AssignmentScope, input.value as string);
+            return JSON.stringify(
+                removed
+                    ? { success: true, message: `Assignment for ${input.scope} "${input.value}" removed.` }
+                    : { error: `No assignment for ${input.scope} "${input.value}".` }
+            );
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: list_style_assignments ────────────────────────────────────
+registerTool({
+    name: "list_style_assignments",
+    description:
+        "Lists which styles, templates and A/B variant styles are assigned to weekdays, content pillars and individual upcoming topics.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {},
+        required: [],
+    },
+    async execute(_input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        try {
+            const [assignments, active] = await Promise.all([listAssignments(userId), getActiveStyle(userId)]);
+            return JSON.stringify({
+                default_style: active?.name ?? null,
+                assignments,
+                ...(assignments.length === 0 ? { message: "Nothing assigned — every post uses the default style and template." } : {}),
+            });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
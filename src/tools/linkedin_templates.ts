@@ -1,5 +1,5 @@
-import { registerTool } from "./index.js";
-import { supabase } from "../supabase.js";
+import { registerTool, type ToolContext } from "./index.js";
+import { db } from "../db.js";
 
 // ─── Tool: save_template ─────────────────────────────────────────────
 registerTool({
@@ -21,13 +21,13 @@ registerTool({
         },
         required: ["name", "content"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const name = input.name as string;
         const content = input.content as string;
 
-        const { error } = await supabase
+        const { error } = await db
             .from("templates")
-            .upsert({ name, content }, { onConflict: "name" });
+            .upsert({ user_id: userId, name, content }, { onConflict: "user_id,name" });
 
         if (error) {
             return JSON.stringify({ error: `Failed to save template: ${error.message}` });
@@ -49,10 +49,11 @@ registerTool({
         properties: {},
         required: [],
     },
-    async execute(): Promise<string> {
-        const { data: templates } = await supabase
+    async execute(_input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const { data: templates } = await db
             .from("templates")
             .select("id, name, content, created_at")
+            .eq("user_id", userId)
             .order("name");
 
         if (!templates || templates.length === 0) {
@@ -80,12 +81,13 @@ registerTool({
         },
         required: ["name"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const name = input.name as string;
 
-        const { data: template } = await supabase
+        const { data: template } = await db
             .from("templates")
             .select("id, name, content")
+            .eq("user_id", userId)
             .eq("name", name)
             .maybeSingle();
 
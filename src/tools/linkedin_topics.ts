@@ -1,31 +1,39 @@
-import { registerTool } from "./index.js";
-import { supabase } from "../supabase.js";
+import { registerTool, type ToolContext } from "./index.js";
+import { config } from "../config.js";
+import {
+    addDays,
+    addSlots,
+    calendarDate,
+    clearDraftSlots,
+    confirmSlots,
+    DAY_NAMES,
+    deleteSlot,
+    getCalendar,
+    listSlots,
+    moveSlot,
+    slotDateTime,
+    swapSlots,
+    updateSlot,
+    weekStartOf,
+    type CalendarSlot,
+    type NewSlot,
+} from "../content_calendar.js";
 
 // ─── Helper: get Monday of the current or next week ──────────────────
 function getWeekStart(nextWeek = false): string {
-    const now = new Date();
-    const day = now.getDay();
-    const diff = day === 0 ? -6 : 1 - day;
-    const monday = new Date(now);
-    monday.setDate(now.getDate() + diff + (nextWeek ? 7 : 0));
-    return monday.toISOString().split("T")[0]!;
+    return addDays(weekStartOf(calendarDate()), nextWeek ? 7 : 0);
 }
 
-const DAY_NAMES = [
-    "Monday",
-    "Tuesday",
-    "Wednesday",
-    "Thursday",
-    "Friday",
-    "Saturday",
-    "Sunday",
-];
+function describeSlot(slot: CalendarSlot): string {
+    const { date, time } = slotDateTime(slot);
+    return `#${slot.id} ${DAY_NAMES[slot.day_index]} ${date} ${time}: ${slot.topic}${slot.theme ? ` [${slot.theme}]` : ""}`;
+}
 
 // ─── Tool: generate_weekly_topics ────────────────────────────────────
 registerTool({
     name: "generate_weekly_topics",
     description:
-        "Saves a list of 5 or 7 LinkedIn post topics for a week. Call this after suggesting topics to the user and they seem satisfied with the initial set. Each topic is saved as a draft that can be refined.",
+        "Saves up to 7 LinkedIn post topics for a week, one per day starting Monday (weekends included). Call this after suggesting topics to the user and they seem satisfied with the initial set. Each topic is saved as a draft calendar slot that can be refined; it replaces the week's earlier drafts. For other dates, several posts a day or planning further ahead, use plan_topics. Before suggesting topics, check get_performance_insights so the plan leans on the themes that performed best.",
     inputSchema: {
         type: "object" as const,
         properties: {
@@ -33,7 +41,13 @@ registerTool({
                 type: "array",
                 items: { type: "string" },
                 description:
-                    "Array of 5-7 topic strings, one per day (index 0=Monday).",
+                    "Array of 1-7 topic strings, one per day (index 0=Monday). Use an empty string to leave a day free.",
+            },
+            themes: {
+                type: "array",
+                items: { type: "string" },
+                description:
+                    'Optional theme per topic, same order (e.g. "leadership", "AI tooling"). Reuse theme names from get_performance_insights so results stay comparable.',
             },
             next_week: {
                 type: "boolean",
@@ -43,47 +57,82 @@ registerTool({
         },
         required: ["topics"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const topics = input.topics as string[];
+        const themes = (input.themes as string[] | undefined) ?? [];
         const nextWeek = (input.next_week as boolean) || false;
         const weekStart = getWeekStart(nextWeek);
 
-        if (topics.length < 5 || topics.length > 7) {
-            return JSON.stringify({ error: "Provide between 5 and 7 topics." });
+        if (topics.length < 1 || topics.length > 7) {
+            return JSON.stringify({ error: "Provide between 1 and 7 topics (one per day, Monday first)." });
         }
 
-        // Clear existing drafts for this week
-        await supabase
-            .from("topics")
-            .delete()
-            .eq("week_start", weekStart)
-            .eq("status", "draft");
-
-        // Insert new drafts
-        const rows = topics.map((topic, i) => ({
-            week_start: weekStart,
-            day_index: i,
-            topic,
-            status: "draft",
-        }));
-
-        const { error } = await supabase.from("topics").insert(rows);
-
-        if (error) {
-            return JSON.stringify({ error: `Failed to save topics: ${error.message}` });
-        }
+        const slots: NewSlot[] = topics
+            .map((topic, i) => ({ date: addDays(weekStart, i), topic, theme: themes[i] }))
+            .filter((slot) => slot.topic.trim());
+
+        try {
+            // Replace the week's earlier drafts
+            await clearDraftSlots(userId, weekStart, addDays(weekStart, 6));
+            const saved = await addSlots(userId, slots);
 
-        const summary = topics
-            .map((t, i) => `${i + 1}. ${DAY_NAMES[i]}: ${t}`)
-            .join("\n");
+            return JSON.stringify({
+                success: true,
+                week_start: weekStart,
+                count: saved.length,
+                status: "draft",
+                message: `Saved ${saved.length} topics as drafts for week of ${weekStart}:\n${saved.map(describeSlot).join("\n")}\n\nAsk the user to confirm or request changes.`,
+            });
+        } catch (err) {
+            return JSON.stringify({ error: `Failed to save topics: ${err instanceof Error ? err.message : String(err)}` });
+        }
+    },
+});
 
-        return JSON.stringify({
-            success: true,
-            week_start: weekStart,
-            count: topics.length,
-            status: "draft",
-            message: `Saved ${topics.length} topics as drafts for week of ${weekStart}:\n${summary}\n\nAsk the user to confirm or request changes.`,
-        });
+// ─── Tool: plan_topics ───────────────────────────────────────────────
+registerTool({
+    name: "plan_topics",
+    description:
+        "Adds LinkedIn topics to the content calendar on any dates and times — several per day, any day of the week, weeks or months ahead. Slots are saved as drafts (confirm them with confirm_topics) unless confirmed is true.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            slots: {
+                type: "array",
+                items: {
+                    type: "object",
+                    properties: {
+                        date: { type: "string", description: "YYYY-MM-DD." },
+                        time: {
+                            type: "string",
+                            description: `HH:MM in ${config.postTimezone} (default ${config.postDeliveryTime}).`,
+                        },
+                        topic: { type: "string" },
+                        theme: { type: "string" },
+                    },
+                    required: ["date", "topic"],
+                },
+                description: "The slots to add.",
+            },
+            confirmed: {
+                type: "boolean",
+                description: "Save the slots as confirmed right away (only when the user already approved them).",
+            },
+        },
+        required: ["slots"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const slots = input.slots as NewSlot[];
+        try {
+            const saved = await addSlots(userId, slots, input.confirmed ? "confirmed" : "draft");
+            return JSON.stringify({
+                success: true,
+                count: saved.length,
+                message: `Added ${saved.length} slot(s):\n${saved.map(describeSlot).join("\n")}`,
+            });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
     },
 });
 
@@ -91,10 +140,14 @@ registerTool({
 registerTool({
     name: "update_topic",
     description:
-        "Updates a specific day's topic. Use when the user wants to change one or more topics.",
+        "Updates a topic. Use when the user wants to change one or more topics. Identify it by slot_id (from the calendar), or by day_index for the first topic of that day.",
     inputSchema: {
         type: "object" as const,
         properties: {
+            slot_id: {
+                type: "number",
+                description: "Calendar slot ID (preferred).",
+            },
             day_index: {
                 type: "number",
                 description: "Day index: 0=Monday, 1=Tuesday, ..., 6=Sunday.",
@@ -103,42 +156,123 @@ registerTool({
                 type: "string",
                 description: "The new topic text.",
             },
+            new_theme: {
+                type: "string",
+                description: "The topic's theme (optional — keeps the current one when omitted).",
+            },
             week_start: {
                 type: "string",
                 description:
                     "ISO date of the week's Monday (optional — defaults to current/upcoming week).",
             },
         },
-        required: ["day_index", "new_topic"],
+        required: ["new_topic"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
-        const dayIndex = input.day_index as number;
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const dayIndex = input.day_index as number | undefined;
         const newTopic = input.new_topic as string;
+        const newTheme = input.new_theme as string | undefined;
         const weekStart = (input.week_start as string) || getWeekStart();
 
-        if (dayIndex < 0 || dayIndex > 6) {
-            return JSON.stringify({ error: "day_index must be 0-6." });
-        }
-
-        const { count, error } = await supabase
-            .from("topics")
-            .update({ topic: newTopic, updated_at: new Date().toISOString() })
-            .eq("week_start", weekStart)
-            .eq("day_index", dayIndex)
-            .eq("status", "draft");
+        try {
+            let slotId = input.slot_id as number | undefined;
+            if (slotId === undefined) {
+                if (dayIndex === undefined || dayIndex < 0 || dayIndex > 6) {
+                    return JSON.stringify({ error: "Give slot_id, or day_index 0-6." });
+                }
+                const date = addDays(weekStart, dayIndex);
+                const [first] = (await listSlots(userId, date, date)).filter((s) => s.status !== "posted");
+                if (!first) {
+                    return JSON.stringify({
+                        error: `No open topic found for ${DAY_NAMES[dayIndex]} (week ${weekStart}). Generate topics first.`,
+                    });
+                }
+                slotId = first.id;
+            }
 
-        if (error || !count) {
+            const slot = await updateSlot(userId, slotId, { topic: newTopic, theme: newTheme });
             return JSON.stringify({
-                error: `No draft topic found for ${DAY_NAMES[dayIndex]} (week ${weekStart}). Generate topics first.`,
+                success: true,
+                slot_id: slot.id,
+                day: DAY_NAMES[slot.day_index],
+                new_topic: slot.topic,
+                message: `Updated topic: ${describeSlot(slot)}`,
             });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
         }
+    },
+});
 
-        return JSON.stringify({
-            success: true,
-            day: DAY_NAMES[dayIndex],
-            new_topic: newTopic,
-            message: `Updated ${DAY_NAMES[dayIndex]}'s topic to: "${newTopic}"`,
-        });
+// ─── Tool: move_topic ────────────────────────────────────────────────
+registerTool({
+    name: "move_topic",
+    description:
+        "Moves a calendar slot to another date and/or time. Give the date, the time or both; the other stays as it is.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            slot_id: { type: "number", description: "Calendar slot ID." },
+            date: { type: "string", description: "New date, YYYY-MM-DD." },
+            time: { type: "string", description: `New time, HH:MM in ${config.postTimezone}.` },
+        },
+        required: ["slot_id"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const date = input.date as string | undefined;
+        const time = input.time as string | undefined;
+        if (!date && !time) return JSON.stringify({ error: "Give a new date, time or both." });
+
+        try {
+            const slot = await moveSlot(userId, input.slot_id as number, date, time);
+            return JSON.stringify({ success: true, message: `Moved: ${describeSlot(slot)}` });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: swap_topics ───────────────────────────────────────────────
+registerTool({
+    name: "swap_topics",
+    description: "Swaps the dates and times of two calendar slots.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            first_slot_id: { type: "number" },
+            second_slot_id: { type: "number" },
+        },
+        required: ["first_slot_id", "second_slot_id"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        try {
+            const swapped = await swapSlots(userId, input.first_slot_id as number, input.second_slot_id as number);
+            return JSON.stringify({ success: true, message: `Swapped:\n${swapped.map(describeSlot).join("\n")}` });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: delete_topic ──────────────────────────────────────────────
+registerTool({
+    name: "delete_topic",
+    description: "Removes a calendar slot that has no post yet.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            slot_id: { type: "number", description: "Calendar slot ID." },
+        },
+        required: ["slot_id"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const slotId = input.slot_id as number;
+        try {
+            await deleteSlot(userId, slotId);
+            return JSON.stringify({ success: true, message: `Slot #${slotId} removed.` });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
     },
 });
 
@@ -146,7 +280,7 @@ registerTool({
 registerTool({
     name: "confirm_topics",
     description:
-        "Marks all draft topics for a week as confirmed. Call this when the user explicitly confirms they're happy with the topic list.",
+        "Marks draft topics as confirmed so they get delivered at their slot time. Call this when the user explicitly confirms they're happy with the topic list. Confirms one week by default, or a date range.",
     inputSchema: {
         type: "object" as const,
         properties: {
@@ -155,40 +289,34 @@ registerTool({
                 description:
                     "ISO date of the week's Monday (optional — defaults to current/upcoming week).",
             },
+            from: { type: "string", description: "Start date (YYYY-MM-DD) of a range to confirm instead of a week." },
+            to: { type: "string", description: "End date (YYYY-MM-DD, inclusive) of the range." },
         },
         required: [],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const weekStart = (input.week_start as string) || getWeekStart();
+        const from = (input.from as string) || weekStart;
+        const to = (input.to as string) || addDays(from, 6);
 
-        const { data: drafts } = await supabase
-            .from("topics")
-            .select("id, day_index, topic")
-            .eq("week_start", weekStart)
-            .eq("status", "draft");
+        try {
+            const confirmed = await confirmSlots(userId, from, to);
+            if (confirmed.length === 0) {
+                return JSON.stringify({
+                    error: `No draft topics found between ${from} and ${to}. Generate topics first.`,
+                });
+            }
 
-        if (!drafts || drafts.length === 0) {
             return JSON.stringify({
-                error: `No draft topics found for week ${weekStart}. Generate topics first.`,
+                success: true,
+                from,
+                to,
+                confirmed_count: confirmed.length,
+                message: `✅ ${confirmed.length} topics confirmed:\n${confirmed.map(describeSlot).join("\n")}\n\nEach post will be delivered at its slot time.`,
             });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
         }
-
-        await supabase
-            .from("topics")
-            .update({ status: "confirmed", updated_at: new Date().toISOString() })
-            .eq("week_start", weekStart)
-            .eq("status", "draft");
-
-        const summary = drafts
-            .map((d: any) => `${DAY_NAMES[d.day_index]}: ${d.topic}`)
-            .join("\n");
-
-        return JSON.stringify({
-            success: true,
-            week_start: weekStart,
-            confirmed_count: drafts.length,
-            message: `✅ ${drafts.length} topics confirmed for week of ${weekStart}:\n${summary}\n\nPosts will be delivered each morning.`,
-        });
     },
 });
 
@@ -208,32 +336,59 @@ registerTool({
         },
         required: [],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const weekStart = (input.week_start as string) || getWeekStart();
 
-        const { data: topics } = await supabase
-            .from("topics")
-            .select("day_index, topic, status")
-            .eq("week_start", weekStart)
-            .order("day_index");
+        try {
+            const topics = await listSlots(userId, weekStart, addDays(weekStart, 6));
+            if (topics.length === 0) {
+                return JSON.stringify({
+                    week_start: weekStart,
+                    topics: [],
+                    message: "No topics found for this week.",
+                });
+            }
+
+            const list = topics.map((t) => ({
+                slot_id: t.id,
+                day: DAY_NAMES[t.day_index],
+                ...slotDateTime(t),
+                topic: t.topic,
+                theme: t.theme,
+                status: t.status,
+            }));
 
-        if (!topics || topics.length === 0) {
             return JSON.stringify({
                 week_start: weekStart,
-                topics: [],
-                message: "No topics found for this week.",
+                topics: list,
             });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
         }
+    },
+});
 
-        const list = topics.map((t: any) => ({
-            day: DAY_NAMES[t.day_index],
-            topic: t.topic,
-            status: t.status,
-        }));
+// ─── Tool: get_content_calendar ──────────────────────────────────────
+registerTool({
+    name: "get_content_calendar",
+    description:
+        "Shows the content calendar: every day in a range with its slots (time, topic, theme, status and the generated post's status) and the empty days. Use it to spot gaps and plan ahead.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            from: { type: "string", description: "Start date, YYYY-MM-DD (default today)." },
+            days: { type: "number", description: "How many days to show (default 14, max 92)." },
+        },
+        required: [],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const from = (input.from as string) || calendarDate();
+        const days = Math.min(Math.max(Math.round((input.days as number) || 14), 1), 92);
 
-        return JSON.stringify({
-            week_start: weekStart,
-            topics: list,
-        });
+        try {
+            return JSON.stringify(await getCalendar(userId, from, addDays(from, days - 1)));
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
     },
 });
@@ -1,4 +1,4 @@
-import { registerTool } from "./index.js";
+import { registerTool, type ToolContext } from "./index.js";
 import fs from "fs";
 import path from "path";
 import { fileURLToPath } from "url";
@@ -13,6 +13,15 @@ if (!fs.existsSync(MEMORY_DIR)) {
     fs.mkdirSync(MEMORY_DIR, { recursive: true });
 }
 
+// Each user gets their own notes folder inside MEMORY_DIR
+function userNotesDir(userId: number): string {
+    const dir = path.join(MEMORY_DIR, String(userId));
+    if (!fs.existsSync(dir)) {
+        fs.mkdirSync(dir, { recursive: true });
+    }
+    return dir;
+}
+
 // ─── Tool: save_note ─────────────────────────────────────────────────
 registerTool({
     name: "save_note",
@@ -37,11 +46,11 @@ registerTool({
         },
         required: ["name", "content"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const name = (input.name as string).replace(/[^a-zA-Z0-9_-]/g, "-");
         const content = input.content as string;
         const append = (input.append as boolean) || false;
-        const filePath = path.join(MEMORY_DIR, `${name}.md`);
+        const filePath = path.join(userNotesDir(userId), `${name}.md`);
 
         if (append && fs.existsSync(filePath)) {
             fs.appendFileSync(filePath, `\n\n${content}`);
@@ -71,9 +80,9 @@ registerTool({
         },
         required: ["name"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const name = (input.name as string).replace(/[^a-zA-Z0-9_-]/g, "-");
-        const filePath = path.join(MEMORY_DIR, `${name}.md`);
+        const filePath = path.join(userNotesDir(userId), `${name}.md`);
 
         if (!fs.existsSync(filePath)) {
             return JSON.stringify({ error: `Note "${name}.md" not found.` });
@@ -93,12 +102,13 @@ registerTool({
         properties: {},
         required: [],
     },
-    async execute(): Promise<string> {
+    async execute(_input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const notesDir = userNotesDir(userId);
         const files = fs
-            .readdirSync(MEMORY_DIR)
+            .readdirSync(notesDir)
             .filter((f) => f.endsWith(".md"))
             .map((f) => {
-                const stats = fs.statSync(path.join(MEMORY_DIR, f));
+                const stats = fs.statSync(path.join(notesDir, f));
                 return {
                     name: f,
                     size: `${(stats.size / 1024).toFixed(1)}KB`,
@@ -107,7 +117,7 @@ registerTool({
             });
 
         return JSON.stringify({
-            directory: MEMORY_DIR,
+            directory: notesDir,
             notes: files,
             count: files.length,
         });
@@ -126,16 +136,17 @@ registerTool({
         },
         required: ["query"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const query = (input.query as string).toLowerCase();
         const results: Array<{ file: string; matches: string[] }> = [];
 
+        const notesDir = userNotesDir(userId);
         const files = fs
-            .readdirSync(MEMORY_DIR)
+            .readdirSync(notesDir)
             .filter((f) => f.endsWith(".md"));
 
         for (const file of files) {
-            const content = fs.readFileSync(path.join(MEMORY_DIR, file), "utf-8");
+            const content = fs.readFileSync(path.join(notesDir, file), "utf-8");
             const lines = content.split("\n");
             const matches = lines.filter((l) => l.toLowerCase().includes(query));
             if (matches.length > 0) {
@@ -158,9 +169,10 @@ registerTool({
         },
         required: ["name"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    requiresConfirmation: true,
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const name = (input.name as string).replace(/[^a-zA-Z0-9_-]/g, "-");
-        const filePath = path.join(MEMORY_DIR, `${name}.md`);
+        const filePath = path.join(userNotesDir(userId), `${name}.md`);
 
         if (!fs.existsSync(filePath)) {
             return JSON.stringify({ error: `Note "${name}.md" not found.` });
@@ -1,18 +1,7 @@
-import { registerTool } from "./index.js";
-import { supabase } from "../supabase.js";
-
-// Escape special Postgres LIKE characters to prevent pattern injection
-function sanitizeLike(input: string): string {
-    return input.replace(/[%_\\]/g, (c) => `\\${c}`);
-}
-
-function wordOverlap(a: string, b: string): number {
-    const wordsA = new Set(a.toLowerCase().split(/\s+/));
-    const wordsB = new Set(b.toLowerCase().split(/\s+/));
-    const intersection = new Set([...wordsA].filter((w) => wordsB.has(w)));
-    const union = new Set([...wordsA, ...wordsB]);
-    return union.size === 0 ? 0 : intersection.size / union.size;
-}
+import { registerTool, type ToolContext } from "./index.js";
+import { db } from "../db.js";
+import { rememberFact, type RememberResult } from "../facts.js";
+import { invalidateMemoryCache, retrieveMemories } from "../memory_retrieval.js";
 
 // ─── Tool: remember ──────────────────────────────────────────────────
 registerTool({
@@ -34,53 +23,39 @@ registerTool({
         },
         required: ["content"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const content = input.content as string;
         const category = (input.category as string) || "general";
 
-        // Check for duplicates before inserting
-        const { data: existing } = await supabase
-            .from("memories")
-            .select("id, content")
-            .eq("category", category);
-
-        if (existing && existing.length > 0) {
-            for (const mem of existing) {
-                const sim = wordOverlap(content, mem.content as string);
-                if (sim > 0.7) {
-                    // Update the existing memory instead of creating a duplicate
-                    const { error } = await supabase
-                        .from("memories")
-                        .update({ content, last_accessed: new Date().toISOString() })
-                        .eq("id", mem.id);
-
-                    if (error) {
-                        return JSON.stringify({ error: `Failed to update memory: ${error.message}` });
-                    }
-
-                    return JSON.stringify({
-                        success: true,
-                        id: mem.id,
-                        message: `Updated existing memory #${mem.id} (${Math.round(sim * 100)}% similar) [${category}]`,
-                    });
-                }
-            }
+        let result: RememberResult;
+        try {
+            result = await rememberFact(userId, content, category);
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
         }
 
-        const { data, error } = await supabase
-            .from("memories")
-            .insert({ content, category })
-            .select("id")
-            .single();
-
-        if (error) {
-            return JSON.stringify({ error: `Failed to save memory: ${error.message}` });
+        if (result.rewritten) {
+            return JSON.stringify({
+                success: true,
+                id: result.id,
+                message: `Updated existing memory #${result.id} (${Math.round(result.rewritten.overlap * 100)}% similar) [${category}]`,
+            });
         }
 
+        const { contradictions } = result;
         return JSON.stringify({
             success: true,
-            id: data.id,
+            id: result.id,
             message: `Remembered: "${content}" [${category}]`,
+            ...(contradictions.memories.length > 0
+                ? { superseded_memories: contradictions.memories }
+                : {}),
+            ...(contradictions.profile.length > 0
+                ? {
+                    outdated_profile: contradictions.profile,
+                    hint: "These profile facts contradict the new memory — update them with set_profile.",
+                }
+                : {}),
         });
     },
 });
@@ -89,7 +64,7 @@ registerTool({
 registerTool({
     name: "search_memory",
     description:
-        "Search through saved memories using text search. Use this to recall facts about the user, their preferences, past conversations, or any stored information.",
+        "Search saved memories by keywords and meaning (full-text + semantic), ranked by how well they match and how relevant they have been. Use this to recall facts about the user, their preferences, past conversations, or any stored information.",
     inputSchema: {
         type: "object" as const,
         properties: {
@@ -108,34 +83,31 @@ registerTool({
         },
         required: ["query"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const query = input.query as string;
         const category = input.category as string | undefined;
         const limit = (input.limit as number) || 10;
 
-        // Use Postgres text search with ilike as fallback
-        let q = supabase
-            .from("memories")
-            .select("id, content, category, created_at")
-            .ilike("content", `%${sanitizeLike(query)}%`)
-            .order("created_at", { ascending: false })
-            .limit(limit);
-
-        if (category) {
-            q = q.eq("category", category);
-        }
-
-        const { data: results, error } = await q;
-
-        if (error) {
-            return JSON.stringify({ error: `Search failed: ${error.message}` });
+        try {
+            const memories = await retrieveMemories(userId, query, { limit, category });
+            const results = memories.map((m) => ({
+                id: m.id,
+                content: m.content,
+                category: m.category,
+                created_at: m.created_at,
+                score: Math.round(m.score * 1000) / 1000,
+            }));
+
+            return JSON.stringify({
+                query,
+                results,
+                count: results.length,
+            });
+        } catch (err) {
+            return JSON.stringify({
+                error: err instanceof Error ? err.message : String(err),
+            });
         }
-
-        return JSON.stringify({
-            query,
-            results: results ?? [],
-            count: results?.length ?? 0,
-        });
     },
 });
 
@@ -143,7 +115,7 @@ registerTool({
 registerTool({
     name: "list_memories",
     description:
-        "List recent memories, optionally filtered by category. Use when the user asks what you know or remember.",
+        "List recent memories, optionally filtered by category. Use when the user asks what you know or remember. Set include_superseded to also see outdated facts (with when they stopped being true and which memory replaced them).",
     inputSchema: {
         type: "object" as const,
         properties: {
@@ -155,22 +127,35 @@ registerTool({
                 type: "number",
                 description: "Max results (default: 20).",
             },
+            include_superseded: {
+                type: "boolean",
+                description: "Include memories replaced by newer facts (default: false).",
+            },
         },
         required: [],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const category = input.category as string | undefined;
         const limit = (input.limit as number) || 20;
+        const includeSuperseded = input.include_superseded === true;
 
-        let q = supabase
+        let q = db
             .from("memories")
-            .select("id, content, category, created_at")
+            .select(
+                includeSuperseded
+                    ? "id, content, category, created_at, valid_from, valid_to, superseded_by"
+                    : "id, content, category, created_at"
+            )
+            .eq("user_id", userId)
             .order("created_at", { ascending: false })
             .limit(limit);
 
         if (category) {
             q = q.eq("category", category);
         }
+        if (!includeSuperseded) {
+            q = q.is("valid_to", null);
+        }
 
         const { data: results } = await q;
 
@@ -196,17 +181,20 @@ registerTool({
         },
         required: ["id"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    requiresConfirmation: true,
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const id = input.id as number;
 
-        const { error, count } = await supabase
+        const { error, count } = await db
             .from("memories")
             .delete({ count: "exact" })
-            .eq("id", id);
+            .eq("id", id)
+            .eq("user_id", userId);
 
         if (error || count === 0) {
             return JSON.stringify({ error: `No memory found with ID ${id}.` });
         }
+        invalidateMemoryCache(userId);
 
         return JSON.stringify({
             success: true,
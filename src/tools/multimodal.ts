@@ -1,5 +1,7 @@
-import { registerTool } from "./index.js";
-import { supabase } from "../supabase.js";
+import { registerTool, type ToolContext } from "./index.js";
+import { db } from "../db.js";
+import { embeddingColumns } from "../embeddings.js";
+import { invalidateMemoryCache } from "../memory_retrieval.js";
 
 function sanitizeLike(input: string): string {
     return input.replace(/[%_\\]/g, (c) => `\\${c}`);
@@ -28,7 +30,7 @@ registerTool({
         },
         required: ["image_description"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const description = input.image_description as string;
         const context = (input.context as string) || "";
 
@@ -36,13 +38,19 @@ registerTool({
             ? `[Image] ${description} — Context: ${context}`
             : `[Image] ${description}`;
 
-        const { error } = await supabase
+        const { error } = await db
             .from("memories")
-            .insert({ content: memoryContent, category: "visual" });
+            .insert({
+                user_id: userId,
+                content: memoryContent,
+                category: "visual",
+                ...(await embeddingColumns(memoryContent)),
+            });
 
         if (error) {
             return JSON.stringify({ error: `Failed to store image memory: ${error.message}` });
         }
+        invalidateMemoryCache(userId);
 
         return JSON.stringify({
             success: true,
@@ -70,17 +78,24 @@ registerTool({
         },
         required: ["transcription"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const transcription = input.transcription as string;
         const source = (input.source as string) || "voice_message";
 
-        const { error } = await supabase
+        const memoryContent = `[Audio/${source}] ${transcription}`;
+        const { error } = await db
             .from("memories")
-            .insert({ content: `[Audio/${source}] ${transcription}`, category: "audio" });
+            .insert({
+                user_id: userId,
+                content: memoryContent,
+                category: "audio",
+                ...(await embeddingColumns(memoryContent)),
+            });
 
         if (error) {
             return JSON.stringify({ error: `Failed to store audio memory: ${error.message}` });
         }
+        invalidateMemoryCache(userId);
 
         return JSON.stringify({
             success: true,
@@ -109,7 +124,7 @@ registerTool({
         },
         required: ["filename", "content"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const filename = input.filename as string;
         const content = input.content as string;
         const summary = (input.summary as string) || "";
@@ -118,13 +133,19 @@ registerTool({
             ? `[Document: ${filename}] ${summary}\n\nKey content: ${content.slice(0, 1000)}`
             : `[Document: ${filename}] ${content.slice(0, 2000)}`;
 
-        const { error } = await supabase
+        const { error } = await db
             .from("memories")
-            .insert({ content: memoryContent, category: "document" });
+            .insert({
+                user_id: userId,
+                content: memoryContent,
+                category: "document",
+                ...(await embeddingColumns(memoryContent)),
+            });
 
         if (error) {
             return JSON.stringify({ error: `Failed to store document: ${error.message}` });
         }
+        invalidateMemoryCache(userId);
 
         return JSON.stringify({
             success: true,
@@ -150,13 +171,14 @@ registerTool({
         },
         required: ["query"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const query = input.query as string;
         const mediaType = (input.media_type as string) || "all";
 
-        let q = supabase
+        let q = db
             .from("memories")
             .select("id, content, category, created_at")
+            .eq("user_id", userId)
             .ilike("content", `%${sanitizeLike(query)}%`)
             .order("created_at", { ascending: false })
             .limit(10);
@@ -1,5 +1,5 @@
-import { registerTool } from "./index.js";
-import { supabase } from "../supabase.js";
+import { registerTool, type ToolContext } from "./index.js";
+import { db } from "../db.js";
 
 // ─── Onboarding questionnaire (inspired by Mem, Notion AI, Reflect) ──
 const ONBOARDING_SECTIONS = [
@@ -114,10 +114,11 @@ registerTool({
         properties: {},
         required: [],
     },
-    async execute(): Promise<string> {
-        const { data: existingKeys } = await supabase
+    async execute(_input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const { data: existingKeys } = await db
             .from("profile")
-            .select("key");
+            .select("key")
+            .eq("user_id", userId);
 
         const filledKeys = new Set((existingKeys ?? []).map((r: any) => r.key as string));
 
@@ -136,9 +137,10 @@ registerTool({
         }
 
         if (remaining.length === 0) {
-            const { data: profile } = await supabase
+            const { data: profile } = await db
                 .from("profile")
                 .select("key, value")
+                .eq("user_id", userId)
                 .order("key");
 
             return JSON.stringify({
@@ -181,10 +183,11 @@ registerTool({
         properties: {},
         required: [],
     },
-    async execute(): Promise<string> {
-        const { data: existingKeys } = await supabase
+    async execute(_input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const { data: existingKeys } = await db
             .from("profile")
-            .select("key");
+            .select("key")
+            .eq("user_id", userId);
 
         const filledKeys = new Set((existingKeys ?? []).map((r: any) => r.key as string));
 
@@ -0,0 +1,142 @@
+import { registerTool, type ToolContext } from "./index.js";
+import {
+    buildPerformanceReport,
+    getPerformanceInsights,
+    importMetricsCsv,
+    metricsSyncAvailable,
+    recordPostMetrics,
+    syncLinkedInMetrics,
+    type PostMetrics,
+    type ReportPeriod,
+} from "../post_metrics.js";
+
+// ─── Tool: record_post_metrics ───────────────────────────────────────
+registerTool({
+    name: "record_post_metrics",
+    description:
+        "Records how a published LinkedIn post performed: impressions, reactions, comments and reposts. Use when the user tells you the numbers. Omitted numbers keep their last known value.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            post_id: { type: "number", description: "ID of the published post." },
+            impressions: { type: "number", description: "Impressions (views)." },
+            reactions: { type: "number", description: "Reactions (likes etc.)." },
+            comments: { type: "number", description: "Comments." },
+            reposts: { type: "number", description: "Reposts." },
+        },
+        required: ["post_id"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const postId = input.post_id as number;
+        const metrics: Partial<PostMetrics> = {};
+        for (const key of ["impressions", "reactions", "comments", "reposts"] as const) {
+            if (typeof input[key] === "number") metrics[key] = input[key] as number;
+        }
+
+        try {
+            const saved = await recordPostMetrics(userId, postId, metrics, "manual");
+            return JSON.stringify({ success: true, message: `Metrics for post #${postId} saved.`, metrics: saved });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: import_post_metrics ───────────────────────────────────────
+registerTool({
+    name: "import_post_metrics",
+    description:
+        "Imports post metrics from CSV text (LinkedIn's analytics export, or rows with Post ID, Impressions, Reactions, Comments, Reposts). CSV files the user sends are imported automatically; use this for CSV pasted into the chat.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            csv: { type: "string", description: "The CSV text, including the header row." },
+        },
+        required: ["csv"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        try {
+            const result = await importMetricsCsv(userId, input.csv as string);
+            return JSON.stringify({ success: true, ...result });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: sync_post_metrics ─────────────────────────────────────────
+registerTool({
+    name: "sync_post_metrics",
+    description:
+        "Fetches the latest metrics of posts published through the LinkedIn API (runs daily on its own). Only available when LinkedIn analytics are enabled.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {},
+        required: [],
+    },
+    async execute(_input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        if (!metricsSyncAvailable()) {
+            return JSON.stringify({
+                error: "Reading metrics from LinkedIn is off (PUBLISHER=linkedin and LINKEDIN_ANALYTICS=true). Ask the user for the numbers or a CSV export.",
+            });
+        }
+        try {
+            const updated = await syncLinkedInMetrics(userId);
+            return JSON.stringify({ success: true, updated_posts: updated });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: get_performance_report ────────────────────────────────────
+registerTool({
+    name: "get_performance_report",
+    description:
+        "LinkedIn performance of the last 7 (week) or 30 (month) days compared with the period before: totals, engagement rate and each post's numbers.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            period: { type: "string", enum: ["week", "month"], description: 'Default "week".' },
+        },
+        required: [],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const period = ((input.period as string) === "month" ? "month" : "week") as ReportPeriod;
+        try {
+            return JSON.stringify(await buildPerformanceReport(userId, period));
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: get_performance_insights ──────────────────────────────────
+registerTool({
+    name: "get_performance_insights",
+    description:
+        "Which themes, templates and styles performed best across all measured posts, plus the best and worst posts. Call this before suggesting weekly topics.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {},
+        required: [],
+    },
+    async execute(_input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        try {
+            const insights = await getPerformanceInsights(userId);
+            if (insights.posts_with_metrics === 0) {
+                return JSON.stringify({
+                    ...insights,
+                    message: "No post metrics recorded yet — plan from the user's interests and trends instead.",
+                });
+            }
+            return JSON.stringify({
+                ...insights,
+                instruction:
+                    "Favor the themes, templates and styles with the highest engagement rate; treat groups with only one or two posts as weak evidence and keep some variety.",
+            });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
@@ -1,5 +1,7 @@
-import { registerTool } from "./index.js";
-import { supabase } from "../supabase.js";
+import { registerTool, type ToolContext } from "./index.js";
+import { db } from "../db.js";
+import { getProfileHistory } from "../fact_versioning.js";
+import { setProfileFact, type ProfileUpdate } from "../facts.js";
 
 // ─── Tool: set_profile ───────────────────────────────────────────────
 registerTool({
@@ -21,24 +23,28 @@ registerTool({
         },
         required: ["key", "value"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
-        const key = (input.key as string).toLowerCase().trim();
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const value = input.value as string;
 
-        const { error } = await supabase
-            .from("profile")
-            .upsert(
-                { key, value, updated_at: new Date().toISOString() },
-                { onConflict: "key" }
-            );
+        let update: ProfileUpdate;
+        try {
+            update = await setProfileFact(userId, input.key as string, value);
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
 
-        if (error) {
-            return JSON.stringify({ error: `Profile update failed: ${error.message}` });
+        if (!update.changed) {
+            return JSON.stringify({
+                success: true,
+                message: `Profile unchanged: ${update.key} = "${value}"`,
+            });
         }
 
         return JSON.stringify({
             success: true,
-            message: `Profile updated: ${key} = "${value}"`,
+            message: `Profile updated: ${update.key} = "${value}"`,
+            ...(update.previousValue !== null ? { previous_value: update.previousValue } : {}),
+            ...(update.superseded.length > 0 ? { superseded_memories: update.superseded } : {}),
         });
     },
 });
@@ -59,13 +65,14 @@ registerTool({
         },
         required: [],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const key = input.key as string | undefined;
 
         if (key) {
-            const { data: row } = await supabase
+            const { data: row } = await db
                 .from("profile")
                 .select("key, value, updated_at")
+                .eq("user_id", userId)
                 .eq("key", key)
                 .maybeSingle();
 
@@ -75,9 +82,10 @@ registerTool({
             return JSON.stringify({ profile: row });
         }
 
-        const { data: rows } = await supabase
+        const { data: rows } = await db
             .from("profile")
             .select("key, value, updated_at")
+            .eq("user_id", userId)
             .order("key");
 
         if (!rows || rows.length === 0) {
@@ -96,3 +104,48 @@ registerTool({
         return JSON.stringify({ profile });
     },
 });
+
+// ─── Tool: get_profile_history ───────────────────────────────────────
+registerTool({
+    name: "get_profile_history",
+    description:
+        "Show how the user's profile changed over time — every value a profile key has had, with when it was valid. Use when the user asks about past roles, companies, locations, or what changed.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            key: {
+                type: "string",
+                description: "Optional profile key (e.g. \"company\"). Omit for the history of all keys.",
+            },
+        },
+        required: [],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const key = (input.key as string | undefined)?.toLowerCase().trim();
+
+        try {
+            const versions = await getProfileHistory(userId, key);
+            if (versions.length === 0) {
+                return JSON.stringify({
+                    error: key ? `No history for profile key "${key}".` : "No profile history yet.",
+                });
+            }
+
+            // Group versions by key, oldest first; valid_to null marks the current value
+            const history: Record<string, Array<{ value: string; valid_from: string; valid_to: string | null }>> = {};
+            for (const v of versions) {
+                (history[v.key] ??= []).push({
+                    value: v.value,
+                    valid_from: v.valid_from,
+                    valid_to: v.valid_to,
+                });
+            }
+
+            return JSON.stringify({ history });
+        } catch (err) {
+            return JSON.stringify({
+                error: err instanceof Error ? err.message : String(err),
+            });
+        }
+    },
+});
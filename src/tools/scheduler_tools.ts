@@ -1,53 +1,54 @@
-import { registerTool } from "./index.js";
-import { supabase } from "../supabase.js";
+import { registerTool, type ToolContext } from "./index.js";
+import { db } from "../db.js";
 import cron from "node-cron";
 import { runAgent } from "../agent.js";
 import { bot } from "../bot.js";
 import { config } from "../config.js";
+import { scheduleLedgerJob } from "../job_ledger.js";
 
 // ─── Active task jobs ────────────────────────────────────────────────
 const activeTaskJobs = new Map<number, cron.ScheduledTask>();
 
-// ─── Helper: send to user ────────────────────────────────────────────
-async function sendToUser(message: string): Promise<void> {
-    for (const userId of config.allowedUserIds) {
-        try {
-            if (message.length <= 4096) {
-                await bot.api.sendMessage(userId, message, { parse_mode: "Markdown" });
-            } else {
-                await bot.api.sendMessage(userId, message.slice(0, 4096));
-            }
-        } catch (err) {
-            console.error(`Failed to send scheduled task message:`, err);
+// ─── Helper: send to the chat the task was created in ────────────────
+async function sendToChat(chatId: number, message: string): Promise<void> {
+    try {
+        if (message.length <= 4096) {
+            await bot.api.sendMessage(chatId, message, { parse_mode: "Markdown" });
+        } else {
+            await bot.api.sendMessage(chatId, message.slice(0, 4096));
         }
+    } catch (err) {
+        console.error(`Failed to send scheduled task message:`, err);
     }
 }
 
 // ─── Start a cron job for a task ─────────────────────────────────────
+// Runs go through the job ledger: once per run across instances, and a
+// run missed while the bot was down is caught up when resuming
 function startTaskJob(
     id: number,
     name: string,
     cronExpr: string,
-    prompt: string
+    prompt: string,
+    context: ToolContext,
+    catchUp = false
 ): void {
-    const timezone = process.env.POST_TIMEZONE || "Europe/Berlin";
-
-    const job = cron.schedule(
-        cronExpr,
-        async () => {
-            console.log(`⏰ Running scheduled task: ${name}`);
-            try {
-                const result = await runAgent(prompt);
-                await sendToUser(`⏰ **Scheduled: ${name}**\n\n${result}`);
-                await supabase
+    const job = scheduleLedgerJob(
+        {
+            name: `task:${id}`,
+            cron: cronExpr,
+            timezone: config.postTimezone,
+            run: async () => {
+                console.log(`⏰ Running scheduled task: ${name}`);
+                const result = await runAgent(prompt, context);
+                await sendToChat(context.chatId, `⏰ **Scheduled: ${name}**\n\n${result}`);
+                await db
                     .from("scheduled_tasks")
                     .update({ last_run: new Date().toISOString() })
                     .eq("id", id);
-            } catch (err) {
-                console.error(`❌ Scheduled task "${name}" failed:`, err);
-            }
+            },
         },
-        { timezone }
+        { catchUp }
     );
 
     activeTaskJobs.set(id, job);
@@ -55,18 +56,21 @@ function startTaskJob(
 
 // ─── Resume existing tasks on startup (async IIFE) ───────────────────
 (async () => {
-    const { data: existingTasks } = await supabase
+    const { data: existingTasks } = await db
         .from("scheduled_tasks")
-        .select("id, name, cron, prompt")
+        .select("id, user_id, chat_id, name, cron, prompt")
         .eq("enabled", true);
 
     for (const task of existingTasks ?? []) {
         if (cron.validate(task.cron as string)) {
+            const userId = task.user_id as number;
             startTaskJob(
                 task.id as number,
                 task.name as string,
                 task.cron as string,
-                task.prompt as string
+                task.prompt as string,
+                { userId, chatId: (task.chat_id as number | null) ?? userId },
+                true
             );
             console.log(`  📋 Resumed task: ${task.name} (${task.cron})`);
         }
@@ -94,7 +98,7 @@ registerTool({
         },
         required: ["name", "cron", "prompt"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, context: ToolContext): Promise<string> {
         const name = input.name as string;
         const cronExpr = input.cron as string;
         const prompt = input.prompt as string;
@@ -105,9 +109,15 @@ registerTool({
             });
         }
 
-        const { data, error } = await supabase
+        const { data, error } = await db
             .from("scheduled_tasks")
-            .insert({ name, cron: cronExpr, prompt })
+            .insert({
+                user_id: context.userId,
+                chat_id: context.chatId,
+                name,
+                cron: cronExpr,
+                prompt,
+            })
             .select("id")
             .single();
 
@@ -116,7 +126,7 @@ registerTool({
         }
 
         const id = data.id as number;
-        startTaskJob(id, name, cronExpr, prompt);
+        startTaskJob(id, name, cronExpr, prompt, context);
 
         return JSON.stringify({
             success: true,
@@ -135,10 +145,11 @@ registerTool({
         properties: {},
         required: [],
     },
-    async execute(): Promise<string> {
-        const { data: tasks } = await supabase
+    async execute(_input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const { data: tasks } = await db
             .from("scheduled_tasks")
             .select("id, name, cron, prompt, enabled, last_run, created_at")
+            .eq("user_id", userId)
             .order("created_at");
 
         return JSON.stringify({ tasks: tasks ?? [], count: tasks?.length ?? 0 });
@@ -156,13 +167,18 @@ registerTool({
         },
         required: ["id"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const id = input.id as number;
 
-        await supabase
+        const { count } = await db
             .from("scheduled_tasks")
-            .update({ enabled: false })
-            .eq("id", id);
+            .update({ enabled: false }, { count: "exact" })
+            .eq("id", id)
+            .eq("user_id", userId);
+
+        if (!count) {
+            return JSON.stringify({ error: `No scheduled task found with ID ${id}.` });
+        }
 
         const job = activeTaskJobs.get(id);
         if (job) {
@@ -185,16 +201,26 @@ registerTool({
         },
         required: ["id"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    requiresConfirmation: true,
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const id = input.id as number;
 
+        const { count } = await db
+            .from("scheduled_tasks")
+            .delete({ count: "exact" })
+            .eq("id", id)
+            .eq("user_id", userId);
+
+        if (!count) {
+            return JSON.stringify({ error: `No scheduled task found with ID ${id}.` });
+        }
+
         const job = activeTaskJobs.get(id);
         if (job) {
             job.stop();
             activeTaskJobs.delete(id);
         }
 
-        await supabase.from("scheduled_tasks").delete().eq("id", id);
         return JSON.stringify({ success: true, message: `Task #${id} deleted.` });
     },
 });
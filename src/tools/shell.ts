@@ -17,11 +17,25 @@ try {
     console.log("🐳 Docker not available — sandbox commands will run locally with confirmation");
 }
 
+// Commands that change state (even inside the sandbox) need the user's approval
+const RISKY_PATTERNS = [
+    /\brm\b/,
+    /\bmv\b/,
+    /\bchmod\b/,
+    /\bchown\b/,
+    /\bkill(all)?\b/,
+    /\bsudo\b/,
+    /\b(apt|apt-get|pip|npm|yarn)\s+(install|remove|uninstall)\b/,
+    /\bgit\s+(push|reset|clean)\b/,
+    /\|\s*(sh|bash)\b/,
+    />/,
+];
+
 // ─── Tool: run_command ───────────────────────────────────────────────
 registerTool({
     name: "run_command",
     description:
-        "Execute a shell command. If Docker is available, runs inside an isolated container. Dangerous commands require user confirmation. Use for file operations, system info, etc.",
+        "Execute a shell command. If Docker is available, runs inside an isolated container. Commands that modify files or the system — and every command when Docker is unavailable — require user confirmation. Use for file operations, system info, etc.",
     inputSchema: {
         type: "object" as const,
         properties: {
@@ -37,6 +51,10 @@ registerTool({
         },
         required: ["command"],
     },
+    // Without Docker the command runs on the host, so always ask
+    requiresConfirmation: (input) =>
+        !dockerAvailable ||
+        RISKY_PATTERNS.some((p) => p.test(String(input.command ?? ""))),
     async execute(input: Record<string, unknown>): Promise<string> {
         const command = input.command as string;
         const workDir = (input.working_dir as string) || "/tmp";
@@ -0,0 +1,140 @@
+import { registerTool, type ToolContext } from "./index.js";
+import { getPost } from "../posts.js";
+import { findStyle, getActiveStyle, getStyleById, type PostStyle } from "../post_styles.js";
+import {
+    addStyleSamples,
+    clearStyleSamples,
+    countStyleSamples,
+    describeFingerprint,
+    learnStyle,
+    scoreDraft,
+} from "../style_learning.js";
+
+// ─── Tool: add_style_samples ─────────────────────────────────────────
+registerTool({
+    name: "add_style_samples",
+    description:
+        "Saves posts the user wrote themselves (pasted into the chat) as samples to learn their writing style from. One entry per post. Forwarded posts (/learnstyle) and LinkedIn data export files are saved automatically.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            posts: {
+                type: "array",
+                items: { type: "string" },
+                description: "The full text of each post, unchanged.",
+            },
+        },
+        required: ["posts"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        const posts = (input.posts as string[] | undefined) ?? [];
+        try {
+            const result = await addStyleSamples(
+                userId,
+                posts.map((content) => ({ content, source: "paste" as const }))
+            );
+            return JSON.stringify({ success: true, ...result, total_samples: await countStyleSamples(userId) });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: learn_linkedin_style ──────────────────────────────────────
+registerTool({
+    name: "learn_linkedin_style",
+    description:
+        "Learns the user's writing style from their saved post samples (plus posts published through the bot): measures hooks, sentence length, emoji/hashtag use, structure and vocabulary into a fingerprint, writes a style guide from it and saves both as a style. Scheduled drafts in this style are scored against the fingerprint. Needs at least 3 posts.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            name: { type: "string", description: 'Name for the style, e.g. "my_voice".' },
+            set_active: { type: "boolean", description: "Make it the default style (default: false)." },
+            include_published: {
+                type: "boolean",
+                description: "Also learn from posts published through the bot (default: true).",
+            },
+        },
+        required: ["name"],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        try {
+            const learned = await learnStyle(userId, input.name as string, {
+                setActive: (input.set_active as boolean | undefined) ?? false,
+                includePublished: (input.include_published as boolean | undefined) ?? true,
+            });
+            return JSON.stringify({
+                success: true,
+                name: learned.name,
+                learned_from: learned.samples,
+                fingerprint: describeFingerprint(learned.fingerprint),
+                style_guide: learned.style_guide,
+                instruction:
+                    "Summarize the main traits for the user. Offer to make it the default style or assign it to topics, pillars or weekdays with assign_post_style.",
+            });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: score_post_style ──────────────────────────────────────────
+registerTool({
+    name: "score_post_style",
+    description:
+        "Scores a post (by post_id) or a text 0-100 against the fingerprint of a learned style and lists the biggest deviations. Uses the named style, else the post's own style, else the active style.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {
+            post_id: { type: "number", description: "A saved post." },
+            text: { type: "string", description: "Text to score instead of a saved post." },
+            style: { type: "string", description: "Style name (must be a learned style)." },
+        },
+        required: [],
+    },
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        try {
+            let text = input.text as string | undefined;
+            let style: PostStyle | null = null;
+            if (input.post_id !== undefined) {
+                const post = await getPost(userId, input.post_id as number);
+                text = post.content;
+                if (!input.style && post.style_id !== null) style = await getStyleById(userId, post.style_id);
+            }
+            if (!text) return JSON.stringify({ error: "Give a post_id or a text to score." });
+
+            if (input.style) style = await findStyle(userId, input.style as string);
+            style ??= await getActiveStyle(userId);
+            if (!style) return JSON.stringify({ error: "No style to score against." });
+            if (!style.fingerprint) {
+                return JSON.stringify({
+                    error: `Style "${style.name}" was written by hand and has no fingerprint. Learn one from the user's posts with learn_linkedin_style.`,
+                });
+            }
+
+            return JSON.stringify({ style: style.name, ...scoreDraft(text, style.fingerprint) });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
+
+// ─── Tool: clear_style_samples ───────────────────────────────────────
+registerTool({
+    name: "clear_style_samples",
+    description: "Deletes all saved post samples, e.g. before learning a style from a fresh set. Learned styles are kept.",
+    inputSchema: {
+        type: "object" as const,
+        properties: {},
+        required: [],
+    },
+    requiresConfirmation: true,
+    async execute(_input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
+        try {
+            const deleted = await clearStyleSamples(userId);
+            return JSON.stringify({ success: true, deleted });
+        } catch (err) {
+            return JSON.stringify({ error: err instanceof Error ? err.message : String(err) });
+        }
+    },
+});
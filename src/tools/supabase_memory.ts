@@ -1,38 +1,12 @@
-import { registerTool } from "./index.js";
-import { supabase } from "../supabase.js";
+import { registerTool, type ToolContext } from "./index.js";
+import { db } from "../db.js";
+import { embeddingColumns } from "../embeddings.js";
+import { invalidateMemoryCache } from "../memory_retrieval.js";
 
 // ─── Supabase Memory Tools ──────────────────────────────────────────
-// These tools use the shared Supabase client for cloud-synced semantic search.
-// Requires SUPABASE_URL and SUPABASE_KEY (now required in config).
-// Optional: OPENAI_API_KEY for embeddings.
-
-const OPENAI_API_KEY = process.env.OPENAI_API_KEY;
-
-// ─── Embedding generation ────────────────────────────────────────────
-async function getEmbedding(text: string): Promise<number[]> {
-    if (!OPENAI_API_KEY) {
-        throw new Error(
-            "OPENAI_API_KEY required for embeddings. Set it in .env."
-        );
-    }
-
-    const resp = await fetch("https://api.openai.com/v1/embeddings", {
-        method: "POST",
-        headers: {
-            Authorization: `Bearer ${OPENAI_API_KEY}`,
-            "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-            model: "text-embedding-3-small",
-            input: text,
-        }),
-    });
-
-    const data = (await resp.json()) as {
-        data: Array<{ embedding: number[] }>;
-    };
-    return data.data[0]!.embedding;
-}
+// Stores memories with vector embeddings in the shared database.
+// Searching (full-text + vector + relevance) is search_memory's job —
+// see memory_retrieval.ts. Optional: OPENAI_API_KEY for embeddings.
 
 // ─── Tool: sync_to_cloud ─────────────────────────────────────────────
 registerTool({
@@ -47,30 +21,29 @@ registerTool({
         },
         required: ["content"],
     },
-    async execute(input: Record<string, unknown>): Promise<string> {
+    async execute(input: Record<string, unknown>, { userId }: ToolContext): Promise<string> {
         const content = input.content as string;
         const category = (input.category as string) || "general";
 
         try {
-            let embedding: number[] | null = null;
-            if (OPENAI_API_KEY) {
-                embedding = await getEmbedding(content);
-            }
+            const vector = await embeddingColumns(content);
 
-            const { error } = await supabase.from("memories").insert({
+            const { error } = await db.from("memories").insert({
+                user_id: userId,
                 content,
                 category,
-                embedding,
+                ...vector,
             });
 
             if (error) {
                 return JSON.stringify({ error: `Sync failed: ${error.message}` });
             }
+            invalidateMemoryCache(userId);
 
             return JSON.stringify({
                 success: true,
                 message: "Memory synced to cloud.",
-                has_embedding: Boolean(embedding),
+                has_embedding: vector.embedding !== null,
             });
         } catch (err) {
             return JSON.stringify({
@@ -79,52 +52,3 @@ registerTool({
         }
     },
 });
-
-// ─── Tool: semantic_search ───────────────────────────────────────────
-registerTool({
-    name: "semantic_search",
-    description:
-        "Search memories by meaning using vector similarity (pgvector). Finds semantically related content even if the words are different. Requires OpenAI API key for embeddings.",
-    inputSchema: {
-        type: "object" as const,
-        properties: {
-            query: {
-                type: "string",
-                description: "Natural language search query.",
-            },
-            limit: { type: "number", description: "Max results (default: 5)." },
-        },
-        required: ["query"],
-    },
-    async execute(input: Record<string, unknown>): Promise<string> {
-        if (!OPENAI_API_KEY) {
-            return JSON.stringify({
-                error:
-                    "OPENAI_API_KEY required for semantic search. Set it in .env.",
-            });
-        }
-
-        const query = input.query as string;
-        const limit = (input.limit as number) || 5;
-
-        try {
-            const embedding = await getEmbedding(query);
-
-            const { data: result, error } = await supabase.rpc("match_memories", {
-                query_embedding: embedding,
-                match_threshold: 0.7,
-                match_count: limit,
-            });
-
-            if (error) {
-                return JSON.stringify({ error: `Semantic search failed: ${error.message}` });
-            }
-
-            return JSON.stringify({ query, results: result });
-        } catch (err) {
-            return JSON.stringify({
-                error: `Semantic search failed: ${err instanceof Error ? err.message : String(err)}`,
-            });
-        }
-    },
-});
@@ -1,6 +1,15 @@
 -- =====================================================================
 -- Gravity Claw — Supabase Migration
 -- Run this in Supabase Dashboard > SQL Editor (or via supabase db push)
+--
+-- Upgrading an install whose data predates per-user rows or calendar
+-- slot times? Put these lines above the script (in the SQL Editor), or
+-- run them as ALTER DATABASE postgres SET … once before db push:
+--   SET app.owner_id = '123456789';        -- your ID from ALLOWED_USER_IDS
+--   SET app.post_delivery_time = '07:00';  -- POST_DELIVERY_TIME
+--   SET app.post_timezone = 'Europe/Berlin';  -- POST_TIMEZONE
+-- The script stops with an error when existing rows need one of them and
+-- it is not set. Fresh installs need none.
 -- =====================================================================
 
 -- Enable pgvector extension for semantic search
@@ -108,11 +117,80 @@ CREATE TABLE IF NOT EXISTS scheduled_tasks (
     created_at TIMESTAMPTZ DEFAULT now()
 );
 
+-- ─── Per-user isolation ─────────────────────────────────────────────
+-- Every row belongs to a Telegram user; conversation history and
+-- scheduled tasks also remember the chat (private chat or group).
+-- Rows from a single-user install are assigned to app.owner_id (see the
+-- top of this file); their chat is the owner's private chat.
+ALTER TABLE topics ADD COLUMN IF NOT EXISTS user_id BIGINT;
+ALTER TABLE templates ADD COLUMN IF NOT EXISTS user_id BIGINT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS user_id BIGINT;
+ALTER TABLE profile ADD COLUMN IF NOT EXISTS user_id BIGINT;
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS user_id BIGINT;
+ALTER TABLE conversation_log ADD COLUMN IF NOT EXISTS user_id BIGINT;
+ALTER TABLE conversation_log ADD COLUMN IF NOT EXISTS chat_id BIGINT;
+ALTER TABLE linkedin_styles ADD COLUMN IF NOT EXISTS user_id BIGINT;
+ALTER TABLE entities ADD COLUMN IF NOT EXISTS user_id BIGINT;
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS user_id BIGINT;
+ALTER TABLE scheduled_tasks ADD COLUMN IF NOT EXISTS user_id BIGINT;
+ALTER TABLE scheduled_tasks ADD COLUMN IF NOT EXISTS chat_id BIGINT;
+
+DO $$
+DECLARE
+    owner_id BIGINT := NULLIF(current_setting('app.owner_id', true), '')::BIGINT;
+    tbl TEXT;
+    orphaned BOOLEAN;
+BEGIN
+    FOREACH tbl IN ARRAY ARRAY[
+        'topics', 'templates', 'posts', 'profile', 'memories', 'conversation_log',
+        'linkedin_styles', 'entities', 'relationships', 'scheduled_tasks'
+    ] LOOP
+        EXECUTE format('SELECT EXISTS (SELECT 1 FROM %I WHERE user_id IS NULL)', tbl) INTO orphaned;
+        CONTINUE WHEN NOT orphaned;
+        IF owner_id IS NULL THEN
+            RAISE EXCEPTION '% has rows without a user — run SET app.owner_id = ''<your Telegram user ID>''; first (see the top of this file)', tbl;
+        END IF;
+        EXECUTE format('UPDATE %I SET user_id = $1 WHERE user_id IS NULL', tbl) USING owner_id;
+    END LOOP;
+
+    UPDATE conversation_log SET chat_id = user_id WHERE chat_id IS NULL;
+    UPDATE scheduled_tasks SET chat_id = user_id WHERE chat_id IS NULL;
+END;
+$$;
+ALTER TABLE profile ALTER COLUMN user_id SET NOT NULL;
+
+-- Keys that used to be global are now unique per user
+ALTER TABLE profile DROP CONSTRAINT IF EXISTS profile_pkey;
+ALTER TABLE profile ADD PRIMARY KEY (user_id, key);
+ALTER TABLE templates DROP CONSTRAINT IF EXISTS templates_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_templates_user_name ON templates(user_id, name);
+ALTER TABLE linkedin_styles DROP CONSTRAINT IF EXISTS linkedin_styles_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_styles_user_name ON linkedin_styles(user_id, name);
+DROP INDEX IF EXISTS idx_entities_name_type;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_entities_user_name_type ON entities(user_id, name, type);
+
+CREATE INDEX IF NOT EXISTS idx_topics_user ON topics(user_id, week_start);
+CREATE INDEX IF NOT EXISTS idx_memories_user ON memories(user_id);
+CREATE INDEX IF NOT EXISTS idx_conversation_user_chat ON conversation_log(user_id, chat_id);
+
+-- ─── Structured conversation history ────────────────────────────────
+-- Tool calls and tool results are logged as their own messages: `blocks`
+-- holds the Anthropic content blocks (content keeps a readable rendering),
+-- `metadata` holds timing, errors and attachments (e.g. voice_url).
+ALTER TABLE conversation_log ADD COLUMN IF NOT EXISTS blocks JSONB;
+ALTER TABLE conversation_log ADD COLUMN IF NOT EXISTS metadata JSONB DEFAULT '{}';
+
 -- ─── Semantic Search Function (pgvector) ─────────────────────────────
+-- Nearest memories to a vector; used by duplicate detection. Only
+-- vectors from the same model (filter_embedding_model) are comparable.
+DROP FUNCTION IF EXISTS match_memories(vector, FLOAT, INT);
+DROP FUNCTION IF EXISTS match_memories(vector, FLOAT, INT, BIGINT);
 CREATE OR REPLACE FUNCTION match_memories(
     query_embedding vector(1536),
     match_threshold FLOAT,
-    match_count INT
+    match_count INT,
+    filter_user_id BIGINT DEFAULT NULL,
+    filter_embedding_model TEXT DEFAULT NULL
 )
 RETURNS TABLE (
     id BIGINT,
@@ -131,12 +209,581 @@ BEGIN
         1 - (m.embedding <=> query_embedding) AS similarity
     FROM memories m
     WHERE m.embedding IS NOT NULL
+      AND (filter_user_id IS NULL OR m.user_id = filter_user_id)
+      AND (filter_embedding_model IS NULL OR m.embedding_model = filter_embedding_model)
+      AND m.valid_to IS NULL
       AND 1 - (m.embedding <=> query_embedding) > match_threshold
     ORDER BY m.embedding <=> query_embedding
     LIMIT match_count;
 END;
 $$;
 
+-- ─── Hybrid memory retrieval ────────────────────────────────────────
+-- Full-text index over memory content, plus one ranking function that
+-- blends text rank, vector similarity and maintained relevance:
+--   score = text_weight * text_rank + vector_weight * similarity
+--         + relevance_weight * relevance (boosted by access_count)
+-- Query words are OR-ed, so natural sentences match partially.
+-- With require_match = false every memory is a candidate (relevance
+-- alone ranks the rest) — used to fill the system prompt.
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS content_tsv tsvector
+    GENERATED ALWAYS AS (to_tsvector('english', content)) STORED;
+CREATE INDEX IF NOT EXISTS idx_memories_content_tsv ON memories USING GIN (content_tsv);
+
+-- Which model produced each vector; only vectors from the query's model
+-- are compared. Vectors stored before this column came from OpenAI.
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS embedding_model TEXT;
+UPDATE memories SET embedding_model = 'openai:text-embedding-3-small'
+    WHERE embedding IS NOT NULL AND embedding_model IS NULL;
+
+DROP FUNCTION IF EXISTS hybrid_search_memories(TEXT, vector, INT, BIGINT, TEXT, BOOLEAN, FLOAT, FLOAT, FLOAT, FLOAT);
+CREATE OR REPLACE FUNCTION hybrid_search_memories(
+    query_text TEXT,
+    query_embedding vector(1536) DEFAULT NULL,
+    query_embedding_model TEXT DEFAULT NULL,
+    match_count INT DEFAULT 10,
+    filter_user_id BIGINT DEFAULT NULL,
+    filter_category TEXT DEFAULT NULL,
+    require_match BOOLEAN DEFAULT true,
+    min_similarity FLOAT DEFAULT 0.5,
+    text_weight FLOAT DEFAULT 0.35,
+    vector_weight FLOAT DEFAULT 0.45,
+    relevance_weight FLOAT DEFAULT 0.2
+)
+RETURNS TABLE (
+    id BIGINT,
+    content TEXT,
+    category TEXT,
+    created_at TIMESTAMPTZ,
+    text_rank FLOAT,
+    similarity FLOAT,
+    relevance FLOAT,
+    score FLOAT
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    ts_query tsquery;
+BEGIN
+    ts_query := NULLIF(replace(plainto_tsquery('english', coalesce(query_text, ''))::text, '&', '|'), '')::tsquery;
+
+    RETURN QUERY
+    WITH scored AS (
+        SELECT
+            m.id,
+            m.content,
+            m.category,
+            m.created_at,
+            CASE WHEN ts_query IS NULL THEN 0
+                 ELSE ts_rank_cd(m.content_tsv, ts_query, 32) END::FLOAT AS text_rank,
+            CASE WHEN query_embedding IS NULL OR m.embedding IS NULL
+                      OR m.embedding_model IS DISTINCT FROM query_embedding_model THEN 0
+                 ELSE 1 - (m.embedding <=> query_embedding) END::FLOAT AS similarity,
+            LEAST(1.0, coalesce(m.relevance, 1.0)
+                * (1 + 0.1 * ln(1 + coalesce(m.access_count, 0))))::FLOAT AS relevance
+        FROM memories m
+        WHERE (filter_user_id IS NULL OR m.user_id = filter_user_id)
+          AND (filter_category IS NULL OR m.category = filter_category)
+          AND m.valid_to IS NULL
+    )
+    SELECT
+        s.id, s.content, s.category, s.created_at, s.text_rank, s.similarity, s.relevance,
+        (text_weight * s.text_rank + vector_weight * s.similarity + relevance_weight * s.relevance)::FLOAT AS score
+    FROM scored s
+    WHERE NOT require_match OR s.text_rank > 0 OR s.similarity >= min_similarity
+    ORDER BY score DESC
+    LIMIT match_count;
+END;
+$$;
+
+-- ─── Fact versioning ────────────────────────────────────────────────
+-- Memories contradicted by a newer fact are closed (valid_to) instead of
+-- deleted. superseded_by points at the memory that replaced it; it stays
+-- NULL when a profile update did. Search and duplicate detection only
+-- see current memories (valid_to IS NULL).
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS valid_from TIMESTAMPTZ;
+UPDATE memories SET valid_from = created_at WHERE valid_from IS NULL;
+ALTER TABLE memories ALTER COLUMN valid_from SET DEFAULT now();
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS valid_to TIMESTAMPTZ;
+ALTER TABLE memories ADD COLUMN IF NOT EXISTS superseded_by BIGINT REFERENCES memories(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS idx_memories_user_current ON memories(user_id) WHERE valid_to IS NULL;
+
+-- Every value a profile key has had; the current one has valid_to NULL
+CREATE TABLE IF NOT EXISTS profile_history (
+    id BIGSERIAL PRIMARY KEY,
+    user_id BIGINT NOT NULL,
+    key TEXT NOT NULL,
+    value TEXT NOT NULL,
+    valid_from TIMESTAMPTZ DEFAULT now(),
+    valid_to TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_profile_history_user_key ON profile_history(user_id, key, valid_from);
+
+-- Seed the history with the values saved before it existed
+INSERT INTO profile_history (user_id, key, value, valid_from)
+SELECT p.user_id, p.key, p.value, p.updated_at
+FROM profile p
+WHERE p.user_id IS NOT NULL
+  AND NOT EXISTS (
+      SELECT 1 FROM profile_history h WHERE h.user_id = p.user_id AND h.key = p.key
+  );
+
+-- ─── Memory extraction ──────────────────────────────────────────────
+-- Every few turns, new conversation_log messages are read for facts,
+-- profile updates, entities and relationships. extraction_runs records
+-- how far each chat has been read; extracted_items logs every write a
+-- run made, with what undoing it needs (the /memories review command).
+CREATE TABLE IF NOT EXISTS extraction_runs (
+    id BIGSERIAL PRIMARY KEY,
+    user_id BIGINT NOT NULL,
+    chat_id BIGINT NOT NULL,
+    last_log_id BIGINT NOT NULL,
+    items INT DEFAULT 0,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_extraction_runs_chat ON extraction_runs(user_id, chat_id, id);
+
+CREATE TABLE IF NOT EXISTS extracted_items (
+    id BIGSERIAL PRIMARY KEY,
+    run_id BIGINT REFERENCES extraction_runs(id) ON DELETE CASCADE,
+    user_id BIGINT NOT NULL,
+    kind TEXT NOT NULL,            -- memory | profile | entity | relationship
+    target_id BIGINT,              -- the memory, entity or relationship written
+    summary TEXT NOT NULL,
+    details JSONB DEFAULT '{}',    -- previous values and superseded memory ids
+    undone_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_extracted_items_user ON extracted_items(user_id, created_at);
+
+-- ─── Entity resolution ──────────────────────────────────────────────
+-- normalized_name (set by the bot: lowercase, no accents, punctuation or
+-- legal suffixes) lets "Anthropic" and "Anthropic PBC" resolve to one
+-- entity; other names it goes by are kept in properties.aliases.
+ALTER TABLE entities ADD COLUMN IF NOT EXISTS normalized_name TEXT;
+CREATE INDEX IF NOT EXISTS idx_entities_user_normalized ON entities(user_id, normalized_name);
+
+-- ─── Relationship weights & validity ────────────────────────────────
+-- A relationship is stored once: repeating it raises mention_count and
+-- weight (confidence, 1 - 0.5^mentions). Relationships that ended keep
+-- their row with valid_to set; only current ones must be unique.
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS mention_count INT DEFAULT 1;
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS weight REAL DEFAULT 0.5;
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS last_mentioned_at TIMESTAMPTZ DEFAULT now();
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS valid_from TIMESTAMPTZ;
+UPDATE relationships SET valid_from = created_at WHERE valid_from IS NULL;
+ALTER TABLE relationships ALTER COLUMN valid_from SET DEFAULT now();
+ALTER TABLE relationships ADD COLUMN IF NOT EXISTS valid_to TIMESTAMPTZ;
+
+-- Fold duplicate edges saved so far into the oldest one
+UPDATE relationships r
+SET mention_count = d.n, weight = 1 - power(0.5, d.n)
+FROM (
+    SELECT MIN(id) AS id, COUNT(*) AS n
+    FROM relationships
+    WHERE valid_to IS NULL
+    GROUP BY from_id, to_id, type
+    HAVING COUNT(*) > 1
+) d
+WHERE r.id = d.id;
+DELETE FROM relationships r
+USING relationships keep
+WHERE r.valid_to IS NULL AND keep.valid_to IS NULL
+  AND r.from_id = keep.from_id AND r.to_id = keep.to_id AND r.type = keep.type
+  AND r.id > keep.id;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_rel_current ON relationships(from_id, to_id, type) WHERE valid_to IS NULL;
+
+-- ─── Knowledge graph traversal ──────────────────────────────────────
+-- Breadth-first walks over relationships in one call instead of one
+-- round trip per node. direction: 'outgoing' follows from → to edges,
+-- 'incoming' the reverse, 'both' either way; edge_types (NULL = all)
+-- limits which relationship types are followed. Relationships whose
+-- valid_to has passed are skipped unless include_expired. Each level
+-- only expands the entities first reached at the level before, so every
+-- entity is visited once at its shortest depth; walks stop after 10000
+-- entities.
+DROP FUNCTION IF EXISTS traverse_graph(BIGINT, INT, BIGINT, TEXT[], TEXT, INT);
+DROP FUNCTION IF EXISTS find_graph_path(BIGINT, BIGINT, INT, BIGINT, TEXT[], TEXT);
+
+-- Every entity reachable from start_id within max_depth, at its
+-- shortest distance, with the edge it was reached by
+CREATE OR REPLACE FUNCTION traverse_graph(
+    start_id BIGINT,
+    max_depth INT DEFAULT 3,
+    filter_user_id BIGINT DEFAULT NULL,
+    edge_types TEXT[] DEFAULT NULL,
+    direction TEXT DEFAULT 'both',
+    max_results INT DEFAULT 100,
+    include_expired BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    entity_id BIGINT,
+    name TEXT,
+    type TEXT,
+    properties JSONB,
+    depth INT,
+    via TEXT,
+    via_direction TEXT,
+    parent_id BIGINT
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    walk_cap CONSTANT INT := 10000;
+    hop INT := 0;
+    reached INT := 1;
+    added INT;
+BEGIN
+    DROP TABLE IF EXISTS pg_temp.graph_walk;
+    CREATE TEMP TABLE graph_walk (
+        node BIGINT PRIMARY KEY,
+        hops INT NOT NULL,
+        rel_type TEXT,
+        dir TEXT,
+        parent BIGINT
+    ) ON COMMIT DROP;
+    INSERT INTO graph_walk VALUES (start_id, 0, NULL, NULL, NULL);
+
+    WHILE hop < max_depth AND reached < walk_cap LOOP
+        INSERT INTO graph_walk (node, hops, rel_type, dir, parent)
+        SELECT DISTINCT ON (e.dst) e.dst, hop + 1, e.rel_type, e.dir, e.src
+        FROM graph_walk w
+        CROSS JOIN LATERAL (
+            SELECT r.from_id AS src, r.to_id AS dst, r.type AS rel_type, 'outgoing'::TEXT AS dir
+            FROM relationships r
+            WHERE r.from_id = w.node
+              AND traverse_graph.direction IN ('outgoing', 'both')
+              AND (filter_user_id IS NULL OR r.user_id = filter_user_id)
+              AND (edge_types IS NULL OR r.type = ANY(edge_types))
+              AND (include_expired OR r.valid_to IS NULL OR r.valid_to > now())
+            UNION ALL
+            SELECT r.to_id, r.from_id, r.type, 'incoming'::TEXT
+            FROM relationships r
+            WHERE r.to_id = w.node
+              AND traverse_graph.direction IN ('incoming', 'both')
+              AND (filter_user_id IS NULL OR r.user_id = filter_user_id)
+              AND (edge_types IS NULL OR r.type = ANY(edge_types))
+              AND (include_expired OR r.valid_to IS NULL OR r.valid_to > now())
+        ) e
+        WHERE w.hops = hop
+          AND NOT EXISTS (SELECT 1 FROM graph_walk seen WHERE seen.node = e.dst)
+        ORDER BY e.dst, e.src, e.rel_type
+        LIMIT walk_cap - reached;
+        GET DIAGNOSTICS added = ROW_COUNT;
+        EXIT WHEN added = 0;
+        reached := reached + added;
+        hop := hop + 1;
+    END LOOP;
+
+    RETURN QUERY
+    SELECT en.id, en.name, en.type, en.properties, w.hops, w.rel_type, w.dir, w.parent
+    FROM graph_walk w
+    JOIN entities en ON en.id = w.node
+    ORDER BY w.hops, en.name
+    LIMIT max_results;
+END;
+$$;
+
+-- One shortest path from from_id to to_id (no rows if none within
+-- max_depth); step 0 is from_id, via is the edge into each step
+CREATE OR REPLACE FUNCTION find_graph_path(
+    from_id BIGINT,
+    to_id BIGINT,
+    max_depth INT DEFAULT 4,
+    filter_user_id BIGINT DEFAULT NULL,
+    edge_types TEXT[] DEFAULT NULL,
+    direction TEXT DEFAULT 'both',
+    include_expired BOOLEAN DEFAULT false
+)
+RETURNS TABLE (
+    step INT,
+    entity_id BIGINT,
+    name TEXT,
+    type TEXT,
+    via TEXT,
+    via_direction TEXT
+)
+LANGUAGE plpgsql
+AS $$
+#variable_conflict use_column
+DECLARE
+    walk_cap CONSTANT INT := 10000;
+    hop INT := 0;
+    reached INT := 1;
+    added INT;
+BEGIN
+    DROP TABLE IF EXISTS pg_temp.graph_path_walk;
+    CREATE TEMP TABLE graph_path_walk (
+        node BIGINT PRIMARY KEY,
+        hops INT NOT NULL,
+        rel_type TEXT,
+        dir TEXT,
+        parent BIGINT
+    ) ON COMMIT DROP;
+    INSERT INTO graph_path_walk VALUES (find_graph_path.from_id, 0, NULL, NULL, NULL);
+
+    WHILE hop < max_depth AND reached < walk_cap
+          AND NOT EXISTS (SELECT 1 FROM graph_path_walk g WHERE g.node = find_graph_path.to_id) LOOP
+        INSERT INTO graph_path_walk (node, hops, rel_type, dir, parent)
+        SELECT DISTINCT ON (e.dst) e.dst, hop + 1, e.rel_type, e.dir, e.src
+        FROM graph_path_walk w
+        CROSS JOIN LATERAL (
+            SELECT r.from_id AS src, r.to_id AS dst, r.type AS rel_type, 'outgoing'::TEXT AS dir
+            FROM relationships r
+            WHERE r.from_id = w.node
+              AND find_graph_path.direction IN ('outgoing', 'both')
+              AND (filter_user_id IS NULL OR r.user_id = filter_user_id)
+              AND (edge_types IS NULL OR r.type = ANY(edge_types))
+              AND (include_expired OR r.valid_to IS NULL OR r.valid_to > now())
+            UNION ALL
+            SELECT r.to_id, r.from_id, r.type, 'incoming'::TEXT
+            FROM relationships r
+            WHERE r.to_id = w.node
+              AND find_graph_path.direction IN ('incoming', 'both')
+              AND (filter_user_id IS NULL OR r.user_id = filter_user_id)
+              AND (edge_types IS NULL OR r.type = ANY(edge_types))
+              AND (include_expired OR r.valid_to IS NULL OR r.valid_to > now())
+        ) e
+        WHERE w.hops = hop
+          AND NOT EXISTS (SELECT 1 FROM graph_path_walk seen WHERE seen.node = e.dst)
+        ORDER BY e.dst, e.src, e.rel_type
+        LIMIT walk_cap - reached;
+        GET DIAGNOSTICS added = ROW_COUNT;
+        EXIT WHEN added = 0;
+        reached := reached + added;
+        hop := hop + 1;
+    END LOOP;
+
+    -- Follow the parents back from to_id; empty if it was never reached
+    RETURN QUERY
+    WITH RECURSIVE route AS (
+        SELECT g.node, g.hops, g.rel_type, g.dir, g.parent
+        FROM graph_path_walk g
+        WHERE g.node = find_graph_path.to_id
+        UNION ALL
+        SELECT g.node, g.hops, g.rel_type, g.dir, g.parent
+        FROM graph_path_walk g
+        JOIN route ON g.node = route.parent
+    )
+    SELECT rt.hops, en.id, en.name, en.type, rt.rel_type, rt.dir
+    FROM route rt
+    JOIN entities en ON en.id = rt.node
+    ORDER BY rt.hops;
+END;
+$$;
+
+-- ─── Post review ────────────────────────────────────────────────────
+-- Generated posts go through draft → revised → approved → published.
+-- Every version (generated, regenerated, shortened, new hook, edited by
+-- hand) is kept in post_revisions; posts.content is the latest one and
+-- posts.prompt the generation prompt "Regenerate" reuses.
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS status TEXT DEFAULT 'draft';
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS prompt TEXT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT now();
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS approved_at TIMESTAMPTZ;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS published_at TIMESTAMPTZ;
+-- Posts delivered before the review loop were never reviewed
+UPDATE posts SET status = 'approved' WHERE status = 'draft' AND delivered = true;
+CREATE INDEX IF NOT EXISTS idx_posts_user_status ON posts(user_id, status);
+
+CREATE TABLE IF NOT EXISTS post_revisions (
+    id BIGSERIAL PRIMARY KEY,
+    post_id BIGINT REFERENCES posts(id) ON DELETE CASCADE,
+    user_id BIGINT NOT NULL,
+    revision INT NOT NULL,
+    action TEXT NOT NULL,          -- generated | regenerate | shorter | hook | manual
+    content TEXT NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+CREATE INDEX IF NOT EXISTS idx_post_revisions_post ON post_revisions(post_id, revision);
+
+-- ─── Post publishing ────────────────────────────────────────────────
+-- Approved posts are published through the configured publisher, now or
+-- at publish_at; external_urn is the post's ID on LinkedIn. publisher is
+-- "linkedin", "dry-run" or "manual" (copy-pasted, then marked published).
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS publish_at TIMESTAMPTZ;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS publisher TEXT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS external_urn TEXT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS external_url TEXT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS publish_error TEXT;
+CREATE INDEX IF NOT EXISTS idx_posts_publish_at ON posts(publish_at) WHERE status = 'approved';
+
+-- Connected accounts; tokens are AES-256-GCM encrypted by the bot
+-- (TOKEN_ENCRYPTION_KEY) and never stored in plain text
+CREATE TABLE IF NOT EXISTS oauth_tokens (
+    id BIGSERIAL PRIMARY KEY,
+    user_id BIGINT NOT NULL,
+    provider TEXT NOT NULL,
+    access_token TEXT NOT NULL,
+    refresh_token TEXT,
+    expires_at TIMESTAMPTZ,
+    account_id TEXT NOT NULL,      -- e.g. urn:li:person:abc123
+    account_name TEXT,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (user_id, provider)
+);
+
+-- OAuth authorizations waiting for the provider's redirect (state → user);
+-- a row is deleted when its redirect arrives, so each state works once
+CREATE TABLE IF NOT EXISTS oauth_states (
+    id BIGSERIAL PRIMARY KEY,
+    state TEXT NOT NULL UNIQUE,
+    user_id BIGINT NOT NULL,
+    provider TEXT NOT NULL,
+    expires_at TIMESTAMPTZ NOT NULL,
+    created_at TIMESTAMPTZ DEFAULT now()
+);
+
+-- ─── Post performance ──────────────────────────────────────────────
+-- Metrics of published posts, one snapshot per post and day (the latest
+-- counts), entered in chat, imported from LinkedIn's analytics export or
+-- read from the API. Topics carry a theme and posts the style they were
+-- written in, so performance can be compared per theme, template and style.
+ALTER TABLE topics ADD COLUMN IF NOT EXISTS theme TEXT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS style_id BIGINT REFERENCES linkedin_styles(id) ON DELETE SET NULL;
+
+CREATE TABLE IF NOT EXISTS post_metrics (
+    id BIGSERIAL PRIMARY KEY,
+    post_id BIGINT REFERENCES posts(id) ON DELETE CASCADE,
+    user_id BIGINT NOT NULL,
+    measured_on DATE NOT NULL DEFAULT CURRENT_DATE,
+    impressions INT NOT NULL DEFAULT 0,
+    reactions INT NOT NULL DEFAULT 0,
+    comments INT NOT NULL DEFAULT 0,
+    reposts INT NOT NULL DEFAULT 0,
+    source TEXT NOT NULL,          -- manual | csv | api
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (post_id, measured_on)
+);
+CREATE INDEX IF NOT EXISTS idx_post_metrics_user ON post_metrics(user_id, measured_on DESC);
+
+-- ─── Content calendar ──────────────────────────────────────────────
+-- Topics are calendar slots: scheduled_at is when the post is generated
+-- and delivered — any day, any time, several per day. week_start and
+-- day_index are kept in step by the bot for the weekly views.
+ALTER TABLE topics ADD COLUMN IF NOT EXISTS scheduled_at TIMESTAMPTZ;
+-- Existing topics get the old fixed slot: app.post_delivery_time in
+-- app.post_timezone (see the top of this file)
+DO $$
+DECLARE
+    delivery_time TEXT := NULLIF(current_setting('app.post_delivery_time', true), '');
+    tz_name TEXT := NULLIF(current_setting('app.post_timezone', true), '');
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM topics WHERE scheduled_at IS NULL) THEN
+        RETURN;
+    END IF;
+    IF delivery_time IS NULL OR tz_name IS NULL THEN
+        RAISE EXCEPTION 'topics need a slot time — run SET app.post_delivery_time = ''HH:MM''; and SET app.post_timezone = ''<POST_TIMEZONE>''; first (see the top of this file)';
+    END IF;
+
+    UPDATE topics
+    SET scheduled_at = ((week_start::date + day_index) + delivery_time::TIME) AT TIME ZONE tz_name
+    WHERE scheduled_at IS NULL;
+END;
+$$;
+ALTER TABLE topics ALTER COLUMN scheduled_at SET NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_topics_user_scheduled ON topics(user_id, scheduled_at);
+CREATE INDEX IF NOT EXISTS idx_topics_due ON topics(scheduled_at) WHERE status = 'confirmed';
+
+-- ─── Job ledger ────────────────────────────────────────────────────
+-- One row per intended run of a scheduled job (LinkedIn slots, publishing
+-- and reports, heartbeat checkers, briefings, scheduled tasks). The row is
+-- the lock: claim_job_run inserts it, or takes over a failed run or one
+-- whose instance stopped answering, atomically — so with several
+-- instances each run executes once.
+CREATE TABLE IF NOT EXISTS job_runs (
+    id BIGSERIAL PRIMARY KEY,
+    job TEXT NOT NULL,                 -- e.g. linkedin-slot:42, morning-briefing:123, task:7
+    scheduled_for TIMESTAMPTZ NOT NULL,
+    status TEXT NOT NULL,              -- running | succeeded | failed | missed
+    claimed_by TEXT,                   -- host:pid of the instance
+    claimed_at TIMESTAMPTZ DEFAULT now(),
+    finished_at TIMESTAMPTZ,
+    attempts INT NOT NULL DEFAULT 1,
+    error TEXT,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (job, scheduled_for)
+);
+
+CREATE OR REPLACE FUNCTION claim_job_run(
+    p_job TEXT,
+    p_scheduled_for TIMESTAMPTZ,
+    p_instance TEXT,
+    p_stale_seconds INT DEFAULT 1800,
+    p_max_attempts INT DEFAULT 3
+)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+AS $$
+DECLARE
+    claimed_id BIGINT;
+BEGIN
+    INSERT INTO job_runs (job, scheduled_for, status, claimed_by, claimed_at, attempts)
+    VALUES (p_job, p_scheduled_for, 'running', p_instance, now(), 1)
+    ON CONFLICT (job, scheduled_for) DO UPDATE
+        SET status = 'running',
+            claimed_by = EXCLUDED.claimed_by,
+            claimed_at = now(),
+            finished_at = NULL,
+            error = NULL,
+            attempts = job_runs.attempts + 1
+        WHERE job_runs.attempts < p_max_attempts
+          AND (job_runs.status = 'failed'
+               OR (job_runs.status = 'running'
+                   AND job_runs.claimed_at < now() - make_interval(secs => p_stale_seconds)))
+    RETURNING id INTO claimed_id;
+
+    RETURN claimed_id IS NOT NULL;
+END;
+$$;
+
+-- ─── Styles per slot ───────────────────────────────────────────────
+-- Which style guide and template a post is written with is chosen per
+-- field, most specific first: the topic's own, its content pillar's
+-- (topics.theme), its weekday's, else the active style and "default"
+-- template. A variant_style_id makes the post be written twice (A and B)
+-- for the user to pick; posts.variant marks the drafts awaiting the pick.
+ALTER TABLE topics ADD COLUMN IF NOT EXISTS style_id BIGINT REFERENCES linkedin_styles(id) ON DELETE SET NULL;
+ALTER TABLE topics ADD COLUMN IF NOT EXISTS template_id BIGINT REFERENCES templates(id) ON DELETE SET NULL;
+ALTER TABLE topics ADD COLUMN IF NOT EXISTS variant_style_id BIGINT REFERENCES linkedin_styles(id) ON DELETE SET NULL;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS variant TEXT;          -- A | B until one is picked
+
+CREATE TABLE IF NOT EXISTS content_assignments (
+    id BIGSERIAL PRIMARY KEY,
+    user_id BIGINT NOT NULL,
+    scope TEXT NOT NULL,               -- weekday | pillar
+    scope_key TEXT NOT NULL,           -- e.g. friday, ai strategy (lowercase)
+    style_id BIGINT REFERENCES linkedin_styles(id) ON DELETE SET NULL,
+    template_id BIGINT REFERENCES templates(id) ON DELETE SET NULL,
+    variant_style_id BIGINT REFERENCES linkedin_styles(id) ON DELETE SET NULL,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    updated_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (user_id, scope, scope_key)
+);
+
+-- ─── Learned styles ────────────────────────────────────────────────
+-- The user's own posts (pasted, forwarded or from LinkedIn's data export)
+-- are kept as samples. A style learned from them stores its measured
+-- fingerprint next to the generated guide; drafts in that style get a
+-- 0–100 style_score against it.
+CREATE TABLE IF NOT EXISTS style_samples (
+    id BIGSERIAL PRIMARY KEY,
+    user_id BIGINT NOT NULL,
+    source TEXT NOT NULL,              -- paste | forward | export
+    content TEXT NOT NULL,
+    content_hash TEXT NOT NULL,        -- sha256 of the normalized text
+    posted_at TIMESTAMPTZ,
+    created_at TIMESTAMPTZ DEFAULT now(),
+    UNIQUE (user_id, content_hash)
+);
+ALTER TABLE linkedin_styles ADD COLUMN IF NOT EXISTS fingerprint JSONB;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS style_score INT;
+
 -- ─── Supabase Storage bucket for voice messages ─────────────────────
 -- Create via Supabase Dashboard: Storage > New Bucket > "voice-messages"
 -- Or run: INSERT INTO storage.buckets (id, name, public) VALUES ('voice-messages', 'voice-messages', true);
@@ -153,6 +800,16 @@ ALTER TABLE linkedin_styles ENABLE ROW LEVEL SECURITY;
 ALTER TABLE entities ENABLE ROW LEVEL SECURITY;
 ALTER TABLE relationships ENABLE ROW LEVEL SECURITY;
 ALTER TABLE scheduled_tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE profile_history ENABLE ROW LEVEL SECURITY;
+ALTER TABLE extraction_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE extracted_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE post_revisions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE oauth_tokens ENABLE ROW LEVEL SECURITY;
+ALTER TABLE oauth_states ENABLE ROW LEVEL SECURITY;
+ALTER TABLE post_metrics ENABLE ROW LEVEL SECURITY;
+ALTER TABLE job_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE content_assignments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE style_samples ENABLE ROW LEVEL SECURITY;
 
 -- Allow service_role full access (your bot uses SUPABASE_KEY = service_role key)
 -- The service_role key bypasses RLS by default, so no explicit policies needed.
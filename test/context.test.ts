@@ -0,0 +1,74 @@
+// ─── Conversation context ────────────────────────────────────────────
+
+import "./env.js";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { ContextManager } from "../src/context.js";
+import type { Message } from "../src/llm.js";
+
+const call = (...ids: string[]): Message["content"] =>
+    ids.map((id) => ({ type: "tool_use" as const, id, name: "get_current_time", input: {} }));
+const result = (...ids: string[]): Message["content"] =>
+    ids.map((id) => ({ type: "tool_result" as const, tool_use_id: id, content: "12:00" }));
+
+// Each test talks in its own chat, so histories don't mix
+let nextChat = 100;
+const newContext = () => ContextManager.create(1, nextChat++);
+
+describe("tool message pairing", () => {
+    test("keeps a call followed by its results", async () => {
+        const context = await newContext();
+        context.addMessage("user", "What time is it?");
+        context.addMessage("assistant", call("a", "b"));
+        context.addMessage("user", result("b", "a"));
+        context.addMessage("assistant", "Noon.");
+
+        assert.deepEqual(context.getMessages(), [
+            { role: "user", content: "What time is it?" },
+            { role: "assistant", content: call("a", "b") },
+            { role: "user", content: result("b", "a") },
+            { role: "assistant", content: "Noon." },
+        ]);
+    });
+
+    test("drops a call whose results never arrived", async () => {
+        const context = await newContext();
+        context.addMessage("user", "What time is it?");
+        context.addMessage("assistant", call("a"));
+        context.addMessage("user", "Hello?");
+
+        assert.deepEqual(context.getMessages(), [
+            { role: "user", content: "What time is it?" },
+            { role: "user", content: "Hello?" },
+        ]);
+    });
+
+    test("drops a call with only some of its results, and results without a call", async () => {
+        const context = await newContext();
+        context.addMessage("user", "What time is it?");
+        context.addMessage("assistant", call("a", "b"));
+        context.addMessage("user", result("a"));
+        context.addMessage("user", result("c"));
+        context.addMessage("assistant", "Noon.");
+
+        assert.deepEqual(context.getMessages(), [
+            { role: "user", content: "What time is it?" },
+            { role: "assistant", content: "Noon." },
+        ]);
+    });
+
+    test("pairs the history loaded from the conversation log", async () => {
+        const context = await newContext();
+        context.addMessage("user", "What time is it?");
+        context.addMessage("assistant", call("a"));
+        context.addMessage("user", result("a"));
+        context.addMessage("assistant", "Noon.");
+        context.addMessage("user", "And now?");
+        context.addMessage("assistant", call("b"));
+        await context.flush();
+
+        const reloaded = await ContextManager.create(1, context.chatId);
+        assert.deepEqual(reloaded.getMessages(), context.getMessages());
+        assert.equal(reloaded.getMessages().length, 5);
+    });
+});
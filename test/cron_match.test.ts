@@ -0,0 +1,72 @@
+// ─── Cron expression matching ────────────────────────────────────────
+
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { compileCron, previousRun } from "../src/cron_match.js";
+
+const DAY = 24 * 60 * 60 * 1000;
+const iso = (d: Date | null) => d?.toISOString() ?? null;
+
+describe("previousRun", () => {
+    test("finds the latest matching minute at or before the time", () => {
+        // Sunday → the Friday before, 09:00 in Berlin (CEST, UTC+2)
+        assert.equal(
+            iso(previousRun("0 9 * * 1-5", "Europe/Berlin", new Date("2026-10-18T12:00:00Z"), 7 * DAY)),
+            "2026-10-16T07:00:00.000Z"
+        );
+        assert.equal(
+            iso(previousRun("0 9 * * 1-5", "Europe/Berlin", new Date("2026-10-16T07:00:00Z"), DAY)),
+            "2026-10-16T07:00:00.000Z"
+        );
+    });
+
+    test("returns null when nothing matched within the lookback", () => {
+        assert.equal(previousRun("0 9 1 1 *", "Europe/Berlin", new Date("2026-10-18T12:00:00Z"), 7 * DAY), null);
+    });
+
+    test("skips a wall-clock time that does not exist on the spring-forward day", () => {
+        // 02:30 never happens in Berlin on 2026-03-29; the day before was still CET (UTC+1)
+        assert.equal(
+            iso(previousRun("30 2 * * *", "Europe/Berlin", new Date("2026-03-29T12:00:00Z"), 7 * DAY)),
+            "2026-03-28T01:30:00.000Z"
+        );
+    });
+
+    test("finds each occurrence of a time repeated on the fall-back day", () => {
+        // 02:30 happens twice on 2026-10-25: in CEST (00:30Z), then in CET (01:30Z)
+        assert.equal(
+            iso(previousRun("30 2 * * *", "Europe/Berlin", new Date("2026-10-25T12:00:00Z"), DAY)),
+            "2026-10-25T01:30:00.000Z"
+        );
+        assert.equal(
+            iso(previousRun("30 2 * * *", "Europe/Berlin", new Date("2026-10-25T01:00:00Z"), DAY)),
+            "2026-10-25T00:30:00.000Z"
+        );
+    });
+
+    test("ignores the seconds field of 6-field expressions", () => {
+        assert.equal(
+            iso(previousRun("15 0 8 * * *", "UTC", new Date("2026-10-18T08:00:59Z"), DAY)),
+            "2026-10-18T08:00:00.000Z"
+        );
+    });
+});
+
+describe("compileCron", () => {
+    test("matches lists, steps, names and Sunday as 0 or 7", () => {
+        const at = (s: string) => new Date(s);
+        const matches = compileCron("*/15 8,17 * jan-mar sun", "UTC");
+        assert.equal(matches(at("2026-01-04T08:45:00Z")), true);
+        assert.equal(matches(at("2026-01-04T08:50:00Z")), false);
+        assert.equal(matches(at("2026-01-05T08:45:00Z")), false);
+        assert.equal(matches(at("2026-04-05T17:00:00Z")), false);
+        assert.equal(compileCron("0 12 * * 7", "UTC")(at("2026-10-18T12:00:00Z")), true);
+    });
+
+    test("rejects invalid expressions", () => {
+        assert.throws(() => compileCron("0 9 * *", "UTC"), /5 fields/);
+        assert.throws(() => compileCron("60 9 * * *", "UTC"), /out of range/);
+        assert.throws(() => compileCron("0 9-5 * * *", "UTC"), /Invalid range/);
+        assert.throws(() => compileCron("*/0 9 * * *", "UTC"), /Invalid step/);
+    });
+});
@@ -0,0 +1,22 @@
+// ─── Test settings ───────────────────────────────────────────────────
+// config.ts reads the environment when it is first imported, so test
+// files import this before any module of the bot. Storage is a throwaway
+// local store, removed when the test process exits.
+
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "gravity-claw-test-"));
+process.on("exit", () => fs.rmSync(dataDir, { recursive: true, force: true }));
+
+Object.assign(process.env, {
+    STORAGE_BACKEND: "local",
+    LOCAL_DATA_DIR: dataDir,
+    TELEGRAM_BOT_TOKEN: "test",
+    ANTHROPIC_API_KEY: "test",
+    ALLOWED_USER_IDS: "1",
+    EMBEDDING_PROVIDER: "none",
+    POST_TIMEZONE: "Europe/Berlin",
+    CATCH_UP_GRACE_MINUTES: "120",
+});
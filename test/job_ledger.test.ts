@@ -0,0 +1,84 @@
+// ─── Job ledger ──────────────────────────────────────────────────────
+
+import "./env.js";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { db } from "../src/db.js";
+import { catchUpMissedRun, runOnce, type LedgerJob } from "../src/job_ledger.js";
+
+// A daily 07:00 Berlin job; on 2026-10-19 that is 05:00Z
+const SCHEDULED = "2026-10-19T05:00:00.000Z";
+
+function dailyJob(name: string): LedgerJob & { runs: number } {
+    const job = {
+        name,
+        cron: "0 7 * * *",
+        timezone: "Europe/Berlin",
+        runs: 0,
+        run: async () => {
+            job.runs++;
+        },
+    };
+    return job;
+}
+
+async function ledgerRow(job: string): Promise<Record<string, unknown> | null> {
+    const { data } = await db.from("job_runs").select("status, attempts").eq("job", job).maybeSingle();
+    return data;
+}
+
+describe("runOnce", () => {
+    test("runs an occurrence once and records the outcome", async () => {
+        const job = dailyJob("once");
+        assert.equal(await runOnce(job.name, new Date(SCHEDULED), job.run), true);
+        assert.equal(await runOnce(job.name, new Date(SCHEDULED), job.run), false);
+        assert.equal(job.runs, 1);
+        assert.deepEqual(await ledgerRow("once"), { status: "succeeded", attempts: 1 });
+    });
+
+    test("records a failure and lets a retry claim it", async () => {
+        await assert.rejects(
+            runOnce("flaky", new Date(SCHEDULED), async () => {
+                throw new Error("boom");
+            }),
+            /boom/
+        );
+        assert.deepEqual(await ledgerRow("flaky"), { status: "failed", attempts: 1 });
+
+        assert.equal(await runOnce("flaky", new Date(SCHEDULED), async () => {}), true);
+        assert.deepEqual(await ledgerRow("flaky"), { status: "succeeded", attempts: 2 });
+    });
+});
+
+describe("catchUpMissedRun", () => {
+    test("makes up a run missed within the grace window", async () => {
+        const job = dailyJob("within-grace");
+        await catchUpMissedRun(job, new Date("2026-10-19T06:30:00Z"));
+        assert.equal(job.runs, 1);
+        assert.equal((await ledgerRow(job.name))?.status, "succeeded");
+    });
+
+    test("records a run missed beyond the grace window without running it", async () => {
+        const job = dailyJob("beyond-grace");
+        await catchUpMissedRun(job, new Date("2026-10-19T07:30:00Z"));
+        assert.equal(job.runs, 0);
+        assert.equal((await ledgerRow(job.name))?.status, "missed");
+    });
+
+    test("leaves a run that already happened alone", async () => {
+        const job = dailyJob("done");
+        await runOnce(job.name, new Date(SCHEDULED), job.run);
+        await catchUpMissedRun(job, new Date("2026-10-19T06:00:00Z"));
+        assert.equal(job.runs, 1);
+    });
+
+    test("retries a failed run within the grace window", async () => {
+        const job = dailyJob("failed-before");
+        await runOnce(job.name, new Date(SCHEDULED), async () => {
+            throw new Error("boom");
+        }).catch(() => {});
+        await catchUpMissedRun(job, new Date("2026-10-19T06:00:00Z"));
+        assert.equal(job.runs, 1);
+        assert.equal((await ledgerRow(job.name))?.status, "succeeded");
+    });
+});
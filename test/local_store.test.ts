@@ -0,0 +1,302 @@
+// ─── Local store ─────────────────────────────────────────────────────
+// The query builder and RPC mirrors against a throwaway data directory.
+// Run with: npm test
+
+import assert from "node:assert/strict";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, test } from "node:test";
+import type { Database } from "../src/db.js";
+import { createLocalDatabase } from "../src/local_store.js";
+
+let dir: string;
+let db: Database;
+
+beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "gravity-claw-store-"));
+    db = createLocalDatabase(dir);
+});
+
+afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+});
+
+// ─── Query builder ───────────────────────────────────────────────────
+describe("query builder", () => {
+    test("inserts with defaults and ids, and selects with filters, order and limit", async () => {
+        const { data: inserted, error } = await db
+            .from("posts")
+            .insert([
+                { user_id: 1, content: "first" },
+                { user_id: 1, content: "second" },
+                { user_id: 2, content: "other user" },
+            ])
+            .select("id, status, delivered");
+        assert.equal(error, null);
+        assert.deepEqual(inserted, [
+            { id: 1, status: "draft", delivered: false },
+            { id: 2, status: "draft", delivered: false },
+            { id: 3, status: "draft", delivered: false },
+        ]);
+
+        const { data } = await db
+            .from("posts")
+            .select("content")
+            .eq("user_id", 1)
+            .order("id", { ascending: false })
+            .limit(1);
+        assert.deepEqual(data, [{ content: "second" }]);
+
+        const { count } = await db.from("posts").select("id", { count: "exact", head: true }).in("user_id", [1, 2]);
+        assert.equal(count, 3);
+    });
+
+    test("persists to disk", async () => {
+        await db.from("templates").insert({ user_id: 1, name: "story", content: "..." });
+        const reopened = createLocalDatabase(dir);
+        const { data } = await reopened.from("templates").select("name").eq("user_id", 1).single();
+        assert.deepEqual(data, { name: "story" });
+    });
+
+    test("single and maybeSingle report missing and extra rows", async () => {
+        await db.from("templates").insert([
+            { user_id: 1, name: "a", content: "" },
+            { user_id: 1, name: "b", content: "" },
+        ]);
+
+        assert.deepEqual(await db.from("templates").select("name").eq("name", "x").maybeSingle(), {
+            data: null,
+            error: null,
+            count: null,
+        });
+        const { error } = await db.from("templates").select("name").eq("user_id", 1).maybeSingle();
+        assert.equal(error?.code, "PGRST116");
+    });
+
+    test("insert and update reject unique key violations", async () => {
+        await db.from("templates").insert([
+            { user_id: 1, name: "a", content: "" },
+            { user_id: 1, name: "b", content: "" },
+        ]);
+
+        const { error: insertError } = await db.from("templates").insert({ user_id: 1, name: "a", content: "" });
+        assert.equal(insertError?.code, "23505");
+
+        const { error: updateError } = await db.from("templates").update({ name: "a" }).eq("name", "b");
+        assert.equal(updateError?.code, "23505");
+        const { data } = await db.from("templates").select("name").order("name");
+        assert.deepEqual(data, [{ name: "a" }, { name: "b" }]);
+    });
+
+    test("a multi-row insert with a duplicate writes nothing", async () => {
+        await db.from("templates").insert({ user_id: 1, name: "a", content: "" });
+
+        const { error } = await db.from("templates").insert([
+            { user_id: 1, name: "b", content: "" },
+            { user_id: 1, name: "a", content: "" },
+        ]);
+        assert.equal(error?.code, "23505");
+        const { error: withinError } = await db.from("templates").insert([
+            { user_id: 1, name: "c", content: "" },
+            { user_id: 1, name: "c", content: "" },
+        ]);
+        assert.equal(withinError?.code, "23505");
+
+        // A later successful write must not persist the rejected rows
+        await db.from("templates").insert({ user_id: 2, name: "a", content: "" });
+        const reopened = createLocalDatabase(dir);
+        const { data } = await reopened.from("templates").select("user_id, name").order("id");
+        assert.deepEqual(data, [
+            { user_id: 1, name: "a" },
+            { user_id: 2, name: "a" },
+        ]);
+    });
+
+    test("a multi-row upsert with a clash changes nothing", async () => {
+        await db.from("templates").insert([
+            { user_id: 1, name: "a", content: "old" },
+            { user_id: 1, name: "b", content: "" },
+        ]);
+
+        const { error } = await db.from("templates").upsert(
+            [
+                { id: 1, user_id: 1, name: "a", content: "new" },
+                { id: 2, user_id: 1, name: "a", content: "" },
+            ],
+            { onConflict: "id" }
+        );
+        assert.equal(error?.code, "23505");
+        const { data } = await db.from("templates").select("name, content").order("id");
+        assert.deepEqual(data, [
+            { name: "a", content: "old" },
+            { name: "b", content: "" },
+        ]);
+    });
+
+    test("upsert inserts, updates on the conflict target, and honours ignoreDuplicates", async () => {
+        const upsert = (value: string, options: { ignoreDuplicates?: boolean } = {}) =>
+            db.from("profile").upsert({ user_id: 1, key: "role", value }, { onConflict: "user_id,key", ...options });
+
+        await upsert("engineer");
+        await upsert("manager");
+        await upsert("ignored", { ignoreDuplicates: true });
+
+        const { data } = await db.from("profile").select("key, value").eq("user_id", 1);
+        assert.deepEqual(data, [{ key: "role", value: "manager" }]);
+    });
+
+    test("upsert updates reject collisions on other unique keys", async () => {
+        await db.from("templates").insert([
+            { user_id: 1, name: "a", content: "" },
+            { user_id: 1, name: "b", content: "" },
+        ]);
+
+        const { error } = await db
+            .from("templates")
+            .upsert({ id: 2, user_id: 1, name: "a", content: "renamed" }, { onConflict: "id" });
+        assert.equal(error?.code, "23505");
+
+        const { data } = await db.from("templates").select("name, content").eq("id", 2).single();
+        assert.deepEqual(data, { name: "b", content: "" });
+    });
+
+    test("delete returns the deleted rows and counts", async () => {
+        await db.from("oauth_states").insert([
+            { state: "s1", user_id: 1, provider: "linkedin", expires_at: "2026-01-01T00:00:00.000Z" },
+            { state: "s2", user_id: 1, provider: "linkedin", expires_at: "2099-01-01T00:00:00.000Z" },
+        ]);
+
+        const { count } = await db
+            .from("oauth_states")
+            .delete({ count: "exact" })
+            .lt("expires_at", "2026-06-01T00:00:00.000Z");
+        assert.equal(count, 1);
+
+        const { data } = await db.from("oauth_states").delete().eq("state", "s2").select("user_id");
+        assert.deepEqual(data, [{ user_id: 1 }]);
+        const { data: again } = await db.from("oauth_states").delete().eq("state", "s2").select("user_id");
+        assert.deepEqual(again, []);
+    });
+});
+
+// ─── RPC mirrors ─────────────────────────────────────────────────────
+describe("rpc", () => {
+    // a → b → d, a → c → d, d → e: d is reachable two ways, e only through d
+    async function seedGraph(): Promise<Record<string, number>> {
+        const { data } = await db
+            .from("entities")
+            .insert(["a", "b", "c", "d", "e"].map((name) => ({ user_id: 1, name, type: "topic" })))
+            .select("id, name");
+        const ids = Object.fromEntries((data ?? []).map((e) => [e.name as string, e.id as number]));
+        const edge = (from: string, to: string, type = "related_to") => ({
+            user_id: 1,
+            from_id: ids[from],
+            to_id: ids[to],
+            type,
+        });
+        await db.from("relationships").insert([
+            edge("a", "b"),
+            edge("a", "c"),
+            edge("b", "d"),
+            edge("c", "d"),
+            edge("d", "e", "part_of"),
+        ]);
+        return ids;
+    }
+
+    test("traverse_graph reaches each entity once at its shortest depth", async () => {
+        const ids = await seedGraph();
+        const { data, error } = await db.rpc("traverse_graph", { start_id: ids.a, max_depth: 3, filter_user_id: 1 });
+        assert.equal(error, null);
+        const rows = data as Array<{ name: string; depth: number; parent_id: number }>;
+        assert.deepEqual(
+            rows.map((r) => [r.name, r.depth]),
+            [
+                ["a", 0],
+                ["b", 1],
+                ["c", 1],
+                ["d", 2],
+                ["e", 3],
+            ]
+        );
+        assert.equal(rows.find((r) => r.name === "e")!.parent_id, ids.d);
+    });
+
+    test("traverse_graph honours direction, edge types and depth", async () => {
+        const ids = await seedGraph();
+        const names = async (args: Record<string, unknown>) =>
+            ((await db.rpc("traverse_graph", { filter_user_id: 1, ...args })).data as Array<{ name: string }>).map(
+                (r) => r.name
+            );
+
+        assert.deepEqual(await names({ start_id: ids.d, direction: "outgoing" }), ["d", "e"]);
+        assert.deepEqual(await names({ start_id: ids.d, direction: "incoming", max_depth: 1 }), ["d", "b", "c"]);
+        assert.deepEqual(await names({ start_id: ids.a, edge_types: ["related_to"] }), ["a", "b", "c", "d"]);
+    });
+
+    test("find_graph_path returns one shortest path, or nothing", async () => {
+        const ids = await seedGraph();
+        const { data } = await db.rpc("find_graph_path", { from_id: ids.a, to_id: ids.e, filter_user_id: 1 });
+        const steps = data as Array<{ step: number; name: string; via: string | null }>;
+        assert.equal(steps.length, 4);
+        assert.deepEqual(
+            steps.map((s) => s.step),
+            [0, 1, 2, 3]
+        );
+        assert.equal(steps[0]!.name, "a");
+        assert.equal(steps[3]!.name, "e");
+        assert.equal(steps[3]!.via, "part_of");
+
+        const { data: tooShort } = await db.rpc("find_graph_path", {
+            from_id: ids.a,
+            to_id: ids.e,
+            max_depth: 2,
+            filter_user_id: 1,
+        });
+        assert.deepEqual(tooShort, []);
+    });
+
+    test("match_memories ranks by similarity and skips superseded memories", async () => {
+        await db.from("memories").insert([
+            { user_id: 1, content: "close", embedding: [1, 0] },
+            { user_id: 1, content: "far", embedding: [0, 1] },
+            { user_id: 1, content: "old", embedding: [1, 0], valid_to: "2026-01-01T00:00:00.000Z" },
+        ]);
+        const { data } = await db.rpc("match_memories", {
+            query_embedding: [1, 0.1],
+            match_threshold: 0.5,
+            match_count: 5,
+            filter_user_id: 1,
+        });
+        assert.deepEqual(
+            (data as Array<{ content: string }>).map((m) => m.content),
+            ["close"]
+        );
+    });
+
+    test("claim_job_run claims a run once and retries failed ones", async () => {
+        const claim = async () =>
+            (
+                await db.rpc("claim_job_run", {
+                    p_job: "report",
+                    p_scheduled_for: "2026-10-19T08:00:00.000Z",
+                    p_instance: "test",
+                    p_max_attempts: 2,
+                })
+            ).data;
+
+        assert.equal(await claim(), true);
+        assert.equal(await claim(), false);
+        await db.from("job_runs").update({ status: "failed" }).eq("job", "report");
+        assert.equal(await claim(), true);
+        await db.from("job_runs").update({ status: "failed" }).eq("job", "report");
+        assert.equal(await claim(), false);
+    });
+
+    test("unknown functions return an error", async () => {
+        const { data, error } = await db.rpc("no_such_function", {});
+        assert.equal(data, null);
+        assert.match(error!.message, /Unknown function/);
+    });
+});
@@ -0,0 +1,81 @@
+// ─── Post metrics CSV import ─────────────────────────────────────────
+
+import "./env.js";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { db } from "../src/db.js";
+import { importMetricsCsv, isMetricsCsv, latestMetrics, parseCsv } from "../src/post_metrics.js";
+
+describe("parseCsv", () => {
+    test("keeps delimiters, doubled quotes and line breaks inside quoted fields", () => {
+        const text = 'Title,Impressions\r\n"Q&A, part 2",1\n"She said ""hi""\nand left",2\n';
+        assert.deepEqual(parseCsv(text), [
+            ["Title", "Impressions"],
+            ["Q&A, part 2", "1"],
+            ['She said "hi"\nand left', "2"],
+        ]);
+    });
+
+    test("detects semicolon and tab delimiters from the first line", () => {
+        assert.deepEqual(parseCsv('Date;Impressions;Note\n14.03.2026;1,234;"a; b"'), [
+            ["Date", "Impressions", "Note"],
+            ["14.03.2026", "1,234", "a; b"],
+        ]);
+        assert.deepEqual(parseCsv("Date\tImpressions\n2026-03-14\t5\n\n"), [
+            ["Date", "Impressions"],
+            ["2026-03-14", "5"],
+        ]);
+    });
+
+    test("splits on the given delimiter only", () => {
+        assert.deepEqual(parseCsv("Report, 2026\nDate;Impressions", ";"), [["Report, 2026"], ["Date", "Impressions"]]);
+    });
+});
+
+describe("isMetricsCsv", () => {
+    test("finds the impressions header below a title block", () => {
+        assert.equal(isMetricsCsv("Post analytics, 2026\nExported 14.03.2026\n\nDate;Impressions;Reactions\n"), true);
+        assert.equal(isMetricsCsv('"Post URL"\t"Views"\n'), true);
+    });
+
+    test("rejects other CSV files", () => {
+        assert.equal(isMetricsCsv("a,b\n1,2\n"), false);
+        assert.equal(isMetricsCsv("Name,Impressionist\nMonet,1\n"), false);
+    });
+});
+
+describe("importMetricsCsv", () => {
+    test("reads a semicolon export with a title block and matches posts by local publish day", async () => {
+        // 00:30 on 14 March in Berlin, still the 13th in UTC
+        const { data: post } = await db
+            .from("posts")
+            .insert({ user_id: 1, content: "...", status: "published", published_at: "2026-03-13T23:30:00.000Z" })
+            .select("id")
+            .single();
+        const postId = post!.id as number;
+
+        const csv = [
+            "Post analytics, all posts",
+            "Range, 01.03.2026 - 31.03.2026",
+            "",
+            "Post publish date;Impressions;Reactions;Comments;Reposts",
+            "14.03.2026;1234;56;7;1",
+            "20.03.2026;10;1;0;0",
+        ].join("\n");
+
+        const result = await importMetricsCsv(1, csv);
+        assert.equal(result.imported, 1);
+        assert.equal(result.unmatched.length, 1);
+        assert.match(result.unmatched[0]!, /2026-03-20$/);
+
+        const metrics = (await latestMetrics(1, [postId])).get(postId);
+        assert.deepEqual(
+            metrics && { impressions: metrics.impressions, reactions: metrics.reactions, source: metrics.source },
+            { impressions: 1234, reactions: 56, source: "csv" }
+        );
+    });
+
+    test("rejects files without an impressions column", async () => {
+        await assert.rejects(importMetricsCsv(1, "a,b\n1,2\n"), /No header row/);
+    });
+});
@@ -0,0 +1,68 @@
+// ─── Style learning ──────────────────────────────────────────────────
+
+import "./env.js";
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { buildFingerprint, isSharesCsv, parseSharesCsv, scoreDraft } from "../src/style_learning.js";
+
+describe("parseSharesCsv", () => {
+    test("reads post text and dates from a LinkedIn Shares.csv", () => {
+        const csv =
+            "\uFEFFDate,ShareLink,ShareCommentary,SharedUrl,MediaUrl,Visibility\n" +
+            '2026-03-14 08:15:00,https://www.linkedin.com/feed/update/urn:li:share:1,"Three lessons, one year in:\n1. Ship early\n2. Ask ""why"" twice",,,MEMBER_NETWORK\n' +
+            "2026-03-10 17:00:00,https://www.linkedin.com/feed/update/urn:li:share:2,,https://example.com,,MEMBER_NETWORK\n";
+
+        assert.equal(isSharesCsv(csv.slice(1)), true);
+        assert.deepEqual(parseSharesCsv(csv), [
+            {
+                content: 'Three lessons, one year in:\n1. Ship early\n2. Ask "why" twice',
+                source: "export",
+                posted_at: "2026-03-14T08:15:00.000Z",
+            },
+        ]);
+    });
+
+    test("keeps posts with a date it cannot read", () => {
+        assert.deepEqual(parseSharesCsv("ShareCommentary,Date\nHello there,last week\n"), [
+            { content: "Hello there", source: "export", posted_at: null },
+        ]);
+    });
+
+    test("rejects other CSV files", () => {
+        assert.equal(isSharesCsv("Date,Impressions\n2026-03-14,5\n"), false);
+        assert.throws(() => parseSharesCsv("Date,Impressions\n2026-03-14,5\n"), /no ShareCommentary column/);
+    });
+});
+
+describe("scoreDraft", () => {
+    const posts = [
+        "I almost quit my first startup job.\n\nThe product was late. The team was tired.\n\nMy manager asked one question: what would make this week easier?\n\nThat question changed how I lead.\n\nWhat question changed yours?\n\n#leadership",
+        "I shipped a bug to production yesterday.\n\nNobody was angry. We fixed it in an hour.\n\nThe team trusted the process, not the person.\n\nHow does your team handle mistakes?\n\n#leadership",
+        "My best hire had no degree.\n\nShe had curiosity. She asked better questions than anyone.\n\nHiring for curiosity changed our team.\n\nWhat do you hire for?\n\n#hiring",
+        "I used to answer every message at once.\n\nMy team learned to wait for me. That was the problem.\n\nNow I answer twice a day and the team decides more.\n\nWhat habit did you drop as a leader?\n\n#leadership",
+    ];
+    const fingerprint = buildFingerprint(posts);
+
+    test("scores a draft in the user's style high", () => {
+        const draft =
+            "I cancelled our weekly status meeting.\n\nThe team was quiet. Then they started writing updates.\n\nThat changed how the team works.\n\nWhich meeting would you cancel?\n\n#leadership";
+        const { score, notes } = scoreDraft(draft, fingerprint);
+        assert.ok(score >= 85, `score ${score}`);
+        assert.deepEqual(notes, []);
+    });
+
+    test("scores a draft far from the style low and says why", () => {
+        const draft =
+            "🚀🚀 10 productivity tips every founder needs to know in 2026, because the market rewards those who relentlessly optimise their operating cadence across every function 🔥\n" +
+            "1. Automate reporting\n2. Batch meetings\n3. Delegate hiring\n4. Track everything\n" +
+            "Follow for more. 💡 #startups #productivity #founders #growth #ai #leadership";
+        const { score, notes } = scoreDraft(draft, fingerprint);
+        assert.ok(score < 50, `score ${score}`);
+        assert.equal(notes.length, 4);
+        assert.ok(notes.some((n) => /emojis/.test(n)));
+    });
+
+    test("needs at least one post", () => {
+        assert.throws(() => buildFingerprint([]), /at least one post/);
+    });
+});
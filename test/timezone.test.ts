@@ -0,0 +1,50 @@
+// ─── Wall-clock times in a time zone ─────────────────────────────────
+
+import assert from "node:assert/strict";
+import { describe, test } from "node:test";
+import { formatInTimeZone, parseUserTime } from "../src/timezone.js";
+
+const ZONE = "Europe/Berlin";
+const parse = (text: string, now: string) => parseUserTime(text, ZONE, new Date(now))?.toISOString() ?? null;
+
+describe("parseUserTime", () => {
+    // 10:00 in Berlin (CEST, UTC+2)
+    const NOW = "2026-10-19T08:00:00.000Z";
+
+    test("takes a bare time as its next occurrence", () => {
+        assert.equal(parse("11:00", NOW), "2026-10-19T09:00:00.000Z");
+        assert.equal(parse("9:30", NOW), "2026-10-20T07:30:00.000Z");
+        assert.equal(parse("10:00", NOW), "2026-10-20T08:00:00.000Z");
+    });
+
+    test("reads today and tomorrow in the zone, not in UTC", () => {
+        assert.equal(parse("today 09:30", NOW), "2026-10-19T07:30:00.000Z");
+        assert.equal(parse(" Tomorrow 08:00 ", NOW), "2026-10-20T06:00:00.000Z");
+        // 23:30 on 31 October in Berlin is still the 31st, and the clocks went back on the 25th
+        assert.equal(parse("tomorrow 09:00", "2026-10-31T22:30:00.000Z"), "2026-11-01T08:00:00.000Z");
+    });
+
+    test("uses the offset in force on the date given", () => {
+        assert.equal(parse("2026-03-14 12:00", NOW), "2026-03-14T11:00:00.000Z");
+        assert.equal(parse("2026-03-29 03:30", NOW), "2026-03-29T01:30:00.000Z");
+        assert.equal(parse("tomorrow 09:00", "2026-10-24T12:00:00.000Z"), "2026-10-25T08:00:00.000Z");
+    });
+
+    test("keeps the offset of a full ISO timestamp", () => {
+        assert.equal(parse("2026-03-14T12:00:00+05:30", NOW), "2026-03-14T06:30:00.000Z");
+        assert.equal(parse("2026-03-14T12:00Z", NOW), "2026-03-14T12:00:00.000Z");
+    });
+
+    test("rejects text that is not a time", () => {
+        for (const text of ["25:00", "12:60", "2026-13-01 10:00", "2026-03-00 10:00", "next friday", "", "0930"]) {
+            assert.equal(parse(text, NOW), null, text);
+        }
+    });
+});
+
+describe("formatInTimeZone", () => {
+    test("shows the wall clock of the zone", () => {
+        assert.equal(formatInTimeZone(new Date("2026-03-29T00:59:00Z"), ZONE), "2026-03-29 01:59");
+        assert.equal(formatInTimeZone(new Date("2026-03-29T01:00:00Z"), ZONE), "2026-03-29 03:00");
+    });
+});